@@ -13,7 +13,8 @@ async function main() {
     sourcesContent: false,
     platform: 'node',
     outfile: 'dist/extension.js',
-    external: ['vscode', 'better-sqlite3'],
+    // typescript 作为依赖随扩展发布：打包会丢失编译器需要的 lib.*.d.ts
+    external: ['vscode', 'better-sqlite3', 'typescript'],
     logLevel: 'info',
     plugins: [],
   });
@@ -2,6 +2,15 @@ import { existsSync, readFileSync } from 'node:fs';
 import { join, resolve } from 'node:path';
 import stripJsonComments from 'strip-json-comments';
 import packageJson from '../package.json' with { type: 'json' };
+import {
+  ENTITY_TYPES_SETTING,
+  RELATION_VERBS_SETTING,
+  SCHEMA_FILE_NAME,
+  buildVocabulary,
+  parseSchemaFile,
+  parseVocabularyTerms,
+  type GraphVocabulary
+} from './schema/vocabulary.js';
 
 export type LogLevel = 'debug' | 'info' | 'error';
 export type RagMode = 'local' | 'cloud' | 'none';
@@ -45,6 +54,10 @@ export interface ServerConfig {
    * RAG 相关配置
    */
   rag: RagConfig;
+  /**
+   * 实体类型与关系动词词汇表（内置 + schema.json + VS Code 设置）
+   */
+  vocabulary: GraphVocabulary;
 }
 
 type RawArgs = {
@@ -152,7 +165,11 @@ export function loadConfig(argv: string[] = process.argv.slice(2)): ServerConfig
     logLevel: raw.logLevel ?? 'info',
     serverVersion:
       typeof packageJson.version === 'string' ? packageJson.version : '0.0.0',
-    rag
+    rag,
+    vocabulary: buildVocabulary(readSchemaFile(workspaceRoot), {
+      entityTypes: parseVocabularyTerms(settings[ENTITY_TYPES_SETTING]),
+      relationVerbs: parseVocabularyTerms(settings[RELATION_VERBS_SETTING])
+    })
   };
 }
 
@@ -253,3 +270,16 @@ function readVsCodeSettings(workspaceRoot: string): Record<string, unknown> {
   }
 }
 
+
+function readSchemaFile(workspaceRoot: string): Partial<GraphVocabulary> {
+  const schemaPath = join(workspaceRoot, '.vscode', '.knowledge', SCHEMA_FILE_NAME);
+  if (!existsSync(schemaPath)) {
+    return {};
+  }
+  try {
+    return parseSchemaFile(readFileSync(schemaPath, 'utf-8'));
+  } catch {
+    // 词汇表只用于工具说明，文件无效时使用内置词汇
+    return {};
+  }
+}
@@ -1,5 +1,33 @@
 import { existsSync } from 'node:fs';
 import Database from 'better-sqlite3';
+import {
+  assertSchemaSupported,
+  type MigrationConnection
+} from './schema/migrations.js';
+import {
+  getRelationProperties,
+  type RelationProperties
+} from './schema/relationProperties.js';
+import {
+  DEFAULT_OBSERVATION_KIND,
+  OBSERVATION_SEVERITIES,
+  isObservationKind,
+  isObservationSeverity,
+  normalizeTags,
+  type ObservationKind,
+  type ObservationSeverity
+} from './schema/observationFields.js';
+import { normalizeAliases } from './schema/entityAliases.js';
+import {
+  SEARCH_INDEX_QUERY,
+  SEARCH_INDEX_TABLE,
+  buildMatchQuery,
+  rankSearchRows,
+  type RankedSearchRow,
+  type SearchField,
+  type SearchIndexRow
+} from './schema/fullTextSearch.js';
+import { parseGraphQuery, runGraphQuery } from './schema/graphQuery.js';
 
 export interface KnowledgeOverview {
   entityCount: number;
@@ -16,9 +44,19 @@ export interface EntityRecord {
   startLine: number;
   endLine: number;
   description: string | null;
+  /**
+   * 别名（包括合并到该实体的重复实体的名称和 ID）
+   */
+  aliases: string[];
   metadata: Record<string, unknown> | null;
   createdAt: number;
   updatedAt: number;
+  /**
+   * 全文检索时的 BM25 得分、命中字段和高亮片段（命中词用 « » 标记）
+   */
+  score?: number;
+  matchedFields?: SearchField[];
+  highlight?: string;
 }
 
 export interface ObservationRecord {
@@ -28,8 +66,17 @@ export interface ObservationRecord {
   entityType: string;
   filePath: string;
   content: string;
+  kind: ObservationKind;
+  tags: string[];
+  severity: ObservationSeverity | null;
   createdAt: number;
   updatedAt: number;
+  /**
+   * 全文检索时的 BM25 得分、命中字段和高亮片段（命中词用 « » 标记）
+   */
+  score?: number;
+  matchedFields?: SearchField[];
+  highlight?: string;
 }
 
 export interface RelationRecord {
@@ -44,6 +91,10 @@ export interface RelationRecord {
   targetName: string;
   targetType: string;
   targetFilePath: string;
+  /**
+   * 关系属性（label / weight / cardinality / confidence / sinceVersion）
+   */
+  properties: RelationProperties;
 }
 
 export interface SearchEntitiesParams {
@@ -53,9 +104,23 @@ export interface SearchEntitiesParams {
   limit?: number;
 }
 
+export interface QueryGraphParams {
+  /**
+   * 图谱查询语句，语法见 schema/graphQuery.ts
+   */
+  query: string;
+  limit?: number;
+}
+
 export interface SearchObservationsParams {
   query?: string;
   entityId?: string;
+  kind?: ObservationKind;
+  tag?: string;
+  /**
+   * 只返回严重程度不低于该级别的观察记录
+   */
+  minSeverity?: ObservationSeverity;
   limit?: number;
 }
 
@@ -63,6 +128,8 @@ export interface SearchRelationsParams {
   verb?: string;
   source?: string;
   target?: string;
+  minWeight?: number;
+  minConfidence?: number;
   limit?: number;
 }
 
@@ -81,6 +148,7 @@ type EntityRow = {
   start_line: number;
   end_line: number;
   description: string | null;
+  aliases: string | null;
   metadata: string | null;
   created_at: number;
   updated_at: number;
@@ -90,6 +158,9 @@ type ObservationRow = {
   id: string;
   entity_id: string;
   content: string;
+  kind: string | null;
+  tags: string | null;
+  severity: string | null;
   created_at: number;
   updated_at: number;
   entity_name: string;
@@ -103,6 +174,7 @@ type RelationRow = {
   target_entity_id: string;
   verb: string;
   created_at: number;
+  metadata: string | null;
   source_name: string;
   source_type: string;
   source_file_path: string;
@@ -113,6 +185,10 @@ type RelationRow = {
 
 export class GraphDatabase {
   private db: Database.Database | undefined;
+  private schemaVersion = 0;
+  private hasObservationFields = false;
+  private hasEntityAliases = false;
+  private hasSearchIndex = false;
 
   constructor(private readonly dbPath: string) {}
 
@@ -127,6 +203,24 @@ export class GraphDatabase {
       readonly: true,
       fileMustExist: true
     });
+
+    // 只读连接无法迁移；遇到更新版本的表结构时直接拒绝，避免查询时才报缺列
+    try {
+      this.schemaVersion = assertSchemaSupported(
+        createMigrationConnection(this.db)
+      );
+      this.hasObservationFields = this.hasColumn('observations', 'kind');
+      this.hasEntityAliases = this.hasColumn('entities', 'aliases');
+      this.hasSearchIndex = this.hasTable(SEARCH_INDEX_TABLE);
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  getSchemaVersion(): number {
+    this.ensureDb();
+    return this.schemaVersion;
   }
 
   close(): void {
@@ -168,11 +262,20 @@ export class GraphDatabase {
     const { query, type, filePath, limit } = params;
     const clauses: string[] = [];
     const values: (string | number)[] = [];
+    const matches = query?.trim() ? this.searchIndex(query, 'entity') : null;
 
-    if (query?.trim()) {
+    if (matches) {
+      clauses.push('id IN (SELECT value FROM json_each(?))');
+      values.push(JSON.stringify([...matches.keys()]));
+    } else if (query?.trim()) {
       const like = `%${query.trim()}%`;
-      clauses.push('(name LIKE ? OR file_path LIKE ? OR description LIKE ?)');
-      values.push(like, like, like);
+      if (this.hasEntityAliases) {
+        clauses.push('(name LIKE ? OR aliases LIKE ? OR file_path LIKE ? OR description LIKE ?)');
+        values.push(like, like, like, like);
+      } else {
+        clauses.push('(name LIKE ? OR file_path LIKE ? OR description LIKE ?)');
+        values.push(like, like, like);
+      }
     }
 
     if (type?.trim()) {
@@ -199,6 +302,7 @@ export class GraphDatabase {
           start_line,
           end_line,
           description,
+          ${this.hasEntityAliases ? 'aliases' : 'NULL AS aliases'},
           metadata,
           created_at,
           updated_at
@@ -208,26 +312,75 @@ export class GraphDatabase {
         LIMIT ?
       `
       )
-      .all(...values, safeLimit) as EntityRow[];
+      .all(...values, matches ? -1 : safeLimit) as EntityRow[];
 
-    return rows.map((row) => ({
-      id: row.id,
-      name: row.name,
-      type: row.type,
-      filePath: row.file_path,
-      startLine: row.start_line,
-      endLine: row.end_line,
-      description: row.description,
-      metadata: row.metadata ? this.safeParseJson(row.metadata) : null,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at
+    return this.orderByScore(rows, matches, safeLimit).map((row) => ({
+      ...this.toEntityRecord(row),
+      ...this.matchDetails(matches?.get(row.id))
     }));
   }
 
+  /**
+   * 执行图谱查询（类型、路径、关系遍历、观察记录和聚合条件），结果按名称排序
+   * 语法错误时抛出 GraphQuerySyntaxError
+   */
+  queryGraph(params: QueryGraphParams): EntityRecord[] {
+    const root = parseGraphQuery(params.query);
+    const db = this.ensureDb();
+
+    const entities = (
+      db
+        .prepare(
+          `
+          SELECT
+            id, name, type, file_path, start_line, end_line, description,
+            ${this.hasEntityAliases ? 'aliases' : 'NULL AS aliases'},
+            metadata, created_at, updated_at
+          FROM entities
+        `
+        )
+        .all() as EntityRow[]
+    ).map((row) => this.toEntityRecord(row));
+
+    const relations = (
+      db
+        .prepare('SELECT source_entity_id, target_entity_id, verb, metadata FROM relations')
+        .all() as Array<Pick<RelationRow, 'source_entity_id' | 'target_entity_id' | 'verb' | 'metadata'>>
+    ).map((row) => ({
+      sourceEntityId: row.source_entity_id,
+      targetEntityId: row.target_entity_id,
+      verb: row.verb,
+      metadata: this.safeParseJson(row.metadata)
+    }));
+
+    const observations = (
+      db
+        .prepare(
+          `
+          SELECT entity_id, content,
+            ${this.hasObservationFields ? 'kind, tags, severity' : 'NULL AS kind, NULL AS tags, NULL AS severity'}
+          FROM observations
+        `
+        )
+        .all() as Array<Pick<ObservationRow, 'entity_id' | 'content' | 'kind' | 'tags' | 'severity'>>
+    ).map((row) => ({
+      entityId: row.entity_id,
+      content: row.content,
+      kind: row.kind,
+      tags: normalizeTags(row.tags),
+      severity: row.severity
+    }));
+
+    return runGraphQuery(root, { entities, relations, observations }).slice(
+      0,
+      this.clampLimit(params.limit)
+    );
+  }
+
   searchObservations(
     params: SearchObservationsParams = {}
   ): ObservationRecord[] {
-    const { query, entityId, limit } = params;
+    const { query, entityId, kind, tag, minSeverity, limit } = params;
     const clauses: string[] = [];
     const values: (string | number)[] = [];
 
@@ -236,7 +389,34 @@ export class GraphDatabase {
       values.push(entityId.trim());
     }
 
-    if (query?.trim()) {
+    // 旧版本的数据库没有种类、标签和严重程度，所有记录都视为未设置的备注
+    if (!this.hasObservationFields && ((kind && kind !== DEFAULT_OBSERVATION_KIND) || tag?.trim() || minSeverity)) {
+      return [];
+    }
+
+    if (kind && this.hasObservationFields) {
+      clauses.push('o.kind = ?');
+      values.push(kind);
+    }
+
+    if (tag?.trim()) {
+      clauses.push(
+        "EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(o.tags) THEN o.tags ELSE '[]' END) WHERE json_each.value = ?)"
+      );
+      values.push(tag.trim().replace(/^#/, ''));
+    }
+
+    if (minSeverity) {
+      const severities = OBSERVATION_SEVERITIES.slice(OBSERVATION_SEVERITIES.indexOf(minSeverity));
+      clauses.push(`o.severity IN (${severities.map(() => '?').join(', ')})`);
+      values.push(...severities);
+    }
+
+    const matches = query?.trim() ? this.searchIndex(query, 'observation') : null;
+    if (matches) {
+      clauses.push('o.id IN (SELECT value FROM json_each(?))');
+      values.push(JSON.stringify([...matches.keys()]));
+    } else if (query?.trim()) {
       const like = `%${query.trim()}%`;
       clauses.push(
         '(o.content LIKE ? OR e.name LIKE ? OR e.file_path LIKE ?)'
@@ -254,6 +434,7 @@ export class GraphDatabase {
           o.id,
           o.entity_id,
           o.content,
+          ${this.hasObservationFields ? 'o.kind, o.tags, o.severity' : 'NULL AS kind, NULL AS tags, NULL AS severity'},
           o.created_at,
           o.updated_at,
           e.name AS entity_name,
@@ -266,22 +447,26 @@ export class GraphDatabase {
         LIMIT ?
       `
       )
-      .all(...values, safeLimit) as ObservationRow[];
+      .all(...values, matches ? -1 : safeLimit) as ObservationRow[];
 
-    return rows.map((row) => ({
+    return this.orderByScore(rows, matches, safeLimit).map((row) => ({
       id: row.id,
       entityId: row.entity_id,
       entityName: row.entity_name,
       entityType: row.entity_type,
       filePath: row.file_path,
       content: row.content,
+      kind: isObservationKind(row.kind) ? row.kind : DEFAULT_OBSERVATION_KIND,
+      tags: normalizeTags(row.tags),
+      severity: isObservationSeverity(row.severity) ? row.severity : null,
       createdAt: row.created_at,
-      updatedAt: row.updated_at
+      updatedAt: row.updated_at,
+      ...this.matchDetails(matches?.get(row.id))
     }));
   }
 
   searchRelations(params: SearchRelationsParams = {}): RelationRecord[] {
-    const { verb, source, target, limit } = params;
+    const { verb, source, target, minWeight, minConfidence, limit } = params;
     const clauses: string[] = [];
     const values: (string | number)[] = [];
 
@@ -302,6 +487,21 @@ export class GraphDatabase {
       values.push(like);
     }
 
+    // 关系属性保存在 metadata JSON 中，跳过无效的 JSON
+    if (minWeight !== undefined) {
+      clauses.push(
+        "CASE WHEN json_valid(r.metadata) THEN json_extract(r.metadata, '$.weight') END >= ?"
+      );
+      values.push(minWeight);
+    }
+
+    if (minConfidence !== undefined) {
+      clauses.push(
+        "CASE WHEN json_valid(r.metadata) THEN json_extract(r.metadata, '$.confidence') END >= ?"
+      );
+      values.push(minConfidence);
+    }
+
     const whereClause =
       clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
     const safeLimit = this.clampLimit(limit);
@@ -315,6 +515,7 @@ export class GraphDatabase {
           r.target_entity_id,
           r.verb,
           r.created_at,
+          r.metadata,
           s.name AS source_name,
           s.type AS source_type,
           s.file_path AS source_file_path,
@@ -342,7 +543,8 @@ export class GraphDatabase {
       targetEntityId: row.target_entity_id,
       targetName: row.target_name,
       targetType: row.target_type,
-      targetFilePath: row.target_file_path
+      targetFilePath: row.target_file_path,
+      properties: getRelationProperties(this.safeParseJson(row.metadata))
     }));
   }
 
@@ -357,6 +559,89 @@ export class GraphDatabase {
     return this.ensureDb();
   }
 
+  /**
+   * 在 search_index 中检索，返回按得分排序的命中（键为实体或观察记录 ID）
+   * 没有索引（旧版本数据库）、表达式无效或没有命中时返回 null，由调用方回退到 LIKE 搜索（如中文子串）
+   */
+  private searchIndex(
+    query: string,
+    kind: 'entity' | 'observation'
+  ): Map<string, RankedSearchRow> | null {
+    const matchQuery = buildMatchQuery(query);
+    if (!this.hasSearchIndex || !matchQuery) {
+      return null;
+    }
+    try {
+      const rows = this.ensureDb()
+        .prepare(SEARCH_INDEX_QUERY)
+        .all(matchQuery, kind) as SearchIndexRow[];
+      const ranked = rankSearchRows(rows);
+      return ranked.length > 0 ? new Map(ranked.map((row) => [row.itemId, row])) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 全文检索时按得分排序并截取前 limit 条，否则保持 SQL 的顺序
+   */
+  private orderByScore<T extends { id: string }>(
+    rows: T[],
+    matches: Map<string, RankedSearchRow> | null,
+    limit: number
+  ): T[] {
+    if (!matches) {
+      return rows;
+    }
+    return [...rows]
+      .sort((a, b) => (matches.get(b.id)?.score ?? 0) - (matches.get(a.id)?.score ?? 0))
+      .slice(0, limit);
+  }
+
+  private matchDetails(
+    match: RankedSearchRow | undefined
+  ): Pick<EntityRecord, 'score' | 'matchedFields' | 'highlight'> {
+    if (!match) {
+      return {};
+    }
+    return {
+      score: match.score,
+      matchedFields: match.matchedFields,
+      ...(match.highlight ? { highlight: match.highlight } : {})
+    };
+  }
+
+  private toEntityRecord(row: EntityRow): EntityRecord {
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      filePath: row.file_path,
+      startLine: row.start_line,
+      endLine: row.end_line,
+      description: row.description,
+      aliases: normalizeAliases(row.aliases, row.name),
+      metadata: row.metadata ? this.safeParseJson(row.metadata) : null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private hasTable(table: string): boolean {
+    return (
+      this.ensureDb()
+        .prepare("SELECT 1 FROM sqlite_master WHERE type IN ('table', 'view') AND name = ?")
+        .get(table) !== undefined
+    );
+  }
+
+  private hasColumn(table: string, column: string): boolean {
+    const columns = this.ensureDb()
+      .prepare(`PRAGMA table_info(${table})`)
+      .all() as Array<{ name: string }>;
+    return columns.some((item) => item.name === column);
+  }
+
   private clampLimit(limit?: number): number {
     if (typeof limit !== 'number' || Number.isNaN(limit)) {
       return 20;
@@ -376,3 +661,13 @@ export class GraphDatabase {
   }
 }
 
+export function createMigrationConnection(
+  db: Database.Database
+): MigrationConnection {
+  return {
+    exec: (sql) => {
+      db.exec(sql);
+    },
+    queryValue: (sql) => db.prepare(sql).pluck().get() ?? null
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * 实体别名
+ *
+ * 对应 entities 表的 aliases 列（JSON 数组）。合并重复实体时，被合并实体的名称和 ID 记为别名，
+ * 按名称查找实体时同时匹配别名（不区分大小写）。
+ * 本文件同时被 VS Code 插件和 MCP Server 使用，因此不能依赖任何第三方模块。
+ */
+
+/**
+ * 规范化别名：去掉首尾空白，忽略空别名和与实体名称相同的别名，去重后保持原顺序
+ * 只有大小写不同的名称也保留（合并 userService 到 UserService 时记录原名称）
+ * 支持数组和 aliases 列中的 JSON 数组
+ */
+export function normalizeAliases(value: unknown, name?: string): string[] {
+  let raw: unknown[] = [];
+  if (Array.isArray(value)) {
+    raw = value;
+  } else if (typeof value === 'string' && value.trim()) {
+    try {
+      const parsed = JSON.parse(value);
+      raw = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      raw = [];
+    }
+  }
+
+  const seen = new Set<string>(name ? [name] : []);
+  const aliases: string[] = [];
+  for (const item of raw) {
+    if (typeof item !== 'string') {
+      continue;
+    }
+    const alias = item.trim();
+    if (alias && !seen.has(alias)) {
+      seen.add(alias);
+      aliases.push(alias);
+    }
+  }
+  return aliases;
+}
+
+/**
+ * 名称或任一别名与 query 相同（不区分大小写）
+ */
+export function matchesEntityName(entity: { name: string; aliases?: string[] }, query: string): boolean {
+  const key = query.trim().toLowerCase();
+  return !!key && [entity.name, ...(entity.aliases || [])].some(name => name.toLowerCase() === key);
+}
@@ -0,0 +1,220 @@
+/**
+ * 全文检索（search_index 表）
+ *
+ * search_index 是 FTS4 虚拟表，由迁移中的触发器与 entities / observations 保持同步：
+ * 每个实体一行（kind = 'entity'），每条观察记录一行（kind = 'observation'，name / path 为所属实体的名称和路径）。
+ * sql.js 没有编译 FTS5，因此使用 FTS4 + porter 词干，BM25 根据 matchinfo 在这里计算。
+ * 本文件同时被 VS Code 插件和 MCP Server 使用，因此不能依赖任何第三方模块。
+ */
+
+export const SEARCH_INDEX_TABLE = 'search_index';
+
+export type SearchField = 'name' | 'aliases' | 'description' | 'content' | 'path';
+
+/** 索引中参与检索的列（顺序与表定义一致，其后是不建索引的 kind / item_id / entity_id） */
+export const SEARCH_FIELDS: SearchField[] = ['name', 'aliases', 'description', 'content', 'path'];
+
+/** 查询中可以使用的字段名，如 name:user、file:src/db */
+const FIELD_NAMES: Record<string, SearchField> = {
+  name: 'name',
+  alias: 'aliases',
+  aliases: 'aliases',
+  description: 'description',
+  desc: 'description',
+  content: 'content',
+  observation: 'content',
+  path: 'path',
+  file: 'path'
+};
+
+/** BM25 中各字段的权重 */
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 10,
+  aliases: 8,
+  description: 3,
+  content: 2,
+  path: 1
+};
+
+/** 观察记录行中的 name / path 是所属实体的，只用于组合查询，不参与评分 */
+export const OBSERVATION_FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 0,
+  aliases: 0,
+  description: 0,
+  content: 1,
+  path: 0
+};
+
+/** 高亮命中词使用的标记 */
+export const HIGHLIGHT_START = '«';
+export const HIGHLIGHT_END = '»';
+
+/**
+ * 查询 search_index 的 SQL，参数依次为 MATCH 表达式和 kind
+ * 返回 kind、item_id、entity_id、matchinfo（'pcnalx'）和高亮片段
+ */
+export const SEARCH_INDEX_QUERY = `
+  SELECT kind, item_id, entity_id,
+    matchinfo(${SEARCH_INDEX_TABLE}, 'pcnalx') AS info,
+    snippet(${SEARCH_INDEX_TABLE}, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', -1, 16) AS snippet
+  FROM ${SEARCH_INDEX_TABLE}
+  WHERE ${SEARCH_INDEX_TABLE} MATCH ? AND kind = ?
+`;
+
+export interface SearchIndexRow {
+  kind: string;
+  item_id: string;
+  entity_id: string;
+  info: Uint8Array;
+  snippet: string | null;
+}
+
+export interface RankedSearchRow {
+  kind: string;
+  itemId: string;
+  entityId: string;
+  /** BM25 得分，越大越相关 */
+  score: number;
+  matchedFields: SearchField[];
+  highlight?: string;
+}
+
+/**
+ * 把用户输入转换为 FTS4 MATCH 表达式，没有可检索的词时返回 null
+ * - 多个词：同时包含（AND），OR 表示或
+ * - 普通词按前缀匹配（user 可以匹配 UserService），结尾的 * 也表示前缀；
+ *   前缀同样经过 porter 词干处理（legacy* 查询的是 legaci*），没有命中时由调用方回退到 LIKE
+ * - "..."：短语
+ * - 字段:词 或 字段:"短语"：只在指定字段中匹配（name / alias / description / content / path）
+ */
+export function buildMatchQuery(query: string): string | null {
+  const parts: string[] = [];
+  const pattern = /(\w+):"([^"]*)"?|(\w+):(\S+)|"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    const [, quotedField, quotedValue, field, value, phrase, word] = match;
+    const column = FIELD_NAMES[(quotedField || field || '').toLowerCase()];
+    if (quotedField !== undefined) {
+      pushTerm(parts, toPhrase(quotedValue, false), column);
+    } else if (field !== undefined) {
+      // 不认识的字段名（如 URL 中的冒号）按普通文本处理
+      pushTerm(parts, column ? toPhrase(value, true) : toPhrase(match[0], true), column);
+    } else if (phrase !== undefined) {
+      pushTerm(parts, toPhrase(phrase, false));
+    } else if (word === 'OR') {
+      if (parts.length > 0 && parts[parts.length - 1] !== 'OR') {
+        parts.push('OR');
+      }
+    } else {
+      pushTerm(parts, toPhrase(word, true));
+    }
+  }
+
+  while (parts[parts.length - 1] === 'OR') {
+    parts.pop();
+  }
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+function pushTerm(parts: string[], term: string | null, column?: SearchField): void {
+  if (term) {
+    parts.push(column ? `${column}:${term}` : term);
+  }
+}
+
+/**
+ * 提取文本中的词；多个词组成短语，prefix 时最后一个词按前缀匹配
+ */
+function toPhrase(text: string, prefix: boolean): string | null {
+  const words = text.match(/[\p{L}\p{N}_]+/gu);
+  if (!words) {
+    return null;
+  }
+  if (prefix) {
+    words[words.length - 1] += '*';
+  }
+  return words.length === 1 ? words[0] : `"${words.join(' ')}"`;
+}
+
+interface MatchInfo {
+  phraseCount: number;
+  columnCount: number;
+  rowCount: number;
+  averageLengths: number[];
+  lengths: number[];
+  /** hits[phrase * columnCount + column] = [本行命中次数, 所有行命中次数, 命中的行数] */
+  hits: Array<[number, number, number]>;
+}
+
+/**
+ * 解析 matchinfo(table, 'pcnalx') 返回的 32 位整数数组（本机字节序）
+ */
+function parseMatchInfo(blob: Uint8Array): MatchInfo {
+  const values = new Uint32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+  const phraseCount = values[0];
+  const columnCount = values[1];
+  const rowCount = values[2];
+  const averageLengths = Array.from(values.slice(3, 3 + columnCount));
+  const lengths = Array.from(values.slice(3 + columnCount, 3 + 2 * columnCount));
+  const hits: Array<[number, number, number]> = [];
+  for (let i = 3 + 2 * columnCount; i + 2 < values.length; i += 3) {
+    hits.push([values[i], values[i + 1], values[i + 2]]);
+  }
+  return { phraseCount, columnCount, rowCount, averageLengths, lengths, hits };
+}
+
+/**
+ * BM25 得分（k1 = 1.2，b = 0.75，IDF 使用 log(1 + ...) 保证非负）
+ */
+export function bm25(info: Uint8Array, weights: Record<SearchField, number> = SEARCH_FIELD_WEIGHTS): number {
+  const parsed = parseMatchInfo(info);
+  const k1 = 1.2;
+  const b = 0.75;
+  let score = 0;
+  for (let phrase = 0; phrase < parsed.phraseCount; phrase++) {
+    SEARCH_FIELDS.forEach((field, column) => {
+      const [hitCount, , rowsWithHits] = parsed.hits[phrase * parsed.columnCount + column] || [0, 0, 0];
+      if (hitCount === 0 || !weights[field]) {
+        return;
+      }
+      const idf = Math.log(1 + (parsed.rowCount - rowsWithHits + 0.5) / (rowsWithHits + 0.5));
+      const lengthRatio = parsed.averageLengths[column] > 0 ? parsed.lengths[column] / parsed.averageLengths[column] : 1;
+      score += weights[field] * idf * (hitCount * (k1 + 1)) / (hitCount + k1 * (1 - b + b * lengthRatio));
+    });
+  }
+  return score;
+}
+
+/**
+ * 本行中有命中的字段
+ */
+export function matchedFields(info: Uint8Array): SearchField[] {
+  const parsed = parseMatchInfo(info);
+  return SEARCH_FIELDS.filter((_, column) => {
+    for (let phrase = 0; phrase < parsed.phraseCount; phrase++) {
+      if ((parsed.hits[phrase * parsed.columnCount + column]?.[0] || 0) > 0) {
+        return true;
+      }
+    }
+    return false;
+  });
+}
+
+/**
+ * 计算每行的得分和命中字段，按得分从高到低排序
+ */
+export function rankSearchRows(rows: SearchIndexRow[]): RankedSearchRow[] {
+  return rows
+    .map(row => {
+      const weights = row.kind === 'observation' ? OBSERVATION_FIELD_WEIGHTS : SEARCH_FIELD_WEIGHTS;
+      return {
+        kind: row.kind,
+        itemId: row.item_id,
+        entityId: row.entity_id,
+        score: bm25(row.info, weights),
+        matchedFields: matchedFields(row.info),
+        highlight: row.snippet || undefined,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,778 @@
+/**
+ * 图谱查询语言
+ *
+ * 在实体、关系和观察记录上做结构化查询，例如：
+ *   type:service path:src/api out:depends_on(obs(kind:security OR tag:security))
+ *   type:function count(obs) = 0 count(in:calls) > 5
+ *
+ * 语法：
+ * - 条件之间用空格或 AND 连接，也支持 OR、NOT 和括号
+ * - 实体字段：type、name、alias、path（file）、description（desc）、id
+ *   - 字段:值 匹配（名称和描述为包含，type 为相等，path 为目录前缀，值中有 * / ** / ? 时按通配符匹配），
+ *     字段=值 完全相等，字段!=值 不相等；多个值用逗号分隔，满足其一即可
+ *   - 不带字段的词匹配名称或别名
+ * - 关系遍历：out / in / both，后接可选的 :动词[,动词]、[属性条件]、*跳数 和 (目标实体条件)
+ *   - 属性条件：weight、confidence 支持 = != > >= < <=；cardinality、label、since 支持 : = !=
+ *   - 跳数：* 为 1 ~ 10 跳，*3 为 1 ~ 3 跳，*2..4 为 2 ~ 4 跳（按最短路径计算）
+ *   - 例：out:calls[weight>=2]*1..3(type:database)
+ * - 观察记录：obs(...) 表示至少有一条满足条件的观察记录，字段为 kind、tag、severity（支持 >= 等比较）、content
+ * - 聚合：count(obs(...)) 或 count(out/in/both ...) 后接比较运算符和数字，遍历按不同的实体计数
+ *
+ * 本文件同时被 VS Code 插件和 MCP Server 使用，因此不能依赖任何第三方模块。
+ */
+
+import { getRelationProperties, type RelationProperties } from './relationProperties.js';
+import {
+  DEFAULT_OBSERVATION_KIND,
+  isObservationSeverity,
+  normalizeTags,
+  severityRank,
+  type ObservationSeverity
+} from './observationFields.js';
+
+/** 遍历的最大跳数 */
+export const MAX_QUERY_HOPS = 10;
+
+export interface QueryEntity {
+  id: string;
+  name: string;
+  type: string;
+  filePath: string;
+  description?: string | null;
+  aliases?: string[];
+}
+
+export interface QueryRelation {
+  sourceEntityId: string;
+  targetEntityId: string;
+  verb: string;
+  /** 关系元数据，其中的结构化属性见 RelationProperties */
+  metadata?: unknown;
+}
+
+export interface QueryObservation {
+  entityId: string;
+  content: string;
+  kind?: string | null;
+  tags?: string[];
+  severity?: string | null;
+}
+
+/**
+ * 查询所需的整个图谱
+ */
+export interface GraphSnapshot<E extends QueryEntity = QueryEntity> {
+  entities: E[];
+  relations: QueryRelation[];
+  observations: QueryObservation[];
+}
+
+export type QueryOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type TraversalDirection = 'out' | 'in' | 'both';
+
+export interface RelationPropertyFilter {
+  property: keyof RelationProperties;
+  op: QueryOperator;
+  value: string;
+}
+
+export interface TraversalNode {
+  node: 'traverse';
+  direction: TraversalDirection;
+  /** 为空表示任意动词 */
+  verbs: string[];
+  properties: RelationPropertyFilter[];
+  minHops: number;
+  maxHops: number;
+  /** 目标实体需要满足的条件 */
+  where?: QueryNode;
+}
+
+export interface ObservationsNode {
+  node: 'observations';
+  where?: QueryNode;
+}
+
+export type QueryNode =
+  | { node: 'and'; items: QueryNode[] }
+  | { node: 'or'; items: QueryNode[] }
+  | { node: 'not'; item: QueryNode }
+  | { node: 'field'; field: string; op: QueryOperator; values: string[] }
+  | { node: 'text'; value: string }
+  | TraversalNode
+  | ObservationsNode
+  | { node: 'count'; target: TraversalNode | ObservationsNode; op: QueryOperator; value: number };
+
+/**
+ * 查询语法错误，position 为出错位置（从 0 开始）
+ */
+export class GraphQuerySyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message}（位置 ${position + 1}）`);
+    this.name = 'GraphQuerySyntaxError';
+  }
+}
+
+type QueryContext = 'entity' | 'observation';
+
+const ENTITY_FIELDS: Record<string, string> = {
+  type: 'type',
+  name: 'name',
+  alias: 'alias',
+  aliases: 'alias',
+  path: 'path',
+  file: 'path',
+  description: 'description',
+  desc: 'description',
+  id: 'id'
+};
+
+const OBSERVATION_FIELDS: Record<string, string> = {
+  kind: 'kind',
+  tag: 'tag',
+  tags: 'tag',
+  severity: 'severity',
+  content: 'content'
+};
+
+const RELATION_PROPERTIES: Record<string, keyof RelationProperties> = {
+  weight: 'weight',
+  confidence: 'confidence',
+  cardinality: 'cardinality',
+  label: 'label',
+  since: 'sinceVersion',
+  sinceversion: 'sinceVersion'
+};
+
+const NUMERIC_PROPERTIES: (keyof RelationProperties)[] = ['weight', 'confidence'];
+
+const EQUALITY_OPERATORS: QueryOperator[] = [':', '=', '!='];
+const COMPARISON_OPERATORS: QueryOperator[] = ['=', '!=', '>', '>=', '<', '<='];
+
+/** 结构化查询特有的写法，用于区分关键字搜索 */
+const STRUCTURED_QUERY_PATTERN = /(^|[\s(])(type|alias|id|desc|description|out|in|both|obs|count)\s*(:|=|!=|\(|\[|\*)/i;
+
+/**
+ * 输入是否为结构化查询（使用了类型、遍历、观察记录或聚合条件）
+ * 只有 name: / path: 等字段的输入仍按关键字全文检索
+ */
+export function isGraphQuery(query: string): boolean {
+  return STRUCTURED_QUERY_PATTERN.test(query);
+}
+
+/**
+ * 解析查询，语法错误时抛出 GraphQuerySyntaxError
+ */
+export function parseGraphQuery(query: string): QueryNode {
+  return new QueryParser(query).parse();
+}
+
+/**
+ * 执行查询，返回满足条件的实体（按名称排序）
+ */
+export function runGraphQuery<E extends QueryEntity>(query: string | QueryNode, graph: GraphSnapshot<E>): E[] {
+  const root = typeof query === 'string' ? parseGraphQuery(query) : query;
+  const evaluator = new QueryEvaluator(graph);
+  return graph.entities
+    .filter((entity) => evaluator.matchesEntity(root, entity))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+class QueryParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr('entity');
+    this.skipSpace();
+    if (!this.eof()) {
+      throw this.error(this.peek() === ')' ? '多余的右括号' : `无法识别的内容 "${this.peek()}"`);
+    }
+    return node;
+  }
+
+  private parseOr(context: QueryContext): QueryNode {
+    const items = [this.parseAnd(context)];
+    while (this.consumeKeyword('OR')) {
+      items.push(this.parseAnd(context));
+    }
+    return items.length === 1 ? items[0] : { node: 'or', items };
+  }
+
+  private parseAnd(context: QueryContext): QueryNode {
+    const items: QueryNode[] = [];
+    for (;;) {
+      this.skipSpace();
+      if (this.eof() || this.peek() === ')' || this.isKeyword('OR')) {
+        break;
+      }
+      if (this.consumeKeyword('AND')) {
+        if (items.length === 0) {
+          throw this.error('AND 前缺少条件');
+        }
+        continue;
+      }
+      items.push(this.parseNot(context));
+    }
+    if (items.length === 0) {
+      throw this.error('缺少查询条件');
+    }
+    return items.length === 1 ? items[0] : { node: 'and', items };
+  }
+
+  private parseNot(context: QueryContext): QueryNode {
+    if (this.consumeKeyword('NOT')) {
+      return { node: 'not', item: this.parseNot(context) };
+    }
+    return this.parsePrimary(context);
+  }
+
+  private parsePrimary(context: QueryContext): QueryNode {
+    this.skipSpace();
+    if (this.peek() === '(') {
+      this.pos++;
+      const node = this.parseOr(context);
+      this.expect(')');
+      return node;
+    }
+    if (this.peek() === '"') {
+      return { node: 'text', value: this.readQuoted() };
+    }
+
+    const word = this.peekWord();
+    const next = this.text[this.pos + (word?.length ?? 0)];
+    if (word) {
+      const lower = word.toLowerCase();
+      if (context === 'entity') {
+        if ((lower === 'out' || lower === 'in' || lower === 'both') && next !== undefined && ':[*('.includes(next)) {
+          return this.parseTraversal();
+        }
+        if (lower === 'obs' && (next === undefined || next === '(' || /[\s)]/.test(next))) {
+          return this.parseObservations();
+        }
+        if (lower === 'count' && next === '(') {
+          return this.parseCount();
+        }
+      }
+      const fields = context === 'entity' ? ENTITY_FIELDS : OBSERVATION_FIELDS;
+      if (fields[lower] && this.operatorAt(this.pos + word.length)) {
+        return this.parseField(fields[lower]);
+      }
+    }
+
+    const start = this.pos;
+    const value = this.readValue();
+    if (!value) {
+      throw this.error(`无法识别的内容 "${this.peek()}"`, start);
+    }
+    return { node: 'text', value };
+  }
+
+  private parseField(field: string): QueryNode {
+    this.pos += this.peekWord()!.length;
+    const op = this.readOperator()!;
+    const allowed = field === 'severity' ? [':', ...COMPARISON_OPERATORS] : EQUALITY_OPERATORS;
+    if (!allowed.includes(op)) {
+      throw this.error(`${field} 不支持运算符 ${op}`);
+    }
+    const values = this.readValueList();
+    if (field === 'severity') {
+      const invalid = values.find((value) => !isObservationSeverity(value.toLowerCase()));
+      if (invalid) {
+        throw this.error(`未知的严重程度 "${invalid}"`);
+      }
+    }
+    return { node: 'field', field, op, values };
+  }
+
+  private parseTraversal(): TraversalNode {
+    const direction = this.peekWord()!.toLowerCase() as TraversalDirection;
+    this.pos += direction.length;
+    const traversal: TraversalNode = {
+      node: 'traverse',
+      direction,
+      verbs: [],
+      properties: [],
+      minHops: 1,
+      maxHops: 1
+    };
+
+    if (this.peek() === ':') {
+      this.pos++;
+      do {
+        const verb = this.readWhile(/[\w-]/);
+        if (!verb) {
+          throw this.error('缺少关系动词');
+        }
+        traversal.verbs.push(verb.toLowerCase());
+      } while (this.peek() === ',' && ++this.pos);
+    }
+    if (this.peek() === '[') {
+      this.pos++;
+      traversal.properties = this.readPropertyFilters();
+    }
+    if (this.peek() === '*') {
+      this.pos++;
+      this.readHops(traversal);
+    }
+    if (this.peek() === '(') {
+      this.pos++;
+      traversal.where = this.parseOr('entity');
+      this.expect(')');
+    }
+    return traversal;
+  }
+
+  private readPropertyFilters(): RelationPropertyFilter[] {
+    const filters: RelationPropertyFilter[] = [];
+    for (;;) {
+      this.skipSpace();
+      const word = this.peekWord();
+      const property = word ? RELATION_PROPERTIES[word.toLowerCase()] : undefined;
+      if (!word || !property) {
+        throw this.error(word ? `未知的关系属性 "${word}"` : '缺少关系属性');
+      }
+      this.pos += word.length;
+      const op = this.readOperator();
+      if (!op) {
+        throw this.error('缺少运算符');
+      }
+      const numeric = NUMERIC_PROPERTIES.includes(property);
+      if (!(numeric ? COMPARISON_OPERATORS : EQUALITY_OPERATORS).includes(op)) {
+        throw this.error(`${word} 不支持运算符 ${op}`);
+      }
+      const value = this.peek() === '"' ? this.readQuoted() : this.readWhile(/[^\s,\]]/);
+      if (!value || (numeric && !Number.isFinite(Number(value)))) {
+        throw this.error(numeric ? `${word} 需要数字` : `${word} 缺少值`);
+      }
+      filters.push({ property, op, value });
+      this.skipSpace();
+      if (this.peek() === ',') {
+        this.pos++;
+        continue;
+      }
+      this.expect(']');
+      return filters;
+    }
+  }
+
+  private readHops(traversal: TraversalNode): void {
+    const first = this.readWhile(/\d/);
+    let min = 1;
+    let max = first ? Number(first) : MAX_QUERY_HOPS;
+    if (this.text.startsWith('..', this.pos)) {
+      this.pos += 2;
+      const second = this.readWhile(/\d/);
+      if (!first || !second) {
+        throw this.error('跳数范围应为 *最小..最大');
+      }
+      min = Number(first);
+      max = Number(second);
+    }
+    if (min < 1 || max < min || max > MAX_QUERY_HOPS) {
+      throw this.error(`跳数应在 1 ~ ${MAX_QUERY_HOPS} 之间`);
+    }
+    traversal.minHops = min;
+    traversal.maxHops = max;
+  }
+
+  private parseObservations(): ObservationsNode {
+    this.pos += 'obs'.length;
+    if (this.peek() !== '(') {
+      return { node: 'observations' };
+    }
+    this.pos++;
+    const where = this.parseOr('observation');
+    this.expect(')');
+    return { node: 'observations', where };
+  }
+
+  private parseCount(): QueryNode {
+    this.pos += 'count'.length;
+    this.expect('(');
+    this.skipSpace();
+    const word = this.peekWord()?.toLowerCase();
+    let target: TraversalNode | ObservationsNode;
+    if (word === 'obs') {
+      target = this.parseObservations();
+    } else if (word === 'out' || word === 'in' || word === 'both') {
+      target = this.parseTraversal();
+    } else {
+      throw this.error('count 只能统计 obs 或 out / in / both');
+    }
+    this.expect(')');
+
+    this.skipSpace();
+    const op = this.readOperator();
+    if (!op || !COMPARISON_OPERATORS.includes(op)) {
+      throw this.error('count(...) 后需要比较运算符（= != > >= < <=）');
+    }
+    this.skipSpace();
+    const number = this.readWhile(/\d/);
+    if (!number) {
+      throw this.error('count(...) 需要与整数比较');
+    }
+    return { node: 'count', target, op, value: Number(number) };
+  }
+
+  private readValueList(): string[] {
+    const values: string[] = [];
+    do {
+      const start = this.pos;
+      const value = this.peek() === '"' ? this.readQuoted() : this.readValue();
+      if (!value) {
+        throw this.error('缺少值', start);
+      }
+      values.push(value);
+    } while (this.peek() === ',' && ++this.pos);
+    return values;
+  }
+
+  private readValue(): string {
+    return this.readWhile(/[^\s(),"[\]]/);
+  }
+
+  private readQuoted(): string {
+    const start = this.pos;
+    const end = this.text.indexOf('"', start + 1);
+    if (end < 0) {
+      throw this.error('引号没有闭合', start);
+    }
+    this.pos = end + 1;
+    return this.text.substring(start + 1, end);
+  }
+
+  private readOperator(): QueryOperator | undefined {
+    const op = this.operatorAt(this.pos);
+    if (op) {
+      this.pos += op.length;
+    }
+    return op;
+  }
+
+  private operatorAt(pos: number): QueryOperator | undefined {
+    return (['>=', '<=', '!=', ':', '=', '>', '<'] as QueryOperator[]).find((op) => this.text.startsWith(op, pos));
+  }
+
+  private readWhile(pattern: RegExp): string {
+    const start = this.pos;
+    while (!this.eof() && pattern.test(this.text[this.pos])) {
+      this.pos++;
+    }
+    return this.text.substring(start, this.pos);
+  }
+
+  private peekWord(): string | undefined {
+    return /^[A-Za-z_][\w-]*/.exec(this.text.substring(this.pos))?.[0];
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const word = this.peekWord();
+    return word !== undefined && word.toUpperCase() === keyword && !this.operatorAt(this.pos + word.length)
+      && !/[([*]/.test(this.text[this.pos + word.length] ?? '');
+  }
+
+  private consumeKeyword(keyword: string): boolean {
+    this.skipSpace();
+    if (!this.isKeyword(keyword)) {
+      return false;
+    }
+    this.pos += keyword.length;
+    return true;
+  }
+
+  private expect(char: string): void {
+    this.skipSpace();
+    if (this.peek() !== char) {
+      throw this.error(this.eof() ? `缺少 "${char}"` : `应为 "${char}"，实际为 "${this.peek()}"`);
+    }
+    this.pos++;
+  }
+
+  private skipSpace(): void {
+    this.readWhile(/\s/);
+  }
+
+  private peek(): string | undefined {
+    return this.text[this.pos];
+  }
+
+  private eof(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  private error(message: string, position = this.pos): GraphQuerySyntaxError {
+    return new GraphQuerySyntaxError(message, position);
+  }
+}
+
+class QueryEvaluator<E extends QueryEntity> {
+  private entities = new Map<string, E>();
+  private outgoing = new Map<string, QueryRelation[]>();
+  private incoming = new Map<string, QueryRelation[]>();
+  private observations = new Map<string, QueryObservation[]>();
+  private properties = new Map<QueryRelation, RelationProperties>();
+  private cache = new Map<QueryNode, Map<string, boolean>>();
+
+  constructor(graph: GraphSnapshot<E>) {
+    graph.entities.forEach((entity) => this.entities.set(entity.id, entity));
+    for (const relation of graph.relations) {
+      if (this.entities.has(relation.sourceEntityId) && this.entities.has(relation.targetEntityId)) {
+        push(this.outgoing, relation.sourceEntityId, relation);
+        push(this.incoming, relation.targetEntityId, relation);
+      }
+    }
+    graph.observations.forEach((observation) => push(this.observations, observation.entityId, observation));
+  }
+
+  matchesEntity(node: QueryNode, entity: E): boolean {
+    let results = this.cache.get(node);
+    if (!results) {
+      results = new Map();
+      this.cache.set(node, results);
+    }
+    let matched = results.get(entity.id);
+    if (matched === undefined) {
+      matched = this.evaluateEntity(node, entity);
+      results.set(entity.id, matched);
+    }
+    return matched;
+  }
+
+  private evaluateEntity(node: QueryNode, entity: E): boolean {
+    switch (node.node) {
+      case 'and':
+        return node.items.every((item) => this.matchesEntity(item, entity));
+      case 'or':
+        return node.items.some((item) => this.matchesEntity(item, entity));
+      case 'not':
+        return !this.matchesEntity(node.item, entity);
+      case 'text':
+        return [entity.name, ...(entity.aliases ?? [])].some((name) => matchText(name, node.value));
+      case 'field':
+        return matchEntityField(entity, node.field, node.op, node.values);
+      case 'traverse':
+        return this.reachable(entity, node).size > 0;
+      case 'observations':
+        return this.matchingObservations(entity, node).length > 0;
+      case 'count': {
+        const count = node.target.node === 'traverse'
+          ? this.reachable(entity, node.target).size
+          : this.matchingObservations(entity, node.target).length;
+        return compare(count, node.op, node.value);
+      }
+    }
+  }
+
+  /**
+   * 在跳数范围内可以到达、且满足目标条件的实体 ID
+   */
+  private reachable(entity: E, traversal: TraversalNode): Set<string> {
+    const found = new Set<string>();
+    const visited = new Set([entity.id]);
+    let frontier = [entity.id];
+    for (let hops = 1; hops <= traversal.maxHops && frontier.length > 0; hops++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const [relation, neighborId] of this.edges(id, traversal.direction)) {
+          if (visited.has(neighborId) || !this.matchesRelation(relation, traversal)) {
+            continue;
+          }
+          visited.add(neighborId);
+          next.push(neighborId);
+          const neighbor = this.entities.get(neighborId)!;
+          if (hops >= traversal.minHops && (!traversal.where || this.matchesEntity(traversal.where, neighbor))) {
+            found.add(neighborId);
+          }
+        }
+      }
+      frontier = next;
+    }
+    return found;
+  }
+
+  private edges(id: string, direction: TraversalDirection): Array<[QueryRelation, string]> {
+    const edges: Array<[QueryRelation, string]> = [];
+    if (direction !== 'in') {
+      (this.outgoing.get(id) ?? []).forEach((relation) => edges.push([relation, relation.targetEntityId]));
+    }
+    if (direction !== 'out') {
+      (this.incoming.get(id) ?? []).forEach((relation) => edges.push([relation, relation.sourceEntityId]));
+    }
+    return edges;
+  }
+
+  private matchesRelation(relation: QueryRelation, traversal: TraversalNode): boolean {
+    if (traversal.verbs.length > 0 && !traversal.verbs.includes(relation.verb.toLowerCase())) {
+      return false;
+    }
+    if (traversal.properties.length === 0) {
+      return true;
+    }
+    let properties = this.properties.get(relation);
+    if (!properties) {
+      properties = getRelationProperties(relation.metadata);
+      this.properties.set(relation, properties);
+    }
+    return traversal.properties.every((filter) => matchRelationProperty(properties!, filter));
+  }
+
+  private matchingObservations(entity: E, node: ObservationsNode): QueryObservation[] {
+    const observations = this.observations.get(entity.id) ?? [];
+    return node.where ? observations.filter((observation) => matchObservation(observation, node.where!)) : observations;
+  }
+}
+
+function push<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+function matchEntityField(entity: QueryEntity, field: string, op: QueryOperator, values: string[]): boolean {
+  const any = (predicate: (value: string) => boolean) => {
+    const matched = values.some(predicate);
+    return op === '!=' ? !matched : matched;
+  };
+  const names = field === 'alias' ? entity.aliases ?? [] : [entity.name, ...(entity.aliases ?? [])];
+  switch (field) {
+    case 'type':
+      return any((value) => equalsIgnoreCase(entity.type, value));
+    case 'id':
+      return any((value) => entity.id === value);
+    case 'name':
+    case 'alias':
+      return any((value) => names.some((name) => op === ':' ? matchText(name, value) : equalsIgnoreCase(name, value)));
+    case 'description':
+      return any((value) => op === ':' ? matchText(entity.description ?? '', value) : equalsIgnoreCase(entity.description ?? '', value));
+    case 'path':
+      return any((value) => op === ':' ? matchPath(entity.filePath, value) : normalizePath(entity.filePath) === normalizePath(value));
+    default:
+      return false;
+  }
+}
+
+function matchObservation(observation: QueryObservation, node: QueryNode): boolean {
+  switch (node.node) {
+    case 'and':
+      return node.items.every((item) => matchObservation(observation, item));
+    case 'or':
+      return node.items.some((item) => matchObservation(observation, item));
+    case 'not':
+      return !matchObservation(observation, node.item);
+    case 'text':
+      return matchText(observation.content, node.value);
+    case 'field': {
+      if (node.field === 'severity' && node.op !== ':' && node.op !== '=' && node.op !== '!=') {
+        const rank = severityRank(isObservationSeverity(observation.severity) ? observation.severity : undefined);
+        return rank > 0 && node.values.some((value) => compare(rank, node.op, severityRank(value.toLowerCase() as ObservationSeverity)));
+      }
+      const matched = node.values.some((value) => {
+        switch (node.field) {
+          case 'kind':
+            return equalsIgnoreCase(observation.kind || DEFAULT_OBSERVATION_KIND, value);
+          case 'tag':
+            return normalizeTags(observation.tags ?? []).some((tag) => equalsIgnoreCase(tag, value.replace(/^#/, '')));
+          case 'severity':
+            return equalsIgnoreCase(observation.severity ?? '', value);
+          case 'content':
+            return node.op === ':' ? matchText(observation.content, value) : equalsIgnoreCase(observation.content, value);
+          default:
+            return false;
+        }
+      });
+      return node.op === '!=' ? !matched : matched;
+    }
+    default:
+      return false;
+  }
+}
+
+function matchRelationProperty(properties: RelationProperties, filter: RelationPropertyFilter): boolean {
+  const actual = properties[filter.property];
+  if (actual === undefined) {
+    return filter.op === '!=';
+  }
+  if (typeof actual === 'number') {
+    return compare(actual, filter.op === ':' ? '=' : filter.op, Number(filter.value));
+  }
+  const matched = filter.op === ':' && filter.property === 'label'
+    ? matchText(actual, filter.value)
+    : equalsIgnoreCase(actual, filter.value);
+  return filter.op === '!=' ? !matched : matched;
+}
+
+function compare(actual: number, op: QueryOperator, expected: number): boolean {
+  switch (op) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '!=':
+      return actual !== expected;
+    default:
+      return actual === expected;
+  }
+}
+
+function equalsIgnoreCase(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * 包含（不区分大小写）；值中有通配符时整体匹配
+ */
+function matchText(text: string, value: string): boolean {
+  return /[*?]/.test(value) ? globToRegExp(value).test(text) : text.toLowerCase().includes(value.toLowerCase());
+}
+
+/**
+ * 没有通配符时匹配该文件或目录下的所有文件
+ */
+function matchPath(filePath: string, pattern: string): boolean {
+  const path = normalizePath(filePath);
+  const value = normalizePath(pattern);
+  if (/[*?]/.test(value)) {
+    return globToRegExp(value).test(path);
+  }
+  return path.toLowerCase() === value.toLowerCase() || path.toLowerCase().startsWith(`${value.toLowerCase()}/`);
+}
+
+function normalizePath(value: string): string {
+  return value.replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * ** 匹配任意层目录，* 和 ? 不跨越 /
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') {
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
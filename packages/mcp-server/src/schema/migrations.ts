@@ -0,0 +1,348 @@
+/**
+ * graph.sqlite 表结构版本与迁移
+ *
+ * 本文件同时被 VS Code 插件（sql.js）和 MCP Server（better-sqlite3）使用，
+ * 因此不能依赖任何第三方模块，只通过 MigrationConnection 访问数据库。
+ * 修改表结构时，只能在 MIGRATIONS 末尾追加新版本，不要修改已发布的迁移。
+ */
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  statements: string[];
+}
+
+/**
+ * 迁移执行所需的最小数据库接口
+ */
+export interface MigrationConnection {
+  /** 执行一条或多条不返回结果的 SQL */
+  exec(sql: string): void;
+  /** 执行查询并返回第一行第一列，没有结果时返回 null */
+  queryValue(sql: string): unknown;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+}
+
+/**
+ * 数据库版本高于当前程序支持的版本
+ */
+export class SchemaVersionError extends Error {
+  constructor(
+    public readonly databaseVersion: number,
+    public readonly supportedVersion: number
+  ) {
+    super(
+      `graph.sqlite 的表结构版本 (${databaseVersion}) 高于当前程序支持的版本 (${supportedVersion})，` +
+        '请升级 VibeKnowledge 插件或 MCP Server 后再试。'
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+export const SCHEMA_VERSION_TABLE = 'schema_version';
+
+export const MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: '初始表结构（手动图谱 + 自动图谱）',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS entities (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        start_line INTEGER NOT NULL,
+        end_line INTEGER NOT NULL,
+        description TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        metadata TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(type)',
+      'CREATE INDEX IF NOT EXISTS idx_entities_file_path ON entities(file_path)',
+      'CREATE INDEX IF NOT EXISTS idx_entities_name ON entities(name)',
+
+      `CREATE TABLE IF NOT EXISTS relations (
+        id TEXT PRIMARY KEY,
+        source_entity_id TEXT NOT NULL,
+        target_entity_id TEXT NOT NULL,
+        verb TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        metadata TEXT,
+        FOREIGN KEY (source_entity_id) REFERENCES entities(id) ON DELETE CASCADE,
+        FOREIGN KEY (target_entity_id) REFERENCES entities(id) ON DELETE CASCADE
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_relations_source ON relations(source_entity_id)',
+      'CREATE INDEX IF NOT EXISTS idx_relations_target ON relations(target_entity_id)',
+      'CREATE INDEX IF NOT EXISTS idx_relations_verb ON relations(verb)',
+
+      `CREATE TABLE IF NOT EXISTS observations (
+        id TEXT PRIMARY KEY,
+        entity_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (entity_id) REFERENCES entities(id) ON DELETE CASCADE
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_observations_entity ON observations(entity_id)',
+
+      // 自动依赖图谱表（Auto Graph）- 与手动图谱完全隔离
+      `CREATE TABLE IF NOT EXISTS auto_entities (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        start_line INTEGER NOT NULL,
+        end_line INTEGER NOT NULL,
+        description TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        metadata TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_auto_entities_type ON auto_entities(type)',
+      'CREATE INDEX IF NOT EXISTS idx_auto_entities_file_path ON auto_entities(file_path)',
+      'CREATE INDEX IF NOT EXISTS idx_auto_entities_name ON auto_entities(name)',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_auto_entities_unique ON auto_entities(file_path, name, type, start_line)',
+
+      `CREATE TABLE IF NOT EXISTS auto_relations (
+        id TEXT PRIMARY KEY,
+        source_entity_id TEXT NOT NULL,
+        target_entity_id TEXT NOT NULL,
+        verb TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        metadata TEXT,
+        FOREIGN KEY (source_entity_id) REFERENCES auto_entities(id) ON DELETE CASCADE,
+        FOREIGN KEY (target_entity_id) REFERENCES auto_entities(id) ON DELETE CASCADE
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_auto_relations_source ON auto_relations(source_entity_id)',
+      'CREATE INDEX IF NOT EXISTS idx_auto_relations_target ON auto_relations(target_entity_id)',
+      'CREATE INDEX IF NOT EXISTS idx_auto_relations_verb ON auto_relations(verb)',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_auto_relations_unique ON auto_relations(source_entity_id, target_entity_id, verb)',
+
+      `CREATE TABLE IF NOT EXISTS auto_file_cache (
+        file_path TEXT PRIMARY KEY,
+        content_hash TEXT NOT NULL,
+        analyzed_at INTEGER NOT NULL
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS auto_observations (
+        id TEXT PRIMARY KEY,
+        entity_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (entity_id) REFERENCES auto_entities(id) ON DELETE CASCADE
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_auto_observations_entity ON auto_observations(entity_id)'
+    ]
+  },
+  {
+    version: 2,
+    description: '跨工作区文件夹关系（多根工作区）',
+    statements: [
+      // 目标实体位于另一个文件夹的 graph.sqlite 中，因此只对源实体建立外键
+      `CREATE TABLE IF NOT EXISTS cross_folder_relations (
+        id TEXT PRIMARY KEY,
+        source_entity_id TEXT NOT NULL,
+        target_folder TEXT NOT NULL,
+        target_entity_id TEXT NOT NULL,
+        verb TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        metadata TEXT,
+        FOREIGN KEY (source_entity_id) REFERENCES entities(id) ON DELETE CASCADE
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_cross_folder_relations_source ON cross_folder_relations(source_entity_id)',
+      'CREATE INDEX IF NOT EXISTS idx_cross_folder_relations_target ON cross_folder_relations(target_folder, target_entity_id)'
+    ]
+  },
+  {
+    version: 3,
+    description: '手动图谱修改历史（审计、撤销/重做）',
+    statements: [
+      // before_json / after_json 保存整行数据；undo_state: 0 正常，1 已撤销（可重做），2 已撤销且不可重做，3 未撤销但不可撤销
+      `CREATE TABLE IF NOT EXISTS graph_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        group_id TEXT NOT NULL,
+        table_name TEXT NOT NULL,
+        row_id TEXT NOT NULL,
+        entity_id TEXT,
+        action TEXT NOT NULL,
+        before_json TEXT,
+        after_json TEXT,
+        author TEXT,
+        created_at INTEGER NOT NULL,
+        undo_state INTEGER NOT NULL DEFAULT 0
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_graph_history_entity ON graph_history(entity_id)',
+      'CREATE INDEX IF NOT EXISTS idx_graph_history_group ON graph_history(group_id)'
+    ]
+  },
+  {
+    version: 4,
+    description: '观察记录的种类、标签和严重程度',
+    statements: [
+      // tags 为 JSON 数组；已有的观察记录视为 note
+      "ALTER TABLE observations ADD COLUMN kind TEXT NOT NULL DEFAULT 'note'",
+      'ALTER TABLE observations ADD COLUMN tags TEXT',
+      'ALTER TABLE observations ADD COLUMN severity TEXT',
+      'CREATE INDEX IF NOT EXISTS idx_observations_kind ON observations(kind)'
+    ]
+  },
+  {
+    version: 5,
+    description: '观察记录写入时实体代码的哈希（检测过期的知识）',
+    statements: [
+      // 旧的观察记录没有哈希，不参与过期检测
+      'ALTER TABLE observations ADD COLUMN code_hash TEXT'
+    ]
+  },
+  {
+    version: 6,
+    description: '实体别名（合并重复实体后保留原名称和 ID）',
+    statements: [
+      // JSON 数组
+      'ALTER TABLE entities ADD COLUMN aliases TEXT'
+    ]
+  },
+  {
+    version: 7,
+    description: '全文检索索引（实体名称、别名、描述、路径和观察记录内容）',
+    statements: [
+      // sql.js 没有编译 FTS5，使用 FTS4；列顺序与 fullTextSearch.ts 中的 SEARCH_FIELDS 一致
+      `CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts4(
+        name, aliases, description, content, path, kind, item_id, entity_id,
+        notindexed=kind, notindexed=item_id, notindexed=entity_id, tokenize=porter
+      )`,
+      `INSERT INTO search_index (name, aliases, description, content, path, kind, item_id, entity_id)
+        SELECT name, aliases, description, NULL, file_path, 'entity', id, id FROM entities`,
+      `INSERT INTO search_index (name, aliases, description, content, path, kind, item_id, entity_id)
+        SELECT e.name, NULL, NULL, o.content, e.file_path, 'observation', o.id, o.entity_id
+        FROM observations o JOIN entities e ON e.id = o.entity_id`,
+      // 由触发器保持同步，任何写入方式（服务、导入、撤销、其他工具）都不需要额外处理
+      `CREATE TRIGGER IF NOT EXISTS search_index_entity_insert AFTER INSERT ON entities BEGIN
+        INSERT INTO search_index (name, aliases, description, content, path, kind, item_id, entity_id)
+          VALUES (new.name, new.aliases, new.description, NULL, new.file_path, 'entity', new.id, new.id);
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS search_index_entity_update AFTER UPDATE ON entities
+      WHEN old.name IS NOT new.name OR old.aliases IS NOT new.aliases
+        OR old.description IS NOT new.description OR old.file_path IS NOT new.file_path
+      BEGIN
+        DELETE FROM search_index WHERE item_id = old.id AND kind = 'entity';
+        INSERT INTO search_index (name, aliases, description, content, path, kind, item_id, entity_id)
+          VALUES (new.name, new.aliases, new.description, NULL, new.file_path, 'entity', new.id, new.id);
+        UPDATE search_index SET name = new.name, path = new.file_path
+          WHERE entity_id = new.id AND kind = 'observation';
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS search_index_entity_delete AFTER DELETE ON entities BEGIN
+        DELETE FROM search_index WHERE entity_id = old.id;
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS search_index_observation_insert AFTER INSERT ON observations BEGIN
+        INSERT INTO search_index (name, aliases, description, content, path, kind, item_id, entity_id)
+          SELECT e.name, NULL, NULL, new.content, e.file_path, 'observation', new.id, new.entity_id
+          FROM entities e WHERE e.id = new.entity_id;
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS search_index_observation_update AFTER UPDATE ON observations
+      WHEN old.content IS NOT new.content OR old.entity_id IS NOT new.entity_id
+      BEGIN
+        DELETE FROM search_index WHERE item_id = old.id AND kind = 'observation';
+        INSERT INTO search_index (name, aliases, description, content, path, kind, item_id, entity_id)
+          SELECT e.name, NULL, NULL, new.content, e.file_path, 'observation', new.id, new.entity_id
+          FROM entities e WHERE e.id = new.entity_id;
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS search_index_observation_delete AFTER DELETE ON observations BEGIN
+        DELETE FROM search_index WHERE item_id = old.id AND kind = 'observation';
+      END`
+    ]
+  },
+  {
+    version: 8,
+    description: '关系修改历史同时记录目标实体（目标实体的历史中显示指向它的关系）',
+    statements: [
+      'ALTER TABLE graph_history ADD COLUMN target_entity_id TEXT',
+      `UPDATE graph_history
+        SET target_entity_id = json_extract(COALESCE(after_json, before_json), '$.target_entity_id')
+        WHERE table_name = 'relations'`,
+      'CREATE INDEX IF NOT EXISTS idx_graph_history_target_entity ON graph_history(target_entity_id)'
+    ]
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * 读取当前表结构版本，没有 schema_version 表时返回 0
+ */
+export function getSchemaVersion(conn: MigrationConnection): number {
+  const table = conn.queryValue(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = '${SCHEMA_VERSION_TABLE}'`
+  );
+  if (!table) {
+    return 0;
+  }
+
+  const version = conn.queryValue(`SELECT MAX(version) FROM ${SCHEMA_VERSION_TABLE}`);
+  return typeof version === 'number' ? version : 0;
+}
+
+/**
+ * 数据库版本高于当前支持版本时抛出 SchemaVersionError
+ */
+export function assertSchemaSupported(conn: MigrationConnection): number {
+  const version = getSchemaVersion(conn);
+  if (version > LATEST_SCHEMA_VERSION) {
+    throw new SchemaVersionError(version, LATEST_SCHEMA_VERSION);
+  }
+  return version;
+}
+
+/**
+ * 按版本顺序执行尚未应用的迁移，每个迁移在独立事务中执行
+ */
+export function runMigrations(
+  conn: MigrationConnection,
+  migrations: SchemaMigration[] = MIGRATIONS
+): MigrationResult {
+  const fromVersion = assertSchemaSupported(conn);
+
+  conn.exec(`
+    CREATE TABLE IF NOT EXISTS ${SCHEMA_VERSION_TABLE} (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+
+  const pending = migrations
+    .filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const applied: number[] = [];
+  for (const migration of pending) {
+    conn.exec('BEGIN TRANSACTION');
+    try {
+      for (const statement of migration.statements) {
+        conn.exec(statement);
+      }
+      conn.exec(
+        `INSERT INTO ${SCHEMA_VERSION_TABLE} (version, description, applied_at) ` +
+          `VALUES (${migration.version}, '${migration.description.replace(/'/g, "''")}', ${Date.now()})`
+      );
+      conn.exec('COMMIT');
+    } catch (error) {
+      conn.exec('ROLLBACK');
+      throw new Error(`执行 graph.sqlite 迁移 v${migration.version} 失败：${String(error)}`);
+    }
+    applied.push(migration.version);
+  }
+
+  return {
+    fromVersion,
+    toVersion: applied.length > 0 ? applied[applied.length - 1] : fromVersion,
+    applied
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * 观察记录的种类、标签和严重程度
+ *
+ * 对应 observations 表的 kind / tags（JSON 数组）/ severity 列。
+ * 本文件同时被 VS Code 插件和 MCP Server 使用，因此不能依赖任何第三方模块。
+ */
+
+export type ObservationKind =
+  | 'note'
+  | 'warning'
+  | 'todo'
+  | 'decision'
+  | 'gotcha'
+  | 'performance'
+  | 'security';
+
+export type ObservationSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface ObservationFields {
+  kind?: ObservationKind;
+  tags?: string[];
+  severity?: ObservationSeverity;
+}
+
+export const DEFAULT_OBSERVATION_KIND: ObservationKind = 'note';
+
+export const OBSERVATION_KINDS: ObservationKind[] = [
+  'note',
+  'warning',
+  'todo',
+  'decision',
+  'gotcha',
+  'performance',
+  'security'
+];
+
+/** 树视图和选择列表中使用的图标（codicon 名称） */
+export const OBSERVATION_KIND_ICONS: Record<ObservationKind, string> = {
+  note: 'note',
+  warning: 'warning',
+  todo: 'checklist',
+  decision: 'law',
+  gotcha: 'alert',
+  performance: 'dashboard',
+  security: 'shield'
+};
+
+/** 按严重程度从低到高排列 */
+export const OBSERVATION_SEVERITIES: ObservationSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * 需要提醒 AI 助手注意的种类（生成 Cursor 规则 / Copilot 指令时排在最前）
+ */
+export const WARNING_OBSERVATION_KINDS: ObservationKind[] = ['warning', 'gotcha', 'security'];
+
+export function isObservationKind(value: unknown): value is ObservationKind {
+  return OBSERVATION_KINDS.includes(value as ObservationKind);
+}
+
+export function isObservationSeverity(value: unknown): value is ObservationSeverity {
+  return OBSERVATION_SEVERITIES.includes(value as ObservationSeverity);
+}
+
+/**
+ * 严重程度排序值，未设置为 0
+ */
+export function severityRank(severity: ObservationSeverity | undefined): number {
+  return severity ? OBSERVATION_SEVERITIES.indexOf(severity) + 1 : 0;
+}
+
+/**
+ * 规范化标签：去掉首尾空白和开头的 #，忽略空标签，去重后保持原顺序
+ * 支持数组、逗号分隔的字符串和 tags 列中的 JSON 数组
+ */
+export function normalizeTags(value: unknown): string[] {
+  let raw: unknown[] = [];
+  if (Array.isArray(value)) {
+    raw = value;
+  } else if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        raw = Array.isArray(parsed) ? parsed : [];
+      } catch {
+        raw = [];
+      }
+    } else {
+      raw = trimmed.split(',');
+    }
+  }
+
+  const tags: string[] = [];
+  for (const item of raw) {
+    if (typeof item !== 'string') {
+      continue;
+    }
+    const tag = item.trim().replace(/^#/, '');
+    if (tag && !tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+  return tags;
+}
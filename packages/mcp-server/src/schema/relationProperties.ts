@@ -0,0 +1,116 @@
+/**
+ * 关系的结构化属性
+ *
+ * 属性保存在 relations.metadata（JSON）中，和其他元数据并存。
+ * 本文件同时被 VS Code 插件和 MCP Server 使用，因此不能依赖任何第三方模块。
+ */
+
+export type RelationCardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+
+export interface RelationProperties {
+  /** 自由文本标签，如 "200 次/请求" */
+  label?: string;
+  /** 权重或强度（非负数） */
+  weight?: number;
+  cardinality?: RelationCardinality;
+  /** 置信度（0 ~ 1） */
+  confidence?: number;
+  /** 从哪个版本开始存在 */
+  sinceVersion?: string;
+}
+
+export const RELATION_CARDINALITIES: RelationCardinality[] = [
+  'one-to-one',
+  'one-to-many',
+  'many-to-one',
+  'many-to-many'
+];
+
+/** 按显示顺序排列的属性名 */
+export const RELATION_PROPERTY_KEYS: (keyof RelationProperties)[] = [
+  'label',
+  'weight',
+  'cardinality',
+  'confidence',
+  'sinceVersion'
+];
+
+const CARDINALITY_SHORT: Record<RelationCardinality, string> = {
+  'one-to-one': '1:1',
+  'one-to-many': '1:N',
+  'many-to-one': 'N:1',
+  'many-to-many': 'N:N'
+};
+
+/**
+ * 从 metadata 中取出合法的关系属性，忽略类型或取值不正确的字段
+ */
+export function getRelationProperties(metadata: unknown): RelationProperties {
+  if (!metadata || typeof metadata !== 'object') {
+    return {};
+  }
+  const raw = metadata as Record<string, unknown>;
+  const properties: RelationProperties = {};
+
+  if (typeof raw.label === 'string' && raw.label.trim()) {
+    properties.label = raw.label.trim();
+  }
+  if (typeof raw.weight === 'number' && Number.isFinite(raw.weight) && raw.weight >= 0) {
+    properties.weight = raw.weight;
+  }
+  if (RELATION_CARDINALITIES.includes(raw.cardinality as RelationCardinality)) {
+    properties.cardinality = raw.cardinality as RelationCardinality;
+  }
+  if (typeof raw.confidence === 'number' && raw.confidence >= 0 && raw.confidence <= 1) {
+    properties.confidence = raw.confidence;
+  }
+  if (typeof raw.sinceVersion === 'string' && raw.sinceVersion.trim()) {
+    properties.sinceVersion = raw.sinceVersion.trim();
+  }
+  return properties;
+}
+
+/**
+ * 把属性写回 metadata：保留其他元数据，值为 undefined 的属性会被移除
+ * 结果为空时返回 undefined（metadata 列存 NULL）
+ */
+export function mergeRelationProperties(
+  metadata: Record<string, any> | undefined,
+  properties: RelationProperties
+): Record<string, any> | undefined {
+  const merged: Record<string, any> = { ...metadata };
+  for (const key of RELATION_PROPERTY_KEYS) {
+    if (key in properties) {
+      if (properties[key] === undefined) {
+        delete merged[key];
+      } else {
+        merged[key] = properties[key];
+      }
+    }
+  }
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+/**
+ * 单行摘要，如 `"per request" · weight 200 · 1:N · confidence 80% · since 2.1`
+ * 没有任何属性时返回空字符串
+ */
+export function formatRelationProperties(properties: RelationProperties): string {
+  const parts: string[] = [];
+  if (properties.label) {
+    parts.push(`"${properties.label}"`);
+  }
+  if (properties.weight !== undefined) {
+    parts.push(`weight ${properties.weight}`);
+  }
+  if (properties.cardinality) {
+    parts.push(CARDINALITY_SHORT[properties.cardinality]);
+  }
+  if (properties.confidence !== undefined) {
+    parts.push(`confidence ${Math.round(properties.confidence * 100)}%`);
+  }
+  if (properties.sinceVersion) {
+    parts.push(`since ${properties.sinceVersion}`);
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,151 @@
+/**
+ * 实体类型与关系动词词汇表
+ *
+ * 本文件同时被 VS Code 插件和 MCP Server 使用，因此不能依赖任何第三方模块。
+ * 自定义词汇可以写在 .vscode/.knowledge/schema.json 中（随仓库共享），
+ * 也可以写在设置 knowledgeGraph.schema.entityTypes / relationVerbs 中；
+ * 同名词汇按 内置 < schema.json < 设置 的顺序覆盖。
+ */
+
+export interface VocabularyTerm {
+  name: string;
+  /** 树视图图标（codicon 名称，如 symbol-class） */
+  icon?: string;
+  /** 图谱视图中的颜色（如 #61AFEF） */
+  color?: string;
+  description?: string;
+  /** 是否为内置词汇 */
+  builtin?: boolean;
+}
+
+export interface GraphVocabulary {
+  entityTypes: VocabularyTerm[];
+  relationVerbs: VocabularyTerm[];
+}
+
+/** .vscode/.knowledge/ 下的词汇表文件名 */
+export const SCHEMA_FILE_NAME = 'schema.json';
+
+export const ENTITY_TYPES_SETTING = 'knowledgeGraph.schema.entityTypes';
+export const RELATION_VERBS_SETTING = 'knowledgeGraph.schema.relationVerbs';
+
+/** 词汇名称：字母开头，只包含字母、数字、下划线和连字符 */
+const TERM_NAME_PATTERN = /^[A-Za-z][\w-]*$/;
+
+export const BUILTIN_ENTITY_TYPES: VocabularyTerm[] = [
+  { name: 'function', icon: 'symbol-function', color: '#61AFEF' },
+  { name: 'class', icon: 'symbol-class', color: '#E06C75' },
+  { name: 'interface', icon: 'symbol-interface', color: '#C678DD' },
+  { name: 'variable', icon: 'symbol-variable', color: '#98C379' },
+  { name: 'file', icon: 'file' },
+  { name: 'directory', icon: 'folder' },
+  { name: 'api', icon: 'globe', color: '#D19A66' },
+  { name: 'config', icon: 'settings-gear', color: '#ABB2BF' },
+  { name: 'database', icon: 'database' },
+  { name: 'service', icon: 'server', color: '#56B6C2' },
+  { name: 'component', icon: 'symbol-module', color: '#E5C07B' },
+  { name: 'external', icon: 'symbol-misc', color: '#888888' },
+  { name: 'other', icon: 'symbol-misc', color: '#5C6370' }
+];
+
+export const BUILTIN_RELATION_VERBS: VocabularyTerm[] = [
+  { name: 'uses' },
+  { name: 'calls' },
+  { name: 'extends' },
+  { name: 'implements' },
+  { name: 'depends_on' },
+  { name: 'contains' },
+  { name: 'references' },
+  { name: 'imports' },
+  { name: 'exports' }
+];
+
+/**
+ * 解析词汇列表，支持三种写法：
+ * - ["queue", "team"]
+ * - [{ "name": "queue", "icon": "inbox", "color": "#FF8800", "description": "..." }]
+ * - { "queue": { "icon": "inbox" }, "team": "Owning team" }
+ * 名称不合法的条目会被忽略
+ */
+export function parseVocabularyTerms(value: unknown): VocabularyTerm[] {
+  let entries: unknown[] = [];
+  if (Array.isArray(value)) {
+    entries = value;
+  } else if (value && typeof value === 'object') {
+    entries = Object.entries(value as Record<string, unknown>).map(([name, term]) =>
+      typeof term === 'string'
+        ? { name, description: term }
+        : { ...(term && typeof term === 'object' ? term : {}), name }
+    );
+  }
+
+  const terms: VocabularyTerm[] = [];
+  for (const entry of entries) {
+    const raw = (typeof entry === 'string' ? { name: entry } : entry) as Record<string, unknown> | null;
+    if (!raw || typeof raw.name !== 'string' || !TERM_NAME_PATTERN.test(raw.name)) {
+      continue;
+    }
+    terms.push({
+      name: raw.name,
+      icon: typeof raw.icon === 'string' ? raw.icon : undefined,
+      color: typeof raw.color === 'string' ? raw.color : undefined,
+      description: typeof raw.description === 'string' ? raw.description : undefined
+    });
+  }
+  return terms;
+}
+
+/**
+ * 解析 schema.json 的内容
+ */
+export function parseSchemaFile(content: string): Partial<GraphVocabulary> {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`schema.json 不是有效的 JSON：${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('schema.json 必须是一个 JSON 对象');
+  }
+
+  return {
+    entityTypes: parseVocabularyTerms(data.entityTypes),
+    relationVerbs: parseVocabularyTerms(data.relationVerbs)
+  };
+}
+
+/**
+ * 以内置词汇为基础，依次合并各来源的自定义词汇
+ * 同名词汇只覆盖来源中给出的属性
+ */
+export function buildVocabulary(...sources: Partial<GraphVocabulary>[]): GraphVocabulary {
+  const merge = (builtin: VocabularyTerm[], custom: VocabularyTerm[][]): VocabularyTerm[] => {
+    const terms = new Map<string, VocabularyTerm>(
+      builtin.map((term) => [term.name, { ...term, builtin: true }])
+    );
+    for (const list of custom) {
+      for (const term of list) {
+        const merged: VocabularyTerm = { builtin: false, ...terms.get(term.name), name: term.name };
+        for (const key of ['icon', 'color', 'description'] as const) {
+          if (term[key] !== undefined) {
+            merged[key] = term[key];
+          }
+        }
+        terms.set(term.name, merged);
+      }
+    }
+    return Array.from(terms.values());
+  };
+
+  return {
+    entityTypes: merge(
+      BUILTIN_ENTITY_TYPES,
+      sources.map((source) => source.entityTypes ?? [])
+    ),
+    relationVerbs: merge(
+      BUILTIN_RELATION_VERBS,
+      sources.map((source) => source.relationVerbs ?? [])
+    )
+  };
+}
@@ -32,7 +32,7 @@ export async function startMcpServer(
     db,
     logger
   );
-  registerTools(server, db, ragEngine, logger);
+  registerTools(server, db, ragEngine, logger, config.vocabulary);
   registerPrompts(server);
 
   const transport = new StdioServerTransport();
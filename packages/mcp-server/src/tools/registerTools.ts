@@ -2,6 +2,14 @@ import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { RagEngine, RagAnswer } from '../rag/ragEngine.js';
 import type { Logger } from '../server.js';
+import type { GraphVocabulary, VocabularyTerm } from '../schema/vocabulary.js';
+import { formatRelationProperties } from '../schema/relationProperties.js';
+import {
+  OBSERVATION_KINDS,
+  OBSERVATION_SEVERITIES,
+  type ObservationKind,
+  type ObservationSeverity
+} from '../schema/observationFields.js';
 import type {
   GraphDatabase,
   EntityRecord,
@@ -15,11 +23,13 @@ export function registerTools(
   server: McpServer,
   db: GraphDatabase,
   ragEngine: RagEngine | null,
-  logger: Logger
+  logger: Logger,
+  vocabulary: GraphVocabulary
 ): void {
-  registerSearchEntitiesTool(server, db, logger);
+  registerSearchEntitiesTool(server, db, logger, vocabulary);
   registerSearchObservationsTool(server, db, logger);
-  registerRelationsTool(server, db, logger);
+  registerQueryGraphTool(server, db, logger);
+  registerRelationsTool(server, db, logger, vocabulary);
 
   if (ragEngine) {
     registerAskQuestionTool(server, ragEngine, logger);
@@ -29,16 +39,19 @@ export function registerTools(
 function registerSearchEntitiesTool(
   server: McpServer,
   db: GraphDatabase,
-  logger: Logger
+  logger: Logger,
+  vocabulary: GraphVocabulary
 ): void {
   const inputSchema = z.object({
     query: z
       .string()
-      .describe('用于匹配实体名称、文件路径或描述的关键字')
+      .describe(
+        '检索名称、别名、描述和文件路径的关键字；普通词按前缀匹配，支持 "短语"、OR 以及 name:/alias:/description:/path: 字段限定'
+      )
       .optional(),
     type: z
       .string()
-      .describe('实体类型（如 service/component/function）')
+      .describe(`实体类型，可选值：${describeTerms(vocabulary.entityTypes)}`)
       .optional(),
     filePath: z.string().describe('按文件路径过滤（支持模糊匹配）').optional(),
     limit: z
@@ -55,7 +68,7 @@ function registerSearchEntitiesTool(
     {
       title: 'Search Entities',
       description:
-        '基于 knowledge graph 查询实体，支持按名称、类型、文件路径模糊匹配。',
+        '基于 knowledge graph 全文检索实体（名称、别名、描述、文件路径），结果按 BM25 相关度排序并附带命中片段；可按类型、文件路径过滤。',
       inputSchema
     },
     async ({ query = '', type, filePath, limit = DEFAULT_LIMIT }) => {
@@ -103,9 +116,20 @@ function registerSearchObservationsTool(
   const inputSchema = z.object({
     query: z
       .string()
-      .describe('匹配观察内容或实体名称的关键字')
+      .describe(
+        '检索观察内容（以及所属实体名称、路径）的关键字；普通词按前缀匹配，支持 "短语"、OR 以及 content:/name:/path: 字段限定'
+      )
       .optional(),
     entityId: z.string().describe('限定只搜索某个实体的观察记录').optional(),
+    kind: z
+      .enum(OBSERVATION_KINDS as [ObservationKind, ...ObservationKind[]])
+      .describe(`观察记录种类，可选值：${OBSERVATION_KINDS.join(', ')}`)
+      .optional(),
+    tag: z.string().describe('只返回带有该标签的观察记录').optional(),
+    minSeverity: z
+      .enum(OBSERVATION_SEVERITIES as [ObservationSeverity, ...ObservationSeverity[]])
+      .describe(`最低严重程度，可选值（由低到高）：${OBSERVATION_SEVERITIES.join(', ')}`)
+      .optional(),
     limit: z
       .number()
       .int()
@@ -120,17 +144,20 @@ function registerSearchObservationsTool(
     {
       title: 'Search Observations',
       description:
-        '查询知识图谱中的观察记录，可按关键字或实体进行过滤。',
+        '查询知识图谱中的观察记录（含种类、标签和严重程度），关键字检索按 BM25 相关度排序并附带命中片段，可按实体、种类、标签和最低严重程度进行过滤。',
       inputSchema
     },
-    async ({ query = '', entityId, limit = DEFAULT_LIMIT }) => {
+    async ({ query = '', entityId, kind, tag, minSeverity, limit = DEFAULT_LIMIT }) => {
       try {
         logger.debug?.(
-          `[search_observations] query="${query}", entity=${entityId ?? 'all'}, limit=${limit}`
+          `[search_observations] query="${query}", entity=${entityId ?? 'all'}, kind=${kind ?? 'all'}, tag=${tag ?? '-'}, minSeverity=${minSeverity ?? '-'}, limit=${limit}`
         );
         const results = db.searchObservations({
           query,
           entityId,
+          kind,
+          tag,
+          minSeverity,
           limit
         });
         return {
@@ -161,15 +188,94 @@ function registerSearchObservationsTool(
   );
 }
 
-function registerRelationsTool(
+function registerQueryGraphTool(
   server: McpServer,
   db: GraphDatabase,
   logger: Logger
 ): void {
   const inputSchema = z.object({
-    verb: z.string().describe('关系动词（如 uses/depends_on）').optional(),
+    query: z
+      .string()
+      .min(1, 'query 不能为空')
+      .describe(
+        '图谱查询语句，例如 `type:service path:src/api out:depends_on(obs(kind:security))` 或 `type:function count(obs) = 0 count(in:calls) > 5`'
+      ),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .describe('最多返回的实体数量，默认 20')
+      .optional()
+  });
+
+  server.registerTool(
+    'query_graph',
+    {
+      title: 'Query Graph',
+      description: [
+        '用结构化查询语言在知识图谱中查找实体，条件之间用空格（AND）、OR、NOT 和括号组合：',
+        '- 实体字段：type:service、name:User*、alias:x、path:src/api（目录前缀，支持 * / ** 通配符）、desc:缓存、id=...；= 为完全相等，!= 为不相等，逗号分隔多个值',
+        '- 关系遍历：out / in / both[:动词,...][属性条件][*跳数](目标实体条件)，如 out:depends_on*1..3(type:database)、in:calls[weight>=2]；属性为 weight、confidence、cardinality、label、since',
+        '- 观察记录：obs(kind:security tag:auth severity>=high content:token)',
+        '- 聚合：count(obs(...)) 或 count(in:calls) 与数字比较，如 count(in:calls) > 5'
+      ].join('\n'),
+      inputSchema
+    },
+    async ({ query, limit = DEFAULT_LIMIT }) => {
+      try {
+        logger.debug?.(`[query_graph] query="${query}", limit=${limit}`);
+        const results = db.queryGraph({ query, limit });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatEntityResults(results)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error('[query_graph] failed:', error);
+        const message =
+          error instanceof Error ? error.message : '未知错误，无法执行图谱查询';
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `query_graph 执行失败：${message}`
+            }
+          ],
+          isError: true
+        };
+      }
+    }
+  );
+}
+
+function registerRelationsTool(
+  server: McpServer,
+  db: GraphDatabase,
+  logger: Logger,
+  vocabulary: GraphVocabulary
+): void {
+  const inputSchema = z.object({
+    verb: z
+      .string()
+      .describe(`关系动词，可选值：${describeTerms(vocabulary.relationVerbs)}`)
+      .optional(),
     source: z.string().describe('源实体名称关键字').optional(),
     target: z.string().describe('目标实体名称关键字').optional(),
+    minWeight: z
+      .number()
+      .min(0)
+      .describe('只返回权重不小于该值的关系')
+      .optional(),
+    minConfidence: z
+      .number()
+      .min(0)
+      .max(1)
+      .describe('只返回置信度（0~1）不小于该值的关系')
+      .optional(),
     limit: z
       .number()
       .int()
@@ -184,18 +290,20 @@ function registerRelationsTool(
     {
       title: 'List Relations',
       description:
-        '列出知识图谱中的关系记录，可按动词、源实体、目标实体筛选。',
+        '列出知识图谱中的关系记录及其属性（标签、权重、基数、置信度、起始版本），可按动词、源实体、目标实体、最小权重和置信度筛选。',
       inputSchema
     },
-    async ({ verb, source, target, limit = DEFAULT_LIMIT }) => {
+    async ({ verb, source, target, minWeight, minConfidence, limit = DEFAULT_LIMIT }) => {
       try {
         logger.debug?.(
-          `[knowledge://relations] verb=${verb ?? 'all'}, source=${source ?? 'any'}, target=${target ?? 'any'}, limit=${limit}`
+          `[knowledge://relations] verb=${verb ?? 'all'}, source=${source ?? 'any'}, target=${target ?? 'any'}, minWeight=${minWeight ?? '-'}, minConfidence=${minConfidence ?? '-'}, limit=${limit}`
         );
         const results = db.searchRelations({
           verb,
           source,
           target,
+          minWeight,
+          minConfidence,
           limit
         });
         return {
@@ -281,6 +389,15 @@ function registerAskQuestionTool(
   );
 }
 
+/**
+ * 词汇列表说明，如 "service、queue（消息队列）"
+ */
+function describeTerms(terms: VocabularyTerm[]): string {
+  return terms
+    .map((term) => (term.description ? `${term.name}（${term.description}）` : term.name))
+    .join('、');
+}
+
 function formatEntityResults(results: EntityRecord[]): string {
   if (results.length === 0) {
     return '未找到匹配的实体。';
@@ -290,10 +407,14 @@ function formatEntityResults(results: EntityRecord[]): string {
     .map((entity, index) => {
       const location = `${entity.filePath}:${entity.startLine}-${entity.endLine}`;
       const updatedAt = new Date(entity.updatedAt).toISOString();
+      const aliases = entity.aliases.length > 0
+        ? `\n    别名：${entity.aliases.join(', ')}`
+        : '';
       const description = entity.description
         ? `\n    描述：${entity.description}`
         : '';
-      return `${index + 1}. [${entity.type}] ${entity.name}\n    位置：${location}\n    更新时间：${updatedAt}${description}`;
+      const highlight = entity.highlight ? `\n    匹配：${entity.highlight}` : '';
+      return `${index + 1}. [${entity.type}] ${entity.name}\n    位置：${location}\n    更新时间：${updatedAt}${aliases}${description}${highlight}`;
     })
     .join('\n\n');
 }
@@ -306,7 +427,10 @@ function formatObservationResults(results: ObservationRecord[]): string {
   return results
     .map((item, index) => {
       const updatedAt = new Date(item.updatedAt).toISOString();
-      return `${index + 1}. ${item.content}\n    实体：${item.entityName} [${item.entityType}]\n    路径：${item.filePath}\n    更新时间：${updatedAt}`;
+      const severity = item.severity ? ` (${item.severity})` : '';
+      const tags = item.tags.length > 0 ? `\n    标签：${item.tags.map((tag) => `#${tag}`).join(' ')}` : '';
+      const highlight = item.highlight ? `\n    匹配：${item.highlight}` : '';
+      return `${index + 1}. [${item.kind}${severity}] ${item.content}\n    实体：${item.entityName} [${item.entityType}]\n    路径：${item.filePath}${tags}\n    更新时间：${updatedAt}${highlight}`;
     })
     .join('\n\n');
 }
@@ -319,7 +443,9 @@ function formatRelationResults(results: RelationRecord[]): string {
   return results
     .map((relation, index) => {
       const createdAt = new Date(relation.createdAt).toISOString();
-      return `${index + 1}. ${relation.sourceName} [${relation.sourceType}] --${relation.verb}--> ${relation.targetName} [${relation.targetType}]\n    Source: ${relation.sourceFilePath}\n    Target: ${relation.targetFilePath}\n    Created At: ${createdAt}`;
+      const properties = formatRelationProperties(relation.properties);
+      const propertiesLine = properties ? `\n    Properties: ${properties}` : '';
+      return `${index + 1}. ${relation.sourceName} [${relation.sourceType}] --${relation.verb}--> ${relation.targetName} [${relation.targetType}]\n    Source: ${relation.sourceFilePath}\n    Target: ${relation.targetFilePath}${propertiesLine}\n    Created At: ${createdAt}`;
     })
     .join('\n\n');
 }
@@ -30,7 +30,8 @@ describe('GraphDatabase', () => {
         description TEXT,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL,
-        metadata TEXT
+        metadata TEXT,
+        aliases TEXT
       );
 
       CREATE TABLE IF NOT EXISTS relations (
@@ -50,6 +51,9 @@ describe('GraphDatabase', () => {
         content TEXT NOT NULL,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'note',
+        tags TEXT,
+        severity TEXT,
         FOREIGN KEY (entity_id) REFERENCES entities(id)
       );
     `);
@@ -59,9 +63,9 @@ describe('GraphDatabase', () => {
 
     // 实体
     realDb.prepare(`
-      INSERT INTO entities (id, name, type, file_path, start_line, end_line, description, created_at, updated_at, metadata)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).run('entity-1', 'UserService', 'service', '/src/services/user.ts', 1, 100, 'User management service', now, now, null);
+      INSERT INTO entities (id, name, type, file_path, start_line, end_line, description, created_at, updated_at, metadata, aliases)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run('entity-1', 'UserService', 'service', '/src/services/user.ts', 1, 100, 'User management service', now, now, null, '["userSvc","entity-9"]');
 
     realDb.prepare(`
       INSERT INTO entities (id, name, type, file_path, start_line, end_line, description, created_at, updated_at, metadata)
@@ -82,7 +86,7 @@ describe('GraphDatabase', () => {
     realDb.prepare(`
       INSERT INTO relations (id, source_entity_id, target_entity_id, verb, created_at, metadata)
       VALUES (?, ?, ?, ?, ?, ?)
-    `).run('rel-2', 'entity-2', 'entity-3', 'depends_on', now, null);
+    `).run('rel-2', 'entity-2', 'entity-3', 'depends_on', now, '{"label":"per request","weight":200,"confidence":0.9}');
 
     // 观察记录
     realDb.prepare(`
@@ -91,9 +95,9 @@ describe('GraphDatabase', () => {
     `).run('obs-1', 'entity-1', 'This service handles user CRUD operations', now, now);
 
     realDb.prepare(`
-      INSERT INTO observations (id, entity_id, content, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?)
-    `).run('obs-2', 'entity-1', 'TODO: Add caching layer', now, now);
+      INSERT INTO observations (id, entity_id, content, created_at, updated_at, kind, tags, severity)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run('obs-2', 'entity-1', 'TODO: Add caching layer', now, now, 'todo', '["perf","cache"]', 'high');
 
     realDb.close();
   });
@@ -168,6 +172,18 @@ describe('GraphDatabase', () => {
       expect(results[0].name).toBe('UserService');
     });
 
+    it('应该按别名搜索', () => {
+      const results = db.searchEntities({ query: 'usersvc' });
+      expect(results.length).toBe(1);
+      expect(results[0].name).toBe('UserService');
+      expect(results[0].aliases).toEqual(['userSvc', 'entity-9']);
+    });
+
+    it('应该通过被合并实体的 ID 找到保留的实体', () => {
+      const results = db.searchEntities({ query: 'entity-9' });
+      expect(results.map((e) => e.id)).toEqual(['entity-1']);
+    });
+
     it('应该按类型过滤', () => {
       const results = db.searchEntities({ type: 'service' });
       expect(results.length).toBe(2);
@@ -230,6 +246,29 @@ describe('GraphDatabase', () => {
       expect(results[0].entityType).toBeDefined();
       expect(results[0].filePath).toBeDefined();
     });
+
+    it('应该返回种类、标签和严重程度', () => {
+      const results = db.searchObservations();
+      const todo = results.find((o) => o.id === 'obs-2');
+      const note = results.find((o) => o.id === 'obs-1');
+      expect(todo).toMatchObject({ kind: 'todo', tags: ['perf', 'cache'], severity: 'high' });
+      expect(note).toMatchObject({ kind: 'note', tags: [], severity: null });
+    });
+
+    it('应该按种类过滤', () => {
+      const results = db.searchObservations({ kind: 'todo' });
+      expect(results.map((o) => o.id)).toEqual(['obs-2']);
+    });
+
+    it('应该按标签过滤（忽略开头的 #）', () => {
+      expect(db.searchObservations({ tag: '#cache' }).map((o) => o.id)).toEqual(['obs-2']);
+      expect(db.searchObservations({ tag: 'missing' })).toHaveLength(0);
+    });
+
+    it('应该按最低严重程度过滤', () => {
+      expect(db.searchObservations({ minSeverity: 'medium' }).map((o) => o.id)).toEqual(['obs-2']);
+      expect(db.searchObservations({ minSeverity: 'critical' })).toHaveLength(0);
+    });
   });
 
   describe('searchRelations', () => {
@@ -280,6 +319,20 @@ describe('GraphDatabase', () => {
       expect(rel.targetType).toBeDefined();
       expect(rel.targetFilePath).toBeDefined();
     });
+
+    it('应该解析关系属性', () => {
+      const results = db.searchRelations({ verb: 'depends_on' });
+      expect(results[0].properties).toEqual({ label: 'per request', weight: 200, confidence: 0.9 });
+
+      const [plain] = db.searchRelations({ verb: 'uses' });
+      expect(plain.properties).toEqual({});
+    });
+
+    it('应该按最小权重和置信度过滤', () => {
+      expect(db.searchRelations({ minWeight: 100 }).map((r) => r.id)).toEqual(['rel-2']);
+      expect(db.searchRelations({ minWeight: 500 })).toHaveLength(0);
+      expect(db.searchRelations({ minConfidence: 0.95 })).toHaveLength(0);
+    });
   });
 
   describe('clampLimit', () => {
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { matchesEntityName, normalizeAliases } from '../src/schema/entityAliases.js';
+
+describe('entityAliases', () => {
+  describe('normalizeAliases', () => {
+    it('应该去重，并忽略与名称相同的别名', () => {
+      expect(normalizeAliases([' userService ', 'UserSvc', 'UserSvc', 'UserService', '', 42], 'UserService'))
+        .toEqual(['userService', 'UserSvc']);
+    });
+
+    it('应该支持 aliases 列中的 JSON 数组', () => {
+      expect(normalizeAliases('["a","b"]')).toEqual(['a', 'b']);
+    });
+
+    it('应该在无法解析时返回空数组', () => {
+      expect(normalizeAliases('[broken')).toEqual([]);
+      expect(normalizeAliases(null)).toEqual([]);
+    });
+  });
+
+  describe('matchesEntityName', () => {
+    it('应该不区分大小写匹配名称和别名', () => {
+      const entity = { name: 'UserService', aliases: ['user-svc', 'e-123'] };
+      expect(matchesEntityName(entity, 'userservice')).toBe(true);
+      expect(matchesEntityName(entity, 'USER-SVC')).toBe(true);
+      expect(matchesEntityName(entity, 'e-123')).toBe(true);
+      expect(matchesEntityName(entity, 'User')).toBe(false);
+      expect(matchesEntityName(entity, ' ')).toBe(false);
+    });
+  });
+});
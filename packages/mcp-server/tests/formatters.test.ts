@@ -13,10 +13,14 @@ function formatEntityResults(results: EntityRecord[]): string {
     .map((entity, index) => {
       const location = `${entity.filePath}:${entity.startLine}-${entity.endLine}`;
       const updatedAt = new Date(entity.updatedAt).toISOString();
+      const aliases = entity.aliases.length > 0
+        ? `\n    别名：${entity.aliases.join(', ')}`
+        : '';
       const description = entity.description
         ? `\n    描述：${entity.description}`
         : '';
-      return `${index + 1}. [${entity.type}] ${entity.name}\n    位置：${location}\n    更新时间：${updatedAt}${description}`;
+      const highlight = entity.highlight ? `\n    匹配：${entity.highlight}` : '';
+      return `${index + 1}. [${entity.type}] ${entity.name}\n    位置：${location}\n    更新时间：${updatedAt}${aliases}${description}${highlight}`;
     })
     .join('\n\n');
 }
@@ -32,7 +36,10 @@ function formatObservationResults(results: ObservationRecord[]): string {
   return results
     .map((item, index) => {
       const updatedAt = new Date(item.updatedAt).toISOString();
-      return `${index + 1}. ${item.content}\n    实体：${item.entityName} [${item.entityType}]\n    路径：${item.filePath}\n    更新时间：${updatedAt}`;
+      const severity = item.severity ? ` (${item.severity})` : '';
+      const tags = item.tags.length > 0 ? `\n    标签：${item.tags.map((tag) => `#${tag}`).join(' ')}` : '';
+      const highlight = item.highlight ? `\n    匹配：${item.highlight}` : '';
+      return `${index + 1}. [${item.kind}${severity}] ${item.content}\n    实体：${item.entityName} [${item.entityType}]\n    路径：${item.filePath}${tags}\n    更新时间：${updatedAt}${highlight}`;
     })
     .join('\n\n');
 }
@@ -72,6 +79,7 @@ describe('Formatters', () => {
           startLine: 1,
           endLine: 50,
           description: 'A test service',
+          aliases: [],
           metadata: null,
           createdAt: now,
           updatedAt: now,
@@ -95,6 +103,7 @@ describe('Formatters', () => {
           startLine: 1,
           endLine: 10,
           description: null,
+          aliases: [],
           metadata: null,
           createdAt: now,
           updatedAt: now,
@@ -107,6 +116,7 @@ describe('Formatters', () => {
           startLine: 5,
           endLine: 15,
           description: 'Some function',
+          aliases: [],
           metadata: null,
           createdAt: now,
           updatedAt: now,
@@ -130,6 +140,7 @@ describe('Formatters', () => {
           startLine: 1,
           endLine: 10,
           description: null,
+          aliases: [],
           metadata: null,
           createdAt: now,
           updatedAt: now,
@@ -139,6 +150,27 @@ describe('Formatters', () => {
       const result = formatEntityResults(entities);
 
       expect(result).not.toContain('描述：');
+      expect(result).not.toContain('别名：');
+    });
+
+    it('应该显示别名', () => {
+      const entities: EntityRecord[] = [
+        {
+          id: 'e1',
+          name: 'UserService',
+          type: 'service',
+          filePath: '/user.ts',
+          startLine: 1,
+          endLine: 10,
+          description: null,
+          aliases: ['userService', 'e9'],
+          metadata: null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      ];
+
+      expect(formatEntityResults(entities)).toContain('别名：userService, e9');
     });
   });
 
@@ -157,6 +189,9 @@ describe('Formatters', () => {
           entityType: 'service',
           filePath: '/src/test.ts',
           content: 'This is an important observation',
+          kind: 'warning',
+          tags: ['auth'],
+          severity: 'high',
           createdAt: now,
           updatedAt: now,
         },
@@ -164,7 +199,8 @@ describe('Formatters', () => {
 
       const result = formatObservationResults(observations);
 
-      expect(result).toContain('1. This is an important observation');
+      expect(result).toContain('1. [warning (high)] This is an important observation');
+      expect(result).toContain('标签：#auth');
       expect(result).toContain('实体：TestService [service]');
       expect(result).toContain('路径：/src/test.ts');
     });
@@ -178,6 +214,9 @@ describe('Formatters', () => {
           entityType: 'class',
           filePath: '/a.ts',
           content: 'First observation',
+          kind: 'note',
+          tags: [],
+          severity: null,
           createdAt: now,
           updatedAt: now,
         },
@@ -188,6 +227,9 @@ describe('Formatters', () => {
           entityType: 'function',
           filePath: '/b.ts',
           content: 'Second observation',
+          kind: 'note',
+          tags: [],
+          severity: null,
           createdAt: now,
           updatedAt: now,
         },
@@ -195,8 +237,8 @@ describe('Formatters', () => {
 
       const result = formatObservationResults(observations);
 
-      expect(result).toContain('1. First observation');
-      expect(result).toContain('2. Second observation');
+      expect(result).toContain('1. [note] First observation');
+      expect(result).toContain('2. [note] Second observation');
     });
   });
 
@@ -220,6 +262,7 @@ describe('Formatters', () => {
           targetName: 'ServiceB',
           targetType: 'service',
           targetFilePath: '/src/b.ts',
+          properties: {},
         },
       ];
 
@@ -247,6 +290,7 @@ describe('Formatters', () => {
             targetName: 'B',
             targetType: 'class',
             targetFilePath: '/b.ts',
+            properties: {},
           },
         ];
 
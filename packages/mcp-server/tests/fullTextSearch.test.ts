@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import { existsSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { GraphDatabase, createMigrationConnection } from '../src/database.js';
+import { runMigrations } from '../src/schema/migrations.js';
+import {
+  SEARCH_INDEX_QUERY,
+  buildMatchQuery,
+  rankSearchRows,
+  type SearchIndexRow
+} from '../src/schema/fullTextSearch.js';
+
+describe('fullTextSearch', () => {
+  describe('buildMatchQuery', () => {
+    it('应该把普通词转换为前缀匹配并用 AND 连接', () => {
+      expect(buildMatchQuery('user service')).toBe('user* service*');
+    });
+
+    it('应该保留结尾的 * 和 OR', () => {
+      expect(buildMatchQuery('cache* OR redis')).toBe('cache* OR redis*');
+    });
+
+    it('应该支持短语', () => {
+      expect(buildMatchQuery('"token refresh" login')).toBe('"token refresh" login*');
+    });
+
+    it('应该支持字段限定', () => {
+      expect(buildMatchQuery('name:user file:src/db desc:"cache layer"')).toBe(
+        'name:user* path:"src db*" description:"cache layer"'
+      );
+    });
+
+    it('应该把不认识的字段名当作普通文本', () => {
+      expect(buildMatchQuery('http://example')).toBe('"http example*"');
+    });
+
+    it('应该忽略 FTS 语法字符并在没有词时返回 null', () => {
+      expect(buildMatchQuery('  ')).toBeNull();
+      expect(buildMatchQuery('OR -- ()')).toBeNull();
+      expect(buildMatchQuery('user) NEAR(')).toBe('user* NEAR*');
+    });
+  });
+
+  describe('search_index', () => {
+    let db: Database.Database;
+
+    const insertEntity = (id: string, name: string, filePath: string, description: string | null = null) => {
+      db.prepare(
+        'INSERT INTO entities (id, name, type, file_path, start_line, end_line, description, created_at, updated_at) VALUES (?, ?, ?, ?, 1, 10, ?, 0, 0)'
+      ).run(id, name, 'class', filePath, description);
+    };
+    const insertObservation = (id: string, entityId: string, content: string) => {
+      db.prepare(
+        'INSERT INTO observations (id, entity_id, content, created_at, updated_at) VALUES (?, ?, ?, 0, 0)'
+      ).run(id, entityId, content);
+    };
+    const search = (query: string, kind: 'entity' | 'observation') =>
+      rankSearchRows(db.prepare(SEARCH_INDEX_QUERY).all(buildMatchQuery(query), kind) as SearchIndexRow[]);
+
+    beforeEach(() => {
+      db = new Database(':memory:');
+      runMigrations(createMigrationConnection(db));
+      insertEntity('e1', 'UserService', 'src/services/user.ts', 'Handles user accounts');
+      insertEntity('e2', 'OrderService', 'src/services/order.ts', 'Creates orders for a user');
+      insertObservation('o1', 'e2', 'Retries payment when the gateway is running slow');
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('应该按前缀匹配并把名称命中排在描述命中之前', () => {
+      const rows = search('user', 'entity');
+
+      expect(rows.map((row) => row.itemId)).toEqual(['e1', 'e2']);
+      expect(rows[0].score).toBeGreaterThan(rows[1].score);
+      expect(rows[0].matchedFields).toEqual(expect.arrayContaining(['name', 'description', 'path']));
+      expect(rows[1].matchedFields).toEqual(['description']);
+    });
+
+    it('应该支持字段限定和词干匹配', () => {
+      expect(search('name:order', 'entity').map((row) => row.itemId)).toEqual(['e2']);
+      expect(search('path:user', 'entity').map((row) => row.itemId)).toEqual(['e1']);
+      expect(search('"payment when"', 'observation').map((row) => row.itemId)).toEqual(['o1']);
+      expect(search('runs', 'observation').map((row) => row.itemId)).toEqual(['o1']);
+    });
+
+    it('应该返回带高亮标记的片段', () => {
+      const [row] = search('gateway', 'observation');
+      expect(row.highlight).toContain('«gateway»');
+    });
+
+    it('应该通过触发器与实体和观察记录保持同步', () => {
+      db.prepare("UPDATE entities SET name = 'AccountService', aliases = '[\"oldUsers\"]' WHERE id = 'e1'").run();
+      expect(search('name:user', 'entity')).toEqual([]);
+      expect(search('account', 'entity').map((row) => row.itemId)).toEqual(['e1']);
+      expect(search('old', 'entity')[0].matchedFields).toEqual(['aliases']);
+
+      db.prepare("UPDATE observations SET content = 'Caches invoices' WHERE id = 'o1'").run();
+      expect(search('gateway', 'observation')).toEqual([]);
+      expect(search('invoice', 'observation').map((row) => row.itemId)).toEqual(['o1']);
+
+      db.prepare("UPDATE entities SET name = 'CheckoutService' WHERE id = 'e2'").run();
+      expect(search('name:checkout', 'observation').map((row) => row.itemId)).toEqual(['o1']);
+
+      db.prepare("DELETE FROM entities WHERE id = 'e2'").run();
+      expect(search('checkout', 'entity')).toEqual([]);
+      expect(search('checkout', 'observation')).toEqual([]);
+    });
+  });
+
+  describe('GraphDatabase', () => {
+    const testDir = join(__dirname, '.test-fts');
+    const testDbPath = join(testDir, 'graph.sqlite');
+    let graph: GraphDatabase;
+
+    beforeEach(() => {
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true });
+      }
+      mkdirSync(testDir, { recursive: true });
+
+      const raw = new Database(testDbPath);
+      runMigrations(createMigrationConnection(raw));
+      const insert = raw.prepare(
+        'INSERT INTO entities (id, name, type, file_path, start_line, end_line, description, created_at, updated_at) VALUES (?, ?, ?, ?, 1, 10, ?, ?, ?)'
+      );
+      // 更新时间越晚越靠前，用来确认结果按得分而不是更新时间排序
+      insert.run('e1', 'UserService', 'class', 'src/services/user.ts', null, 1, 1);
+      insert.run('e2', 'OrderService', 'class', 'src/services/order.ts', 'Looks up the user', 2, 2);
+      insert.run('e3', '用户仓库', 'class', 'src/repo/user.ts', null, 3, 3);
+      raw.prepare(
+        'INSERT INTO observations (id, entity_id, content, created_at, updated_at) VALUES (?, ?, ?, ?, ?)'
+      ).run('o1', 'e1', 'Caches sessions per user', 1, 1);
+      raw.close();
+
+      graph = new GraphDatabase(testDbPath);
+      graph.open();
+    });
+
+    afterEach(() => {
+      graph.close();
+    });
+
+    afterAll(() => {
+      if (existsSync(testDir)) {
+        try {
+          rmSync(testDir, { recursive: true });
+        } catch (e) {
+          // ignore
+        }
+      }
+    });
+
+    it('应该按相关度排序并返回得分、命中字段和高亮', () => {
+      const results = graph.searchEntities({ query: 'user' });
+
+      expect(results.map((entity) => entity.id)).toEqual(['e1', 'e2', 'e3']);
+      expect(results[1].score).toBeGreaterThan(results[2].score ?? 0);
+      expect(results[0].matchedFields).toContain('name');
+      expect(results[1].highlight).toContain('«user»');
+    });
+
+    it('应该在全文检索之后应用类型和路径过滤', () => {
+      const results = graph.searchEntities({ query: 'user', filePath: 'services', limit: 1 });
+      expect(results.map((entity) => entity.id)).toEqual(['e1']);
+    });
+
+    it('应该在没有命中时回退到 LIKE 搜索', () => {
+      const results = graph.searchEntities({ query: '仓库' });
+
+      expect(results.map((entity) => entity.id)).toEqual(['e3']);
+      expect(results[0].score).toBeUndefined();
+    });
+
+    it('应该全文检索观察记录', () => {
+      const results = graph.searchObservations({ query: 'session' });
+
+      expect(results.map((item) => item.id)).toEqual(['o1']);
+      expect(results[0].matchedFields).toEqual(['content']);
+      expect(results[0].highlight).toContain('«sessions»');
+    });
+  });
+});
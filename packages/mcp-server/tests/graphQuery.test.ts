@@ -0,0 +1,163 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { existsSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { GraphDatabase, createMigrationConnection } from '../src/database.js';
+import { runMigrations } from '../src/schema/migrations.js';
+import {
+  GraphQuerySyntaxError,
+  isGraphQuery,
+  parseGraphQuery,
+  runGraphQuery,
+  type GraphSnapshot
+} from '../src/schema/graphQuery.js';
+
+const entity = (id: string, name: string, type: string, filePath: string, aliases: string[] = []) => ({
+  id,
+  name,
+  type,
+  filePath,
+  description: null,
+  aliases
+});
+
+const graph: GraphSnapshot = {
+  entities: [
+    entity('api', 'UserController', 'service', 'src/api/users.ts'),
+    entity('auth', 'AuthService', 'service', 'src/api/auth/service.ts', ['Login']),
+    entity('token', 'TokenStore', 'class', 'src/security/token.ts'),
+    entity('db', 'Database', 'database', 'src/db/index.ts'),
+    entity('helper', 'formatDate', 'function', 'src/utils/date.ts'),
+    ...['a', 'b', 'c', 'd', 'e', 'f'].map((id) => entity(id, `caller${id}`, 'function', `src/jobs/${id}.ts`))
+  ],
+  relations: [
+    { sourceEntityId: 'api', targetEntityId: 'auth', verb: 'depends_on' },
+    { sourceEntityId: 'auth', targetEntityId: 'token', verb: 'depends_on', metadata: { weight: 3, confidence: 0.9 } },
+    { sourceEntityId: 'token', targetEntityId: 'db', verb: 'uses', metadata: { weight: 1 } },
+    ...['a', 'b', 'c', 'd', 'e', 'f'].map((id) => ({ sourceEntityId: id, targetEntityId: 'helper', verb: 'calls' })),
+    { sourceEntityId: 'a', targetEntityId: 'token', verb: 'calls' }
+  ],
+  observations: [
+    { entityId: 'token', content: 'Tokens are stored in plain text', kind: 'security', tags: ['auth'], severity: 'high' },
+    { entityId: 'auth', content: 'Retries login twice', kind: 'note', tags: [] },
+    { entityId: 'a', content: 'Runs nightly' }
+  ]
+};
+
+const ids = (query: string) => runGraphQuery(query, graph).map((item) => item.id);
+
+describe('graphQuery', () => {
+  describe('parseGraphQuery', () => {
+    it('应该解析遍历、属性条件、跳数和聚合', () => {
+      expect(parseGraphQuery('out:calls,uses[weight>=2]*1..3(type:database)')).toEqual({
+        node: 'traverse',
+        direction: 'out',
+        verbs: ['calls', 'uses'],
+        properties: [{ property: 'weight', op: '>=', value: '2' }],
+        minHops: 1,
+        maxHops: 3,
+        where: { node: 'field', field: 'type', op: ':', values: ['database'] }
+      });
+      expect(parseGraphQuery('count(in:calls) > 5')).toMatchObject({
+        node: 'count',
+        target: { node: 'traverse', direction: 'in', verbs: ['calls'] },
+        op: '>',
+        value: 5
+      });
+    });
+
+    it('应该给出带位置的语法错误', () => {
+      expect(() => parseGraphQuery('type:service (out:calls')).toThrow(GraphQuerySyntaxError);
+      expect(() => parseGraphQuery('type:service (out:calls')).toThrow(/缺少 "\)"/);
+      expect(() => parseGraphQuery('out[owner=me]')).toThrow(/未知的关系属性 "owner"/);
+      expect(() => parseGraphQuery('out*20')).toThrow(/跳数/);
+      expect(() => parseGraphQuery('count(obs) >')).toThrow(/整数/);
+      expect(() => parseGraphQuery('type>service')).toThrow(/不支持运算符/);
+      expect(() => parseGraphQuery('obs(severity>=urgent)')).toThrow(/未知的严重程度/);
+    });
+
+    it('应该区分结构化查询和关键字搜索', () => {
+      expect(isGraphQuery('type:service')).toBe(true);
+      expect(isGraphQuery('count(obs) = 0')).toBe(true);
+      expect(isGraphQuery('in:calls')).toBe(true);
+      expect(isGraphQuery('user service')).toBe(false);
+      expect(isGraphQuery('name:auth path:src/db')).toBe(false);
+    });
+  });
+
+  describe('runGraphQuery', () => {
+    it('应该按类型、路径通配符和名称过滤', () => {
+      expect(ids('type:service path:src/api')).toEqual(['auth', 'api']);
+      expect(ids('path:src/api/*.ts')).toEqual(['api']);
+      expect(ids('path:src/**/service.ts')).toEqual(['auth']);
+      expect(ids('type:class,database')).toEqual(['db', 'token']);
+      expect(ids('login')).toEqual(['auth']);
+      expect(ids('name:*Store')).toEqual(['token']);
+      expect(ids('type:function NOT name:caller*')).toEqual(['helper']);
+    });
+
+    it('应该找出依赖有安全问题的实体的服务', () => {
+      expect(ids('type:service path:src/api out:depends_on(obs(kind:security))')).toEqual(['auth']);
+      expect(ids('type:service out:depends_on*2(obs(tag:auth severity>=high))')).toEqual(['auth', 'api']);
+    });
+
+    it('应该按跳数范围和关系属性遍历', () => {
+      expect(ids('out*2..3(type:database)')).toEqual(['auth', 'a', 'api']);
+      expect(ids('out:depends_on[weight>=2]')).toEqual(['auth']);
+      expect(ids('out[confidence<0.5]')).toEqual([]);
+      expect(ids('both:uses(name:TokenStore)')).toEqual(['db']);
+    });
+
+    it('应该支持聚合条件', () => {
+      expect(ids('type:function count(obs) = 0 count(in:calls) > 5')).toEqual(['helper']);
+      expect(ids('count(out) >= 2')).toEqual(['a']);
+      // 没有种类的观察记录视为 note
+      expect(ids('count(obs(kind:note)) = 1')).toEqual(['auth', 'a']);
+    });
+  });
+
+  describe('GraphDatabase.queryGraph', () => {
+    const testDir = join(__dirname, '.test-graph-query');
+    const testDbPath = join(testDir, 'graph.sqlite');
+
+    afterAll(() => {
+      if (existsSync(testDir)) {
+        try {
+          rmSync(testDir, { recursive: true });
+        } catch (e) {
+          // ignore
+        }
+      }
+    });
+
+    it('应该在数据库上执行查询', () => {
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true });
+      }
+      mkdirSync(testDir, { recursive: true });
+      const raw = new Database(testDbPath);
+      runMigrations(createMigrationConnection(raw));
+      const insertEntity = raw.prepare(
+        'INSERT INTO entities (id, name, type, file_path, start_line, end_line, created_at, updated_at) VALUES (?, ?, ?, ?, 1, 10, 0, 0)'
+      );
+      insertEntity.run('e1', 'OrderService', 'service', 'src/api/order.ts');
+      insertEntity.run('e2', 'PaymentGateway', 'external', 'src/pay.ts');
+      raw.prepare(
+        'INSERT INTO relations (id, source_entity_id, target_entity_id, verb, created_at, metadata) VALUES (?, ?, ?, ?, 0, ?)'
+      ).run('r1', 'e1', 'e2', 'depends_on', JSON.stringify({ weight: 5 }));
+      raw.prepare(
+        "INSERT INTO observations (id, entity_id, content, kind, tags, severity, created_at, updated_at) VALUES ('o1', 'e2', 'Leaks card numbers in logs', 'security', '[\"pci\"]', 'critical', 0, 0)"
+      ).run();
+      raw.close();
+
+      const db = new GraphDatabase(testDbPath);
+      db.open();
+      expect(db.queryGraph({ query: 'out:depends_on[weight>3](obs(tag:pci))' }).map((item) => item.name)).toEqual([
+        'OrderService'
+      ]);
+      expect(db.queryGraph({ query: 'count(obs(severity>=high)) = 0' }).map((item) => item.id)).toEqual(['e1']);
+      expect(() => db.queryGraph({ query: 'out:(' })).toThrow(GraphQuerySyntaxError);
+      db.close();
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { existsSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { GraphDatabase, createMigrationConnection } from '../src/database.js';
+import {
+  LATEST_SCHEMA_VERSION,
+  SchemaVersionError,
+  getSchemaVersion,
+  runMigrations,
+  type SchemaMigration
+} from '../src/schema/migrations.js';
+
+describe('schema migrations', () => {
+  const testDir = join(__dirname, '.test-migrations');
+  const testDbPath = join(testDir, 'graph.sqlite');
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    if (existsSync(testDir)) {
+      try {
+        rmSync(testDir, { recursive: true });
+      } catch (e) {
+        // ignore
+      }
+    }
+  });
+
+  describe('runMigrations', () => {
+    it('应该在空数据库上创建全部表并记录版本', () => {
+      const db = new Database(':memory:');
+      const conn = createMigrationConnection(db);
+
+      const result = runMigrations(conn);
+
+      expect(result.fromVersion).toBe(0);
+      expect(result.toVersion).toBe(LATEST_SCHEMA_VERSION);
+      expect(getSchemaVersion(conn)).toBe(LATEST_SCHEMA_VERSION);
+
+      const tables = db
+        .prepare(`SELECT name FROM sqlite_master WHERE type = 'table'`)
+        .pluck()
+        .all();
+      expect(tables).toEqual(
+        expect.arrayContaining(['entities', 'relations', 'observations', 'auto_entities', 'schema_version'])
+      );
+      db.close();
+    });
+
+    it('应该重复执行时不再应用迁移', () => {
+      const db = new Database(':memory:');
+      const conn = createMigrationConnection(db);
+
+      runMigrations(conn);
+      const second = runMigrations(conn);
+
+      expect(second.applied).toEqual([]);
+      expect(second.toVersion).toBe(LATEST_SCHEMA_VERSION);
+      db.close();
+    });
+
+    it('应该保留没有版本表的旧数据库中的数据', () => {
+      const db = new Database(':memory:');
+      db.exec(`
+        CREATE TABLE entities (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          file_path TEXT NOT NULL,
+          start_line INTEGER NOT NULL,
+          end_line INTEGER NOT NULL,
+          description TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          metadata TEXT
+        );
+        INSERT INTO entities VALUES ('e1', 'UserService', 'service', '/src/user.ts', 1, 10, null, 0, 0, null);
+      `);
+      const conn = createMigrationConnection(db);
+
+      const result = runMigrations(conn);
+
+      expect(result.fromVersion).toBe(0);
+      expect(db.prepare('SELECT COUNT(*) FROM entities').pluck().get()).toBe(1);
+      db.close();
+    });
+
+    it('应该按版本顺序执行新增迁移', () => {
+      const db = new Database(':memory:');
+      const conn = createMigrationConnection(db);
+      const migrations: SchemaMigration[] = [
+        { version: 2, description: 'b', statements: ['ALTER TABLE t ADD COLUMN b TEXT'] },
+        { version: 1, description: 'a', statements: ['CREATE TABLE t (a TEXT)'] }
+      ];
+
+      const result = runMigrations(conn, migrations);
+
+      expect(result.applied).toEqual([1, 2]);
+      const columns = db.prepare('PRAGMA table_info(t)').all() as { name: string }[];
+      expect(columns.map((c) => c.name)).toEqual(['a', 'b']);
+      db.close();
+    });
+
+    it('应该回滚失败的迁移', () => {
+      const db = new Database(':memory:');
+      const conn = createMigrationConnection(db);
+      const migrations: SchemaMigration[] = [
+        { version: 1, description: 'a', statements: ['CREATE TABLE t (a TEXT)', 'INVALID SQL'] }
+      ];
+
+      expect(() => runMigrations(conn, migrations)).toThrow(/迁移 v1 失败/);
+      expect(getSchemaVersion(conn)).toBe(0);
+      expect(
+        db.prepare(`SELECT name FROM sqlite_master WHERE name = 't'`).pluck().get()
+      ).toBeUndefined();
+      db.close();
+    });
+
+    it('应该拒绝高于当前支持版本的数据库', () => {
+      const db = new Database(':memory:');
+      const conn = createMigrationConnection(db);
+      runMigrations(conn);
+      db.prepare('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)')
+        .run(LATEST_SCHEMA_VERSION + 1, 'future', Date.now());
+
+      expect(() => runMigrations(conn)).toThrow(SchemaVersionError);
+      db.close();
+    });
+  });
+
+  describe('GraphDatabase.open', () => {
+    it('应该读取表结构版本', () => {
+      const raw = new Database(testDbPath);
+      runMigrations(createMigrationConnection(raw));
+      raw.close();
+
+      const db = new GraphDatabase(testDbPath);
+      db.open();
+      expect(db.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+      db.close();
+    });
+
+    it('应该拒绝更新版本的表结构并给出明确错误', () => {
+      const raw = new Database(testDbPath);
+      runMigrations(createMigrationConnection(raw));
+      raw.prepare('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)')
+        .run(LATEST_SCHEMA_VERSION + 1, 'future', Date.now());
+      raw.close();
+
+      const db = new GraphDatabase(testDbPath);
+      expect(() => db.open()).toThrow(/高于当前程序支持的版本/);
+      expect(() => db.getOverview()).toThrow(/尚未初始化/);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isObservationKind,
+  isObservationSeverity,
+  normalizeTags,
+  severityRank
+} from '../src/schema/observationFields.js';
+
+describe('observationFields', () => {
+  describe('normalizeTags', () => {
+    it('应该支持数组', () => {
+      expect(normalizeTags([' perf ', '#cache', 'perf', '', 42])).toEqual(['perf', 'cache']);
+    });
+
+    it('应该支持逗号分隔的字符串', () => {
+      expect(normalizeTags('#perf, cache ,,perf')).toEqual(['perf', 'cache']);
+    });
+
+    it('应该支持 tags 列中的 JSON 数组', () => {
+      expect(normalizeTags('["perf","cache"]')).toEqual(['perf', 'cache']);
+    });
+
+    it('应该在无法解析时返回空数组', () => {
+      expect(normalizeTags('[broken')).toEqual([]);
+      expect(normalizeTags(null)).toEqual([]);
+      expect(normalizeTags(undefined)).toEqual([]);
+    });
+  });
+
+  describe('severityRank', () => {
+    it('应该按严重程度从低到高排序，未设置为 0', () => {
+      expect(severityRank(undefined)).toBe(0);
+      expect(severityRank('low')).toBeLessThan(severityRank('medium'));
+      expect(severityRank('high')).toBeLessThan(severityRank('critical'));
+    });
+  });
+
+  describe('类型守卫', () => {
+    it('应该识别合法的种类和严重程度', () => {
+      expect(isObservationKind('gotcha')).toBe(true);
+      expect(isObservationKind('bug')).toBe(false);
+      expect(isObservationSeverity('critical')).toBe(true);
+      expect(isObservationSeverity('urgent')).toBe(false);
+    });
+  });
+});
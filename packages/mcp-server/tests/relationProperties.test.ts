@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatRelationProperties,
+  getRelationProperties,
+  mergeRelationProperties
+} from '../src/schema/relationProperties.js';
+
+describe('relationProperties', () => {
+  describe('getRelationProperties', () => {
+    it('应该读取合法的属性', () => {
+      expect(
+        getRelationProperties({
+          label: ' per request ',
+          weight: 200,
+          cardinality: 'one-to-many',
+          confidence: 0.8,
+          sinceVersion: '2.1',
+          other: 'ignored'
+        })
+      ).toEqual({
+        label: 'per request',
+        weight: 200,
+        cardinality: 'one-to-many',
+        confidence: 0.8,
+        sinceVersion: '2.1'
+      });
+    });
+
+    it('应该忽略不合法的属性', () => {
+      expect(
+        getRelationProperties({ label: '', weight: -1, cardinality: 'some', confidence: 1.5, sinceVersion: 2 })
+      ).toEqual({});
+      expect(getRelationProperties(null)).toEqual({});
+    });
+  });
+
+  describe('mergeRelationProperties', () => {
+    it('应该保留其他元数据', () => {
+      expect(mergeRelationProperties({ source: 'import' }, { weight: 3 })).toEqual({ source: 'import', weight: 3 });
+    });
+
+    it('值为 undefined 的属性应该被移除', () => {
+      expect(mergeRelationProperties({ weight: 3, label: 'x' }, { weight: undefined })).toEqual({ label: 'x' });
+      expect(mergeRelationProperties({ weight: 3 }, { weight: undefined })).toBeUndefined();
+    });
+  });
+
+  describe('formatRelationProperties', () => {
+    it('应该生成单行摘要', () => {
+      expect(
+        formatRelationProperties({ label: 'per request', weight: 200, cardinality: 'one-to-many', confidence: 0.8, sinceVersion: '2.1' })
+      ).toBe('"per request" · weight 200 · 1:N · confidence 80% · since 2.1');
+    });
+
+    it('没有属性时返回空字符串', () => {
+      expect(formatRelationProperties({})).toBe('');
+    });
+  });
+});
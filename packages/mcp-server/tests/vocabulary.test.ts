@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILTIN_ENTITY_TYPES,
+  buildVocabulary,
+  parseSchemaFile,
+  parseVocabularyTerms
+} from '../src/schema/vocabulary.js';
+
+describe('vocabulary', () => {
+  describe('parseVocabularyTerms', () => {
+    it('应该支持字符串数组', () => {
+      expect(parseVocabularyTerms(['queue', 'team'])).toEqual([
+        { name: 'queue', icon: undefined, color: undefined, description: undefined },
+        { name: 'team', icon: undefined, color: undefined, description: undefined }
+      ]);
+    });
+
+    it('应该支持对象数组和名称映射', () => {
+      const fromArray = parseVocabularyTerms([{ name: 'queue', icon: 'inbox', color: '#FF8800' }]);
+      const fromMap = parseVocabularyTerms({ queue: { icon: 'inbox', color: '#FF8800' }, team: '负责团队' });
+
+      expect(fromArray[0]).toMatchObject({ name: 'queue', icon: 'inbox', color: '#FF8800' });
+      expect(fromMap[0]).toMatchObject({ name: 'queue', icon: 'inbox', color: '#FF8800' });
+      expect(fromMap[1]).toMatchObject({ name: 'team', description: '负责团队' });
+    });
+
+    it('应该忽略名称不合法的条目', () => {
+      const terms = parseVocabularyTerms(['ok', '1bad', 'has space', { icon: 'x' }, 42, null]);
+      expect(terms.map((term) => term.name)).toEqual(['ok']);
+    });
+
+    it('非数组或对象时返回空列表', () => {
+      expect(parseVocabularyTerms(undefined)).toEqual([]);
+      expect(parseVocabularyTerms('queue')).toEqual([]);
+    });
+  });
+
+  describe('parseSchemaFile', () => {
+    it('应该解析实体类型和关系动词', () => {
+      const schema = parseSchemaFile(
+        JSON.stringify({ entityTypes: ['queue'], relationVerbs: [{ name: 'publishes_to', color: '#00FF00' }] })
+      );
+
+      expect(schema.entityTypes?.map((term) => term.name)).toEqual(['queue']);
+      expect(schema.relationVerbs?.[0]).toMatchObject({ name: 'publishes_to', color: '#00FF00' });
+    });
+
+    it('无效内容应该抛出错误', () => {
+      expect(() => parseSchemaFile('{ invalid')).toThrow('schema.json');
+      expect(() => parseSchemaFile('[]')).toThrow('schema.json');
+    });
+  });
+
+  describe('buildVocabulary', () => {
+    it('没有自定义词汇时只包含内置词汇', () => {
+      const vocabulary = buildVocabulary();
+      expect(vocabulary.entityTypes).toHaveLength(BUILTIN_ENTITY_TYPES.length);
+      expect(vocabulary.entityTypes.every((term) => term.builtin)).toBe(true);
+    });
+
+    it('自定义词汇追加在内置词汇之后', () => {
+      const vocabulary = buildVocabulary({ entityTypes: [{ name: 'queue', icon: 'inbox' }] });
+      const last = vocabulary.entityTypes[vocabulary.entityTypes.length - 1];
+      expect(last).toEqual({ builtin: false, name: 'queue', icon: 'inbox' });
+    });
+
+    it('后面的来源只覆盖给出的属性', () => {
+      const vocabulary = buildVocabulary(
+        { entityTypes: [{ name: 'queue', icon: 'inbox', description: '消息队列' }] },
+        { entityTypes: [{ name: 'queue', color: '#FF8800' }, { name: 'service', icon: 'cloud' }] }
+      );
+
+      expect(vocabulary.entityTypes.find((term) => term.name === 'queue')).toMatchObject({
+        icon: 'inbox',
+        color: '#FF8800',
+        description: '消息队列'
+      });
+      // 覆盖内置类型时保留内置的颜色，仍视为内置类型
+      expect(vocabulary.entityTypes.find((term) => term.name === 'service')).toMatchObject({
+        icon: 'cloud',
+        color: '#56B6C2',
+        builtin: true
+      });
+    });
+  });
+});
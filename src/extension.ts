@@ -1,17 +1,18 @@
 import * as vscode from 'vscode';
-import { DatabaseService } from './services/database';
-import { EntityService } from './services/entityService';
-import { RelationService } from './services/relationService';
-import { ObservationService } from './services/observationService';
 import { GeminiClient } from './services/geminiClient';
 import { RAGService } from './services/ragService';
-import { AutoGraphService, CodeAnalyzer } from './services/autoGraph';
+import { FolderGraph, FolderHint, WorkspaceGraphRegistry } from './services/workspaceGraphs';
 import { KnowledgeHoverProvider } from './providers/hoverProvider';
 import { KnowledgeCodeLensProvider } from './providers/codeLensProvider';
-import { KnowledgeTreeDataProvider } from './providers/treeDataProvider';
+import { KnowledgeTreeDataProvider, KnowledgeTreeItem } from './providers/treeDataProvider';
+import { KnowledgeTreeDragAndDropController } from './providers/treeDragAndDropController';
 import { RAGTreeDataProvider } from './providers/ragTreeDataProvider';
 import { EntityCommands } from './ui/commands/entityCommands';
 import { RAGCommands } from './ui/commands/ragCommands';
+import { GraphCommands } from './ui/commands/graphCommands';
+import { HistoryCommands } from './ui/commands/historyCommands';
+import { DatabaseWatcher } from './services/databaseWatcher';
+import { GraphMergeService } from './services/graphMergeService';
 import { AutoGraphCommands } from './ui/commands/autoGraphCommands';
 import { registerScenarioCommands } from './commands/scenarioCommands';
 import { ScenarioManager } from './services/scenarioManager';
@@ -20,6 +21,16 @@ import { I18nService, currentLang } from './i18n/i18nService';
 import { Language } from './i18n/types';
 import { t } from './i18n/i18nService';
 
+/**
+ * 单个工作区文件夹的命令处理器
+ */
+interface FolderCommands {
+  entityCommands: EntityCommands;
+  autoGraphCommands: AutoGraphCommands;
+  graphCommands: GraphCommands;
+  historyCommands: HistoryCommands;
+}
+
 /**
  * 插件激活时调用
  */
@@ -47,19 +58,17 @@ export async function activate(context: vscode.ExtensionContext) {
   console.log('Workspace root:', workspaceRoot);
 
   try {
-    // 初始化服务层
-    console.log('Initializing database...');
-    const dbService = new DatabaseService();
-    await dbService.initialize(workspaceRoot);
-    console.log('Database initialized successfully');
-
-    const entityService = new EntityService(dbService);
-    const relationService = new RelationService(dbService, entityService);
-    const observationService = new ObservationService(dbService, entityService);
+    // 初始化服务层：每个工作区文件夹一个图谱
+    console.log('Initializing databases...');
+    const registry = new WorkspaceGraphRegistry();
+    for (const folder of workspaceFolders) {
+      await registry.addFolder(folder);
+    }
+    console.log('Databases initialized successfully');
 
-    // 初始化 Gemini 客户端和 RAG 服务
+    // 初始化 Gemini 客户端和 RAG 服务（RAG 索引保存在第一个文件夹的图谱中）
     const geminiClient = new GeminiClient();
-    const ragService = new RAGService(dbService, geminiClient);
+    const ragService = new RAGService(registry.getPrimary().dbService, geminiClient);
 
     // 尝试初始化 Gemini 客户端和 RAG 服务（可选功能）
     let ragInitialized = false;
@@ -163,35 +172,80 @@ export async function activate(context: vscode.ExtensionContext) {
       })
     );
 
-    // 初始化自动图谱服务（需要在 EntityCommands 之前初始化）
-    const autoGraphService = new AutoGraphService(dbService);
-    const codeAnalyzer = new CodeAnalyzer(autoGraphService);
-    codeAnalyzer.initialize(workspaceRoot);
-    const autoGraphCommands = new AutoGraphCommands(autoGraphService, codeAnalyzer);
-    
-    // 设置 AutoGraphService 到 GraphView 以支持视图切换
-    GraphView.setAutoGraphService(autoGraphService);
+    // 初始化命令处理器（每个文件夹一组）
+    const folderCommands = new Map<string, FolderCommands>();
+    const createFolderCommands = (graph: FolderGraph): FolderCommands => ({
+      entityCommands: new EntityCommands(
+        graph.entityService,
+        graph.relationService,
+        graph.observationService,
+        graph.importService,
+        graph.entityMergeService,
+        graph.bulkOperationService,
+        graph.searchService,
+        graph.folder,
+        registry,
+        graph.vocabulary,
+        graph.autoGraphService
+      ),
+      autoGraphCommands: new AutoGraphCommands(
+        graph.autoGraphService,
+        graph.codeAnalyzer,
+        graph.autoPromotionService,
+        graph.entityReconcileService,
+        graph.folder
+      ),
+      graphCommands: new GraphCommands(
+        graph.dbService,
+        ragService,
+        graph.textStore,
+        new GraphMergeService(
+          graph.dbService,
+          graph.entityService,
+          graph.relationService,
+          graph.observationService,
+          graph.importService,
+          graph.historyService
+        ),
+        registry
+      ),
+      historyCommands: new HistoryCommands(graph.historyService, graph.entityService),
+    });
+    registry.getAll().forEach(graph => folderCommands.set(graph.key, createFolderCommands(graph)));
 
-    // 初始化命令处理器
-    const entityCommands = new EntityCommands(
-      entityService,
-      relationService,
-      observationService,
-      autoGraphService
-    );
+    /**
+     * 根据命令参数（树节点、实体或实体 ID）找到目标文件夹的命令处理器
+     */
+    const commandsFor = async (hint?: FolderHint): Promise<FolderCommands | undefined> => {
+      const graph = await registry.resolve(hint, t().commands.selectFolder.placeholder);
+      return graph ? folderCommands.get(graph.key) : undefined;
+    };
 
     const ragCommands = new RAGCommands(ragService, geminiClient);
 
     // 注册树视图
-    const treeDataProvider = new KnowledgeTreeDataProvider(
-      entityService,
-      relationService,
-      observationService
-    );
-    treeDataProvider.setAutoGraphService(autoGraphService);
+    const treeDataProvider = new KnowledgeTreeDataProvider(registry);
+    // 把实体拖到另一个实体上创建关系
+    const dragAndDropController = new KnowledgeTreeDragAndDropController(async (sources, target) => {
+      try {
+        console.log('Executing: drop entities on', target.label);
+        const commands = await commandsFor(sources[0]);
+        if (!commands) {
+          return;
+        }
+        await commands.entityCommands.linkSelectedTo(sources[0], sources, target);
+        treeDataProvider.refresh();
+        codeLensProvider.refresh();
+      } catch (error) {
+        console.error('Error in drop entities:', error);
+        vscode.window.showErrorMessage(`Error creating relations: ${error}`);
+      }
+    });
     const treeView = vscode.window.createTreeView('knowledgeGraphExplorer', {
       treeDataProvider,
       showCollapseAll: true,
+      canSelectMany: true,
+      dragAndDropController,
     });
     treeDataProvider.setTreeView(treeView);
     context.subscriptions.push(treeView);
@@ -206,11 +260,7 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(ragTreeView);
 
     // 注册 CodeLens Provider
-    const codeLensProvider = new KnowledgeCodeLensProvider(
-      entityService,
-      relationService,
-      observationService
-    );
+    const codeLensProvider = new KnowledgeCodeLensProvider(registry);
     context.subscriptions.push(
       vscode.languages.registerCodeLensProvider(
         { scheme: 'file' },
@@ -226,7 +276,11 @@ export async function activate(context: vscode.ExtensionContext) {
         async () => {
           try {
             console.log('Executing: knowledge.createEntity');
-            await entityCommands.createEntityFromSelection();
+            const commands = await commandsFor();
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.createEntityFromSelection();
             // 刷新树视图和 CodeLens
             treeDataProvider.refresh();
             codeLensProvider.refresh();
@@ -244,7 +298,11 @@ export async function activate(context: vscode.ExtensionContext) {
         async (entityId?: string) => {
           try {
             console.log('Executing: knowledge.addObservation');
-            await entityCommands.addObservationToEntity(entityId);
+            const commands = await commandsFor(entityId);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.addObservationToEntity(entityId);
             // 刷新 CodeLens 显示更新的统计
             codeLensProvider.refresh();
           } catch (error) {
@@ -261,7 +319,11 @@ export async function activate(context: vscode.ExtensionContext) {
         async (treeItem) => {
           try {
             console.log('Executing: knowledge.editObservation');
-            await entityCommands.editObservation(treeItem);
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.editObservation(treeItem);
             codeLensProvider.refresh();
           } catch (error) {
             console.error('Error in editObservation:', error);
@@ -271,13 +333,184 @@ export async function activate(context: vscode.ExtensionContext) {
       )
     );
 
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        'knowledge.mergeEntities',
+        async (treeItem) => {
+          try {
+            console.log('Executing: knowledge.mergeEntities');
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.mergeEntities(treeItem);
+            treeDataProvider.refresh();
+            codeLensProvider.refresh();
+          } catch (error) {
+            console.error('Error in mergeEntities:', error);
+            vscode.window.showErrorMessage(`Error merging entities: ${error}`);
+          }
+        }
+      )
+    );
+
+    // 树视图多选的批量操作（VS Code 传入右键的节点和所有选中的节点）
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        'knowledge.deleteSelected',
+        async (treeItem, selectedItems) => {
+          try {
+            console.log('Executing: knowledge.deleteSelected');
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.deleteSelected(treeItem, selectedItems);
+            treeDataProvider.refresh();
+            codeLensProvider.refresh();
+          } catch (error) {
+            console.error('Error in deleteSelected:', error);
+            vscode.window.showErrorMessage(`Error deleting selected items: ${error}`);
+          }
+        }
+      )
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        'knowledge.retypeSelected',
+        async (treeItem, selectedItems) => {
+          try {
+            console.log('Executing: knowledge.retypeSelected');
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.retypeSelected(treeItem, selectedItems);
+            treeDataProvider.refresh();
+            codeLensProvider.refresh();
+          } catch (error) {
+            console.error('Error in retypeSelected:', error);
+            vscode.window.showErrorMessage(`Error changing entity types: ${error}`);
+          }
+        }
+      )
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        'knowledge.tagSelected',
+        async (treeItem, selectedItems) => {
+          try {
+            console.log('Executing: knowledge.tagSelected');
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.tagSelected(treeItem, selectedItems);
+            treeDataProvider.refresh();
+            codeLensProvider.refresh();
+          } catch (error) {
+            console.error('Error in tagSelected:', error);
+            vscode.window.showErrorMessage(`Error tagging observations: ${error}`);
+          }
+        }
+      )
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        'knowledge.addObservationToSelected',
+        async (treeItem, selectedItems) => {
+          try {
+            console.log('Executing: knowledge.addObservationToSelected');
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.addObservationToSelected(treeItem, selectedItems);
+            treeDataProvider.refresh();
+            codeLensProvider.refresh();
+          } catch (error) {
+            console.error('Error in addObservationToSelected:', error);
+            vscode.window.showErrorMessage(`Error adding observations: ${error}`);
+          }
+        }
+      )
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        'knowledge.linkSelectedTo',
+        async (treeItem, selectedItems) => {
+          try {
+            console.log('Executing: knowledge.linkSelectedTo');
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.linkSelectedTo(treeItem, selectedItems);
+            treeDataProvider.refresh();
+            codeLensProvider.refresh();
+          } catch (error) {
+            console.error('Error in linkSelectedTo:', error);
+            vscode.window.showErrorMessage(`Error creating relations: ${error}`);
+          }
+        }
+      )
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        'knowledge.confirmStaleObservation',
+        async (treeItem) => {
+          try {
+            console.log('Executing: knowledge.confirmStaleObservation');
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.confirmStaleObservation(treeItem);
+            codeLensProvider.refresh();
+          } catch (error) {
+            console.error('Error in confirmStaleObservation:', error);
+            vscode.window.showErrorMessage(`Error confirming observation: ${error}`);
+          }
+        }
+      )
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        'knowledge.updateStaleObservation',
+        async (treeItem) => {
+          try {
+            console.log('Executing: knowledge.updateStaleObservation');
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.editObservation(treeItem);
+            codeLensProvider.refresh();
+          } catch (error) {
+            console.error('Error in updateStaleObservation:', error);
+            vscode.window.showErrorMessage(`Error updating observation: ${error}`);
+          }
+        }
+      )
+    );
+
     context.subscriptions.push(
       vscode.commands.registerCommand(
         'knowledge.addRelation',
         async () => {
           try {
             console.log('Executing: knowledge.addRelation');
-            await entityCommands.addRelation();
+            const commands = await commandsFor();
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.addRelation();
             // 刷新树视图和 CodeLens 显示新的关系
             treeDataProvider.refresh();
             codeLensProvider.refresh();
@@ -295,7 +528,11 @@ export async function activate(context: vscode.ExtensionContext) {
         async (entityId?: string) => {
           try {
             console.log('Executing: knowledge.viewEntityDetails');
-            await entityCommands.viewEntityDetails(entityId);
+            const commands = await commandsFor(entityId);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.viewEntityDetails(entityId);
           } catch (error) {
             console.error('Error in viewEntityDetails:', error);
             vscode.window.showErrorMessage(`Error viewing entity: ${error}`);
@@ -310,7 +547,11 @@ export async function activate(context: vscode.ExtensionContext) {
         async (entity) => {
           try {
             console.log('Executing: knowledge.jumpToEntity');
-            await entityCommands.jumpToEntity(entity);
+            const commands = await commandsFor(entity);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.jumpToEntity(entity);
           } catch (error) {
             console.error('Error in jumpToEntity:', error);
             vscode.window.showErrorMessage(`Error jumping to entity: ${error}`);
@@ -325,7 +566,11 @@ export async function activate(context: vscode.ExtensionContext) {
         async () => {
           try {
             console.log('Executing: knowledge.searchGraph');
-            await entityCommands.searchGraph();
+            const commands = await commandsFor();
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.searchGraph();
           } catch (error) {
             console.error('Error in searchGraph:', error);
             vscode.window.showErrorMessage(`Error searching graph: ${error}`);
@@ -340,7 +585,11 @@ export async function activate(context: vscode.ExtensionContext) {
         async (treeItem) => {
           try {
             console.log('Executing: knowledge.deleteEntity');
-            await entityCommands.deleteEntity(treeItem);
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.deleteEntity(treeItem);
             // 刷新树视图和 CodeLens
             treeDataProvider.refresh();
             codeLensProvider.refresh();
@@ -358,7 +607,11 @@ export async function activate(context: vscode.ExtensionContext) {
         async () => {
           try {
             console.log('Executing: knowledge.deleteRelation');
-            await entityCommands.deleteRelation();
+            const commands = await commandsFor();
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.deleteRelation();
             // 刷新树视图和 CodeLens
             treeDataProvider.refresh();
             codeLensProvider.refresh();
@@ -370,13 +623,58 @@ export async function activate(context: vscode.ExtensionContext) {
       )
     );
 
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        'knowledge.reanchorEntity',
+        async (treeItem) => {
+          try {
+            console.log('Executing: knowledge.reanchorEntity');
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.reanchorEntity(treeItem);
+            treeDataProvider.refresh();
+            codeLensProvider.refresh();
+          } catch (error) {
+            console.error('Error in reanchorEntity:', error);
+            vscode.window.showErrorMessage(`Error re-anchoring entity: ${error}`);
+          }
+        }
+      )
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        'knowledge.editRelation',
+        async (treeItem) => {
+          try {
+            console.log('Executing: knowledge.editRelation');
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.editRelation(treeItem);
+            treeDataProvider.refresh();
+          } catch (error) {
+            console.error('Error in editRelation:', error);
+            vscode.window.showErrorMessage(`Error editing relation: ${error}`);
+          }
+        }
+      )
+    );
+
     context.subscriptions.push(
       vscode.commands.registerCommand(
         'knowledge.deleteRelationFromTree',
         async (treeItem) => {
           try {
             console.log('Executing: knowledge.deleteRelationFromTree');
-            await entityCommands.deleteRelationFromTree(treeItem);
+            const commands = await commandsFor(treeItem);
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.deleteRelationFromTree(treeItem);
             // 刷新树视图和 CodeLens
             treeDataProvider.refresh();
             codeLensProvider.refresh();
@@ -394,7 +692,11 @@ export async function activate(context: vscode.ExtensionContext) {
         async () => {
           try {
             console.log('Executing: knowledge.deleteObservation');
-            await entityCommands.deleteObservation();
+            const commands = await commandsFor();
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.deleteObservation();
             // 刷新树视图和 CodeLens
             treeDataProvider.refresh();
             codeLensProvider.refresh();
@@ -412,7 +714,11 @@ export async function activate(context: vscode.ExtensionContext) {
         async () => {
           try {
             console.log('Executing: knowledge.linkToEntity');
-            await entityCommands.linkToEntity();
+            const commands = await commandsFor();
+            if (!commands) {
+              return;
+            }
+            await commands.entityCommands.linkToEntity();
             // 刷新树视图和 CodeLens 显示新的关系
             treeDataProvider.refresh();
             codeLensProvider.refresh();
@@ -425,14 +731,22 @@ export async function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-      vscode.commands.registerCommand('knowledge.visualizeGraph', () => {
+      vscode.commands.registerCommand('knowledge.visualizeGraph', async () => {
         try {
           console.log('Executing: knowledge.visualizeGraph');
+          const graph = await registry.resolve(undefined, t().commands.selectFolder.placeholder);
+          if (!graph) {
+            return;
+          }
+          // 设置 AutoGraphService 到 GraphView 以支持视图切换
+          GraphView.setAutoGraphService(graph.autoGraphService);
           GraphView.createOrShow(
             context.extensionUri,
-            entityService,
-            relationService,
-            observationService
+            graph.entityService,
+            graph.relationService,
+            graph.observationService,
+            graph.vocabulary,
+            graph.folder
           );
         } catch (error) {
           console.error('Error in visualizeGraph:', error);
@@ -445,7 +759,11 @@ export async function activate(context: vscode.ExtensionContext) {
       vscode.commands.registerCommand('knowledge.exportGraph', async () => {
         try {
           console.log('Executing: knowledge.exportGraph');
-          await entityCommands.exportGraph();
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.entityCommands.exportGraph();
         } catch (error) {
           console.error('Error in exportGraph:', error);
           vscode.window.showErrorMessage(`Error exporting graph: ${error}`);
@@ -454,19 +772,145 @@ export async function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-      vscode.commands.registerCommand('knowledge.importGraph', () => {
-        vscode.window.showInformationMessage('Import Graph - Coming soon!');
+      vscode.commands.registerCommand('knowledge.importGraph', async () => {
+        try {
+          console.log('Executing: knowledge.importGraph');
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.entityCommands.importGraph();
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+        } catch (error) {
+          console.error('Error in importGraph:', error);
+          vscode.window.showErrorMessage(`Error importing graph: ${error}`);
+        }
       })
     );
 
     context.subscriptions.push(
       vscode.commands.registerCommand('knowledge.clearGraph', async () => {
-        const answer = await vscode.window.showWarningMessage(
-          'Are you sure you want to clear the entire knowledge graph?',
-          'Yes', 'No'
-        );
-        if (answer === 'Yes') {
-          vscode.window.showInformationMessage('Clear Graph - Coming soon!');
+        try {
+          console.log('Executing: knowledge.clearGraph');
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.graphCommands.clearGraph();
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+          ragTreeDataProvider.refresh();
+        } catch (error) {
+          console.error('Error in clearGraph:', error);
+          vscode.window.showErrorMessage(`Error clearing graph: ${error}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('knowledge.restoreSnapshot', async () => {
+        try {
+          console.log('Executing: knowledge.restoreSnapshot');
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.graphCommands.restoreSnapshot();
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+          ragTreeDataProvider.refresh();
+        } catch (error) {
+          console.error('Error in restoreSnapshot:', error);
+          vscode.window.showErrorMessage(`Error restoring snapshot: ${error}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('knowledge.rebuildFromTextFiles', async () => {
+        try {
+          console.log('Executing: knowledge.rebuildFromTextFiles');
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.graphCommands.rebuildFromTextFiles();
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+        } catch (error) {
+          console.error('Error in rebuildFromTextFiles:', error);
+          vscode.window.showErrorMessage(`Error rebuilding graph: ${error}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('knowledge.mergeGraph', async () => {
+        try {
+          console.log('Executing: knowledge.mergeGraph');
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.graphCommands.mergeGraph();
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+        } catch (error) {
+          console.error('Error in mergeGraph:', error);
+          vscode.window.showErrorMessage(`Error merging graph: ${error}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('knowledge.undo', async () => {
+        try {
+          console.log('Executing: knowledge.undo');
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.historyCommands.undo();
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+        } catch (error) {
+          console.error('Error in undo:', error);
+          vscode.window.showErrorMessage(`Error undoing change: ${error}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('knowledge.redo', async () => {
+        try {
+          console.log('Executing: knowledge.redo');
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.historyCommands.redo();
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+        } catch (error) {
+          console.error('Error in redo:', error);
+          vscode.window.showErrorMessage(`Error redoing change: ${error}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('knowledge.viewEntityHistory', async (treeItem?: string | KnowledgeTreeItem) => {
+        try {
+          console.log('Executing: knowledge.viewEntityHistory');
+          const commands = await commandsFor(treeItem);
+          if (!commands) {
+            return;
+          }
+          await commands.historyCommands.viewEntityHistory(treeItem);
+        } catch (error) {
+          console.error('Error in viewEntityHistory:', error);
+          vscode.window.showErrorMessage(`Error viewing entity history: ${error}`);
         }
       })
     );
@@ -482,7 +926,11 @@ export async function activate(context: vscode.ExtensionContext) {
       vscode.commands.registerCommand('knowledge.generateCursorRules', async () => {
         try {
           console.log('Executing: knowledge.generateCursorRules');
-          await entityCommands.generateCursorRules();
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.entityCommands.generateCursorRules();
         } catch (error) {
           console.error('Error in generateCursorRules:', error);
           vscode.window.showErrorMessage(`Error generating Cursor Rules: ${error}`);
@@ -494,7 +942,11 @@ export async function activate(context: vscode.ExtensionContext) {
       vscode.commands.registerCommand('knowledge.generateCopilotInstructions', async () => {
         try {
           console.log('Executing: knowledge.generateCopilotInstructions');
-          await entityCommands.generateCopilotInstructions();
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.entityCommands.generateCopilotInstructions();
         } catch (error) {
           console.error('Error in generateCopilotInstructions:', error);
           vscode.window.showErrorMessage(`Error generating Copilot Instructions: ${error}`);
@@ -506,7 +958,11 @@ export async function activate(context: vscode.ExtensionContext) {
       vscode.commands.registerCommand('knowledge.generateAllAIConfigs', async () => {
         try {
           console.log('Executing: knowledge.generateAllAIConfigs');
-          await entityCommands.generateAllAIConfigs();
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.entityCommands.generateAllAIConfigs();
         } catch (error) {
           console.error('Error in generateAllAIConfigs:', error);
           vscode.window.showErrorMessage(`Error generating AI configs: ${error}`);
@@ -519,7 +975,11 @@ export async function activate(context: vscode.ExtensionContext) {
       vscode.commands.registerCommand('knowledge.copyEntityContext', async (entityId?: string) => {
         try {
           console.log('Executing: knowledge.copyEntityContext');
-          await entityCommands.copyEntityContext(entityId);
+          const commands = await commandsFor(entityId);
+          if (!commands) {
+            return;
+          }
+          await commands.entityCommands.copyEntityContext(entityId);
         } catch (error) {
           console.error('Error in copyEntityContext:', error);
           vscode.window.showErrorMessage(`Error copying entity context: ${error}`);
@@ -531,7 +991,11 @@ export async function activate(context: vscode.ExtensionContext) {
       vscode.commands.registerCommand('knowledge.exportCurrentFileContext', async () => {
         try {
           console.log('Executing: knowledge.exportCurrentFileContext');
-          await entityCommands.exportCurrentFileContext();
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.entityCommands.exportCurrentFileContext();
         } catch (error) {
           console.error('Error in exportCurrentFileContext:', error);
           vscode.window.showErrorMessage(`Error exporting file context: ${error}`);
@@ -543,7 +1007,11 @@ export async function activate(context: vscode.ExtensionContext) {
       vscode.commands.registerCommand('knowledge.generateAISummary', async () => {
         try {
           console.log('Executing: knowledge.generateAISummary');
-          await entityCommands.generateAISummary();
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.entityCommands.generateAISummary();
         } catch (error) {
           console.error('Error in generateAISummary:', error);
           vscode.window.showErrorMessage(`Error generating AI summary: ${error}`);
@@ -552,11 +1020,7 @@ export async function activate(context: vscode.ExtensionContext) {
     );
 
     // 注册 Hover Provider
-    const hoverProvider = new KnowledgeHoverProvider(
-      entityService,
-      relationService,
-      observationService
-    );
+    const hoverProvider = new KnowledgeHoverProvider(registry);
     context.subscriptions.push(
       vscode.languages.registerHoverProvider(
         { scheme: 'file' },
@@ -564,6 +1028,71 @@ export async function activate(context: vscode.ExtensionContext) {
       )
     );
 
+    // 监听每个文件夹 graph.sqlite 的外部修改，重新加载后刷新视图（Hover 每次实时查询，无需刷新）
+    const folderWatchers = new Map<string, vscode.Disposable[]>();
+    const watchFolder = (graph: FolderGraph) => {
+      const databaseWatcher = new DatabaseWatcher(graph.dbService);
+      databaseWatcher.start();
+      // 文本镜像：文件变化时重建数据库，数据库保存后更新文件
+      graph.textStore.start();
+      graph.vocabulary.start();
+      // 实体锚点：代码移动后重新定位实体
+      graph.anchors.start();
+      graph.staleKnowledge.start();
+      folderWatchers.set(graph.key, [
+        databaseWatcher,
+        graph.dbService.onDidReload(async () => {
+          if (graph === registry.getPrimary()) {
+            await ragService.reloadFromDatabase();
+          }
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+          ragTreeDataProvider.refresh();
+        }),
+        graph.textStore.onDidRebuild(() => {
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+        }),
+        graph.vocabulary.onDidChange(() => {
+          treeDataProvider.refresh();
+          GraphView.refreshVocabulary(graph.vocabulary);
+        }),
+        graph.anchors.onDidChange(() => {
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+        }),
+        graph.staleKnowledge.onDidChange(() => treeDataProvider.refresh()),
+      ]);
+    };
+    registry.getAll().forEach(watchFolder);
+
+    // 工作区文件夹增删时同步图谱
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(async (e) => {
+        try {
+          for (const folder of e.removed) {
+            const key = folder.uri.toString();
+            folderWatchers.get(key)?.forEach(d => d.dispose());
+            folderWatchers.delete(key);
+            folderCommands.delete(key);
+            registry.removeFolder(folder);
+          }
+          for (const folder of e.added) {
+            const graph = await registry.addFolder(folder);
+            folderCommands.set(graph.key, createFolderCommands(graph));
+            watchFolder(graph);
+          }
+        } catch (error) {
+          console.error('Failed to update workspace folders:', error);
+          vscode.window.showErrorMessage(`Failed to update workspace folders: ${error}`);
+        }
+      }),
+      registry.onDidChangeFolders(() => {
+        treeDataProvider.refresh();
+        codeLensProvider.refresh();
+      })
+    );
+
     // 注册刷新命令
     context.subscriptions.push(
       vscode.commands.registerCommand('knowledge.refresh', () => {
@@ -662,8 +1191,16 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
       vscode.commands.registerCommand('knowledge.autoGraph.analyzeWorkspace', async () => {
         try {
-          await autoGraphCommands.analyzeWorkspace();
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.autoGraphCommands.analyzeWorkspace();
           treeDataProvider.refresh();
+          // 手动实体指向的代码已移动或不存在时提示审查
+          await commands.autoGraphCommands.offerReconciliation();
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
         } catch (error) {
           console.error('Error in analyzeWorkspace:', error);
           vscode.window.showErrorMessage(`Error analyzing workspace: ${error}`);
@@ -671,10 +1208,31 @@ export async function activate(context: vscode.ExtensionContext) {
       })
     );
 
+    context.subscriptions.push(
+      vscode.commands.registerCommand('knowledge.autoGraph.reconcileEntities', async () => {
+        try {
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.autoGraphCommands.reconcileEntities();
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+        } catch (error) {
+          console.error('Error in reconcileEntities:', error);
+          vscode.window.showErrorMessage(`Error reconciling entities: ${error}`);
+        }
+      })
+    );
+
     context.subscriptions.push(
       vscode.commands.registerCommand('knowledge.autoGraph.analyzeCurrentFile', async () => {
         try {
-          await autoGraphCommands.analyzeCurrentFile();
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.autoGraphCommands.analyzeCurrentFile();
           treeDataProvider.refresh();
         } catch (error) {
           console.error('Error in analyzeCurrentFile:', error);
@@ -686,7 +1244,11 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
       vscode.commands.registerCommand('knowledge.autoGraph.clear', async () => {
         try {
-          await autoGraphCommands.clearAutoGraph();
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.autoGraphCommands.clearAutoGraph();
           treeDataProvider.refresh();
         } catch (error) {
           console.error('Error in clearAutoGraph:', error);
@@ -698,7 +1260,11 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
       vscode.commands.registerCommand('knowledge.autoGraph.viewStats', async () => {
         try {
-          await autoGraphCommands.viewAutoGraphStats();
+          const commands = await commandsFor();
+          if (!commands) {
+            return;
+          }
+          await commands.autoGraphCommands.viewAutoGraphStats();
         } catch (error) {
           console.error('Error in viewAutoGraphStats:', error);
           vscode.window.showErrorMessage(`Error viewing stats: ${error}`);
@@ -712,7 +1278,11 @@ export async function activate(context: vscode.ExtensionContext) {
         try {
           // 从树视图项获取实体 ID
           const entityId = treeItem?.entity?.id || (typeof treeItem === 'string' ? treeItem : undefined);
-          await autoGraphCommands.addObservationToAutoEntity(entityId);
+          const commands = await commandsFor(treeItem);
+          if (!commands) {
+            return;
+          }
+          await commands.autoGraphCommands.addObservationToAutoEntity(entityId);
           treeDataProvider.refresh();
         } catch (error) {
           console.error('Error in autoGraph.addObservation:', error);
@@ -721,6 +1291,43 @@ export async function activate(context: vscode.ExtensionContext) {
       })
     );
 
+    context.subscriptions.push(
+      vscode.commands.registerCommand('knowledge.autoGraph.promoteToManual', async (treeItem?: KnowledgeTreeItem, selectedItems?: KnowledgeTreeItem[]) => {
+        try {
+          const commands = await commandsFor(treeItem);
+          if (!commands) {
+            return;
+          }
+          await commands.autoGraphCommands.promoteToManual(treeItem, selectedItems);
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+        } catch (error) {
+          console.error('Error in autoGraph.promoteToManual:', error);
+          vscode.window.showErrorMessage(`Error promoting to manual graph: ${error}`);
+        }
+      })
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand('knowledge.autoGraph.promotePathToManual', async (target?: vscode.Uri | KnowledgeTreeItem) => {
+        try {
+          // 资源管理器中传入文件或目录的 URI，树视图中传入自动实体节点
+          const commands = target instanceof vscode.Uri
+            ? folderCommands.get(registry.forUri(target)?.key || '')
+            : await commandsFor(target);
+          if (!commands) {
+            return;
+          }
+          await commands.autoGraphCommands.promotePathToManual(target);
+          treeDataProvider.refresh();
+          codeLensProvider.refresh();
+        } catch (error) {
+          console.error('Error in autoGraph.promotePathToManual:', error);
+          vscode.window.showErrorMessage(`Error promoting to manual graph: ${error}`);
+        }
+      })
+    );
+
     context.subscriptions.push(
       vscode.commands.registerCommand('knowledge.autoGraph.editObservation', async (treeItem?: any) => {
         try {
@@ -730,7 +1337,11 @@ export async function activate(context: vscode.ExtensionContext) {
             vscode.window.showWarningMessage('No observation selected');
             return;
           }
-          await autoGraphCommands.editAutoObservation(observationId);
+          const commands = await commandsFor(treeItem);
+          if (!commands) {
+            return;
+          }
+          await commands.autoGraphCommands.editAutoObservation(observationId);
           treeDataProvider.refresh();
         } catch (error) {
           console.error('Error in autoGraph.editObservation:', error);
@@ -748,7 +1359,11 @@ export async function activate(context: vscode.ExtensionContext) {
             vscode.window.showWarningMessage('No observation selected');
             return;
           }
-          await autoGraphCommands.deleteAutoObservation(observationId);
+          const commands = await commandsFor(treeItem);
+          if (!commands) {
+            return;
+          }
+          await commands.autoGraphCommands.deleteAutoObservation(observationId);
           treeDataProvider.refresh();
         } catch (error) {
           console.error('Error in autoGraph.deleteObservation:', error);
@@ -763,9 +1378,8 @@ export async function activate(context: vscode.ExtensionContext) {
       context.subscriptions.push(
         vscode.workspace.onDidSaveTextDocument(async (document) => {
           const filePath = document.uri.fsPath;
-          if (codeAnalyzer['isAnalyzableFile'] && 
-              (filePath.endsWith('.ts') || filePath.endsWith('.tsx') || 
-               filePath.endsWith('.js') || filePath.endsWith('.jsx'))) {
+          const codeAnalyzer = registry.forUri(document.uri)?.codeAnalyzer;
+          if (codeAnalyzer && codeAnalyzer.isAnalyzableFile(filePath)) {
             try {
               await codeAnalyzer.analyzeFile(document.uri);
               treeDataProvider.refresh();
@@ -828,7 +1442,8 @@ export async function activate(context: vscode.ExtensionContext) {
     // 清理资源
     context.subscriptions.push({
       dispose: () => {
-        dbService.close();
+        folderWatchers.forEach(disposables => disposables.forEach(d => d.dispose()));
+        registry.dispose();
         ragService.dispose();
       },
     });
@@ -862,8 +1477,24 @@ function registerPlaceholderCommands(context: vscode.ExtensionContext) {
     'knowledge.exportGraph',
     'knowledge.importGraph',
     'knowledge.clearGraph',
+    'knowledge.restoreSnapshot',
+    'knowledge.rebuildFromTextFiles',
+    'knowledge.mergeGraph',
+    'knowledge.undo',
+    'knowledge.redo',
+    'knowledge.viewEntityHistory',
     'knowledge.settings',
     'knowledge.refresh',
+    'knowledge.reanchorEntity',
+    'knowledge.mergeEntities',
+    'knowledge.deleteSelected',
+    'knowledge.retypeSelected',
+    'knowledge.tagSelected',
+    'knowledge.addObservationToSelected',
+    'knowledge.linkSelectedTo',
+    'knowledge.confirmStaleObservation',
+    'knowledge.updateStaleObservation',
+    'knowledge.editRelation',
     'knowledge.deleteRelationFromTree',
     'knowledge.generateCursorRules',
     'knowledge.generateCopilotInstructions',
@@ -885,6 +1516,9 @@ function registerPlaceholderCommands(context: vscode.ExtensionContext) {
     'knowledge.autoGraph.analyzeCurrentFile',
     'knowledge.autoGraph.clear',
     'knowledge.autoGraph.viewStats',
+    'knowledge.autoGraph.promoteToManual',
+    'knowledge.autoGraph.promotePathToManual',
+    'knowledge.autoGraph.reconcileEntities',
   ];
 
   placeholderCommands.forEach(commandId => {
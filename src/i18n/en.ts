@@ -61,7 +61,10 @@ export const en = {
       prompt: 'Enter entity name',
       validateEmpty: 'Name cannot be empty',
       success: (name: string) => `Entity "${name}" created successfully`,
-      error: (error: string) => `Failed to create entity: ${error}`
+      error: (error: string) => `Failed to create entity: ${error}`,
+      duplicate: (name: string, location: string) => `Entity "${name}" (${location}) already has this name or alias`,
+      openExisting: 'Open Existing',
+      createAnyway: 'Create Anyway'
     },
 
     addObservation: {
@@ -101,9 +104,12 @@ export const en = {
 
     searchGraph: {
       title: 'Knowledge: Search Graph',
-      prompt: 'Search entities by name',
-      placeholder: 'Enter search query',
-      noResults: 'No entities found'
+      prompt: 'Search names, aliases, descriptions, observations and file paths, or query the graph, e.g. type:service out:depends_on(obs(kind:security)) or count(in:calls) > 5',
+      placeholder: 'e.g. user*  "cache layer"  name:auth  type:function count(obs) = 0',
+      noResults: 'No entities found',
+      selectPlaceholder: 'Select an entity to view',
+      score: (score: number) => `score ${score.toFixed(1)}`,
+      invalidQuery: (message: string) => `Invalid graph query: ${message}`
     },
 
     deleteEntity: {
@@ -135,6 +141,179 @@ export const en = {
       invalidData: 'Invalid relation data'
     },
 
+    reanchorEntity: {
+      title: 'Knowledge: Re-anchor Entity',
+      placeholder: 'Select entity to re-anchor',
+      noEntities: 'No entities to re-anchor',
+      orphanedLabel: 'orphaned',
+      noEditor: (name: string) => `Open the file and select the code for "${name}", then run Re-anchor Entity again`,
+      otherFolder: 'The active editor belongs to a different workspace folder',
+      success: (name: string, location: string) => `Re-anchored "${name}" to ${location}`,
+      error: (error: string) => `Failed to re-anchor entity: ${error}`
+    },
+
+    mergeEntities: {
+      title: 'Knowledge: Merge Entities',
+      placeholder: 'Select the duplicate entities to merge',
+      notEnoughEntities: 'At least two entities are needed to merge',
+      selectAtLeastTwo: 'Select at least two entities to merge',
+      survivorPlaceholder: 'Select the entity to keep',
+      counts: (obsCount: number, relCount: number) => `${obsCount} observations · ${relCount} relations`,
+      aliases: (aliases: string[]) => `Aliases: ${aliases.join(', ')}`,
+      confirm: (survivor: string, merged: string[]) =>
+        `Merge ${merged.map(name => `"${name}"`).join(', ')} into "${survivor}"? Their observations and relations will be moved and their names recorded as aliases.`,
+      confirmButton: 'Merge',
+      success: (survivor: string, mergedCount: number, obsCount: number, relCount: number) =>
+        `Merged ${mergedCount} entities into "${survivor}" (${obsCount} observations, ${relCount} relations moved)`,
+      error: (error: string) => `Failed to merge entities: ${error}`
+    },
+
+    bulkSelection: {
+      noManualItems: 'No manual knowledge graph items are selected',
+      otherFoldersIgnored: (count: number) =>
+        `${count} selected item(s) from other workspace folders were ignored`
+    },
+
+    deleteSelected: {
+      title: 'Knowledge: Delete Selected Items',
+      confirm: (entityCount: number, relationCount: number, obsCount: number) =>
+        `Delete ${entityCount} entities, ${relationCount} relations and ${obsCount} observations? Observations and relations of deleted entities are removed as well.`,
+      confirmButton: 'Delete',
+      success: (entityCount: number, relationCount: number, obsCount: number) =>
+        `Deleted ${entityCount} entities, ${relationCount} relations and ${obsCount} observations`,
+      error: (error: string) => `Failed to delete selected items: ${error}`
+    },
+
+    retypeSelected: {
+      title: 'Knowledge: Change Type of Selected Entities',
+      placeholder: 'Select the new entity type',
+      noEntities: 'No manual entities are selected',
+      success: (count: number, type: string) => `Changed ${count} entities to type "${type}"`,
+      error: (error: string) => `Failed to change entity types: ${error}`
+    },
+
+    tagSelected: {
+      title: 'Knowledge: Tag Selected Observations',
+      prompt: 'Tags to add to the selected observations (and to all observations of selected entities)',
+      placeholder: 'e.g. perf, auth',
+      validateEmpty: 'Enter at least one tag',
+      noObservations: 'The selection contains no observations',
+      success: (count: number) => `Tagged ${count} observations`,
+      error: (error: string) => `Failed to tag observations: ${error}`
+    },
+
+    addObservationToSelected: {
+      title: 'Knowledge: Add Observation to Selected Entities',
+      noEntities: 'No manual entities are selected',
+      success: (count: number) => `Observation added to ${count} entities`,
+      error: (error: string) => `Failed to add observations: ${error}`
+    },
+
+    linkSelected: {
+      title: 'Knowledge: Link Selected Entities To...',
+      placeholder: 'Select the target entity',
+      noEntities: 'No manual entities are selected',
+      verbPlaceholder: (count: number, target: string) => `Select relation type: ${count} entities → ${target}`,
+      success: (created: number, skipped: number, verb: string, target: string) =>
+        `Created ${created} "${verb}" relations to ${target}` + (skipped > 0 ? ` (${skipped} already existed)` : ''),
+      error: (error: string) => `Failed to create relations: ${error}`
+    },
+
+    promoteToManual: {
+      title: 'Knowledge: Promote to Manual Graph',
+      noAutoItems: 'Select auto graph entities or relations to promote',
+      success: (created: number, linked: number, relations: number) =>
+        `Promoted to the manual graph: ${created} new entities, ${linked} already linked, ${relations} relations`,
+      conflicts: (names: string[]) =>
+        `Skipped ${names.length} entities because a manual entity with the same name exists in another file: ${names.join(', ')}`,
+      error: (error: string) => `Failed to promote to the manual graph: ${error}`
+    },
+
+    promotePathToManual: {
+      title: 'Knowledge: Promote File or Directory to Manual Graph',
+      placeholder: 'Promote all auto graph entities in...',
+      fileOption: (filePath: string) => `$(file-code) ${filePath}`,
+      directoryOption: (dirPath: string) => `$(folder) ${dirPath}/`,
+      entityCount: (count: number) => `${count} entities`,
+      noEntities: (path: string) => `No auto graph entities in ${path}, run the analysis first`
+    },
+
+    reconcileEntities: {
+      title: 'Knowledge: Reconcile Manual Entities with Auto Graph',
+      found: (count: number) => `${count} manual entities point at code that has moved or no longer exists`,
+      review: 'Review',
+      upToDate: 'All manual entities match the auto graph',
+      noAutoGraph: 'The auto graph is empty, run the analysis first',
+      success: (moved: number, orphaned: number) =>
+        `Updated ${moved} entity locations, marked ${orphaned} entities as orphaned`,
+      error: (error: string) => `Failed to reconcile entities: ${error}`,
+      view: {
+        title: 'Reconcile Manual Entities',
+        intro: (count: number) => `${count} manual entities differ from the latest analysis. Accept or reject each proposal.`,
+        moved: 'Moved',
+        missing: 'Not found',
+        missingDetail: 'the symbol no longer exists; accepting marks the entity as orphaned',
+        score: (percent: number) => `${percent}% match`,
+        current: 'Current',
+        proposed: 'Proposed',
+        newName: 'New name',
+        accept: 'Accept',
+        reject: 'Reject',
+        acceptAll: 'Accept all',
+        rejectAll: 'Reject all',
+        apply: 'Apply',
+        cancel: 'Cancel'
+      }
+    },
+
+    editRelation: {
+      title: 'Knowledge: Edit Relation',
+      placeholder: 'Select relation to edit',
+      noRelations: 'No relations to edit',
+      notFound: 'Relation not found',
+      propertiesPlaceholder: (label: string) => `Edit properties of "${label}"`,
+      notSet: '(not set)',
+      save: 'Save',
+      fields: {
+        label: {
+          title: 'Label',
+          prompt: 'Free-text label (leave empty to clear)',
+          placeholder: 'e.g., 200 times per request'
+        },
+        weight: {
+          title: 'Weight',
+          prompt: 'Weight or strength (leave empty to clear)',
+          placeholder: 'e.g., 200',
+          invalid: 'Weight must be a non-negative number'
+        },
+        cardinality: {
+          title: 'Cardinality',
+          prompt: 'Cardinality',
+          placeholder: 'Select cardinality'
+        },
+        confidence: {
+          title: 'Confidence',
+          prompt: 'Confidence between 0 and 1 (leave empty to clear)',
+          placeholder: 'e.g., 0.8',
+          invalid: 'Confidence must be a number between 0 and 1'
+        },
+        sinceVersion: {
+          title: 'Since Version',
+          prompt: 'Version in which the relation first appeared (leave empty to clear)',
+          placeholder: 'e.g., 2.1.0'
+        }
+      },
+      cardinalities: {
+        none: '(not set)',
+        oneToOne: 'One to one',
+        oneToMany: 'One to many',
+        manyToOne: 'Many to one',
+        manyToMany: 'Many to many'
+      },
+      success: (label: string) => `✅ Relation updated: ${label}`,
+      error: (error: string) => `Failed to update relation: ${error}`
+    },
+
     deleteObservation: {
       title: 'Knowledge: Delete Observation',
       confirm: (content: string, entityName: string) =>
@@ -186,15 +365,139 @@ export const en = {
 
     importGraph: {
       title: 'Knowledge: Import Graph',
-      comingSoon: 'Import Graph - Coming soon!'
+      openLabel: 'Import',
+      invalidFile: (error: string) => `Invalid export file: ${error}`,
+      mode: {
+        placeholder: 'Select import mode',
+        mergeKey: { label: 'Merge by name, type and file', description: 'Match entities on (name, type, filePath)' },
+        mergeId: { label: 'Merge by ID', description: 'Match entities on their exported ID' },
+        replace: { label: 'Replace', description: 'Clear the manual graph, then import everything' }
+      },
+      conflict: {
+        placeholder: (count: number) => `${count} observation(s) conflict with existing ones. How should they be resolved?`,
+        keepExisting: 'Keep existing observations',
+        useImported: 'Overwrite with imported observations',
+        keepBoth: 'Keep both'
+      },
+      confirm: (added: number, updated: number, skipped: number) =>
+        `Import will add ${added}, update ${updated} and skip ${skipped} item(s). Continue?`,
+      replaceWarning: '⚠️ The current manual graph will be cleared first.',
+      importLabel: 'Import',
+      success: (entities: number, relations: number, observations: number) =>
+        `✅ Imported ${entities} entities, ${relations} relations, ${observations} observations`,
+      error: (error: string) => `Import failed: ${error}`
     },
 
     clearGraph: {
       title: 'Knowledge: Clear Graph',
-      confirm: 'Are you sure you want to clear the entire knowledge graph?',
-      yes: 'Yes',
-      no: 'No',
-      comingSoon: 'Clear Graph - Coming soon!'
+      scopePlaceholder: 'Select what to clear',
+      scope: {
+        manual: { label: 'Manual Graph', description: 'Entities, relations and observations you created' },
+        auto: { label: 'Auto Graph', description: 'Auto-generated dependency graph and analysis cache' },
+        rag: { label: 'RAG Index', description: 'Locally recorded document index and vectors' },
+        all: { label: 'Everything', description: 'Manual graph, auto graph and RAG index' }
+      },
+      confirm: (scope: string) => `Clear "${scope}"? A snapshot of graph.sqlite will be saved first and can be restored with "Knowledge: Restore Snapshot".`,
+      ragCloudNote: 'Documents already uploaded to the cloud store are not deleted. Use "Rebuild RAG Index" to reset the cloud store.',
+      clearLabel: 'Clear',
+      success: (scope: string, snapshot: string) => `Cleared "${scope}". Snapshot saved: ${snapshot}`,
+      error: (error: string) => `Failed to clear graph: ${error}`
+    },
+
+    restoreSnapshot: {
+      title: 'Knowledge: Restore Snapshot',
+      noSnapshots: 'No snapshots found',
+      placeholder: 'Select a snapshot to restore',
+      confirm: (name: string) => `Restore "${name}"? The current graph will be replaced (a snapshot of it is saved first).`,
+      restoreLabel: 'Restore',
+      success: (name: string) => `Restored snapshot: ${name}`,
+      error: (error: string) => `Failed to restore snapshot: ${error}`
+    },
+
+    mergeGraph: {
+      title: 'Knowledge: Merge Graph From…',
+      basePrompt: 'Select the common base graph (.sqlite or JSON export)',
+      theirsPrompt: 'Select the graph to merge in ("theirs")',
+      openLabel: 'Select',
+      oursPlaceholder: 'Select "ours" (the side the merge result is based on)',
+      oursCurrent: { label: 'Current graph', description: 'The manual graph of this workspace folder' },
+      oursFile: { label: 'Choose a file…', description: '.sqlite or JSON export' },
+      oursPrompt: 'Select "ours" (.sqlite or JSON export)',
+      invalidFile: (name: string, error: string) => `Cannot read ${name}: ${error}`,
+      confirm: (entities: number, relations: number, observations: number, theirsChanges: number, conflicts: number, dropped: number) =>
+        `The merged graph has ${entities} entities, ${relations} relations and ${observations} observations.\n` +
+        `${theirsChanges} changes taken from "theirs", ${conflicts} conflicts resolved` +
+        (dropped > 0 ? `, ${dropped} relations/observations dropped because their entity was deleted` : '') +
+        '.\n\nReplace the current manual graph with the merge result? (a snapshot is saved first)',
+      mergeLabel: 'Merge',
+      success: (snapshot: string) => `Graph merged (previous graph saved as snapshot ${snapshot})`,
+      error: (error: string) => `Failed to merge graph: ${error}`,
+      view: {
+        title: 'Merge Conflicts',
+        intro: (count: number) => `${count} conflicts need to be resolved. Choose which version to keep for each item.`,
+        base: 'Base',
+        ours: 'Ours',
+        theirs: 'Theirs',
+        deleted: '(deleted)',
+        fields: 'Conflicting fields',
+        useOurs: 'Keep ours',
+        useTheirs: 'Use theirs',
+        allOurs: 'Keep all ours',
+        allTheirs: 'Use all theirs',
+        apply: 'Apply Resolutions',
+        cancel: 'Cancel Merge',
+        kinds: {
+          entity: 'Entity',
+          relation: 'Relation',
+          observation: 'Observation'
+        },
+        reasons: {
+          modifyModify: 'Changed on both sides',
+          modifyDelete: 'Changed in ours, deleted in theirs',
+          deleteModify: 'Deleted in ours, changed in theirs',
+          addAdd: 'Added on both sides with different content'
+        }
+      }
+    },
+
+    undo: {
+      title: 'Knowledge: Undo',
+      nothing: 'Nothing to undo',
+      success: (summary: string) => `Undone: ${summary}`,
+      error: (error: string) => `Failed to undo: ${error}`
+    },
+
+    redo: {
+      title: 'Knowledge: Redo',
+      nothing: 'Nothing to redo',
+      success: (summary: string) => `Redone: ${summary}`,
+      error: (error: string) => `Failed to redo: ${error}`
+    },
+
+    entityHistory: {
+      title: 'Knowledge: Show Entity History',
+      placeholder: 'Select an entity to view its history',
+      noEntities: 'No entities found',
+      heading: (name: string) => `History: ${name}`,
+      empty: 'No changes recorded for this entity yet.',
+      undone: 'undone',
+      before: 'Before',
+      after: 'After',
+      actions: {
+        create: 'Created',
+        update: 'Updated',
+        delete: 'Deleted'
+      },
+      tables: {
+        entities: 'entity',
+        relations: 'relation',
+        observations: 'observation',
+        crossFolderRelations: 'cross-folder relation'
+      }
+    },
+
+    selectFolder: {
+      placeholder: 'Select a workspace folder'
     },
 
     settings: {
@@ -521,6 +824,65 @@ export const en = {
     exports: { label: 'exports', description: 'Exports to' }
   },
 
+  observationKinds: {
+    note: { label: 'Note', description: 'General note' },
+    warning: { label: 'Warning', description: 'Something to be careful about' },
+    todo: { label: 'TODO', description: 'Work still to be done' },
+    decision: { label: 'Decision', description: 'Design decision and its rationale' },
+    gotcha: { label: 'Gotcha', description: 'Non-obvious behavior or pitfall' },
+    performance: { label: 'Performance', description: 'Performance characteristic or concern' },
+    security: { label: 'Security', description: 'Security concern' }
+  },
+
+  observationFields: {
+    kindPlaceholder: 'Select observation kind',
+    severityPlaceholder: 'Select severity',
+    severities: {
+      none: '(none)',
+      low: 'Low',
+      medium: 'Medium',
+      high: 'High',
+      critical: 'Critical'
+    },
+    tagsPrompt: 'Tags, separated by commas (optional)',
+    tagsPlaceholder: 'e.g., caching, auth'
+  },
+
+  vocabulary: {
+    invalidSchemaFile: (error: string) => `Ignoring .vscode/.knowledge/schema.json: ${error}`
+  },
+
+  staleKnowledge: {
+    section: (count: number) => `Review Stale Knowledge (${count})`,
+    sectionTooltip: 'Observations whose code has changed significantly since they were written',
+    diagnostic: (entityName: string, observations: string[]) =>
+      `Observations may be outdated: the code of "${entityName}" changed since they were written.\n`
+      + observations.map(content => `- ${content}`).join('\n'),
+    observationTooltip: (content: string, entityName: string) =>
+      `${content}\n\nThe code of "${entityName}" changed since this observation was written. Confirm it or update it.`,
+    confirmed: (entityName: string) => `Observation on "${entityName}" confirmed as up to date`,
+    notFound: 'Observation not found'
+  },
+
+  anchors: {
+    orphaned: 'orphaned',
+    orphanedTooltip: (filePath: string) =>
+      `The code for this entity was not found in ${filePath}. Select the code and run "Re-anchor Entity".`
+  },
+
+  database: {
+    externalChange: 'graph.sqlite was changed outside this window, but this window has unsaved knowledge graph changes.',
+    reload: 'Reload (discard my changes)',
+    keepMine: 'Keep my changes',
+    reloaded: 'Knowledge graph reloaded: graph.sqlite was changed outside this window',
+    reloadFailed: (error: string) => `Failed to reload graph.sqlite: ${error}`,
+    textRebuilt: (entities: number) => `Knowledge graph rebuilt from .vscode/.knowledge/graph/ (${entities} entities)`,
+    textSkippedRelations: (count: number) => `${count} relation(s) skipped because their entities are missing`,
+    textSkippedObservations: (count: number) => `${count} observation(s) skipped because their entities are missing`,
+    textRebuildFailed: (error: string) => `Failed to rebuild the knowledge graph from text files: ${error}`,
+    textNotEnabled: 'Text storage is disabled. Enable "knowledgeGraph.textStorage.enabled" first.'
+  },
+
   graphView: {
     title: 'Knowledge Graph Visualization',
     toolbar: {
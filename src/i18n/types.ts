@@ -2,6 +2,8 @@
  * 国际化类型定义
  */
 
+import type { ObservationKind, ObservationSeverity } from '../utils/types';
+
 // 语言代码
 export type Language = 'en' | 'zh';
 
@@ -39,6 +41,9 @@ export interface LanguagePack {
     createEntity: CommandTranslations & {
       success: (name: string) => string;
       error: (error: string) => string;
+      duplicate: (name: string, location: string) => string;
+      openExisting: string;
+      createAnyway: string;
     };
     addObservation: CommandTranslations & {
       success: string;
@@ -62,6 +67,9 @@ export interface LanguagePack {
     };
     searchGraph: CommandTranslations & {
       noResults: string;
+      selectPlaceholder: string;
+      score: (score: number) => string;
+      invalidQuery: (message: string) => string;
     };
     deleteEntity: CommandTranslations & {
       confirm: (name: string) => string;
@@ -80,6 +88,116 @@ export interface LanguagePack {
       error: (error: string) => string;
       invalidData: string;
     };
+    editRelation: CommandTranslations & {
+      noRelations: string;
+      notFound: string;
+      propertiesPlaceholder: (label: string) => string;
+      notSet: string;
+      save: string;
+      fields: {
+        label: { title: string; prompt: string; placeholder: string };
+        weight: { title: string; prompt: string; placeholder: string; invalid: string };
+        cardinality: { title: string; prompt: string; placeholder: string };
+        confidence: { title: string; prompt: string; placeholder: string; invalid: string };
+        sinceVersion: { title: string; prompt: string; placeholder: string };
+      };
+      cardinalities: {
+        none: string;
+        oneToOne: string;
+        oneToMany: string;
+        manyToOne: string;
+        manyToMany: string;
+      };
+      success: (label: string) => string;
+      error: (error: string) => string;
+    };
+    reanchorEntity: CommandTranslations & {
+      noEntities: string;
+      orphanedLabel: string;
+      noEditor: (name: string) => string;
+      otherFolder: string;
+      success: (name: string, location: string) => string;
+      error: (error: string) => string;
+    };
+    mergeEntities: CommandTranslations & {
+      notEnoughEntities: string;
+      selectAtLeastTwo: string;
+      survivorPlaceholder: string;
+      counts: (obsCount: number, relCount: number) => string;
+      aliases: (aliases: string[]) => string;
+      confirm: (survivor: string, merged: string[]) => string;
+      confirmButton: string;
+      success: (survivor: string, mergedCount: number, obsCount: number, relCount: number) => string;
+      error: (error: string) => string;
+    };
+    bulkSelection: {
+      noManualItems: string;
+      otherFoldersIgnored: (count: number) => string;
+    };
+    deleteSelected: CommandTranslations & {
+      confirm: (entityCount: number, relationCount: number, obsCount: number) => string;
+      confirmButton: string;
+      success: (entityCount: number, relationCount: number, obsCount: number) => string;
+      error: (error: string) => string;
+    };
+    retypeSelected: CommandTranslations & {
+      noEntities: string;
+      success: (count: number, type: string) => string;
+      error: (error: string) => string;
+    };
+    tagSelected: CommandTranslations & {
+      noObservations: string;
+      success: (count: number) => string;
+      error: (error: string) => string;
+    };
+    addObservationToSelected: CommandTranslations & {
+      noEntities: string;
+      success: (count: number) => string;
+      error: (error: string) => string;
+    };
+    linkSelected: CommandTranslations & {
+      noEntities: string;
+      verbPlaceholder: (count: number, target: string) => string;
+      success: (created: number, skipped: number, verb: string, target: string) => string;
+      error: (error: string) => string;
+    };
+    promoteToManual: CommandTranslations & {
+      noAutoItems: string;
+      success: (created: number, linked: number, relations: number) => string;
+      conflicts: (names: string[]) => string;
+      error: (error: string) => string;
+    };
+    promotePathToManual: CommandTranslations & {
+      fileOption: (filePath: string) => string;
+      directoryOption: (dirPath: string) => string;
+      entityCount: (count: number) => string;
+      noEntities: (path: string) => string;
+    };
+    reconcileEntities: CommandTranslations & {
+      found: (count: number) => string;
+      review: string;
+      upToDate: string;
+      noAutoGraph: string;
+      success: (moved: number, orphaned: number) => string;
+      error: (error: string) => string;
+      view: {
+        title: string;
+        intro: (count: number) => string;
+        moved: string;
+        missing: string;
+        missingDetail: string;
+        score: (percent: number) => string;
+        current: string;
+        proposed: string;
+        newName: string;
+        accept: string;
+        reject: string;
+        acceptAll: string;
+        rejectAll: string;
+        apply: string;
+        cancel: string;
+      };
+    };
     deleteObservation: CommandTranslations & {
       confirm: (content: string, entityName: string) => string;
       success: (entityName: string) => string;
@@ -118,13 +236,120 @@ export interface LanguagePack {
       showInFolder: string;
     };
     importGraph: CommandTranslations & {
-      comingSoon: string;
+      openLabel: string;
+      invalidFile: (error: string) => string;
+      mode: {
+        placeholder: string;
+        mergeKey: { label: string; description: string };
+        mergeId: { label: string; description: string };
+        replace: { label: string; description: string };
+      };
+      conflict: {
+        placeholder: (count: number) => string;
+        keepExisting: string;
+        useImported: string;
+        keepBoth: string;
+      };
+      confirm: (added: number, updated: number, skipped: number) => string;
+      replaceWarning: string;
+      importLabel: string;
+      success: (entities: number, relations: number, observations: number) => string;
+      error: (error: string) => string;
     };
     clearGraph: CommandTranslations & {
-      confirm: string;
-      yes: string;
-      no: string;
-      comingSoon: string;
+      scopePlaceholder: string;
+      scope: {
+        manual: { label: string; description: string };
+        auto: { label: string; description: string };
+        rag: { label: string; description: string };
+        all: { label: string; description: string };
+      };
+      confirm: (scope: string) => string;
+      ragCloudNote: string;
+      clearLabel: string;
+      success: (scope: string, snapshot: string) => string;
+      error: (error: string) => string;
+    };
+    restoreSnapshot: CommandTranslations & {
+      noSnapshots: string;
+      placeholder: string;
+      confirm: (name: string) => string;
+      restoreLabel: string;
+      success: (name: string) => string;
+      error: (error: string) => string;
+    };
+    mergeGraph: CommandTranslations & {
+      basePrompt: string;
+      theirsPrompt: string;
+      openLabel: string;
+      oursPlaceholder: string;
+      oursCurrent: { label: string; description: string };
+      oursFile: { label: string; description: string };
+      oursPrompt: string;
+      invalidFile: (name: string, error: string) => string;
+      confirm: (entities: number, relations: number, observations: number, theirsChanges: number, conflicts: number, dropped: number) => string;
+      mergeLabel: string;
+      success: (snapshot: string) => string;
+      error: (error: string) => string;
+      view: {
+        title: string;
+        intro: (count: number) => string;
+        base: string;
+        ours: string;
+        theirs: string;
+        deleted: string;
+        fields: string;
+        useOurs: string;
+        useTheirs: string;
+        allOurs: string;
+        allTheirs: string;
+        apply: string;
+        cancel: string;
+        kinds: {
+          entity: string;
+          relation: string;
+          observation: string;
+        };
+        reasons: {
+          modifyModify: string;
+          modifyDelete: string;
+          deleteModify: string;
+          addAdd: string;
+        };
+      };
+    };
+    undo: CommandTranslations & {
+      nothing: string;
+      success: (summary: string) => string;
+      error: (error: string) => string;
+    };
+    redo: CommandTranslations & {
+      nothing: string;
+      success: (summary: string) => string;
+      error: (error: string) => string;
+    };
+    entityHistory: CommandTranslations & {
+      placeholder: string;
+      noEntities: string;
+      heading: (name: string) => string;
+      empty: string;
+      undone: string;
+      before: string;
+      after: string;
+      actions: {
+        create: string;
+        update: string;
+        delete: string;
+      };
+      tables: {
+        entities: string;
+        relations: string;
+        observations: string;
+        crossFolderRelations: string;
+      };
+    };
+    selectFolder: {
+      placeholder: string;
     };
     settings: CommandTranslations & {
       comingSoon: string;
@@ -305,6 +530,14 @@ export interface LanguagePack {
 
   entityTypes: Record<string, EntityTypeTranslation>;
   relationTypes: Record<string, RelationTypeTranslation>;
+  observationKinds: Record<ObservationKind, { label: string; description: string }>;
+  observationFields: {
+    kindPlaceholder: string;
+    severityPlaceholder: string;
+    severities: Record<ObservationSeverity | 'none', string>;
+    tagsPrompt: string;
+    tagsPlaceholder: string;
+  };
 
   extension: {
     name: string;
@@ -329,6 +562,37 @@ export interface LanguagePack {
     };
   };
 
+  vocabulary: {
+    invalidSchemaFile: (error: string) => string;
+  };
+
+  anchors: {
+    orphaned: string;
+    orphanedTooltip: (filePath: string) => string;
+  };
+
+  staleKnowledge: {
+    section: (count: number) => string;
+    sectionTooltip: string;
+    diagnostic: (entityName: string, observations: string[]) => string;
+    observationTooltip: (content: string, entityName: string) => string;
+    confirmed: (entityName: string) => string;
+    notFound: string;
+  };
+
+  database: {
+    externalChange: string;
+    reload: string;
+    keepMine: string;
+    reloaded: string;
+    reloadFailed: (error: string) => string;
+    textRebuilt: (entities: number) => string;
+    textSkippedRelations: (count: number) => string;
+    textSkippedObservations: (count: number) => string;
+    textRebuildFailed: (error: string) => string;
+    textNotEnabled: string;
+  };
+
   graphView: {
     title: string;
     toolbar: {
@@ -60,7 +60,10 @@ export const zh = {
       prompt: '输入实体名称',
       validateEmpty: '名称不能为空',
       success: (name: string) => `实体 "${name}" 创建成功`,
-      error: (error: string) => `创建实体失败: ${error}`
+      error: (error: string) => `创建实体失败: ${error}`,
+      duplicate: (name: string, location: string) => `实体 "${name}" (${location}) 已使用此名称或别名`,
+      openExisting: '打开已有实体',
+      createAnyway: '仍然创建'
     },
 
     addObservation: {
@@ -100,9 +103,12 @@ export const zh = {
 
     searchGraph: {
       title: '知识图谱: 搜索图谱',
-      prompt: '按名称搜索实体',
-      placeholder: '输入搜索查询',
-      noResults: '未找到实体'
+      prompt: '搜索实体名称、别名、描述、观察记录和文件路径，或查询图谱，如 type:service out:depends_on(obs(kind:security))、count(in:calls) > 5',
+      placeholder: '例如 user*  "cache layer"  name:auth  type:function count(obs) = 0',
+      noResults: '未找到实体',
+      selectPlaceholder: '选择要查看的实体',
+      score: (score: number) => `相关度 ${score.toFixed(1)}`,
+      invalidQuery: (message: string) => `图谱查询语法错误：${message}`
     },
 
     deleteEntity: {
@@ -134,6 +140,178 @@ export const zh = {
       invalidData: '无效的关系数据'
     },
 
+    reanchorEntity: {
+      title: '知识图谱: 重新锚定实体',
+      placeholder: '选择要重新锚定的实体',
+      noEntities: '没有可以重新锚定的实体',
+      orphanedLabel: '孤立',
+      noEditor: (name: string) => `请打开文件并选中"${name}"对应的代码，然后再次运行"重新锚定实体"`,
+      otherFolder: '当前编辑器属于其他工作区文件夹',
+      success: (name: string, location: string) => `已将"${name}"重新锚定到 ${location}`,
+      error: (error: string) => `重新锚定实体失败：${error}`
+    },
+
+    mergeEntities: {
+      title: '知识图谱: 合并实体',
+      placeholder: '选择要合并的重复实体',
+      notEnoughEntities: '至少需要两个实体才能合并',
+      selectAtLeastTwo: '请至少选择两个实体',
+      survivorPlaceholder: '选择要保留的实体',
+      counts: (obsCount: number, relCount: number) => `${obsCount} 条观察记录 · ${relCount} 个关系`,
+      aliases: (aliases: string[]) => `别名：${aliases.join(', ')}`,
+      confirm: (survivor: string, merged: string[]) =>
+        `将 ${merged.map(name => `"${name}"`).join('、')} 合并到"${survivor}"？它们的观察记录和关系会被移过去，名称记为别名。`,
+      confirmButton: '合并',
+      success: (survivor: string, mergedCount: number, obsCount: number, relCount: number) =>
+        `已将 ${mergedCount} 个实体合并到"${survivor}"（移动了 ${obsCount} 条观察记录、${relCount} 个关系）`,
+      error: (error: string) => `合并实体失败：${error}`
+    },
+
+    bulkSelection: {
+      noManualItems: '没有选中手动图谱中的项目',
+      otherFoldersIgnored: (count: number) => `已忽略其他工作区文件夹中的 ${count} 个选中项`
+    },
+
+    deleteSelected: {
+      title: '知识图谱: 删除选中项',
+      confirm: (entityCount: number, relationCount: number, obsCount: number) =>
+        `删除 ${entityCount} 个实体、${relationCount} 个关系和 ${obsCount} 条观察记录？被删除实体的观察记录和关系也会一起删除。`,
+      confirmButton: '删除',
+      success: (entityCount: number, relationCount: number, obsCount: number) =>
+        `已删除 ${entityCount} 个实体、${relationCount} 个关系和 ${obsCount} 条观察记录`,
+      error: (error: string) => `删除选中项失败：${error}`
+    },
+
+    retypeSelected: {
+      title: '知识图谱: 修改选中实体的类型',
+      placeholder: '选择新的实体类型',
+      noEntities: '没有选中手动图谱中的实体',
+      success: (count: number, type: string) => `已将 ${count} 个实体的类型改为"${type}"`,
+      error: (error: string) => `修改实体类型失败：${error}`
+    },
+
+    tagSelected: {
+      title: '知识图谱: 给选中的观察记录添加标签',
+      prompt: '要添加到选中观察记录（以及选中实体的所有观察记录）的标签',
+      placeholder: '例如 perf, auth',
+      validateEmpty: '请至少输入一个标签',
+      noObservations: '选中项中没有观察记录',
+      success: (count: number) => `已给 ${count} 条观察记录添加标签`,
+      error: (error: string) => `添加标签失败：${error}`
+    },
+
+    addObservationToSelected: {
+      title: '知识图谱: 给选中实体添加观察记录',
+      noEntities: '没有选中手动图谱中的实体',
+      success: (count: number) => `已给 ${count} 个实体添加观察记录`,
+      error: (error: string) => `添加观察记录失败：${error}`
+    },
+
+    linkSelected: {
+      title: '知识图谱: 把选中实体连接到...',
+      placeholder: '选择目标实体',
+      noEntities: '没有选中手动图谱中的实体',
+      verbPlaceholder: (count: number, target: string) => `选择关系类型：${count} 个实体 → ${target}`,
+      success: (created: number, skipped: number, verb: string, target: string) =>
+        `已创建 ${created} 个到 ${target} 的"${verb}"关系` + (skipped > 0 ? `（${skipped} 个已存在）` : ''),
+      error: (error: string) => `创建关系失败：${error}`
+    },
+
+    promoteToManual: {
+      title: '知识图谱: 提升到手动图谱',
+      noAutoItems: '请选择要提升的自动图谱实体或关系',
+      success: (created: number, linked: number, relations: number) =>
+        `已提升到手动图谱：新建 ${created} 个实体，${linked} 个已关联，${relations} 个关系`,
+      conflicts: (names: string[]) =>
+        `其他文件中已有同名的手动实体，跳过了 ${names.length} 个实体：${names.join('、')}`,
+      error: (error: string) => `提升到手动图谱失败：${error}`
+    },
+
+    promotePathToManual: {
+      title: '知识图谱: 把文件或目录提升到手动图谱',
+      placeholder: '提升以下位置中的所有自动图谱实体...',
+      fileOption: (filePath: string) => `$(file-code) ${filePath}`,
+      directoryOption: (dirPath: string) => `$(folder) ${dirPath}/`,
+      entityCount: (count: number) => `${count} 个实体`,
+      noEntities: (path: string) => `${path} 中没有自动图谱实体，请先运行分析`
+    },
+
+    reconcileEntities: {
+      title: '知识图谱: 按自动图谱核对手动实体',
+      found: (count: number) => `${count} 个手动实体指向的代码已移动或不存在`,
+      review: '审查',
+      upToDate: '所有手动实体都与自动图谱一致',
+      noAutoGraph: '自动图谱为空，请先运行分析',
+      success: (moved: number, orphaned: number) =>
+        `已更新 ${moved} 个实体的位置，${orphaned} 个实体标记为孤立`,
+      error: (error: string) => `核对实体失败：${error}`,
+      view: {
+        title: '核对手动实体',
+        intro: (count: number) => `${count} 个手动实体与最新的分析结果不一致，请逐项接受或拒绝。`,
+        moved: '已移动',
+        missing: '未找到',
+        missingDetail: '符号已不存在，接受后实体标记为孤立',
+        score: (percent: number) => `匹配度 ${percent}%`,
+        current: '当前位置',
+        proposed: '建议位置',
+        newName: '新名称',
+        accept: '接受',
+        reject: '拒绝',
+        acceptAll: '全部接受',
+        rejectAll: '全部拒绝',
+        apply: '应用',
+        cancel: '取消'
+      }
+    },
+
+    editRelation: {
+      title: '知识图谱: 编辑关系',
+      placeholder: '选择要编辑的关系',
+      noRelations: '没有可编辑的关系',
+      notFound: '找不到该关系',
+      propertiesPlaceholder: (label: string) => `编辑关系 "${label}" 的属性`,
+      notSet: '（未设置）',
+      save: '保存',
+      fields: {
+        label: {
+          title: '标签',
+          prompt: '自由文本标签（留空则清除）',
+          placeholder: '例如：每个请求调用 200 次'
+        },
+        weight: {
+          title: '权重',
+          prompt: '权重或强度（留空则清除）',
+          placeholder: '例如：200',
+          invalid: '权重必须是非负数'
+        },
+        cardinality: {
+          title: '基数',
+          prompt: '基数',
+          placeholder: '选择基数'
+        },
+        confidence: {
+          title: '置信度',
+          prompt: '0 到 1 之间的置信度（留空则清除）',
+          placeholder: '例如：0.8',
+          invalid: '置信度必须是 0 到 1 之间的数字'
+        },
+        sinceVersion: {
+          title: '起始版本',
+          prompt: '关系从哪个版本开始存在（留空则清除）',
+          placeholder: '例如：2.1.0'
+        }
+      },
+      cardinalities: {
+        none: '（未设置）',
+        oneToOne: '一对一',
+        oneToMany: '一对多',
+        manyToOne: '多对一',
+        manyToMany: '多对多'
+      },
+      success: (label: string) => `✅ 关系已更新: ${label}`,
+      error: (error: string) => `更新关系失败: ${error}`
+    },
+
     deleteObservation: {
       title: '知识图谱: 删除观察记录',
       confirm: (content: string, entityName: string) =>
@@ -185,15 +363,139 @@ export const zh = {
 
     importGraph: {
       title: '知识图谱: 导入图谱',
-      comingSoon: '导入图谱 - 即将推出!'
+      openLabel: '导入',
+      invalidFile: (error: string) => `导出文件无效: ${error}`,
+      mode: {
+        placeholder: '选择导入模式',
+        mergeKey: { label: '按名称、类型和文件合并', description: '按 (name, type, filePath) 匹配实体' },
+        mergeId: { label: '按 ID 合并', description: '按导出的实体 ID 匹配' },
+        replace: { label: '替换', description: '先清空手动图谱，再全部导入' }
+      },
+      conflict: {
+        placeholder: (count: number) => `${count} 条观察记录与现有记录冲突，如何处理？`,
+        keepExisting: '保留现有观察记录',
+        useImported: '使用导入的观察记录覆盖',
+        keepBoth: '两者都保留'
+      },
+      confirm: (added: number, updated: number, skipped: number) =>
+        `将新增 ${added} 项、更新 ${updated} 项、跳过 ${skipped} 项。是否继续？`,
+      replaceWarning: '⚠️ 将先清空当前手动图谱。',
+      importLabel: '导入',
+      success: (entities: number, relations: number, observations: number) =>
+        `✅ 已导入 ${entities} 个实体、${relations} 个关系、${observations} 条观察记录`,
+      error: (error: string) => `导入失败: ${error}`
     },
 
     clearGraph: {
       title: '知识图谱: 清空图谱',
-      confirm: '确定要清空整个知识图谱吗?',
-      yes: '是',
-      no: '否',
-      comingSoon: '清空图谱 - 即将推出!'
+      scopePlaceholder: '选择要清空的内容',
+      scope: {
+        manual: { label: '手动图谱', description: '手动创建的实体、关系和观察记录' },
+        auto: { label: '自动图谱', description: '自动生成的依赖图谱及分析缓存' },
+        rag: { label: 'RAG 索引', description: '本地记录的文档索引和向量' },
+        all: { label: '全部', description: '手动图谱、自动图谱和 RAG 索引' }
+      },
+      confirm: (scope: string) => `确定要清空"${scope}"吗? 清空前会保存 graph.sqlite 快照，可通过"知识图谱: 恢复快照"还原。`,
+      ragCloudNote: '已上传到云端存储的文档不会被删除，如需重置云端存储请使用"重建 RAG 索引"。',
+      clearLabel: '清空',
+      success: (scope: string, snapshot: string) => `已清空"${scope}"，快照已保存: ${snapshot}`,
+      error: (error: string) => `清空图谱失败: ${error}`
+    },
+
+    restoreSnapshot: {
+      title: '知识图谱: 恢复快照',
+      noSnapshots: '没有找到快照',
+      placeholder: '选择要恢复的快照',
+      confirm: (name: string) => `确定要恢复"${name}"吗? 当前图谱将被替换(会先保存当前状态的快照)。`,
+      restoreLabel: '恢复',
+      success: (name: string) => `已恢复快照: ${name}`,
+      error: (error: string) => `恢复快照失败: ${error}`
+    },
+
+    mergeGraph: {
+      title: 'Knowledge: Merge Graph From…',
+      basePrompt: '选择共同的基础图谱（.sqlite 或 JSON 导出文件）',
+      theirsPrompt: '选择要合并进来的图谱（"对方"）',
+      openLabel: '选择',
+      oursPlaceholder: '选择"我方"图谱（合并结果以此为基础）',
+      oursCurrent: { label: '当前图谱', description: '此工作区文件夹的手动图谱' },
+      oursFile: { label: '选择文件…', description: '.sqlite 或 JSON 导出文件' },
+      oursPrompt: '选择"我方"图谱（.sqlite 或 JSON 导出文件）',
+      invalidFile: (name: string, error: string) => `无法读取 ${name}：${error}`,
+      confirm: (entities: number, relations: number, observations: number, theirsChanges: number, conflicts: number, dropped: number) =>
+        `合并后的图谱包含 ${entities} 个实体、${relations} 个关系、${observations} 条观察记录。\n` +
+        `采用对方修改 ${theirsChanges} 处，解决冲突 ${conflicts} 个` +
+        (dropped > 0 ? `，因实体被删除而丢弃 ${dropped} 个关系/观察记录` : '') +
+        '。\n\n用合并结果替换当前手动图谱吗？（会先保存快照）',
+      mergeLabel: '合并',
+      success: (snapshot: string) => `图谱已合并（原图谱已保存为快照 ${snapshot}）`,
+      error: (error: string) => `合并图谱失败：${error}`,
+      view: {
+        title: '合并冲突',
+        intro: (count: number) => `有 ${count} 个冲突需要解决，请为每一项选择要保留的版本。`,
+        base: '基础',
+        ours: '我方',
+        theirs: '对方',
+        deleted: '（已删除）',
+        fields: '冲突字段',
+        useOurs: '保留我方',
+        useTheirs: '采用对方',
+        allOurs: '全部保留我方',
+        allTheirs: '全部采用对方',
+        apply: '应用选择',
+        cancel: '取消合并',
+        kinds: {
+          entity: '实体',
+          relation: '关系',
+          observation: '观察记录'
+        },
+        reasons: {
+          modifyModify: '双方都修改了',
+          modifyDelete: '我方修改、对方删除',
+          deleteModify: '我方删除、对方修改',
+          addAdd: '双方新增了内容不同的同一条目'
+        }
+      }
+    },
+
+    undo: {
+      title: '知识图谱: 撤销',
+      nothing: '没有可撤销的修改',
+      success: (summary: string) => `已撤销: ${summary}`,
+      error: (error: string) => `撤销失败: ${error}`
+    },
+
+    redo: {
+      title: '知识图谱: 重做',
+      nothing: '没有可重做的修改',
+      success: (summary: string) => `已重做: ${summary}`,
+      error: (error: string) => `重做失败: ${error}`
+    },
+
+    entityHistory: {
+      title: '知识图谱: 查看实体历史',
+      placeholder: '选择要查看历史的实体',
+      noEntities: '没有找到实体',
+      heading: (name: string) => `修改历史: ${name}`,
+      empty: '该实体还没有修改记录。',
+      undone: '已撤销',
+      before: '修改前',
+      after: '修改后',
+      actions: {
+        create: '创建',
+        update: '更新',
+        delete: '删除'
+      },
+      tables: {
+        entities: '实体',
+        relations: '关系',
+        observations: '观察记录',
+        crossFolderRelations: '跨文件夹关系'
+      }
+    },
+
+    selectFolder: {
+      placeholder: '选择工作区文件夹'
     },
 
     settings: {
@@ -520,6 +822,65 @@ export const zh = {
     exports: { label: 'exports', description: '导出' }
   },
 
+  observationKinds: {
+    note: { label: '备注', description: '一般性备注' },
+    warning: { label: '警告', description: '需要小心的地方' },
+    todo: { label: '待办', description: '尚未完成的工作' },
+    decision: { label: '决策', description: '设计决策及其理由' },
+    gotcha: { label: '陷阱', description: '不直观的行为或容易踩的坑' },
+    performance: { label: '性能', description: '性能特点或隐患' },
+    security: { label: '安全', description: '安全隐患' }
+  },
+
+  observationFields: {
+    kindPlaceholder: '选择观察记录的种类',
+    severityPlaceholder: '选择严重程度',
+    severities: {
+      none: '（无）',
+      low: '低',
+      medium: '中',
+      high: '高',
+      critical: '严重'
+    },
+    tagsPrompt: '标签，用逗号分隔（可选）',
+    tagsPlaceholder: '例如：缓存, 认证'
+  },
+
+  vocabulary: {
+    invalidSchemaFile: (error: string) => `已忽略 .vscode/.knowledge/schema.json：${error}`
+  },
+
+  staleKnowledge: {
+    section: (count: number) => `审查过期知识 (${count})`,
+    sectionTooltip: '写入后对应代码发生了显著变化的观察记录',
+    diagnostic: (entityName: string, observations: string[]) =>
+      `观察记录可能已过期："${entityName}"的代码在记录写入后发生了变化。\n`
+      + observations.map(content => `- ${content}`).join('\n'),
+    observationTooltip: (content: string, entityName: string) =>
+      `${content}\n\n"${entityName}"的代码在该记录写入后发生了变化，请确认或更新。`,
+    confirmed: (entityName: string) => `已确认"${entityName}"的观察记录仍然有效`,
+    notFound: '未找到观察记录'
+  },
+
+  anchors: {
+    orphaned: '孤立',
+    orphanedTooltip: (filePath: string) =>
+      `在 ${filePath} 中找不到该实体对应的代码。请选中代码后运行"重新锚定实体"。`
+  },
+
+  database: {
+    externalChange: 'graph.sqlite 已在当前窗口之外被修改，但当前窗口还有未保存的知识图谱修改。',
+    reload: '重新加载(丢弃我的修改)',
+    keepMine: '保留我的修改',
+    reloaded: '知识图谱已重新加载: graph.sqlite 在当前窗口之外被修改',
+    reloadFailed: (error: string) => `重新加载 graph.sqlite 失败: ${error}`,
+    textRebuilt: (entities: number) => `已从 .vscode/.knowledge/graph/ 重建知识图谱(${entities} 个实体)`,
+    textSkippedRelations: (count: number) => `${count} 个关系因实体缺失被跳过`,
+    textSkippedObservations: (count: number) => `${count} 条观察记录因实体缺失被跳过`,
+    textRebuildFailed: (error: string) => `从文本文件重建知识图谱失败: ${error}`,
+    textNotEnabled: '文本存储未启用，请先开启 "knowledgeGraph.textStorage.enabled"。'
+  },
+
   graphView: {
     title: '知识图谱可视化',
     toolbar: {
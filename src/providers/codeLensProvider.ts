@@ -1,8 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { EntityService } from '../services/entityService';
-import { RelationService } from '../services/relationService';
-import { ObservationService } from '../services/observationService';
+import { WorkspaceGraphRegistry } from '../services/workspaceGraphs';
+import { isOrphaned } from '../utils/codeAnchor';
 
 /**
  * CodeLens 提供者
@@ -12,11 +11,7 @@ export class KnowledgeCodeLensProvider implements vscode.CodeLensProvider {
   private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
   public readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
 
-  constructor(
-    private entityService: EntityService,
-    private relationService: RelationService,
-    private observationService: ObservationService
-  ) {}
+  constructor(private registry: WorkspaceGraphRegistry) {}
 
   public provideCodeLenses(
     document: vscode.TextDocument,
@@ -24,18 +19,22 @@ export class KnowledgeCodeLensProvider implements vscode.CodeLensProvider {
   ): vscode.ProviderResult<vscode.CodeLens[]> {
     const codeLenses: vscode.CodeLens[] = [];
 
-    // 获取当前文件的所有实体
-    const relativePath = this.getRelativePath(document);
-    if (!relativePath) {
+    // 文件所属文件夹的图谱
+    const graph = this.registry.forUri(document.uri);
+    if (!graph) {
       return codeLenses;
     }
-    
-    const entities = this.entityService.getEntitiesByFile(relativePath);
 
-    for (const entity of entities) {
-      // 获取统计信息
-      const observationCount = this.observationService.getObservationCount(entity.id);
-      const relationCount = this.relationService.getRelationCount(entity.id);
+    // 获取当前文件的所有实体
+    const relativePath = this.getRelativePath(document, graph.folder);
+    const entities = graph.entityService.getEntitiesByFile(relativePath);
+
+    // 孤立实体的代码已被删除，不显示 CodeLens
+    for (const entity of entities.filter(entity => !isOrphaned(entity))) {
+      // 获取统计信息（包含指向其他文件夹的关系）
+      const observationCount = graph.observationService.getObservationCount(entity.id);
+      const relationCount = graph.relationService.getRelationCount(entity.id) +
+        graph.relationService.getCrossFolderRelations(entity.id).length;
 
       // 创建 CodeLens 范围
       const range = new vscode.Range(
@@ -59,14 +58,9 @@ export class KnowledgeCodeLensProvider implements vscode.CodeLensProvider {
   }
 
   /**
-   * 获取文件相对于工作区的路径
+   * 获取文件相对于所属工作区文件夹的路径
    */
-  private getRelativePath(document: vscode.TextDocument): string | null {
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
-    if (!workspaceFolder) {
-      return null;
-    }
-    
+  private getRelativePath(document: vscode.TextDocument, workspaceFolder: vscode.WorkspaceFolder): string {
     // 使用 path.relative 计算相对路径，确保返回字符串
     const absolutePath = document.uri.fsPath;
     const workspacePath = workspaceFolder.uri.fsPath;
@@ -1,34 +1,30 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { EntityService } from '../services/entityService';
-import { RelationService } from '../services/relationService';
-import { ObservationService } from '../services/observationService';
+import { WorkspaceGraphRegistry } from '../services/workspaceGraphs';
 
 /**
  * 悬浮提示提供者
  * 当鼠标悬停在代码上时，显示实体的相关信息
  */
 export class KnowledgeHoverProvider implements vscode.HoverProvider {
-  constructor(
-    private entityService: EntityService,
-    private relationService: RelationService,
-    private observationService: ObservationService
-  ) {}
+  constructor(private registry: WorkspaceGraphRegistry) {}
 
   public provideHover(
     document: vscode.TextDocument,
     position: vscode.Position,
     token: vscode.CancellationToken
   ): vscode.ProviderResult<vscode.Hover> {
-    // 查找当前位置的实体
-    const relativePath = this.getRelativePath(document);
-    if (!relativePath) {
+    // 文件所属文件夹的图谱
+    const graph = this.registry.forUri(document.uri);
+    if (!graph) {
       return null;
     }
 
+    // 查找当前位置的实体
+    const relativePath = this.getRelativePath(document, graph.folder);
     const line = position.line + 1; // VSCode 行号从 0 开始，数据库从 1 开始
 
-    const entity = this.entityService.findEntityAtLocation(relativePath, line);
+    const entity = graph.entityService.findEntityAtLocation(relativePath, line);
     if (!entity) {
       return null;
     }
@@ -46,7 +42,7 @@ export class KnowledgeHoverProvider implements vscode.HoverProvider {
     }
 
     // 观察记录
-    const observations = this.observationService.getObservations(entity.id);
+    const observations = graph.observationService.getObservations(entity.id);
     if (observations.length > 0) {
       markdown.appendMarkdown(`#### 📝 Observations (${observations.length})\n\n`);
       observations.slice(0, 3).forEach(obs => {
@@ -59,17 +55,27 @@ export class KnowledgeHoverProvider implements vscode.HoverProvider {
     }
 
     // 关系信息
-    const relations = this.relationService.getRelatedEntities(entity.id);
-    if (relations.length > 0) {
-      markdown.appendMarkdown(`#### 🔗 Relations (${relations.length})\n\n`);
+    const relations = graph.relationService.getRelatedEntities(entity.id);
+    const crossFolder = graph.relationService.getCrossFolderRelations(entity.id);
+    if (relations.length > 0 || crossFolder.length > 0) {
+      markdown.appendMarkdown(`#### 🔗 Relations (${relations.length + crossFolder.length})\n\n`);
       
-      const outgoing = relations.filter(r => r.direction === 'outgoing');
+      // 指向其他文件夹的关系显示为 folder/name
+      const outgoing = [
+        ...relations
+          .filter(r => r.direction === 'outgoing')
+          .map(r => ({ verb: r.relation.verb, name: r.entity.name })),
+        ...crossFolder.map(r => ({
+          verb: r.verb,
+          name: `${r.targetFolder}/${this.registry.getByName(r.targetFolder)?.entityService.getEntity(r.targetEntityId)?.name ?? r.targetEntityId}`,
+        })),
+      ];
       const incoming = relations.filter(r => r.direction === 'incoming');
 
       if (outgoing.length > 0) {
         markdown.appendMarkdown(`**Outgoing:**\n`);
         outgoing.slice(0, 3).forEach(rel => {
-          markdown.appendMarkdown(`- ${rel.relation.verb} → ${rel.entity.name}\n`);
+          markdown.appendMarkdown(`- ${rel.verb} → ${rel.name}\n`);
         });
         if (outgoing.length > 3) {
           markdown.appendMarkdown(`- *...and ${outgoing.length - 3} more*\n`);
@@ -91,14 +97,9 @@ export class KnowledgeHoverProvider implements vscode.HoverProvider {
   }
 
   /**
-   * 获取文件相对于工作区的路径
+   * 获取文件相对于所属工作区文件夹的路径
    */
-  private getRelativePath(document: vscode.TextDocument): string | null {
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
-    if (!workspaceFolder) {
-      return null;
-    }
-    
+  private getRelativePath(document: vscode.TextDocument, workspaceFolder: vscode.WorkspaceFolder): string {
     // 使用 path.relative 计算相对路径，确保返回字符串
     const absolutePath = document.uri.fsPath;
     const workspacePath = workspaceFolder.uri.fsPath;
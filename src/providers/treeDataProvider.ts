@@ -1,34 +1,61 @@
 import * as vscode from 'vscode';
-import { Entity, EntityType } from '../utils/types';
-import { EntityService } from '../services/entityService';
-import { RelationService } from '../services/relationService';
-import { ObservationService } from '../services/observationService';
-import { AutoGraphService, AutoEntity } from '../services/autoGraph';
+import { Entity, EntityType, Observation, ObservationKind } from '../utils/types';
+import { AutoEntity } from '../services/autoGraph';
+import { FolderGraph, WorkspaceGraphRegistry } from '../services/workspaceGraphs';
 import { t } from '../i18n/i18nService';
+import { BUILTIN_ENTITY_TYPES } from '../../packages/mcp-server/src/schema/vocabulary';
+import { formatRelationProperties, getRelationProperties } from '../../packages/mcp-server/src/schema/relationProperties';
+import {
+  DEFAULT_OBSERVATION_KIND,
+  OBSERVATION_KINDS,
+  OBSERVATION_KIND_ICONS,
+  severityRank,
+} from '../../packages/mcp-server/src/schema/observationFields';
+import { isOrphaned } from '../utils/codeAnchor';
 
 /**
  * 树视图项
  */
 export class KnowledgeTreeItem extends vscode.TreeItem {
+  /** 节点所属工作区文件夹（FolderGraph.key） */
+  public folderKey?: string;
+  /** 观察记录种类分组节点对应的种类 */
+  public observationKind?: ObservationKind;
+
   constructor(
     public readonly label: string,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
     public readonly entity?: Entity | AutoEntity,
-    public readonly type?: 'root' | 'graph-root' | 'category' | 'entity' | 'relation' | 'observation',
+    public readonly type?:
+      | 'folder' | 'root' | 'graph-root' | 'category' | 'entity' | 'relation' | 'observation' | 'observationKind'
+      | 'staleRoot',
     public readonly relationData?: any,
     public readonly isAuto?: boolean,
-    public readonly observationData?: { id: string; content: string; entityId: string }
+    public readonly observationData?: Pick<Observation, 'id' | 'content' | 'entityId' | 'kind' | 'tags' | 'severity'>
   ) {
     super(label, collapsibleState);
 
     if (type === 'observation' && observationData) {
-      // 观察记录节点
-      this.tooltip = observationData.content;
-      this.description = '';
+      // 观察记录节点：严重程度和标签显示在描述中
+      const details = [
+        observationData.severity ? t().observationFields.severities[observationData.severity] : '',
+        ...(observationData.tags || []).map(tag => `#${tag}`),
+      ].filter(Boolean).join(' ');
+      this.tooltip = details ? `${observationData.content}\n\n${details}` : observationData.content;
+      this.description = details;
       this.contextValue = isAuto ? 'autoObservation' : 'observation';
-      this.iconPath = new vscode.ThemeIcon('note');
+      this.iconPath = new vscode.ThemeIcon(OBSERVATION_KIND_ICONS[observationData.kind || DEFAULT_OBSERVATION_KIND]);
+    } else if (type === 'observationKind') {
+      this.contextValue = 'observationKind';
+    } else if (type === 'staleRoot') {
+      // 过期知识审查节点
+      this.contextValue = 'staleRoot';
+      this.iconPath = new vscode.ThemeIcon('history', new vscode.ThemeColor('list.warningForeground'));
+      this.tooltip = t().staleKnowledge.sectionTooltip;
     } else if (entity && (type === 'entity' || !type)) {
-      this.tooltip = `${entity.name} (${entity.type})${isAuto ? ' [Auto]' : ''}`;
+      const aliases = isAuto ? undefined : (entity as Entity).aliases;
+      this.tooltip = `${entity.name} (${entity.type})${isAuto ? ' [Auto]' : ''}`
+        + (aliases?.length ? `\n${t().commands.mergeEntities.aliases(aliases)}` : '');
       this.description = `${entity.filePath}:${entity.startLine}`;
       this.contextValue = isAuto ? 'autoEntity' : 'entity';
       
@@ -43,8 +70,11 @@ export class KnowledgeTreeItem extends vscode.TreeItem {
       this.iconPath = new vscode.ThemeIcon(this.getIconForType(entity.type as EntityType));
     } else if (type === 'relation' && relationData) {
       // 关系节点
-      this.tooltip = `${relationData.sourceName} ${relationData.verb} ${relationData.targetName}${isAuto ? ' [Auto]' : ''}`;
-      this.description = relationData.verb;
+      // 关系属性显示在动词后面
+      const properties = relationData.properties ? formatRelationProperties(relationData.properties) : '';
+      this.tooltip = `${relationData.sourceName} ${relationData.verb} ${relationData.targetName}${isAuto ? ' [Auto]' : ''}`
+        + (properties ? `\n${properties}` : '');
+      this.description = properties ? `${relationData.verb} · ${properties}` : relationData.verb;
       this.contextValue = isAuto ? 'autoRelation' : 'relation';
       this.iconPath = new vscode.ThemeIcon('arrow-right');
       
@@ -56,6 +86,10 @@ export class KnowledgeTreeItem extends vscode.TreeItem {
           arguments: [relationData.sourceEntity],
         };
       }
+    } else if (type === 'folder') {
+      // 工作区文件夹节点（仅多根工作区显示）
+      this.contextValue = 'workspaceFolder';
+      this.iconPath = new vscode.ThemeIcon('root-folder');
     } else if (type === 'graph-root') {
       // 图谱根节点（手动/自动）
       this.contextValue = 'graphRoot';
@@ -72,23 +106,11 @@ export class KnowledgeTreeItem extends vscode.TreeItem {
     }
   }
 
+  /**
+   * 内置类型的默认图标；自定义类型的图标由 KnowledgeTreeDataProvider 按词汇表设置
+   */
   private getIconForType(type: EntityType): string {
-    const iconMap: Record<EntityType, string> = {
-      function: 'symbol-function',
-      class: 'symbol-class',
-      interface: 'symbol-interface',
-      variable: 'symbol-variable',
-      file: 'file',
-      directory: 'folder',
-      api: 'globe',
-      config: 'settings-gear',
-      database: 'database',
-      service: 'server',
-      component: 'symbol-module',
-      other: 'symbol-misc',
-    };
-
-    return iconMap[type] || 'symbol-misc';
+    return BUILTIN_ENTITY_TYPES.find(term => term.name === type)?.icon || 'symbol-misc';
   }
 }
 
@@ -104,22 +126,11 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
   private searchQuery: string = '';
   private expandAllState: boolean = false;
   private treeView?: vscode.TreeView<KnowledgeTreeItem>;
-  private cachedRootNodes: KnowledgeTreeItem[] = [];
+  private cachedFolderNodes: Map<string, KnowledgeTreeItem> = new Map();
+  private cachedRootNodes: Map<string, KnowledgeTreeItem[]> = new Map();
   private cachedCategoryNodes: Map<string, KnowledgeTreeItem> = new Map();
-  private autoGraphService?: AutoGraphService;
-
-  constructor(
-    private entityService: EntityService,
-    private relationService: RelationService,
-    private observationService: ObservationService
-  ) {}
 
-  /**
-   * 设置自动图谱服务
-   */
-  public setAutoGraphService(service: AutoGraphService): void {
-    this.autoGraphService = service;
-  }
+  constructor(private registry: WorkspaceGraphRegistry) {}
 
   public setTreeView(treeView: vscode.TreeView<KnowledgeTreeItem>): void {
     this.treeView = treeView;
@@ -146,15 +157,17 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
     setTimeout(async () => {
       try {
         // 使用缓存的节点引用来展开
-        if (this.cachedRootNodes.length > 1) {
-          const relationsNode = this.cachedRootNodes[1];
-          await this.treeView?.reveal(relationsNode, { 
-            expand: 2,
-            select: false, 
-            focus: false 
-          }).catch((err) => {
-            console.log('Failed to expand Relations node:', err);
-          });
+        for (const rootNodes of this.cachedRootNodes.values()) {
+          if (rootNodes.length > 1) {
+            const relationsNode = rootNodes[1];
+            await this.treeView?.reveal(relationsNode, { 
+              expand: 2,
+              select: false, 
+              focus: false 
+            }).catch((err) => {
+              console.log('Failed to expand Relations node:', err);
+            });
+          }
         }
 
         // 展开所有缓存的分类节点
@@ -178,19 +191,29 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
   }
 
   getParent(element: KnowledgeTreeItem): vscode.ProviderResult<KnowledgeTreeItem> {
+    const folderKey = element.folderKey || '';
+    const rootNodes = this.cachedRootNodes.get(folderKey) || [];
+
+    // 多根工作区中，图谱根节点的父节点是文件夹节点
+    if (element.type === 'graph-root') {
+      return this.cachedFolderNodes.get(folderKey);
+    }
+
     // 如果是分类节点，返回 Entities 根节点
     if (element.type === 'category') {
-      return this.cachedRootNodes[0]; // Entities 节点
+      return rootNodes[0]; // Entities 节点
     }
     
     // 如果是实体节点，找到它的分类节点
     if (element.type === 'entity' && element.entity) {
-      return this.cachedCategoryNodes.get(element.entity.type);
+      return this.cachedCategoryNodes.get(
+        this.getCategoryKey(folderKey, element.entity.type, element.isAuto || false)
+      );
     }
     
     // 如果是关系节点，返回 Relations 根节点
     if (element.type === 'relation') {
-      return this.cachedRootNodes[1]; // Relations 节点
+      return rootNodes[1]; // Relations 节点
     }
     
     // 根节点没有父节点
@@ -199,111 +222,187 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
 
   getChildren(element?: KnowledgeTreeItem): Thenable<KnowledgeTreeItem[]> {
     if (!element) {
-      // 最顶层：显示手动图谱和自动图谱两个根节点
-      return Promise.resolve(this.getGraphRootNodes());
+      // 多根工作区：先显示文件夹；单文件夹：直接显示手动图谱和自动图谱两个根节点
+      if (this.registry.isMultiRoot()) {
+        return Promise.resolve(this.getFolderNodes());
+      }
+      const graph = this.registry.getAll()[0];
+      return Promise.resolve(graph ? this.getGraphRootNodes(graph) : []);
+    }
+
+    const graph = element.folderKey ? this.registry.get(element.folderKey) : undefined;
+    if (!graph) {
+      return Promise.resolve([]);
+    }
+
+    let children: KnowledgeTreeItem[] = [];
+    if (element.type === 'folder') {
+      children = this.getGraphRootNodes(graph);
     } else if (element.type === 'graph-root') {
       // 图谱根节点：显示 Entities 和 Relations
-      return Promise.resolve(this.getRootNodes(element.isAuto || false));
+      children = this.getRootNodes(graph, element.isAuto || false);
+    } else if (element.type === 'staleRoot') {
+      // 过期知识：每条观察记录一个节点，可以确认或更新
+      children = graph.staleKnowledge.getStaleObservations().map(({ entity, observation }) => {
+        const node = this.createObservationNode(entity, observation, false);
+        node.contextValue = 'staleObservation';
+        node.description = `${entity.name} · ${entity.filePath}:${entity.startLine}`;
+        node.tooltip = t().staleKnowledge.observationTooltip(observation.content, entity.name);
+        node.command = {
+          command: 'knowledge.jumpToEntity',
+          title: 'Jump to Entity',
+          arguments: [entity],
+        };
+        return node;
+      });
     } else if (element.type === 'root') {
       // 根节点：Entities 或 Relations
       const isAuto = element.isAuto || false;
       if (element.label.includes('Entities') || element.label.includes('实体')) {
-        return Promise.resolve(this.getEntityCategories(isAuto));
+        children = this.getEntityCategories(graph, isAuto);
       } else if (element.label.includes('Relations') || element.label.includes('关系')) {
-        return Promise.resolve(this.getRelations(isAuto));
+        children = this.getRelations(graph, isAuto);
       }
     } else if (element.type === 'entity' && element.entity) {
-      // 实体节点：显示观察记录
-      const isAuto = element.isAuto || false;
-      
-      if (isAuto && this.autoGraphService) {
-        const observations = this.autoGraphService.getObservationsByEntity(element.entity.id);
-        return Promise.resolve(
-          observations.map(obs => 
-            new KnowledgeTreeItem(
-              obs.content.length > 50 ? obs.content.substring(0, 50) + '...' : obs.content,
-              vscode.TreeItemCollapsibleState.None,
-              element.entity,
-              'observation',
-              undefined,
-              true,
-              { id: obs.id, content: obs.content, entityId: obs.entityId }
-            )
-          )
-        );
+      // 实体节点：手动图谱的观察记录按种类分组，自动图谱直接显示观察记录
+      if (element.isAuto) {
+        const observations = graph.autoGraphService.getObservationsByEntity(element.entity.id);
+        children = observations.map(obs => this.createObservationNode(element.entity!, obs, true));
       } else {
-        const observations = this.observationService.getObservations(element.entity.id);
-        return Promise.resolve(
-          observations.map(obs => 
-            new KnowledgeTreeItem(
-              obs.content.length > 50 ? obs.content.substring(0, 50) + '...' : obs.content,
-              vscode.TreeItemCollapsibleState.None,
-              element.entity,
-              'observation',
-              undefined,
-              false,
-              { id: obs.id, content: obs.content, entityId: obs.entityId }
-            )
-          )
-        );
+        children = this.getObservationKindNodes(element.entity, graph.observationService.getObservations(element.entity.id));
       }
+    } else if (element.type === 'observationKind' && element.entity && element.observationKind) {
+      // 种类分组节点：严重程度高的排在前面
+      const kind = element.observationKind;
+      children = graph.observationService.getObservations(element.entity.id)
+        .filter(obs => (obs.kind || DEFAULT_OBSERVATION_KIND) === kind)
+        .sort((a, b) => severityRank(b.severity) - severityRank(a.severity))
+        .map(obs => this.createObservationNode(element.entity!, obs, false));
     } else if (element.type === 'category' && element.entity) {
       // 类别节点：显示该类型的所有实体
       const entityType = element.entity.type as EntityType;
       const isAuto = element.isAuto || false;
       
-      if (isAuto && this.autoGraphService) {
-        const entities = this.autoGraphService.listEntities({ type: entityType });
-        return Promise.resolve(
-          entities.map(entity => {
-            // 检查是否有观察记录
-            const observations = this.autoGraphService!.getObservationsByEntity(entity.id);
-            const hasObservations = observations.length > 0;
-            
-            return new KnowledgeTreeItem(
-              hasObservations ? `${entity.name} (${observations.length})` : entity.name,
-              hasObservations ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
-              entity,
-              'entity',
-              undefined,
-              true
-            );
-          })
-        );
+      if (isAuto) {
+        const entities = graph.autoGraphService.listEntities({ type: entityType });
+        children = entities.map(entity => {
+          // 检查是否有观察记录
+          const observations = graph.autoGraphService.getObservationsByEntity(entity.id);
+          const hasObservations = observations.length > 0;
+          
+          return new KnowledgeTreeItem(
+            hasObservations ? `${entity.name} (${observations.length})` : entity.name,
+            hasObservations ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+            entity,
+            'entity',
+            undefined,
+            true
+          );
+        });
       } else {
-        const entities = this.entityService.getEntitiesByType(entityType);
-        return Promise.resolve(
-          entities.map(entity => 
-            new KnowledgeTreeItem(
-              entity.name,
-              vscode.TreeItemCollapsibleState.None,
-              entity,
-              'entity',
-              undefined,
-              false
-            )
-          )
-        );
+        const entities = graph.entityService.getEntitiesByType(entityType);
+        children = entities.map(entity => {
+          const observationCount = graph.observationService.getObservationCount(entity.id);
+
+          return new KnowledgeTreeItem(
+            observationCount > 0 ? `${entity.name} (${observationCount})` : entity.name,
+            observationCount > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+            entity,
+            'entity',
+            undefined,
+            false
+          );
+        });
       }
     }
 
-    return Promise.resolve([]);
+    return Promise.resolve(this.withVocabulary(this.withFolder(children, graph), graph));
+  }
+
+  /**
+   * 观察记录种类分组节点（按 OBSERVATION_KINDS 的顺序）
+   */
+  private getObservationKindNodes(entity: Entity | AutoEntity, observations: Observation[]): KnowledgeTreeItem[] {
+    const counts = new Map<ObservationKind, number>();
+    observations.forEach(obs => {
+      const kind = obs.kind || DEFAULT_OBSERVATION_KIND;
+      counts.set(kind, (counts.get(kind) || 0) + 1);
+    });
+
+    return OBSERVATION_KINDS.filter(kind => counts.has(kind)).map(kind => {
+      const node = new KnowledgeTreeItem(
+        `${t().observationKinds[kind].label} (${counts.get(kind)})`,
+        this.expandAllState ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+        entity,
+        'observationKind',
+        undefined,
+        false
+      );
+      node.observationKind = kind;
+      node.iconPath = new vscode.ThemeIcon(OBSERVATION_KIND_ICONS[kind]);
+      node.tooltip = t().observationKinds[kind].description;
+      return node;
+    });
+  }
+
+  private createObservationNode(
+    entity: Entity | AutoEntity,
+    observation: Pick<Observation, 'id' | 'content' | 'entityId' | 'kind' | 'tags' | 'severity'>,
+    isAuto: boolean
+  ): KnowledgeTreeItem {
+    return new KnowledgeTreeItem(
+      observation.content.length > 50 ? observation.content.substring(0, 50) + '...' : observation.content,
+      vscode.TreeItemCollapsibleState.None,
+      entity,
+      'observation',
+      undefined,
+      isAuto,
+      {
+        id: observation.id,
+        content: observation.content,
+        entityId: observation.entityId,
+        kind: observation.kind,
+        tags: observation.tags,
+        severity: observation.severity,
+      }
+    );
+  }
+
+  /**
+   * 获取工作区文件夹节点
+   */
+  private getFolderNodes(): KnowledgeTreeItem[] {
+    this.cachedFolderNodes.clear();
+
+    return this.registry.getAll().map(graph => {
+      const node = new KnowledgeTreeItem(
+        graph.folder.name,
+        vscode.TreeItemCollapsibleState.Expanded,
+        undefined,
+        'folder'
+      );
+      node.description = `${graph.entityService.listEntities().length} / ${this.getAllRelations(graph, false).length}`;
+      node.tooltip = graph.folder.uri.fsPath;
+      node.folderKey = graph.key;
+      this.cachedFolderNodes.set(graph.key, node);
+      return node;
+    });
   }
 
   /**
    * 获取图谱根节点：手动图谱和自动图谱
    */
-  private getGraphRootNodes(): KnowledgeTreeItem[] {
+  private getGraphRootNodes(graph: FolderGraph): KnowledgeTreeItem[] {
     const translations = t().autoGraph?.treeView || {
       manualGraph: 'Manual Graph',
       autoGraph: 'Auto Graph'
     };
     
-    const manualEntities = this.entityService.listEntities();
-    const manualRelations = this.getAllRelations(false);
+    const manualEntities = graph.entityService.listEntities();
+    const manualRelations = this.getAllRelations(graph, false);
     
-    const autoEntities = this.autoGraphService?.listEntities() || [];
-    const autoRelations = this.autoGraphService?.listRelations() || [];
+    const autoEntities = graph.autoGraphService.listEntities();
+    const autoRelations = graph.autoGraphService.listRelations();
     
     const nodes = [
       new KnowledgeTreeItem(
@@ -316,22 +415,35 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
       ),
       new KnowledgeTreeItem(
         `⚡ ${translations.autoGraph} (${autoEntities.length} / ${autoRelations.length})`,
-        this.autoGraphService ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+        vscode.TreeItemCollapsibleState.Collapsed,
         undefined,
         'graph-root',
         undefined,
         true
       )
     ];
-    
-    this.cachedRootNodes = nodes;
+
+    // 有可能过期的观察记录时显示审查节点
+    const staleCount = graph.staleKnowledge.getStaleObservations().length;
+    if (staleCount > 0) {
+      nodes.push(new KnowledgeTreeItem(
+        t().staleKnowledge.section(staleCount),
+        vscode.TreeItemCollapsibleState.Collapsed,
+        undefined,
+        'staleRoot',
+        undefined,
+        false
+      ));
+    }
+
+    this.cachedRootNodes.set(graph.key, this.withFolder(nodes, graph));
     return nodes;
   }
 
   /**
    * 获取根节点：Entities 和 Relations
    */
-  private getRootNodes(isAuto: boolean): KnowledgeTreeItem[] {
+  private getRootNodes(graph: FolderGraph, isAuto: boolean): KnowledgeTreeItem[] {
     const translations = t().autoGraph?.treeView || {
       entities: 'Entities',
       relations: 'Relations'
@@ -340,12 +452,12 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
     let entityCount: number;
     let relationCount: number;
     
-    if (isAuto && this.autoGraphService) {
-      entityCount = this.autoGraphService.listEntities().length;
-      relationCount = this.autoGraphService.listRelations().length;
+    if (isAuto) {
+      entityCount = graph.autoGraphService.listEntities().length;
+      relationCount = graph.autoGraphService.listRelations().length;
     } else {
-      entityCount = this.entityService.listEntities().length;
-      relationCount = this.getAllRelations(false).length;
+      entityCount = graph.entityService.listEntities().length;
+      relationCount = this.getAllRelations(graph, false).length;
     }
     
     const nodes = [
@@ -373,17 +485,17 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
   /**
    * 获取实体分类
    */
-  private getEntityCategories(isAuto: boolean): KnowledgeTreeItem[] {
+  private getEntityCategories(graph: FolderGraph, isAuto: boolean): KnowledgeTreeItem[] {
     let entities: (Entity | AutoEntity)[];
     
-    if (isAuto && this.autoGraphService) {
+    if (isAuto) {
       entities = this.searchQuery 
-        ? this.autoGraphService.listEntities({ name: this.searchQuery })
-        : this.autoGraphService.listEntities();
+        ? graph.autoGraphService.listEntities({ name: this.searchQuery })
+        : graph.autoGraphService.listEntities();
     } else {
       entities = this.searchQuery 
-        ? this.entityService.listEntities({ name: this.searchQuery })
-        : this.entityService.listEntities();
+        ? graph.entityService.listEntities({ name: this.searchQuery })
+        : graph.entityService.listEntities();
     }
 
     // 按类型分组
@@ -417,9 +529,10 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
         undefined,
         isAuto
       );
+      categoryNode.folderKey = graph.key;
       
       // 缓存分类节点
-      this.cachedCategoryNodes.set(`${type}${isAuto ? '-auto' : ''}`, categoryNode);
+      this.cachedCategoryNodes.set(this.getCategoryKey(graph.key, type, isAuto), categoryNode);
       categories.push(categoryNode);
     });
 
@@ -429,15 +542,15 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
   /**
    * 获取所有关系
    */
-  private getAllRelations(isAuto: boolean): any[] {
-    if (isAuto && this.autoGraphService) {
-      const entities = this.autoGraphService.listEntities();
+  private getAllRelations(graph: FolderGraph, isAuto: boolean): any[] {
+    if (isAuto) {
+      const entities = graph.autoGraphService.listEntities();
       const relations: any[] = [];
       
       entities.forEach(entity => {
-        const outgoingRelations = this.autoGraphService!.getRelationsByEntity(entity.id, 'outgoing');
+        const outgoingRelations = graph.autoGraphService.getRelationsByEntity(entity.id, 'outgoing');
         outgoingRelations.forEach(relation => {
-          const targetEntity = this.autoGraphService!.getEntity(relation.targetEntityId);
+          const targetEntity = graph.autoGraphService.getEntity(relation.targetEntityId);
           if (targetEntity) {
             relations.push({
               id: relation.id,
@@ -456,13 +569,13 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
       
       return relations;
     } else {
-      const entities = this.entityService.listEntities();
+      const entities = graph.entityService.listEntities();
       const relations: any[] = [];
       
       entities.forEach(entity => {
-        const outgoingRelations = this.relationService.getRelations(entity.id, 'outgoing');
+        const outgoingRelations = graph.relationService.getRelations(entity.id, 'outgoing');
         outgoingRelations.forEach(relation => {
-          const targetEntity = this.entityService.getEntity(relation.targetEntityId);
+          const targetEntity = graph.entityService.getEntity(relation.targetEntityId);
           if (targetEntity) {
             relations.push({
               id: relation.id,
@@ -473,10 +586,31 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
               targetId: targetEntity.id,
               targetName: targetEntity.name,
               targetEntity: targetEntity,
+              properties: getRelationProperties(relation.metadata),
               isAuto: false
             });
           }
         });
+
+        // 指向其他文件夹的关系，目标文件夹未打开时跳过
+        graph.relationService.getCrossFolderRelations(entity.id).forEach(relation => {
+          const targetEntity = this.registry.getByName(relation.targetFolder)?.entityService.getEntity(relation.targetEntityId);
+          if (targetEntity) {
+            relations.push({
+              id: relation.id,
+              sourceId: entity.id,
+              sourceName: entity.name,
+              sourceEntity: entity,
+              verb: relation.verb,
+              targetId: targetEntity.id,
+              targetName: `${relation.targetFolder}/${targetEntity.name}`,
+              targetEntity: targetEntity,
+              properties: getRelationProperties(relation.metadata),
+              isAuto: false,
+              isCrossFolder: true
+            });
+          }
+        });
       });
       
       return relations;
@@ -486,8 +620,8 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
   /**
    * 获取关系列表
    */
-  private getRelations(isAuto: boolean): KnowledgeTreeItem[] {
-    const relations = this.getAllRelations(isAuto);
+  private getRelations(graph: FolderGraph, isAuto: boolean): KnowledgeTreeItem[] {
+    const relations = this.getAllRelations(graph, isAuto);
     
     return relations.map(relation => 
       new KnowledgeTreeItem(
@@ -501,8 +635,44 @@ export class KnowledgeTreeDataProvider implements vscode.TreeDataProvider<Knowle
     );
   }
 
+  /**
+   * 按文件夹的词汇表设置实体图标和分类说明
+   */
+  private withVocabulary(nodes: KnowledgeTreeItem[], graph: FolderGraph): KnowledgeTreeItem[] {
+    nodes.forEach(node => {
+      if (!node.entity) {
+        return;
+      }
+      const term = graph.vocabulary.getEntityType(node.entity.type);
+      if (node.type === 'entity' && !node.isAuto && isOrphaned(node.entity)) {
+        // 代码已被删除的孤立实体
+        node.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        node.description = `${t().anchors.orphaned} · ${node.entity.filePath}`;
+        node.tooltip = t().anchors.orphanedTooltip(node.entity.filePath);
+      } else if (node.type === 'entity') {
+        node.iconPath = new vscode.ThemeIcon(graph.vocabulary.getEntityTypeIcon(node.entity.type));
+      } else if (node.type === 'category' && term?.description) {
+        node.tooltip = term.description;
+      }
+    });
+    return nodes;
+  }
+
+  /**
+   * 为子节点标记所属文件夹
+   */
+  private withFolder(nodes: KnowledgeTreeItem[], graph: FolderGraph): KnowledgeTreeItem[] {
+    nodes.forEach(node => {
+      node.folderKey = graph.key;
+    });
+    return nodes;
+  }
+
+  private getCategoryKey(folderKey: string, type: string, isAuto: boolean): string {
+    return `${folderKey}:${type}${isAuto ? '-auto' : ''}`;
+  }
+
   private capitalizeFirst(str: string): string {
     return str.charAt(0).toUpperCase() + str.slice(1);
   }
 }
-
@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { KnowledgeTreeItem } from './treeDataProvider';
+
+/** 树视图内部拖放使用的 MIME 类型（application/vnd.code.tree.<视图 ID 小写>） */
+const TREE_MIME_TYPE = 'application/vnd.code.tree.knowledgegraphexplorer';
+
+/**
+ * 知识图谱树视图的拖放：把手动图谱的实体拖到另一个实体上以创建关系
+ * 关系动词由 onDropEntities 让用户选择
+ */
+export class KnowledgeTreeDragAndDropController implements vscode.TreeDragAndDropController<KnowledgeTreeItem> {
+  public readonly dragMimeTypes = [TREE_MIME_TYPE];
+  public readonly dropMimeTypes = [TREE_MIME_TYPE];
+
+  constructor(
+    private onDropEntities: (sources: KnowledgeTreeItem[], target: KnowledgeTreeItem) => Promise<void>
+  ) {}
+
+  public handleDrag(source: readonly KnowledgeTreeItem[], dataTransfer: vscode.DataTransfer): void {
+    const entities = source.filter(item => this.isManualEntity(item));
+    if (entities.length > 0) {
+      dataTransfer.set(TREE_MIME_TYPE, new vscode.DataTransferItem(entities));
+    }
+  }
+
+  public async handleDrop(target: KnowledgeTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+    if (!target || !this.isManualEntity(target)) {
+      return;
+    }
+
+    const dragged: KnowledgeTreeItem[] | undefined = dataTransfer.get(TREE_MIME_TYPE)?.value;
+    // 只处理与第一个拖动项同一文件夹的实体，放到自身上的忽略
+    const sources = (dragged || []).filter(item =>
+      item.folderKey === dragged![0].folderKey
+      && !(item.folderKey === target.folderKey && item.entity!.id === target.entity!.id)
+    );
+    if (sources.length > 0) {
+      await this.onDropEntities(sources, target);
+    }
+  }
+
+  private isManualEntity(item: KnowledgeTreeItem): boolean {
+    return item.type === 'entity' && !!item.entity && !item.isAuto;
+  }
+}
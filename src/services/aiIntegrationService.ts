@@ -6,7 +6,8 @@ import { RelationService } from './relationService';
 import { ObservationService } from './observationService';
 import { DependencyAnalyzer } from './dependencyAnalyzer';
 import { ScenarioManager } from './scenarioManager';
-import { Entity, Relation } from '../utils/types';
+import { Entity, Relation, ObservationFields } from '../utils/types';
+import { WARNING_OBSERVATION_KINDS, severityRank } from '../../packages/mcp-server/src/schema/observationFields';
 import { getLocale } from '../i18n/i18nService';
 
 /**
@@ -20,7 +21,7 @@ export type GraphSourceType = 'manual' | 'auto' | 'merged';
 export interface GraphData {
   entities: Entity[];
   relations: Relation[];
-  observations: Array<{ entityId: string; entityName: string; content: string }>;
+  observations: Array<{ entityId: string; entityName: string; content: string } & ObservationFields>;
   sourceType: GraphSourceType;
 }
 
@@ -914,50 +915,44 @@ export class AIIntegrationService {
    * @param graphData 可选的图谱数据，如果提供则使用传入的观察记录
    */
   private categorizeObservations(graphData?: GraphData) {
-    const warnings: Array<{ entity: { name: string }; content: string }> = [];
+    const warnings: Array<{ entity: { name: string }; content: string; rank: number }> = [];
     const todos: Array<{ entity: { name: string }; content: string }> = [];
     const bugs: Array<{ entity: { name: string }; content: string }> = [];
     const others: Array<{ entity: { name: string }; content: string }> = [];
 
-    if (graphData?.observations) {
-      // 使用传入的观察记录
-      for (const obs of graphData.observations) {
-        const content = obs.content.toLowerCase();
-        const item = { entity: { name: obs.entityName }, content: obs.content };
-
-        if (content.includes('warning') || content.includes('warn') || content.includes('⚠️')) {
-          warnings.push(item);
-        } else if (content.includes('todo') || content.includes('待办') || content.includes('📝')) {
-          todos.push(item);
-        } else if (content.includes('bug') || content.includes('issue') || content.includes('问题') || content.includes('🐛')) {
-          bugs.push(item);
-        } else {
-          others.push(item);
-        }
-      }
-    } else {
-      // 使用默认服务获取
-      const entities = this.entityService.listEntities({});
-
-      for (const entity of entities) {
-        const observations = this.observationService.getObservations(entity.id);
-        for (const obs of observations) {
-          const content = obs.content.toLowerCase();
-          const item = { entity: { name: entity.name }, content: obs.content };
-
-          if (content.includes('warning') || content.includes('warn') || content.includes('⚠️')) {
-            warnings.push(item);
-          } else if (content.includes('todo') || content.includes('待办') || content.includes('📝')) {
-            todos.push(item);
-          } else if (content.includes('bug') || content.includes('issue') || content.includes('问题') || content.includes('🐛')) {
-            bugs.push(item);
-          } else {
-            others.push(item);
-          }
-        }
+    // 未传入图谱数据时使用默认服务获取
+    const observations = graphData?.observations ?? this.entityService.listEntities({}).flatMap(entity =>
+      this.observationService.getObservations(entity.id).map(obs => ({ ...obs, entityName: entity.name }))
+    );
+
+    for (const obs of observations) {
+      const content = obs.content.toLowerCase();
+      const item = {
+        entity: { name: obs.entityName },
+        content: obs.severity ? `\`${obs.severity}\` ${obs.content}` : obs.content,
+      };
+
+      // 设置了种类的观察记录按种类归类，普通备注仍按内容关键字归类
+      if (obs.kind && WARNING_OBSERVATION_KINDS.includes(obs.kind)) {
+        warnings.push({ ...item, rank: severityRank(obs.severity) });
+      } else if (obs.kind === 'todo') {
+        todos.push(item);
+      } else if (obs.kind && obs.kind !== 'note') {
+        others.push(item);
+      } else if (content.includes('warning') || content.includes('warn') || content.includes('⚠️')) {
+        warnings.push({ ...item, rank: severityRank(obs.severity) });
+      } else if (content.includes('todo') || content.includes('待办') || content.includes('📝')) {
+        todos.push(item);
+      } else if (content.includes('bug') || content.includes('issue') || content.includes('问题') || content.includes('🐛')) {
+        bugs.push(item);
+      } else {
+        others.push(item);
       }
     }
 
+    // 严重程度高的警告排在前面（sort 是稳定的，同级保持原顺序）
+    warnings.sort((a, b) => b.rank - a.rank);
+
     return { warnings, todos, bugs, others };
   }
 
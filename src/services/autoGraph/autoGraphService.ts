@@ -102,6 +102,34 @@ export class AutoGraphService {
     };
   }
 
+  /**
+   * 按 ID 更新自动实体的位置、描述和元数据（代码移动后保留 ID 和观察记录）
+   */
+  public updateEntity(
+    entityId: string,
+    startLine: number,
+    endLine: number,
+    description?: string,
+    metadata?: AutoEntity['metadata']
+  ): AutoEntity | null {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare(`
+      UPDATE auto_entities
+      SET start_line = ?, end_line = ?, description = ?, updated_at = ?, metadata = ?
+      WHERE id = ?
+    `);
+    stmt.run([
+      startLine,
+      endLine,
+      description || null,
+      Date.now(),
+      metadata ? JSON.stringify(metadata) : null,
+      entityId,
+    ]);
+    stmt.free();
+    return this.getEntity(entityId);
+  }
+
   /**
    * 获取单个自动实体
    */
@@ -351,6 +379,24 @@ export class AutoGraphService {
     };
   }
 
+  /**
+   * 获取单个自动关系
+   */
+  public getRelation(relationId: string): AutoRelation | null {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare('SELECT * FROM auto_relations WHERE id = ?');
+    stmt.bind([relationId]);
+
+    if (stmt.step()) {
+      const row = stmt.getAsObject();
+      stmt.free();
+      return this.rowToRelation(row);
+    }
+
+    stmt.free();
+    return null;
+  }
+
   /**
    * 列出自动关系（支持过滤）
    */
@@ -0,0 +1,42 @@
+import { CallRelationMetadata, ExtractedRelation } from './types';
+
+/**
+ * 记录一处调用：同一对调用方和被调用的函数或方法之间只保留一条 calls 关系，累计调用次数和调用行
+ * 递归调用不记录
+ */
+export function addCallSite(
+  relations: ExtractedRelation[],
+  source: { name: string; filePath: string },
+  target: { name: string; filePath?: string; resolved?: boolean },
+  line: number
+): void {
+  if (target.name === source.name && (!target.filePath || target.filePath === source.filePath)) {
+    return;
+  }
+
+  let relation = relations.find(item => item.verb === 'calls'
+    && item.sourceName === source.name
+    && item.sourceFilePath === source.filePath
+    && item.targetName === target.name
+    && item.targetFilePath === target.filePath);
+  if (!relation) {
+    const metadata: CallRelationMetadata = { count: 0, lines: [] };
+    relation = {
+      sourceName: source.name,
+      sourceFilePath: source.filePath,
+      targetName: target.name,
+      targetFilePath: target.filePath,
+      verb: 'calls',
+      metadata,
+      resolved: target.resolved,
+    };
+    relations.push(relation);
+  }
+
+  const metadata = relation.metadata as CallRelationMetadata;
+  metadata.count++;
+  if (!metadata.lines.includes(line)) {
+    metadata.lines.push(line);
+    metadata.lines.sort((a, b) => a - b);
+  }
+}
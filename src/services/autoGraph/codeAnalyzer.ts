@@ -3,6 +3,12 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as crypto from 'crypto';
 import { AutoGraphService } from './autoGraphService';
+import { TypeScriptAnalyzer } from './typeScriptAnalyzer';
+import { PythonAnalyzer } from './pythonAnalyzer';
+import { JavaAnalyzer } from './javaAnalyzer';
+import { GoAnalyzer } from './goAnalyzer';
+import { RustAnalyzer } from './rustAnalyzer';
+import { addCallSite } from './callSites';
 import { EntityType, RelationVerb } from '../../utils/types';
 import {
   AnalysisResult,
@@ -12,15 +18,23 @@ import {
   ExtractedRelation,
   FileAnalysisResult,
   ImportInfo,
+  LanguageAnalyzer,
 } from './types';
 
+/** 类体第一层的方法定义（正则回退） */
+const METHOD_REGEX = /^\s*(?:(?:public|private|protected|static|async|override|get|set)\s+)*(\w+)\s*(?:<[^>]*>)?\s*\(/;
+
+/** 形如调用但不是调用的关键字 */
+const CALL_KEYWORDS = ['if', 'for', 'while', 'switch', 'catch', 'return', 'typeof', 'super', 'import', 'require', 'async', 'await'];
+
 /**
  * 代码分析器
- * 使用 VSCode LSP API 和 TypeScript 分析代码结构
+ * Python、Java/Kotlin、Go、Rust 等语言由对应的 LanguageAnalyzer 分析；TypeScript/JavaScript 文件优先使用 TypeScript 编译器 API，
+ * 其他情况回退到正则提取
  */
 export class CodeAnalyzer {
   private workspaceRoot: string = '';
-  private includePatterns: string[] = ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx'];
+  private includePatterns: string[] = ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx', '**/*.py', '**/*.java', '**/*.kt', '**/*.go', '**/*.rs'];
   private excludePatterns: string[] = [
     '**/node_modules/**',
     '**/dist/**',
@@ -28,7 +42,22 @@ export class CodeAnalyzer {
     '**/*.d.ts',
     '**/*.test.ts',
     '**/*.spec.ts',
+    '**/__pycache__/**',
+    '**/.venv/**',
+    '**/venv/**',
+    '**/target/**',
+    '**/.gradle/**',
+    '**/vendor/**',
+    '**/*_test.go',
   ];
+  /** 编译器 API 后端，关闭 typescriptCompiler 配置时为 null */
+  private typeScriptAnalyzer: TypeScriptAnalyzer | null = null;
+  /** 其他语言的分析器，按文件扩展名选择 */
+  private languageAnalyzers: LanguageAnalyzer[] = [];
+
+  private _onDidAnalyze = new vscode.EventEmitter<AnalysisResult>();
+  /** 分析完成、自动图谱已更新时触发 */
+  public readonly onDidAnalyze = this._onDidAnalyze.event;
 
   constructor(private autoGraphService: AutoGraphService) {}
 
@@ -49,6 +78,16 @@ export class CodeAnalyzer {
     if (configExclude && configExclude.length > 0) {
       this.excludePatterns = configExclude;
     }
+
+    this.typeScriptAnalyzer = config.get<boolean>('typescriptCompiler', true)
+      ? new TypeScriptAnalyzer(workspaceRoot)
+      : null;
+    this.languageAnalyzers = [
+      new PythonAnalyzer(workspaceRoot),
+      new JavaAnalyzer(workspaceRoot),
+      new GoAnalyzer(workspaceRoot),
+      new RustAnalyzer(workspaceRoot),
+    ];
   }
 
   /**
@@ -85,6 +124,7 @@ export class CodeAnalyzer {
     
     const files = await this.findFiles();
     const totalFiles = files.length;
+    this.prepareTypeScript(files.map(file => file.fsPath));
 
     console.log(`Found ${totalFiles} files to analyze`);
 
@@ -96,6 +136,7 @@ export class CodeAnalyzer {
         }
       });
       this.autoGraphService.save();
+      this._onDidAnalyze.fire(result);
       return result;
     }
 
@@ -158,16 +199,14 @@ export class CodeAnalyzer {
         const oldEntity = oldEntitiesMap.get(key);
         
         if (oldEntity) {
-          // 实体已存在，更新信息但保留 ID（观察记录关联到 ID）
-          const entity = this.autoGraphService.upsertEntity(
-            symbol.name,
-            symbol.type,
-            symbol.filePath,
+          // 实体已存在，更新信息但保留 ID（观察记录关联到 ID）；起始行变化时也按 ID 更新，避免产生重复实体
+          const entity = this.autoGraphService.updateEntity(
+            oldEntity.id,
             symbol.startLine,
             symbol.endLine,
             symbol.description,
             symbol.metadata
-          );
+          )!;
           newEntitiesMap.set(key, { symbol, entity });
           result.entities.push(entity);
         } else {
@@ -216,6 +255,7 @@ export class CodeAnalyzer {
     });
 
     this.autoGraphService.save();
+    this._onDidAnalyze.fire(result);
 
     if (progress) {
       progress.report({ message: 'Complete!', increment: 10 });
@@ -259,6 +299,7 @@ export class CodeAnalyzer {
       this.autoGraphService.deleteEntitiesByFile(relativePath);
       this.autoGraphService.deleteFileCache(relativePath);
 
+      this.prepareTypeScript([filePath]);
       const fileResult = this.analyzeFileSync(filePath);
 
       if (fileResult) {
@@ -288,6 +329,7 @@ export class CodeAnalyzer {
       }
 
       this.autoGraphService.save();
+      this._onDidAnalyze.fire(result);
     } catch (error) {
       result.errors.push({
         filePath: relativePath,
@@ -304,6 +346,22 @@ export class CodeAnalyzer {
   private analyzeFileSync(filePath: string): FileAnalysisResult | null {
     const relativePath = path.relative(this.workspaceRoot, filePath);
 
+    const languageAnalyzer = this.languageAnalyzers.find(analyzer => analyzer.supports(filePath));
+    if (languageAnalyzer) {
+      return languageAnalyzer.analyzeFile(filePath);
+    }
+
+    if (this.typeScriptAnalyzer && TypeScriptAnalyzer.supports(filePath)) {
+      try {
+        const result = this.typeScriptAnalyzer.analyzeFile(filePath);
+        if (result) {
+          return result;
+        }
+      } catch (error) {
+        console.error(`TypeScript analysis failed for ${relativePath}, falling back:`, error);
+      }
+    }
+
     // 读取文件内容
     let content: string;
     try {
@@ -342,12 +400,34 @@ export class CodeAnalyzer {
     return {
       filePath: relativePath,
       symbols,
-      relations,
+      relations: this.resolveCallTargets(relations, symbols, imports, relativePath),
       imports,
       exports: [],
     };
   }
 
+  /**
+   * 是否能分析该文件（TypeScript/JavaScript 或已注册语言分析器的文件）
+   */
+  public isAnalyzableFile(filePath: string): boolean {
+    return /\.[jt]sx?$/.test(filePath) || this.languageAnalyzers.some(analyzer => analyzer.supports(filePath));
+  }
+
+  /**
+   * 以待分析的文件为根重建 TypeScript 程序；失败时这些文件回退到正则提取
+   */
+  private prepareTypeScript(files: string[]): void {
+    if (!this.typeScriptAnalyzer) {
+      return;
+    }
+    try {
+      this.typeScriptAnalyzer.update(files);
+    } catch (error) {
+      console.error('Failed to create TypeScript program:', error);
+      this.typeScriptAnalyzer = new TypeScriptAnalyzer(this.workspaceRoot);
+    }
+  }
+
   /**
    * 提取 import 语句
    */
@@ -529,6 +609,12 @@ export class CodeAnalyzer {
           startLine: currentClass.startLine,
           endLine: i + 1,
         });
+
+        // 方法实体及方法中的调用
+        const owner = { className: currentClass.name, fieldTypes: this.extractFieldTypes(currentClass.content) };
+        for (const method of this.extractMethods(currentClass.name, currentClass.content, currentClass.startLine, filePath, symbols, relations)) {
+          this.extractCallSites(method.name, method.content, method.startLine, filePath, relations, owner);
+        }
         currentClass = null;
       }
     }
@@ -740,6 +826,13 @@ export class CodeAnalyzer {
               filePath,
               relations
             );
+            this.extractCallSites(
+              currentFunction.name,
+              currentFunction.content,
+              currentFunction.startLine,
+              filePath,
+              relations
+            );
           }
           
           currentFunction = null;
@@ -820,6 +913,173 @@ export class CodeAnalyzer {
     }
   }
 
+  /**
+   * 类的字段名 → 类型名（构造函数注入的参数和带修饰符的成员变量）
+   */
+  private extractFieldTypes(classContent: string[]): Map<string, string> {
+    const fieldRegex = /(?:private|public|protected|readonly)\s+(\w+)\s*[?!]?\s*:\s*([A-Z]\w*)/g;
+    const fieldTypes = new Map<string, string>();
+    for (const line of classContent) {
+      let match;
+      while ((match = fieldRegex.exec(line)) !== null) {
+        fieldTypes.set(match[1], match[2]);
+      }
+    }
+    return fieldTypes;
+  }
+
+  /**
+   * 提取类体第一层的方法（正则回退），作为 类名.方法名 的函数实体，返回每个方法的内容用于提取调用
+   * 没有方法体的声明（重载签名、抽象方法）不提取
+   */
+  private extractMethods(
+    className: string,
+    content: string[],
+    startLine: number,
+    filePath: string,
+    symbols: ExtractedSymbol[],
+    relations: ExtractedRelation[]
+  ): Array<{ name: string; startLine: number; content: string[] }> {
+    const methods: Array<{ name: string; startLine: number; content: string[] }> = [];
+    let depth = 0;
+    let method: { name: string; startLine: number; content: string[]; opened: boolean } | undefined;
+
+    content.forEach((rawLine, index) => {
+      const line = this.stripStringsAndComments(rawLine);
+      if (!method && depth === 1) {
+        const match = line.match(METHOD_REGEX);
+        if (match && !CALL_KEYWORDS.includes(match[1])) {
+          method = { name: `${className}.${match[1]}`, startLine: startLine + index, content: [], opened: false };
+        }
+      }
+
+      depth += (line.match(/\{/g) || []).length - (line.match(/\}/g) || []).length;
+      if (!method) {
+        return;
+      }
+      method.content.push(rawLine);
+      method.opened = method.opened || line.includes('{');
+
+      if (depth <= 1 && method.opened) {
+        symbols.push({
+          name: method.name,
+          type: 'function',
+          filePath,
+          startLine: method.startLine,
+          endLine: startLine + index,
+          metadata: { method: true, className },
+        });
+        relations.push({
+          sourceName: className,
+          sourceFilePath: filePath,
+          targetName: method.name,
+          targetFilePath: filePath,
+          verb: 'contains',
+          resolved: true,
+        });
+        methods.push(method);
+        method = undefined;
+      } else if (depth <= 1 && line.trim().endsWith(';')) {
+        method = undefined;
+      }
+    });
+
+    return methods;
+  }
+
+  /**
+   * 提取函数或方法中的调用关系（正则回退），调用方为 sourceName
+   * 识别 this.方法()、this.字段.方法()（字段类型来自 owner.fieldTypes）、类名.静态方法() 和直接调用的函数；
+   * 目标记为 类名.方法名 或函数名，之后由 resolveCallTargets 只保留本文件声明或导入的目标
+   */
+  private extractCallSites(
+    sourceName: string,
+    content: string[],
+    startLine: number,
+    filePath: string,
+    relations: ExtractedRelation[],
+    owner?: { className: string; fieldTypes: Map<string, string> }
+  ): void {
+    const selfCallRegex = /this\.(\w+)\s*\(/g;
+    const memberCallRegex = /this\.(\w+)\.(\w+)\s*\(/g;
+    const staticCallRegex = /(?<![\w$.])([A-Z]\w*)\.(\w+)\s*\(/g;
+    const functionCallRegex = /(?<![\w$.])(?<!\b(?:new|function)\s+)([a-z_$][\w$]*)\s*\(/g;
+
+    const source = { name: sourceName, filePath };
+
+    content.forEach((rawLine, index) => {
+      const trimmed = rawLine.trim();
+      // 第一行是定义本身，不是调用
+      if (index === 0 || trimmed.startsWith('//') || trimmed.startsWith('*')) {
+        return;
+      }
+      const line = this.stripStringsAndComments(rawLine);
+      const record = (targetName: string) => addCallSite(relations, source, { name: targetName }, startLine + index);
+
+      let match;
+      if (owner) {
+        while ((match = selfCallRegex.exec(line)) !== null) {
+          record(`${owner.className}.${match[1]}`);
+        }
+        while ((match = memberCallRegex.exec(line)) !== null) {
+          const typeName = owner.fieldTypes.get(match[1]);
+          if (typeName && !this.isPrimitiveType(typeName)) {
+            record(`${typeName}.${match[2]}`);
+          }
+        }
+      }
+      while ((match = staticCallRegex.exec(line)) !== null) {
+        if (!this.isPrimitiveType(match[1]) && !this.isDecoratorOrBuiltin(match[1])) {
+          record(`${match[1]}.${match[2]}`);
+        }
+      }
+      while ((match = functionCallRegex.exec(line)) !== null) {
+        if (!CALL_KEYWORDS.includes(match[1])) {
+          record(match[1]);
+        }
+      }
+    });
+  }
+
+  /**
+   * 调用目标只保留本文件声明的和从工作区文件（相对路径）导入的符号，
+   * 排除 setTimeout、parseInt 等全局函数和外部库；导入的目标记录所在的文件
+   */
+  private resolveCallTargets(
+    relations: ExtractedRelation[],
+    symbols: ExtractedSymbol[],
+    imports: ImportInfo[],
+    filePath: string
+  ): ExtractedRelation[] {
+    const declared = new Set(symbols.map(symbol => symbol.name));
+    return relations.filter(relation => {
+      if (relation.verb !== 'calls') {
+        return true;
+      }
+      const name = relation.targetName.split('.')[0];
+      if (declared.has(name)) {
+        relation.targetFilePath = filePath;
+        relation.resolved = true;
+        return true;
+      }
+      const source = imports.find(item => !item.isNamespace && item.importedNames.includes(name));
+      if (source && source.moduleName.startsWith('.')) {
+        relation.targetFilePath = this.resolveImportPath(filePath, source.moduleName);
+        return true;
+      }
+      return false;
+    });
+  }
+
+  /**
+   * 把字符串替换为空字符串并去掉行尾注释，避免匹配到其中的调用和花括号
+   */
+  private stripStringsAndComments(line: string): string {
+    return line
+      .replace(/(['"`])(?:\\.|(?!\1).)*\1/g, '""')
+      .replace(/\/\/.*$/, '');
+  }
+
   /**
    * 提取接口定义
    */
@@ -1035,7 +1295,8 @@ export class CodeAnalyzer {
       }
       
       // 如果没找到，尝试在所有实体中按名称搜索（用于 extends/implements 等情况）
-      if (!targetEntity) {
+      // 类型检查器已解析的目标不按名称查找，避免连到同名的其他符号
+      if (!targetEntity && !relation.resolved) {
         targetEntity = this.autoGraphService.findEntityByName(relation.targetName);
       }
 
@@ -1092,8 +1353,9 @@ export class CodeAnalyzer {
     const files: vscode.Uri[] = [];
 
     for (const pattern of this.includePatterns) {
+      // 只查找当前文件夹，多根工作区中每个文件夹单独分析
       const found = await vscode.workspace.findFiles(
-        pattern,
+        new vscode.RelativePattern(this.workspaceRoot, pattern),
         `{${this.excludePatterns.join(',')}}`
       );
       files.push(...found);
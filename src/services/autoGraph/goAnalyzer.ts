@@ -0,0 +1,783 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+  ExtractedRelation,
+  ExtractedSymbol,
+  FileAnalysisResult,
+  ImportInfo,
+  LanguageAnalyzer,
+} from './types';
+
+/** 参数列表中以这些关键字开头的是类型而不是参数名 */
+const TYPE_KEYWORDS = new Set(['chan', 'func', 'map', 'struct', 'interface']);
+
+/**
+ * 源码：code 与 content 等长，注释和字符串内容替换为空格（保留换行）
+ */
+interface Source {
+  content: string;
+  code: string;
+  lineStarts: number[];
+}
+
+/**
+ * 解析后的 Go 文件
+ */
+interface GoFile {
+  /** 绝对路径 */
+  filePath: string;
+  packageName: string;
+  imports: ImportInfo[];
+  types: GoType[];
+  funcs: GoFunc[];
+}
+
+/**
+ * 类型声明
+ */
+interface GoType {
+  name: string;
+  kind: 'struct' | 'interface' | 'type';
+  file: GoFile;
+  startLine: number;
+  endLine: number;
+  description?: string;
+  /** 接口声明的方法：方法名 → 规范化的签名 */
+  methods: Map<string, string>;
+  /** 嵌入的类型：结构体的匿名字段、接口中嵌入的接口 */
+  embedded: string[];
+  /** 泛型类型不参与接口实现的判断 */
+  generic: boolean;
+  /** 含 ~int、A | B 等类型集合的约束接口 */
+  constraint: boolean;
+}
+
+/**
+ * 函数或方法声明
+ */
+interface GoFunc {
+  name: string;
+  /** 方法的接收者类型名（去掉 * 和类型参数） */
+  receiver?: string;
+  pointer?: boolean;
+  signature: string;
+  startLine: number;
+  endLine: number;
+  description?: string;
+}
+
+/**
+ * 一个目录中的包（不含 _test.go 文件）
+ */
+interface GoPackage {
+  dir: string;
+  name: string;
+  /** 按 go.mod 的 module 计算的导入路径 */
+  importPath?: string;
+  files: GoFile[];
+  types: Map<string, GoType>;
+  /** 接收者类型名 → 方法名 → 签名 */
+  methods: Map<string, Map<string, string>>;
+}
+
+/**
+ * Go 分析器
+ * 提取包（按导入路径）、结构体、接口、函数和方法（命名为 类型名.方法名），包之间的 imports 关系；
+ * 结构体的方法集（包括嵌入类型的方法）覆盖接口的全部方法时记为 implements 关系（Go 的隐式实现）。
+ * 同一个包的文件一起解析并按修改时间缓存，方法可以分散在包内的多个文件中
+ */
+export class GoAnalyzer implements LanguageAnalyzer {
+  private packages = new Map<string, { stamp: string; pkg: GoPackage | null }>();
+  private modules = new Map<string, { root: string; path: string } | null>();
+
+  constructor(private workspaceRoot: string) {}
+
+  public supports(filePath: string): boolean {
+    return filePath.endsWith('.go');
+  }
+
+  public analyzeFile(filePath: string): FileAnalysisResult | null {
+    const dir = path.dirname(filePath);
+    const loaded = this.loadPackage(dir);
+    const cached = loaded?.files.find(item => item.filePath === filePath);
+    let file: GoFile;
+    let pkg: GoPackage;
+    if (loaded && cached) {
+      file = cached;
+      pkg = loaded;
+    } else {
+      // _test.go 等不在包缓存中的文件：与同名包的其他文件一起分析
+      const parsed = this.parseFile(filePath);
+      if (!parsed) {
+        return null;
+      }
+      file = parsed;
+      pkg = this.indexPackage(dir, [...(loaded?.files.filter(item => item.packageName === parsed.packageName) || []), parsed]);
+    }
+
+    const relativePath = path.relative(this.workspaceRoot, filePath);
+    const symbols: ExtractedSymbol[] = [];
+    const relations: ExtractedRelation[] = [];
+    const contains = (owner: ExtractedSymbol | { name: string; filePath: string }, symbol: ExtractedSymbol) => relations.push({
+      sourceName: owner.name,
+      sourceFilePath: owner.filePath,
+      targetName: symbol.name,
+      targetFilePath: symbol.filePath,
+      verb: 'contains',
+      resolved: true,
+    });
+
+    // 包按目录记录，同一个包的文件共用一个实体
+    const packageSymbol: ExtractedSymbol = {
+      name: this.getPackageName(pkg),
+      type: 'directory',
+      filePath: path.dirname(relativePath),
+      startLine: 1,
+      endLine: 1,
+      metadata: {
+        language: 'go',
+        package: file.packageName,
+        ...(pkg.importPath ? { importPath: pkg.importPath } : {}),
+      },
+    };
+    symbols.push(packageSymbol);
+
+    for (const type of file.types) {
+      const symbol: ExtractedSymbol = {
+        name: type.name,
+        type: type.kind === 'interface' ? 'interface' : 'class',
+        filePath: relativePath,
+        startLine: type.startLine,
+        endLine: type.endLine,
+        description: type.description,
+        metadata: { language: 'go', kind: type.kind, exported: /^[A-Z]/.test(type.name) },
+      };
+      symbols.push(symbol);
+      contains(packageSymbol, symbol);
+    }
+
+    for (const func of file.funcs) {
+      const symbol: ExtractedSymbol = {
+        name: func.receiver ? `${func.receiver}.${func.name}` : func.name,
+        type: 'function',
+        filePath: relativePath,
+        startLine: func.startLine,
+        endLine: func.endLine,
+        description: func.description,
+        metadata: {
+          language: 'go',
+          exported: /^[A-Z]/.test(func.name),
+          ...(func.receiver
+            ? { method: true, className: func.receiver, receiver: `${func.pointer ? '*' : ''}${func.receiver}` }
+            : {}),
+        },
+      };
+      symbols.push(symbol);
+      // 方法属于接收者类型（类型可以声明在包内的其他文件中）
+      const receiver = func.receiver ? pkg.types.get(func.receiver) : undefined;
+      contains(receiver ? { name: receiver.name, filePath: this.relative(receiver.file.filePath) } : packageSymbol, symbol);
+    }
+
+    const imported: GoPackage[] = [];
+    for (const imp of file.imports) {
+      const target = this.resolveImport(imp.moduleName, dir);
+      if (!target || target.dir === dir || imported.includes(target)) {
+        continue;
+      }
+      imported.push(target);
+      relations.push({
+        sourceName: packageSymbol.name,
+        sourceFilePath: packageSymbol.filePath,
+        targetName: this.getPackageName(target),
+        targetFilePath: this.relative(target.dir) || '.',
+        verb: 'imports',
+        resolved: true,
+      });
+    }
+
+    this.extractImplements(file, pkg, imported, relations);
+
+    return {
+      filePath: relativePath,
+      symbols,
+      relations,
+      imports: file.imports,
+      // 首字母大写的标识符是导出的
+      exports: [...file.types, ...file.funcs.filter(func => !func.receiver)]
+        .filter(item => /^[A-Z]/.test(item.name))
+        .map(item => ({ exportedName: item.name, isDefault: false, line: item.startLine })),
+    };
+  }
+
+  /**
+   * 隐式实现：本文件的类型与本包和导入的包中的接口比较，本文件的接口与本包和导入的包中的类型比较
+   * （接口所在文件单独重新分析时也能恢复关系）
+   */
+  private extractImplements(file: GoFile, pkg: GoPackage, imported: GoPackage[], relations: ExtractedRelation[]): void {
+    const candidates = [pkg, ...imported].flatMap(item => [...item.types.values()].map(type => ({ pkg: item, type })));
+    const added = new Set<string>();
+    const methodSets = new Map<GoType, Map<string, string>>();
+    const getMethodSet = ({ pkg: owner, type }: { pkg: GoPackage; type: GoType }) => {
+      if (!methodSets.has(type)) {
+        methodSets.set(type, this.getMethodSet(owner, type));
+      }
+      return methodSets.get(type)!;
+    };
+
+    const check = (concrete: { pkg: GoPackage; type: GoType }, iface: { pkg: GoPackage; type: GoType }) => {
+      const required = getMethodSet(iface);
+      const methods = getMethodSet(concrete);
+      if (required.size === 0 || ![...required].every(([name, signature]) => methods.get(name) === signature)) {
+        return;
+      }
+      const relation: ExtractedRelation = {
+        sourceName: concrete.type.name,
+        sourceFilePath: this.relative(concrete.type.file.filePath),
+        targetName: iface.type.name,
+        targetFilePath: this.relative(iface.type.file.filePath),
+        verb: 'implements',
+        resolved: true,
+      };
+      const key = `${relation.sourceFilePath}:${relation.sourceName}>${relation.targetFilePath}:${relation.targetName}`;
+      if (!added.has(key)) {
+        added.add(key);
+        relations.push(relation);
+      }
+    };
+
+    const isInterface = (type: GoType) => type.kind === 'interface' && !type.generic && !type.constraint;
+    const isConcrete = (type: GoType) => type.kind !== 'interface' && !type.generic;
+    for (const type of file.types) {
+      const own = { pkg, type };
+      if (isConcrete(type)) {
+        candidates.filter(item => isInterface(item.type)).forEach(iface => check(own, iface));
+      } else if (isInterface(type)) {
+        candidates.filter(item => isConcrete(item.type)).forEach(concrete => check(concrete, own));
+      }
+    }
+  }
+
+  /**
+   * 类型的方法集：自身的方法（值和指针接收者）加上嵌入类型提升的方法；接口为声明和嵌入的方法
+   */
+  private getMethodSet(pkg: GoPackage, type: GoType, seen: Set<string> = new Set()): Map<string, string> {
+    const key = `${pkg.dir}:${type.name}`;
+    if (seen.has(key)) {
+      return new Map();
+    }
+    seen.add(key);
+
+    const result = new Map(type.kind === 'interface' ? type.methods : pkg.methods.get(type.name) || []);
+    for (const name of type.embedded) {
+      const target = this.resolveType(pkg, type.file, name);
+      if (!target) {
+        continue;
+      }
+      for (const [method, signature] of this.getMethodSet(target.pkg, target.type, seen)) {
+        if (!result.has(method)) {
+          result.set(method, signature);
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 类型名（如 Base、*Base、store.Base）对应的类型声明；限定名按文件的导入解析到工作区中的包
+   */
+  private resolveType(pkg: GoPackage, file: GoFile, expression: string): { pkg: GoPackage; type: GoType } | undefined {
+    const name = expression.replace(/^\*/, '').replace(/\[.*$/, '');
+    const dot = name.indexOf('.');
+    if (dot === -1) {
+      const type = pkg.types.get(name);
+      return type ? { pkg, type } : undefined;
+    }
+    const imp = file.imports.find(item => item.importedNames[0] === name.slice(0, dot));
+    const target = imp ? this.resolveImport(imp.moduleName, path.dirname(file.filePath)) : null;
+    const type = target?.types.get(name.slice(dot + 1));
+    return type ? { pkg: target!, type } : undefined;
+  }
+
+  /**
+   * 工作区中的包：导入路径以 go.mod 的 module 开头时对应 module 目录下的子目录
+   */
+  private resolveImport(importPath: string, fromDir: string): GoPackage | null {
+    const module = this.findModule(fromDir);
+    if (!module || (importPath !== module.path && !importPath.startsWith(`${module.path}/`))) {
+      return null;
+    }
+    const dir = path.join(module.root, ...importPath.slice(module.path.length).split('/').filter(Boolean));
+    return this.loadPackage(dir);
+  }
+
+  /**
+   * 目录所属的 module：向上查找最近的 go.mod
+   */
+  private findModule(dir: string): { root: string; path: string } | null {
+    if (this.modules.has(dir)) {
+      return this.modules.get(dir)!;
+    }
+    let module: { root: string; path: string } | null = null;
+    const goMod = path.join(dir, 'go.mod');
+    if (fs.existsSync(goMod)) {
+      const modulePath = fs.readFileSync(goMod, 'utf-8').match(/^\s*module\s+"?([^\s"]+)"?/m)?.[1];
+      module = modulePath ? { root: dir, path: modulePath } : null;
+    } else if (this.isWorkspacePath(path.dirname(dir)) && path.dirname(dir) !== dir) {
+      module = this.findModule(path.dirname(dir));
+    }
+    this.modules.set(dir, module);
+    return module;
+  }
+
+  /**
+   * 解析目录中的包；文件未修改时使用缓存
+   */
+  private loadPackage(dir: string): GoPackage | null {
+    let files: string[];
+    try {
+      files = fs.readdirSync(dir)
+        .filter(name => name.endsWith('.go') && !name.endsWith('_test.go'))
+        .sort()
+        .map(name => path.join(dir, name));
+    } catch (error) {
+      return null;
+    }
+
+    const stamp = files.map(file => {
+      try {
+        const stat = fs.statSync(file);
+        return `${file}:${stat.mtimeMs}:${stat.size}`;
+      } catch (error) {
+        return file;
+      }
+    }).join('|');
+    const cached = this.packages.get(dir);
+    if (cached && cached.stamp === stamp) {
+      return cached.pkg;
+    }
+
+    const parsed = files.map(file => this.parseFile(file)).filter((file): file is GoFile => !!file);
+    const pkg = parsed.length > 0 ? this.indexPackage(dir, parsed) : null;
+    this.packages.set(dir, { stamp, pkg });
+    return pkg;
+  }
+
+  private indexPackage(dir: string, files: GoFile[]): GoPackage {
+    const module = this.findModule(dir);
+    const relative = module ? path.relative(module.root, dir).split(path.sep).filter(Boolean).join('/') : '';
+    const pkg: GoPackage = {
+      dir,
+      name: files[0].packageName,
+      importPath: module ? [module.path, relative].filter(Boolean).join('/') : undefined,
+      files,
+      types: new Map(),
+      methods: new Map(),
+    };
+    for (const file of files) {
+      file.types.forEach(type => pkg.types.set(type.name, type));
+      for (const func of file.funcs.filter(item => item.receiver)) {
+        const methods = pkg.methods.get(func.receiver!) || new Map<string, string>();
+        methods.set(func.name, func.signature);
+        pkg.methods.set(func.receiver!, methods);
+      }
+    }
+    return pkg;
+  }
+
+  /**
+   * 包实体的名称：导入路径（没有 go.mod 时为包名）
+   */
+  private getPackageName(pkg: GoPackage): string {
+    return pkg.importPath || pkg.name;
+  }
+
+  /**
+   * 解析文件的顶层声明：package、import、type 和 func
+   */
+  private parseFile(filePath: string): GoFile | null {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      return null;
+    }
+
+    const source = this.createSource(content);
+    const code = source.code;
+    const file: GoFile = { filePath, packageName: '', imports: [], types: [], funcs: [] };
+    const keyword = /(package|import|type|func)\b\s*/y;
+
+    for (let i = 0; i < code.length;) {
+      if (/[\s;]/.test(code[i])) {
+        i++;
+        continue;
+      }
+      keyword.lastIndex = i;
+      const match = keyword.exec(code);
+      const start = match ? i + match[0].length : i;
+      const kind = match?.[1];
+
+      if (kind === 'package') {
+        file.packageName = code.slice(start).match(/^\w+/)?.[0] || '';
+      } else if (kind === 'import') {
+        this.forEachSpec(code, start, (specStart, specEnd) => this.parseImport(source, specStart, specEnd, file));
+      } else if (kind === 'type') {
+        this.forEachSpec(code, start, (specStart, specEnd) => this.parseType(source, specStart, specEnd, i, file));
+      } else if (kind === 'func') {
+        i = this.parseFunc(source, start, i, file);
+        continue;
+      }
+      i = code[start] === '(' && (kind === 'import' || kind === 'type')
+        ? this.findClosing(code, start) + 1
+        : this.findStatementEnd(code, start) + 1;
+    }
+    return file;
+  }
+
+  /**
+   * 单个声明，或 ( … ) 分组、结构体和接口 { … } 中的每个声明
+   */
+  private forEachSpec(code: string, start: number, callback: (specStart: number, specEnd: number) => void): void {
+    if (code[start] !== '(' && code[start] !== '{') {
+      callback(start, this.findStatementEnd(code, start));
+      return;
+    }
+    const end = this.findClosing(code, start);
+    for (let i = start + 1; i < end;) {
+      if (/[\s;]/.test(code[i])) {
+        i++;
+        continue;
+      }
+      const specEnd = Math.min(this.findStatementEnd(code, i), end);
+      callback(i, specEnd);
+      i = specEnd + 1;
+    }
+  }
+
+  /**
+   * import 声明：别名（默认为路径的最后一段，跳过 /v2 等版本后缀）记为导入名
+   */
+  private parseImport(source: Source, start: number, end: number, file: GoFile): void {
+    const quote = source.code.slice(start, end).search(/["`]/);
+    if (quote === -1) {
+      return;
+    }
+    const open = start + quote;
+    const close = source.code.indexOf(source.code[open], open + 1);
+    const importPath = source.content.slice(open + 1, close);
+    const alias = source.code.slice(start, open).trim();
+    const segments = importPath.split('/');
+    const last = segments.length > 1 && /^v\d+$/.test(segments[segments.length - 1])
+      ? segments[segments.length - 2]
+      : segments[segments.length - 1];
+    file.imports.push({
+      moduleName: importPath,
+      importedNames: [alias || last.replace(/^go-|[.-]go$|\.v\d+$/g, '').replace(/[^\w]/g, '_')],
+      isDefault: false,
+      isNamespace: true,
+      line: this.lineAt(source, start),
+    });
+  }
+
+  /**
+   * type 声明：结构体、接口和其他具名类型（类型别名 type A = B 不提取）
+   */
+  private parseType(source: Source, start: number, end: number, declarationStart: number, file: GoFile): void {
+    const code = source.code;
+    const nameMatch = code.slice(start, end).match(/^(\w+)\s*/);
+    if (!nameMatch) {
+      return;
+    }
+    let i = start + nameMatch[0].length;
+    let generic = false;
+    // [T any] 是类型参数，[4]int 是数组类型
+    if (code[i] === '[' && /^\[\s*\w+(?:\s*,\s*\w+)*\s+[^\]\s]/.test(code.slice(i, end))) {
+      generic = true;
+      i = this.skipSpaces(code, this.findClosing(code, i) + 1);
+    }
+    if (code[i] === '=') {
+      return;
+    }
+
+    const body = code.slice(i, end).match(/^(struct|interface)\s*\{/);
+    const kind = body ? body[1] as 'struct' | 'interface' : 'type';
+    const type: GoType = {
+      name: nameMatch[1],
+      kind,
+      file,
+      startLine: this.lineAt(source, start),
+      endLine: this.lineAt(source, end),
+      methods: new Map(),
+      embedded: [],
+      generic,
+      constraint: false,
+    };
+    // 分组中的声明用自己的注释，单独的声明用 type 前的注释
+    type.description = this.getDocComment(source, type.startLine)
+      || this.getDocComment(source, this.lineAt(source, declarationStart));
+
+    if (body) {
+      const open = i + body[0].length - 1;
+      const close = this.findClosing(code, open);
+      type.endLine = this.lineAt(source, close);
+      this.forEachSpec(code, open, (fieldStart, fieldEnd) => {
+        // 去掉结构体标签
+        const field = code.slice(fieldStart, fieldEnd).replace(/\s*(["`])[^"`]*\1\s*$/, '').trim();
+        if (/^\*?[\w.]+(?:\[[^\]]*\])?$/.test(field)) {
+          if (kind === 'interface' && field === 'comparable') {
+            type.constraint = true;
+          } else {
+            type.embedded.push(field);
+          }
+          return;
+        }
+        const method = kind === 'interface' ? field.match(/^(\w+)\s*\(/) : null;
+        if (method) {
+          const paramsStart = code.indexOf('(', fieldStart);
+          const paramsEnd = this.findClosing(code, paramsStart);
+          type.methods.set(method[1], this.getSignature(code.slice(paramsStart + 1, paramsEnd), code.slice(paramsEnd + 1, fieldEnd)));
+        } else if (kind === 'interface') {
+          type.constraint = true;
+        }
+      });
+    }
+    file.types.push(type);
+  }
+
+  /**
+   * func 声明：函数或方法，返回声明结束后的位置
+   */
+  private parseFunc(source: Source, start: number, declarationStart: number, file: GoFile): number {
+    const code = source.code;
+    let i = start;
+    let receiver: string | undefined;
+    if (code[i] === '(') {
+      const close = this.findClosing(code, i);
+      receiver = code.slice(i + 1, close).trim().replace(/^\w+\s+/, '');
+      i = this.skipSpaces(code, close + 1);
+    }
+    const name = code.slice(i).match(/^\w+/)?.[0];
+    if (!name) {
+      return this.findStatementEnd(code, start) + 1;
+    }
+    i = this.skipSpaces(code, i + name.length);
+    if (code[i] === '[') {
+      i = this.skipSpaces(code, this.findClosing(code, i) + 1);
+    }
+    if (code[i] !== '(') {
+      return this.findStatementEnd(code, start) + 1;
+    }
+
+    // 返回值之后的 { 是函数体（interface{}、struct{…} 除外）；没有函数体时到行尾结束
+    const paramsEnd = this.findClosing(code, i);
+    let j = paramsEnd + 1;
+    let bodyStart = -1;
+    while (j < code.length) {
+      const char = code[j];
+      if (char === '(' || char === '[') {
+        j = this.findClosing(code, j) + 1;
+      } else if (char === '{') {
+        if (!/\b(?:interface|struct)\s*$/.test(code.slice(Math.max(j - 20, 0), j))) {
+          bodyStart = j;
+          break;
+        }
+        j = this.findClosing(code, j) + 1;
+      } else if (char === '\n' || char === ';') {
+        break;
+      } else {
+        j++;
+      }
+    }
+    const end = bodyStart === -1 ? j : this.findClosing(code, bodyStart);
+    const receiverType = receiver?.replace(/^\*/, '').replace(/\[.*$/, '').trim();
+
+    file.funcs.push({
+      name,
+      ...(receiverType ? { receiver: receiverType, pointer: receiver!.startsWith('*') } : {}),
+      signature: this.getSignature(code.slice(i + 1, paramsEnd), code.slice(paramsEnd + 1, bodyStart === -1 ? j : bodyStart)),
+      startLine: this.lineAt(source, declarationStart),
+      endLine: this.lineAt(source, end),
+      description: this.getDocComment(source, this.lineAt(source, declarationStart)),
+    });
+    return end + 1;
+  }
+
+  /**
+   * 规范化的签名：只保留参数和返回值的类型，去掉参数名、包限定符和空白
+   */
+  private getSignature(params: string, results: string): string {
+    const trimmed = results.trim();
+    const resultTypes = trimmed.startsWith('(') ? this.getParameterTypes(trimmed.slice(1, -1)) : [trimmed].filter(Boolean);
+    const normalize = (type: string) => type.replace(/\b[A-Za-z_]\w*\./g, '').replace(/\s+/g, '');
+    return `(${this.getParameterTypes(params).map(normalize).join(',')})(${resultTypes.map(normalize).join(',')})`;
+  }
+
+  /**
+   * 参数列表中每个参数的类型；a, b int 这样的分组共用后面的类型
+   */
+  private getParameterTypes(params: string): string[] {
+    const parts = this.splitTopLevel(params);
+    const named = parts.some(part => {
+      const match = part.match(/^([A-Za-z_]\w*)\s+\S/);
+      return !!match && !TYPE_KEYWORDS.has(match[1]);
+    });
+    if (!named) {
+      return parts;
+    }
+    const types: string[] = [];
+    let current = '';
+    for (let i = parts.length - 1; i >= 0; i--) {
+      const match = parts[i].match(/^\w+\s+(.+)$/);
+      current = match ? match[1] : current;
+      types[i] = current;
+    }
+    return types;
+  }
+
+  /**
+   * 声明前紧邻的 // 注释的第一行（跳过 //go: 指令）
+   */
+  private getDocComment(source: Source, line: number): string | undefined {
+    const comments: string[] = [];
+    for (let index = line - 2; index >= 0; index--) {
+      const text = this.getLine(source, index).trim();
+      if (!text.startsWith('//')) {
+        break;
+      }
+      comments.unshift(text);
+    }
+    return comments
+      .filter(text => !text.startsWith('//go:'))
+      .map(text => text.replace(/^\/\/\s?/, '').trim())
+      .find(Boolean);
+  }
+
+  private createSource(content: string): Source {
+    let code = '';
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (content.startsWith('//', i) || content.startsWith('/*', i)) {
+        const block = content[i + 1] === '*';
+        const end = block ? content.indexOf('*/', i + 2) : content.indexOf('\n', i);
+        const stop = end === -1 ? content.length : end + (block ? 2 : 0);
+        code += content.slice(i, stop).replace(/[^\n]/g, ' ');
+        i = stop - 1;
+        continue;
+      }
+      if (char === '"' || char === '\'' || char === '`') {
+        let end = i + 1;
+        while (end < content.length && content[end] !== char && !(char !== '`' && content[end] === '\n')) {
+          end += char !== '`' && content[end] === '\\' ? 2 : 1;
+        }
+        if (end >= content.length) {
+          code += char + content.slice(i + 1).replace(/[^\n]/g, ' ');
+          break;
+        }
+        code += char + content.slice(i + 1, end).replace(/[^\n]/g, ' ') + content[end];
+        i = end;
+        continue;
+      }
+      code += char;
+    }
+
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        lineStarts.push(i + 1);
+      }
+    }
+    return { content, code, lineStarts };
+  }
+
+  private lineAt(source: Source, offset: number): number {
+    let low = 0;
+    let high = source.lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (source.lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low + 1;
+  }
+
+  private getLine(source: Source, index: number): string {
+    return source.content.slice(source.lineStarts[index], source.lineStarts[index + 1] ?? source.content.length);
+  }
+
+  /**
+   * 从 start 处的左括号（( [ {）开始找到匹配的右括号
+   */
+  private findClosing(code: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < code.length; i++) {
+      if ('([{'.includes(code[i])) {
+        depth++;
+      } else if (')]}'.includes(code[i]) && --depth === 0) {
+        return i;
+      }
+    }
+    return code.length;
+  }
+
+  /**
+   * 语句结束的位置：括号外的换行或分号
+   */
+  private findStatementEnd(code: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < code.length; i++) {
+      const char = code[i];
+      if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      } else if (depth <= 0 && (char === '\n' || char === ';')) {
+        return i;
+      }
+    }
+    return code.length;
+  }
+
+  private skipSpaces(code: string, start: number): number {
+    let i = start;
+    while (i < code.length && /\s/.test(code[i])) {
+      i++;
+    }
+    return i;
+  }
+
+  /**
+   * 按逗号切分（忽略括号内的逗号）
+   */
+  private splitTopLevel(value: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of value) {
+      if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      }
+      if (char === ',' && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(Boolean);
+  }
+
+  private relative(filePath: string): string {
+    return path.relative(this.workspaceRoot, filePath);
+  }
+
+  private isWorkspacePath(filePath: string): boolean {
+    const relative = path.relative(this.workspaceRoot, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+}
@@ -7,3 +7,8 @@ export { AutoGraphService } from './autoGraphService';
 export { CodeAnalyzer } from './codeAnalyzer';
 
 
+export { TypeScriptAnalyzer } from './typeScriptAnalyzer';
+export { PythonAnalyzer } from './pythonAnalyzer';
+export { JavaAnalyzer } from './javaAnalyzer';
+export { GoAnalyzer } from './goAnalyzer';
+export { RustAnalyzer } from './rustAnalyzer';
@@ -0,0 +1,879 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { EntityType } from '../../utils/types';
+import {
+  ExtractedRelation,
+  ExtractedSymbol,
+  FileAnalysisResult,
+  HttpRoute,
+  ImportInfo,
+  LanguageAnalyzer,
+} from './types';
+
+/** Spring 组件注解：类作为 service 实体提取 */
+const SERVICE_ANNOTATIONS = ['Service', 'Component', 'Repository', 'Configuration'];
+
+/** Spring 控制器注解：类作为 api 实体提取 */
+const CONTROLLER_ANNOTATIONS = ['RestController', 'Controller'];
+
+/** 字段或 setter 注入的注解 */
+const INJECT_ANNOTATIONS = ['Autowired', 'Inject', 'Resource'];
+
+/** 构造函数注入的注解（非 Spring 组件的类只记录带这些注解的构造函数） */
+const CONSTRUCTOR_INJECT_ANNOTATIONS = ['Autowired', 'Inject'];
+
+/** JDK / Kotlin 标准库中常用的类型：不作为注入的依赖 */
+const BUILTIN_TYPES = new Set([
+  'String', 'Object', 'Integer', 'Long', 'Short', 'Byte', 'Double', 'Float', 'Boolean', 'Character', 'Number',
+  'Void', 'BigDecimal', 'BigInteger', 'Int', 'Char', 'Unit', 'Any', 'Nothing', 'CharSequence',
+  'List', 'MutableList', 'ArrayList', 'LinkedList', 'Set', 'MutableSet', 'HashSet', 'Map', 'MutableMap', 'HashMap',
+  'Collection', 'Iterable', 'Optional', 'Array', 'IntArray', 'LongArray', 'ByteArray', 'Pair', 'Triple',
+  'UUID', 'Date', 'LocalDate', 'LocalDateTime', 'LocalTime', 'Instant', 'Duration', 'ZonedDateTime', 'OffsetDateTime',
+]);
+
+/** 路由注解 → HTTP 方法（RequestMapping 的方法来自 method 参数） */
+const MAPPING_ANNOTATIONS = new Map<string, string | undefined>([
+  ['RequestMapping', undefined],
+  ['GetMapping', 'GET'],
+  ['PostMapping', 'POST'],
+  ['PutMapping', 'PUT'],
+  ['DeleteMapping', 'DELETE'],
+  ['PatchMapping', 'PATCH'],
+]);
+
+/** 声明前的修饰符 */
+const MODIFIERS = new Set([
+  'public', 'private', 'protected', 'internal', 'static', 'final', 'abstract', 'sealed', 'non-sealed',
+  'open', 'override', 'data', 'inner', 'value', 'inline', 'suspend', 'operator', 'infix', 'tailrec',
+  'external', 'synchronized', 'native', 'strictfp', 'default', 'transient', 'volatile', 'lateinit',
+  'const', 'expect', 'actual',
+]);
+
+/** 形如方法调用、但不是方法声明的关键字 */
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'synchronized', 'return', 'new', 'throw', 'when', 'else', 'try']);
+
+/**
+ * 语句片段：以 {、}、; 分隔（Kotlin 中完整的一行也是一个片段）
+ */
+interface Chunk {
+  /** 去掉注释、字符串内容替换为空格后的代码 */
+  code: string;
+  /** 对应的原始文本（与 code 等长，用于读取注解中的字符串） */
+  text: string;
+  line: number;
+  /** 结束片段的分隔符 */
+  terminator: '{' | '}' | ';' | '\n' | '';
+  /** 分隔符所在的行 */
+  endLine: number;
+}
+
+/**
+ * 注解
+ */
+interface Annotation {
+  name: string;
+  /** 括号中的原始参数文本 */
+  args: string;
+}
+
+/**
+ * 打开的代码块
+ */
+interface Block {
+  kind: 'type' | 'method' | 'other';
+  symbol?: ExtractedSymbol;
+  /** 类型块：路由前缀、是否为 Spring 组件、是否由 Lombok 生成构造函数 */
+  routePrefix?: string;
+  component?: boolean;
+  requiredArgs?: boolean;
+  /** 枚举体中第一个 ; 之前是枚举常量 */
+  enumConstants?: boolean;
+}
+
+/**
+ * 正在分析的文件
+ */
+interface FileContext {
+  filePath: string;
+  relativePath: string;
+  packageName: string;
+  imports: ImportInfo[];
+  kotlin: boolean;
+}
+
+/**
+ * Java / Kotlin 分析器
+ * 提取包、类、接口、枚举、方法（命名为 类名.方法名）和 extends / implements 关系；
+ * Spring 的 @Service 等组件作为 service 实体，@RestController 作为 api 实体，
+ * Spring 组件或 @Autowired / @Inject 构造函数的参数、@Autowired 字段和 setter 注入记为 uses 关系（忽略 JDK / Kotlin 标准库类型），
+ * @RequestMapping 等路由记录在方法的 metadata 中
+ */
+export class JavaAnalyzer implements LanguageAnalyzer {
+  constructor(private workspaceRoot: string) {}
+
+  public supports(filePath: string): boolean {
+    return /\.(?:java|kt)$/.test(filePath);
+  }
+
+  public analyzeFile(filePath: string): FileAnalysisResult | null {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      return null;
+    }
+
+    const relativePath = path.relative(this.workspaceRoot, filePath);
+    const kotlin = filePath.endsWith('.kt');
+    const chunks = this.readChunks(content, kotlin);
+    const symbols: ExtractedSymbol[] = [];
+    const relations: ExtractedRelation[] = [];
+    const imports: ImportInfo[] = [];
+
+    const packageName = chunks.map(chunk => chunk.code.trim().match(/^package\s+([\w.]+)/)?.[1]).find(Boolean) || '';
+    this.extractImports(chunks, imports);
+    const context: FileContext = { filePath, relativePath, packageName, imports, kotlin };
+
+    // 包按目录记录，同一个包的文件共用一个实体
+    let packageSymbol: ExtractedSymbol | undefined;
+    if (packageName) {
+      packageSymbol = {
+        name: packageName,
+        type: 'directory',
+        filePath: path.dirname(relativePath),
+        startLine: 1,
+        endLine: 1,
+        metadata: { language: kotlin ? 'kotlin' : 'java', package: packageName },
+      };
+      symbols.push(packageSymbol);
+    }
+
+    const stack: Block[] = [];
+    let pending: Chunk | null = null;
+
+    for (const chunk of chunks) {
+      // 单独成行的注解（Kotlin）并入下一个片段
+      let current = chunk;
+      if (pending) {
+        current = {
+          ...chunk,
+          code: `${pending.code} ${chunk.code}`,
+          text: `${pending.text} ${chunk.text}`,
+          line: pending.line,
+        };
+        pending = null;
+      }
+      if (current.terminator === '\n' && this.isAnnotationsOnly(current.code)) {
+        pending = current;
+        continue;
+      }
+
+      if (current.terminator === '}') {
+        this.handleStatement(current, stack, symbols, relations, context, packageSymbol);
+        const block = stack.pop();
+        if (block?.symbol) {
+          block.symbol.endLine = Math.max(block.symbol.endLine, current.endLine);
+        }
+        continue;
+      }
+
+      const opened = this.handleStatement(current, stack, symbols, relations, context, packageSymbol);
+      if (current.terminator === '{') {
+        stack.push(opened || { kind: 'other' });
+      }
+    }
+
+    return {
+      filePath: relativePath,
+      symbols,
+      relations,
+      imports,
+      exports: [],
+    };
+  }
+
+  /**
+   * 把源码切分为片段：去掉注释，字符串内容替换为空格（保持位置不变），括号内的分隔符不切分
+   */
+  private readChunks(content: string, kotlin: boolean): Chunk[] {
+    const chunks: Chunk[] = [];
+    let code = '';
+    let text = '';
+    let line = 1;
+    let startLine = 0;
+    let parens = 0;
+    let quote: string | null = null;
+
+    const flush = (terminator: Chunk['terminator']) => {
+      if (code.trim() || terminator === '{' || terminator === '}') {
+        chunks.push({ code, text, line: startLine || line, terminator, endLine: line });
+      }
+      code = '';
+      text = '';
+      startLine = 0;
+    };
+    const append = (codeChar: string, textChar: string) => {
+      if (!startLine && codeChar.trim()) {
+        startLine = line;
+      }
+      code += codeChar;
+      text += textChar;
+    };
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (quote) {
+        if (char === '\\' && quote.length === 1) {
+          append('  ', content.slice(i, i + 2));
+          i++;
+        } else if (content.startsWith(quote, i)) {
+          append(quote, quote);
+          i += quote.length - 1;
+          quote = null;
+        } else {
+          if (char === '\n') {
+            line++;
+          }
+          append(char === '\n' ? '\n' : ' ', char);
+        }
+        continue;
+      }
+
+      if (content.startsWith('//', i)) {
+        while (i + 1 < content.length && content[i + 1] !== '\n') {
+          i++;
+        }
+        continue;
+      }
+      if (content.startsWith('/*', i)) {
+        const end = content.indexOf('*/', i + 2);
+        const comment = content.slice(i, end === -1 ? content.length : end + 2);
+        line += comment.split('\n').length - 1;
+        i += comment.length - 1;
+        append(' ', ' ');
+        continue;
+      }
+      if (char === '"' || char === '\'') {
+        quote = content.startsWith('"""', i) ? '"""' : char;
+        append(quote, quote);
+        i += quote.length - 1;
+        continue;
+      }
+
+      if (char === '(' || char === '[') {
+        parens++;
+      } else if (char === ')' || char === ']') {
+        parens = Math.max(parens - 1, 0);
+      }
+
+      if (parens === 0 && (char === '{' || char === '}' || char === ';')) {
+        flush(char);
+        continue;
+      }
+      if (char === '\n') {
+        if (kotlin && parens === 0 && this.isStatementEnd(code, content.slice(i + 1, i + 256))) {
+          flush('\n');
+        } else {
+          append(' ', ' ');
+        }
+        line++;
+        continue;
+      }
+      append(char, char);
+    }
+    flush('');
+    return chunks;
+  }
+
+  /**
+   * Kotlin 中换行是否结束语句：下一行以运算符、冒号、逗号等开头，或本行以它们结尾时继续
+   */
+  private isStatementEnd(code: string, rest: string): boolean {
+    const current = code.trim();
+    const next = rest.trimStart();
+    if (!current) {
+      return false;
+    }
+    // package / import 独占一行（通配符导入以 * 结尾）
+    if (/^(?:package|import)\s/.test(current)) {
+      return true;
+    }
+    return !/[,(:=.+\-*/&|?]$/.test(current)
+      && !/^(?:[.:,?=)+\-*/&|]|->|where\b|by\b|\{)/.test(next);
+  }
+
+  private isAnnotationsOnly(code: string): boolean {
+    const { rest, annotations } = this.parseAnnotations(code, code);
+    return annotations.length > 0 && !rest.trim();
+  }
+
+  /**
+   * 解析片段开头的注解（以及夹在修饰符之间的注解），返回注解和剩余的代码；参数列表中的注解不计入
+   */
+  private parseAnnotations(code: string, text: string): { annotations: Annotation[]; rest: string } {
+    const annotations: Annotation[] = [];
+    let rest = '';
+    let i = 0;
+    while (i < code.length) {
+      if (code[i] === '(') {
+        rest += code.slice(i);
+        break;
+      }
+      const match = code.slice(i).match(/^@(?!interface\b)([\w.]+)\s*/);
+      if (!match) {
+        rest += code[i];
+        i++;
+        continue;
+      }
+      const name = match[1].split('.').pop()!;
+      i += match[0].length;
+      let args = '';
+      if (code[i] === '(') {
+        let depth = 0;
+        let end = i;
+        for (; end < code.length; end++) {
+          if (code[end] === '(') {
+            depth++;
+          } else if (code[end] === ')' && --depth === 0) {
+            break;
+          }
+        }
+        args = text.slice(i + 1, end);
+        i = end + 1;
+      }
+      annotations.push({ name, args });
+      rest += ' ';
+    }
+    return { annotations, rest: rest.replace(/\s+/g, ' ').trim() };
+  }
+
+  /**
+   * 处理一个片段：识别类型、方法、字段声明；返回片段打开的代码块
+   */
+  private handleStatement(
+    chunk: Chunk,
+    stack: Block[],
+    symbols: ExtractedSymbol[],
+    relations: ExtractedRelation[],
+    context: FileContext,
+    packageSymbol: ExtractedSymbol | undefined
+  ): Block | undefined {
+    const parent = stack[stack.length - 1];
+    // 只分析顶层和类型体中的直接声明
+    if (parent && parent.kind !== 'type') {
+      return undefined;
+    }
+    if (parent?.enumConstants) {
+      parent.enumConstants = chunk.terminator !== ';';
+      return undefined;
+    }
+
+    const { annotations, rest } = this.parseAnnotations(chunk.code, chunk.text);
+    const declaration = this.stripModifiers(rest);
+    const names = annotations.map(annotation => annotation.name);
+
+    const typeMatch = declaration.match(/^(?:(class|interface|enum\s+class|enum|record|object|@interface|annotation\s+class)\s+)(\w+)/)
+      || (context.kotlin ? declaration.match(/^(fun\s+interface|companion\s+object)\s*(\w*)/) : null);
+    if (typeMatch) {
+      return this.handleType(chunk, typeMatch, declaration, annotations, parent, symbols, relations, context, packageSymbol);
+    }
+
+    const container = parent?.symbol;
+    const methodMatch = context.kotlin
+      ? declaration.match(/^fun\s+(?:<[^>]*>\s*)?(?:[\w.<>?,\s]+\.)?(\w+)\s*\(/)
+      : declaration.match(/^(?:<[^>]*>\s*)?(?:[\w.<>?,[\]\s]+\s)?(\w+)\s*\(/);
+    if (methodMatch && !KEYWORDS.has(methodMatch[1]) && (container || context.kotlin)) {
+      const params = this.getParenthesized(declaration, declaration.indexOf('(', methodMatch.index! + methodMatch[0].length - 1));
+      if (container && !context.kotlin && methodMatch[1] === container.name.split('.').pop()) {
+        if (parent.component || names.some(name => CONSTRUCTOR_INJECT_ANNOTATIONS.includes(name))) {
+          this.addInjections(container, this.parseParameters(params, context.kotlin), 'constructor', relations, context);
+        }
+        return chunk.terminator === '{' ? { kind: 'method' } : undefined;
+      }
+      return this.handleMethod(chunk, methodMatch[1], params, annotations, parent, symbols, relations, context, packageSymbol);
+    }
+
+    // Kotlin 次构造函数
+    if (container && context.kotlin && /^constructor\s*\(/.test(declaration)) {
+      const params = this.getParenthesized(declaration, declaration.indexOf('('));
+      if (parent.component || names.some(name => CONSTRUCTOR_INJECT_ANNOTATIONS.includes(name))) {
+        this.addInjections(container, this.parseParameters(params, true), 'constructor', relations, context);
+      }
+      return chunk.terminator === '{' ? { kind: 'method' } : undefined;
+    }
+
+    // 字段注入：@Autowired 字段，或 Spring 组件中由 Lombok @RequiredArgsConstructor 注入的 final 字段
+    if (container && chunk.terminator !== '{') {
+      const field = this.parseField(declaration, context.kotlin);
+      const injected = names.some(name => INJECT_ANNOTATIONS.includes(name))
+        || (parent.component && parent.requiredArgs && /\bfinal\b/.test(rest));
+      if (field && injected) {
+        this.addInjections(container, [field.type], 'field', relations, context);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 类型声明：类、接口、枚举、记录、Kotlin object
+   */
+  private handleType(
+    chunk: Chunk,
+    match: RegExpMatchArray,
+    declaration: string,
+    annotations: Annotation[],
+    parent: Block | undefined,
+    symbols: ExtractedSymbol[],
+    relations: ExtractedRelation[],
+    context: FileContext,
+    packageSymbol: ExtractedSymbol | undefined
+  ): Block | undefined {
+    const keyword = match[1].replace(/\s+/g, ' ');
+    const simpleName = match[2];
+    const body = chunk.terminator === '{';
+    // companion object 不是独立的实体
+    if (!simpleName || keyword === 'companion object') {
+      return body ? { kind: 'type', symbol: parent?.symbol, routePrefix: parent?.routePrefix, component: parent?.component } : undefined;
+    }
+
+    const names = annotations.map(annotation => annotation.name);
+    const isInterface = keyword === 'interface' || keyword === 'fun interface' || keyword === '@interface' || keyword === 'annotation class';
+    let type: EntityType = isInterface ? 'interface' : 'class';
+    if (!isInterface && names.some(name => CONTROLLER_ANNOTATIONS.includes(name))) {
+      type = 'api';
+    } else if (!isInterface && names.some(name => SERVICE_ANNOTATIONS.includes(name))) {
+      type = 'service';
+    }
+    const component = type === 'api' || type === 'service';
+
+    const container = parent?.symbol;
+    const mapping = annotations.find(annotation => annotation.name === 'RequestMapping');
+    const symbol: ExtractedSymbol = {
+      name: container ? `${container.name}.${simpleName}` : simpleName,
+      type,
+      filePath: context.relativePath,
+      startLine: chunk.line,
+      endLine: chunk.endLine,
+      metadata: {
+        language: context.kotlin ? 'kotlin' : 'java',
+        kind: keyword,
+        ...(context.packageName ? { qualifiedName: `${context.packageName}.${container ? `${container.name}.` : ''}${simpleName}` } : {}),
+        ...(names.length > 0 ? { annotations: names } : {}),
+        ...(mapping ? { routePrefix: this.getMappingPaths(mapping.args)[0] || '' } : {}),
+      },
+    };
+    symbols.push(symbol);
+
+    const owner = container || packageSymbol;
+    if (owner) {
+      relations.push({
+        sourceName: owner.name,
+        sourceFilePath: owner.filePath,
+        targetName: symbol.name,
+        targetFilePath: symbol.filePath,
+        verb: 'contains',
+        resolved: true,
+      });
+    }
+
+    // 去掉泛型参数后解析父类型
+    const header = this.stripGenerics(declaration.slice(match[0].length));
+    if (context.kotlin) {
+      const primary = header.match(/^\s*(?:[\w\s@]*constructor\s*)?\(/);
+      // 主构造函数：Spring 组件，或 class Foo @Autowired constructor(...)（注解已并入类的注解）
+      if (primary && (component || names.some(name => CONSTRUCTOR_INJECT_ANNOTATIONS.includes(name)))) {
+        const params = this.getParenthesized(header, header.indexOf('('));
+        this.addInjections(symbol, this.parseParameters(params, true), 'constructor', relations, context);
+      }
+      const afterParams = primary ? header.slice(this.findClosingParen(header, header.indexOf('(')) + 1) : header;
+      const supertypes = afterParams.match(/^\s*:\s*(.+?)(?:\bwhere\b|$)/)?.[1];
+      for (const supertype of supertypes ? this.splitTopLevel(supertypes) : []) {
+        const isCall = /\)\s*$/.test(supertype.replace(/\s+by\s+.*$/, ''));
+        const name = supertype.replace(/\s+by\s+.*$/, '').replace(/\(.*$/, '').trim();
+        this.addTypeRelation(symbol, name, isInterface || isCall ? 'extends' : 'implements', relations, context);
+      }
+    } else {
+      if (keyword === 'record' && component) {
+        const params = this.getParenthesized(header, header.indexOf('('));
+        this.addInjections(symbol, this.parseParameters(params, false), 'constructor', relations, context);
+      }
+      const extendsMatch = header.match(/\bextends\s+(.+?)(?:\bimplements\b|\bpermits\b|$)/);
+      const implementsMatch = header.match(/\bimplements\s+(.+?)(?:\bpermits\b|$)/);
+      for (const name of extendsMatch ? this.splitTopLevel(extendsMatch[1]) : []) {
+        this.addTypeRelation(symbol, name, 'extends', relations, context);
+      }
+      for (const name of implementsMatch ? this.splitTopLevel(implementsMatch[1]) : []) {
+        this.addTypeRelation(symbol, name, 'implements', relations, context);
+      }
+    }
+
+    return body
+      ? {
+        kind: 'type',
+        symbol,
+        routePrefix: mapping ? this.getMappingPaths(mapping.args)[0] || '' : '',
+        component,
+        requiredArgs: names.includes('RequiredArgsConstructor') || names.includes('AllArgsConstructor'),
+        enumConstants: keyword.startsWith('enum'),
+      }
+      : undefined;
+  }
+
+  /**
+   * 方法声明（Kotlin 顶层函数作为 function 实体）；重载合并为一个实体
+   */
+  private handleMethod(
+    chunk: Chunk,
+    name: string,
+    params: string,
+    annotations: Annotation[],
+    parent: Block | undefined,
+    symbols: ExtractedSymbol[],
+    relations: ExtractedRelation[],
+    context: FileContext,
+    packageSymbol: ExtractedSymbol | undefined
+  ): Block | undefined {
+    const container = parent?.symbol;
+    const names = annotations.map(annotation => annotation.name);
+    const routes = annotations.flatMap(annotation => this.getRoutes(annotation, parent?.routePrefix || ''));
+
+    if (container && names.some(item => INJECT_ANNOTATIONS.includes(item))) {
+      this.addInjections(container, this.parseParameters(params, context.kotlin), 'setter', relations, context);
+    }
+
+    const fullName = container ? `${container.name}.${name}` : name;
+    let symbol = symbols.find(item => item.name === fullName && item.type === 'function');
+    if (symbol) {
+      symbol.startLine = Math.min(symbol.startLine, chunk.line);
+      symbol.endLine = Math.max(symbol.endLine, chunk.endLine);
+      if (routes.length > 0) {
+        symbol.metadata!.routes = this.uniqueRoutes([...(symbol.metadata!.routes || []), ...routes]);
+      }
+    } else {
+      symbol = {
+        name: fullName,
+        type: 'function',
+        filePath: context.relativePath,
+        startLine: chunk.line,
+        endLine: chunk.endLine,
+        description: routes.length > 0 ? routes.map(route => `${route.method} ${route.path}`).join(', ') : undefined,
+        metadata: {
+          language: context.kotlin ? 'kotlin' : 'java',
+          ...(container ? { method: true, className: container.name } : {}),
+          ...(names.length > 0 ? { annotations: names } : {}),
+          ...(routes.length > 0 ? { routes } : {}),
+        },
+      };
+      symbols.push(symbol);
+
+      const owner = container || packageSymbol;
+      if (owner) {
+        relations.push({
+          sourceName: owner.name,
+          sourceFilePath: owner.filePath,
+          targetName: symbol.name,
+          targetFilePath: symbol.filePath,
+          verb: 'contains',
+          resolved: true,
+        });
+      }
+    }
+
+    return chunk.terminator === '{' ? { kind: 'method', symbol } : undefined;
+  }
+
+  /**
+   * 路由注解的 HTTP 方法和完整路径（加上类上 @RequestMapping 的前缀）
+   */
+  private getRoutes(annotation: Annotation, prefix: string): HttpRoute[] {
+    if (!MAPPING_ANNOTATIONS.has(annotation.name)) {
+      return [];
+    }
+    const fixed = MAPPING_ANNOTATIONS.get(annotation.name);
+    const methods = fixed ? [fixed] : [...annotation.args.matchAll(/RequestMethod\.(\w+)/g)].map(match => match[1]);
+    const paths = this.getMappingPaths(annotation.args);
+    return this.uniqueRoutes((methods.length > 0 ? methods : ['ANY']).flatMap(method =>
+      (paths.length > 0 ? paths : ['']).map(routePath => ({ method, path: this.joinPaths(prefix, routePath) }))));
+  }
+
+  /**
+   * 去掉重复的路由（如 {"", "/"} 拼接后相同）
+   */
+  private uniqueRoutes(routes: HttpRoute[]): HttpRoute[] {
+    return routes.filter((route, index) =>
+      routes.findIndex(item => item.method === route.method && item.path === route.path) === index);
+  }
+
+  /**
+   * 注解参数中的路径：value / path 参数或第一个位置参数（可以是数组）
+   */
+  private getMappingPaths(args: string): string[] {
+    const named = args.match(/\b(?:value|path)\s*=\s*(\{[^}]*\}|\[[^\]]*\]|"[^"]*")/);
+    const positional = args.trim().match(/^(\{[^}]*\}|\[[^\]]*\]|"[^"]*")/);
+    const source = named?.[1] ?? positional?.[1] ?? '';
+    return [...source.matchAll(/"([^"]*)"/g)].map(match => match[1]);
+  }
+
+  private joinPaths(prefix: string, routePath: string): string {
+    return `/${[prefix, routePath].map(part => part.replace(/^\/+|\/+$/g, '')).filter(Boolean).join('/')}`;
+  }
+
+  /**
+   * 注入的依赖记为 uses 关系；类型中的泛型参数（如 List<UserRepository>）一并记录
+   */
+  private addInjections(
+    symbol: ExtractedSymbol,
+    types: string[],
+    injection: 'constructor' | 'field' | 'setter',
+    relations: ExtractedRelation[],
+    context: FileContext
+  ): void {
+    for (const type of types) {
+      for (const name of type.match(/[A-Z][\w.]*/g) || []) {
+        const simpleName = this.getTypeName(name, context);
+        if (simpleName === symbol.name.split('.').pop()
+          || this.isBuiltinType(name, context)
+          || relations.some(item => item.verb === 'uses' && item.sourceName === symbol.name && item.targetName === simpleName)) {
+          continue;
+        }
+        relations.push({
+          sourceName: symbol.name,
+          sourceFilePath: symbol.filePath,
+          targetName: simpleName,
+          targetFilePath: this.resolveTypeFile(name, context),
+          verb: 'uses',
+          metadata: { injection },
+        });
+      }
+    }
+  }
+
+  /**
+   * JDK / Kotlin 标准库的类型：常用类型名（未被导入覆盖），或从 java.* / javax.* / kotlin.* 导入的类型
+   */
+  private isBuiltinType(name: string, context: FileContext): boolean {
+    if (/^(?:java|javax|kotlin)\./.test(name)) {
+      return true;
+    }
+    const explicit = context.imports.find(imp => imp.importedNames.includes(name) && !imp.isNamespace);
+    if (explicit) {
+      return /^(?:java|javax|kotlin)\./.test(explicit.moduleName);
+    }
+    return BUILTIN_TYPES.has(name);
+  }
+
+  private addTypeRelation(
+    symbol: ExtractedSymbol,
+    typeName: string,
+    verb: 'extends' | 'implements',
+    relations: ExtractedRelation[],
+    context: FileContext
+  ): void {
+    const name = typeName.trim();
+    if (!/^[A-Za-z_][\w.]*$/.test(name)) {
+      return;
+    }
+    relations.push({
+      sourceName: symbol.name,
+      sourceFilePath: symbol.filePath,
+      targetName: this.getTypeName(name, context),
+      targetFilePath: this.resolveTypeFile(name, context),
+      verb,
+    });
+  }
+
+  /**
+   * 类型的实体名称：Kotlin 导入别名还原为原来的类型名
+   */
+  private getTypeName(name: string, context: FileContext): string {
+    const parts = name.split('.');
+    const explicit = parts.length === 1
+      ? context.imports.find(imp => imp.importedNames.includes(name) && !imp.isNamespace)
+      : undefined;
+    return explicit ? explicit.moduleName.split('.').pop()! : parts.pop()!;
+  }
+
+  /**
+   * 类型所在文件的相对路径：按导入、同包、通配符导入依次在源码根目录中查找 包路径/类名.java|.kt
+   * Kotlin 的目录可以省略公共的包前缀；同一源码集的 java 和 kotlin 目录都会查找
+   * 找不到时返回 undefined（按名称查找）
+   */
+  private resolveTypeFile(name: string, context: FileContext): string | undefined {
+    const parts = name.split('.');
+    const simpleName = parts[0];
+    const explicit = context.imports.find(imp => imp.importedNames.includes(simpleName) && !imp.isNamespace);
+    const candidates: string[] = [];
+    if (parts.length > 1 && /^[a-z]/.test(simpleName)) {
+      // 全限定名
+      candidates.push(name);
+    } else if (explicit) {
+      candidates.push(explicit.moduleName);
+    } else {
+      candidates.push(context.packageName ? `${context.packageName}.${simpleName}` : simpleName);
+      context.imports
+        .filter(imp => imp.isNamespace)
+        .forEach(imp => candidates.push(`${imp.moduleName}.${simpleName}`));
+    }
+
+    const { root, omittedPrefix } = this.getSourceRoot(context.filePath, context.packageName);
+    for (const candidate of candidates) {
+      const relativeNames = [candidate];
+      if (omittedPrefix && candidate.startsWith(`${omittedPrefix}.`)) {
+        relativeNames.push(candidate.slice(omittedPrefix.length + 1));
+      }
+      for (const dir of this.getSiblingRoots(root)) {
+        for (const relativeName of relativeNames) {
+          for (const extension of ['.java', '.kt']) {
+            const file = path.join(dir, ...relativeName.split('.')) + extension;
+            if (fs.existsSync(file)) {
+              return path.relative(this.workspaceRoot, file);
+            }
+          }
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 源码根目录：文件所在目录去掉与包名末尾相同的部分
+   * 目录只对应包名的后半部分时（Kotlin 省略公共前缀），omittedPrefix 为省略的包前缀
+   */
+  private getSourceRoot(filePath: string, packageName: string): { root: string; omittedPrefix: string } {
+    const dirParts = path.dirname(filePath).split(path.sep);
+    const packageParts = packageName ? packageName.split('.') : [];
+    let matched = 0;
+    while (matched < packageParts.length
+      && dirParts[dirParts.length - 1 - matched] === packageParts[packageParts.length - 1 - matched]) {
+      matched++;
+    }
+    return {
+      root: dirParts.slice(0, dirParts.length - matched).join(path.sep),
+      omittedPrefix: packageParts.slice(0, packageParts.length - matched).join('.'),
+    };
+  }
+
+  /**
+   * 源码根目录及同一源码集中另一种语言的目录（src/main/java ↔ src/main/kotlin）
+   */
+  private getSiblingRoots(root: string): string[] {
+    const match = root.match(/^(.*[\\/]src[\\/][^\\/]+[\\/])(java|kotlin)$/);
+    return match ? [root, match[1] + (match[2] === 'java' ? 'kotlin' : 'java')] : [root];
+  }
+
+  /**
+   * import 语句；通配符导入记为 isNamespace，单个类型的导入以类型名（或 Kotlin 别名）为导入名
+   */
+  private extractImports(chunks: Chunk[], imports: ImportInfo[]): void {
+    for (const chunk of chunks) {
+      const match = chunk.code.trim().match(/^import\s+(static\s+)?(\w+(?:\.\w+)*)(\.\*)?(?:\s+as\s+(\w+))?/);
+      if (!match || match[1]) {
+        continue;
+      }
+      imports.push({
+        moduleName: match[2],
+        importedNames: match[3] ? ['*'] : [match[4] || match[2].split('.').pop()!],
+        isDefault: false,
+        isNamespace: !!match[3],
+        line: chunk.line,
+      });
+    }
+  }
+
+  /**
+   * 字段声明的类型（Java：类型 名称 [= 值]；Kotlin：val/var 名称: 类型）
+   */
+  private parseField(declaration: string, kotlin: boolean): { name: string; type: string } | undefined {
+    if (kotlin) {
+      const match = declaration.match(/^(?:val|var)\s+(\w+)\s*:\s*([^=]+)/);
+      return match ? { name: match[1], type: match[2].trim() } : undefined;
+    }
+    const match = this.stripGenerics(declaration, true).replace(/=.*$/, '').trim().match(/^([\w.<>[\]?, ]+?)\s+(\w+)$/);
+    return match ? { name: match[2], type: declaration.slice(0, declaration.lastIndexOf(match[2])).trim() } : undefined;
+  }
+
+  /**
+   * 参数列表中每个参数的类型
+   */
+  private parseParameters(params: string, kotlin: boolean): string[] {
+    return this.splitTopLevel(params)
+      .map(param => this.parseAnnotations(param, param).rest)
+      .map(param => {
+        if (kotlin) {
+          return param.match(/:\s*([^=]+)/)?.[1].trim() || '';
+        }
+        const tokens = this.stripModifiers(param).replace(/\.\.\./, '[]').trim();
+        return tokens.slice(0, tokens.search(/\s\w+$/)).trim();
+      })
+      .filter(Boolean);
+  }
+
+  private stripModifiers(declaration: string): string {
+    const tokens = declaration.trim().split(/\s+/);
+    let index = 0;
+    while (index < tokens.length - 1 && MODIFIERS.has(tokens[index])) {
+      index++;
+    }
+    return tokens.slice(index).join(' ');
+  }
+
+  /**
+   * 去掉泛型参数 <...>；keepOuter 为 true 时只替换为空格以保留类型名
+   */
+  private stripGenerics(value: string, keepOuter: boolean = false): string {
+    let result = value;
+    let previous;
+    do {
+      previous = result;
+      result = result.replace(/<[^<>]*>/g, keepOuter ? ' ' : '');
+    } while (result !== previous);
+    return result;
+  }
+
+  /**
+   * 从 start 处的左括号开始取括号内的内容
+   */
+  private getParenthesized(value: string, start: number): string {
+    if (start < 0) {
+      return '';
+    }
+    return value.slice(start + 1, this.findClosingParen(value, start));
+  }
+
+  private findClosingParen(value: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < value.length; i++) {
+      if (value[i] === '(') {
+        depth++;
+      } else if (value[i] === ')' && --depth === 0) {
+        return i;
+      }
+    }
+    return value.length;
+  }
+
+  /**
+   * 按逗号切分（忽略括号和尖括号内的逗号）
+   */
+  private splitTopLevel(value: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of value) {
+      if ('(<[{'.includes(char)) {
+        depth++;
+      } else if (')>]}'.includes(char)) {
+        depth--;
+      }
+      if (char === ',' && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(Boolean);
+  }
+}
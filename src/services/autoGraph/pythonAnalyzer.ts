@@ -0,0 +1,575 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+  ExtractedRelation,
+  ExtractedSymbol,
+  FileAnalysisResult,
+  HttpRoute,
+  ImportInfo,
+  LanguageAnalyzer,
+} from './types';
+
+/** FastAPI / Flask 路由装饰器：@app.get("/path")、@router.post(...)、@bp.route("/path", methods=[...]) */
+const ROUTE_DECORATOR_REGEX = /^@([\w.]+)\.(get|post|put|delete|patch|head|options|trace|route|api_route|websocket)\s*\(\s*(?:(?:path|rule)\s*=\s*)?[rbu]?(['"])(.*?)\3/;
+
+/** 模块级的路由器：router = APIRouter(prefix="/users")、bp = Blueprint("users", __name__, url_prefix="/users") */
+const ROUTER_ASSIGNMENT_REGEX = /^(\w+)\s*(?::\s*[\w.]+\s*)?=\s*(?:[\w.]+\.)?(APIRouter|Blueprint)\s*\(/;
+
+/**
+ * 逻辑行：括号内换行、反斜杠续行和多行字符串合并为一行
+ */
+interface LogicalLine {
+  /** 原始文本（多行时以换行连接） */
+  text: string;
+  /** 去掉字符串内容和注释后的代码，折叠为一行 */
+  code: string;
+  line: number;
+  endLine: number;
+  indent: number;
+}
+
+/**
+ * 导入语句；from … import X as Y 的 aliases 记录本地名称 Y → 导入的名称 X
+ */
+interface PythonImport extends ImportInfo {
+  aliases?: Record<string, string>;
+}
+
+/**
+ * 分析过程中打开的 class / def 块
+ */
+interface Block {
+  kind: 'class' | 'function';
+  indent: number;
+  /** 作为实体提取的符号；函数内嵌套的定义为 undefined */
+  symbol?: ExtractedSymbol;
+}
+
+/**
+ * Python 分析器
+ * 按缩进识别模块、类、函数和方法（方法命名为 类名.方法名），记录装饰器和 FastAPI / Flask 路由；
+ * import 和 from … import 按包结构（__init__.py）解析为模块之间的 imports 关系
+ */
+export class PythonAnalyzer implements LanguageAnalyzer {
+  constructor(private workspaceRoot: string) {}
+
+  public supports(filePath: string): boolean {
+    return filePath.endsWith('.py');
+  }
+
+  public analyzeFile(filePath: string): FileAnalysisResult | null {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      return null;
+    }
+
+    const relativePath = path.relative(this.workspaceRoot, filePath);
+    const lines = content.split(/\r?\n/);
+    const logicalLines = this.readLogicalLines(lines);
+    const moduleName = this.getModuleName(filePath);
+    // 模块本身也是实体，作为 imports 和 contains 关系的一端
+    const symbols: ExtractedSymbol[] = [{
+      name: moduleName,
+      type: 'file',
+      filePath: relativePath,
+      startLine: 1,
+      endLine: Math.max(lines.length, 1),
+      description: this.getDocstring(logicalLines[0]),
+      metadata: { language: 'python', module: moduleName },
+    }];
+    const relations: ExtractedRelation[] = [];
+    const imports: PythonImport[] = [];
+
+    this.extractDefinitions(logicalLines, moduleName, relativePath, symbols, relations);
+    this.extractImports(logicalLines, imports);
+    this.createImportRelations(imports, filePath, moduleName, relativePath, relations);
+    this.extractBaseClasses(logicalLines, imports, filePath, relativePath, symbols, relations);
+
+    return {
+      filePath: relativePath,
+      symbols,
+      relations,
+      imports,
+      exports: [],
+    };
+  }
+
+  /**
+   * 把源码切分为逻辑行，跳过空行和注释
+   */
+  private readLogicalLines(lines: string[]): LogicalLine[] {
+    const result: LogicalLine[] = [];
+    let current: LogicalLine | null = null;
+    let depth = 0;
+    let quote: string | null = null;
+
+    lines.forEach((raw, index) => {
+      let code = '';
+      let continued = false;
+      for (let i = 0; i < raw.length; i++) {
+        const char = raw[i];
+        if (quote) {
+          if (char === '\\') {
+            i++;
+          } else if (raw.startsWith(quote, i)) {
+            i += quote.length - 1;
+            quote = null;
+          }
+          continue;
+        }
+        if (char === '#') {
+          break;
+        }
+        if (char === '"' || char === '\'') {
+          quote = raw.startsWith(char.repeat(3), i) ? char.repeat(3) : char;
+          i += quote.length - 1;
+          code += '""';
+          continue;
+        }
+        if ('([{'.includes(char)) {
+          depth++;
+        } else if (')]}'.includes(char)) {
+          depth = Math.max(depth - 1, 0);
+        }
+        code += char;
+      }
+      // 单引号字符串不跨行
+      if (quote && quote.length === 1) {
+        quote = null;
+      }
+      if (code.trimEnd().endsWith('\\')) {
+        continued = true;
+        code = code.trimEnd().slice(0, -1);
+      }
+
+      if (!current) {
+        if (!code.trim() && !quote) {
+          return;
+        }
+        current = {
+          text: raw.trim(),
+          code: code.trim(),
+          line: index + 1,
+          endLine: index + 1,
+          indent: raw.length - raw.trimStart().length,
+        };
+      } else {
+        current.text += `\n${raw.trim()}`;
+        current.code += ` ${code.trim()}`;
+        current.endLine = index + 1;
+      }
+
+      if (depth === 0 && !quote && !continued) {
+        result.push(current);
+        current = null;
+      }
+    });
+
+    if (current) {
+      result.push(current);
+    }
+    return result;
+  }
+
+  /**
+   * 提取类、函数和方法：块的结束行是缩进回到定义所在层级之前的最后一行
+   * 模块包含顶层类和函数，类包含其方法（contains 关系）
+   */
+  private extractDefinitions(
+    logicalLines: LogicalLine[],
+    moduleName: string,
+    filePath: string,
+    symbols: ExtractedSymbol[],
+    relations: ExtractedRelation[]
+  ): void {
+    const headerRegex = /^(?:async\s+)?(def|class)\s+(\w+)/;
+    const routerPrefixes = this.getRouterPrefixes(logicalLines);
+    const stack: Block[] = [];
+    let decorators: LogicalLine[] = [];
+
+    logicalLines.forEach((line, index) => {
+      while (stack.length > 0 && line.indent <= stack[stack.length - 1].indent) {
+        stack.pop();
+      }
+
+      if (line.code.startsWith('@')) {
+        decorators.push(line);
+        return;
+      }
+
+      const match = line.code.match(headerRegex);
+      if (match) {
+        const parent = stack[stack.length - 1];
+        const kind = match[1] === 'class' ? 'class' : 'function';
+        const block: Block = { kind, indent: line.indent };
+
+        // 函数内部的定义不作为实体提取
+        if (!parent || parent.symbol && parent.kind === 'class') {
+          const container = parent?.symbol;
+          const name = container ? `${container.name}.${match[2]}` : match[2];
+          const decoratorNames = decorators.map(decorator => decorator.code.match(/^@([\w.]+)/)?.[1]).filter(Boolean);
+          const routes = decorators
+            .map(decorator => this.parseRoute(decorator, routerPrefixes))
+            .filter((route): route is HttpRoute[] => !!route)
+            .flat();
+          const next = logicalLines[index + 1];
+          const docstring = next && next.indent > line.indent ? this.getDocstring(next) : undefined;
+
+          block.symbol = {
+            name,
+            type: kind,
+            filePath,
+            startLine: decorators[0]?.line ?? line.line,
+            endLine: line.endLine,
+            description: docstring || (routes.length > 0 ? routes.map(route => `${route.method} ${route.path}`).join(', ') : undefined),
+            metadata: {
+              language: 'python',
+              ...(container && kind === 'function' ? { method: true, className: container.name } : {}),
+              ...(decoratorNames.length > 0 ? { decorators: decoratorNames } : {}),
+              ...(routes.length > 0 ? { routes } : {}),
+            },
+          };
+          symbols.push(block.symbol);
+          relations.push({
+            sourceName: container ? container.name : moduleName,
+            sourceFilePath: filePath,
+            targetName: name,
+            targetFilePath: filePath,
+            verb: 'contains',
+            resolved: true,
+          });
+        }
+        stack.push(block);
+      }
+      decorators = [];
+
+      // 当前行属于所有仍打开的块
+      stack.forEach(open => {
+        if (open.symbol) {
+          open.symbol.endLine = Math.max(open.symbol.endLine, line.endLine);
+        }
+      });
+    });
+  }
+
+  /**
+   * 模块级 APIRouter 的 prefix 和 Blueprint 的 url_prefix（变量名 → 路径前缀）
+   */
+  private getRouterPrefixes(logicalLines: LogicalLine[]): Map<string, string> {
+    const prefixes = new Map<string, string>();
+    for (const line of logicalLines) {
+      const match = line.indent === 0 ? line.code.match(ROUTER_ASSIGNMENT_REGEX) : null;
+      if (!match) {
+        continue;
+      }
+      const param = match[2] === 'APIRouter' ? 'prefix' : 'url_prefix';
+      const prefix = line.text.match(new RegExp(`\\b${param}\\s*=\\s*[rbu]?(['"])(.*?)\\1`))?.[2];
+      if (prefix) {
+        prefixes.set(match[1], prefix);
+      }
+    }
+    return prefixes;
+  }
+
+  /**
+   * FastAPI / Flask 路由装饰器中的 HTTP 方法和路径（加上路由器的前缀）
+   */
+  private parseRoute(decorator: LogicalLine, routerPrefixes: Map<string, string>): HttpRoute[] | undefined {
+    const match = decorator.text.replace(/\s*\n\s*/g, ' ').match(ROUTE_DECORATOR_REGEX);
+    if (!match) {
+      return undefined;
+    }
+    const [, router, kind, , decoratorPath] = match;
+    const prefix = routerPrefixes.get(router);
+    const routePath = prefix ? this.joinPaths(prefix, decoratorPath) : decoratorPath;
+    if (kind === 'websocket') {
+      return [{ method: 'WEBSOCKET', path: routePath }];
+    }
+    if (kind !== 'route' && kind !== 'api_route') {
+      return [{ method: kind.toUpperCase(), path: routePath }];
+    }
+    const methods = decorator.text.match(/methods\s*=\s*[[(]([^\])]*)[\])]/)?.[1]
+      .split(',')
+      .map(method => method.trim().replace(/^['"]|['"]$/g, '').toUpperCase())
+      .filter(Boolean);
+    return (methods && methods.length > 0 ? methods : ['GET']).map(method => ({ method, path: routePath }));
+  }
+
+  private joinPaths(prefix: string, routePath: string): string {
+    return `/${[prefix, routePath].map(part => part.replace(/^\/+|\/+$/g, '')).filter(Boolean).join('/')}`;
+  }
+
+  /**
+   * 逻辑行是字符串时取其第一行非空内容作为说明
+   */
+  private getDocstring(line: LogicalLine | undefined): string | undefined {
+    const match = line?.text.match(/^[rRuU]?("""|'''|"|')([\s\S]*?)(?:\1|$)/);
+    if (!match || !/^[rRuU]?""$/.test(line!.code.trim())) {
+      return undefined;
+    }
+    return match[2].split('\n').map(text => text.trim()).find(Boolean);
+  }
+
+  /**
+   * 提取 import 和 from … import 语句（包括函数内部的导入）
+   * 相对导入的模块名保留前导的点
+   */
+  private extractImports(logicalLines: LogicalLine[], imports: PythonImport[]): void {
+    for (const line of logicalLines) {
+      const code = line.code;
+      const importMatch = code.match(/^import\s+(.+)$/);
+      if (importMatch) {
+        for (const part of importMatch[1].split(',')) {
+          const [moduleName, alias] = part.trim().split(/\s+as\s+/);
+          if (moduleName) {
+            imports.push({
+              moduleName,
+              importedNames: [alias || moduleName],
+              isDefault: false,
+              isNamespace: true,
+              line: line.line,
+            });
+          }
+        }
+        continue;
+      }
+
+      const fromMatch = code.match(/^from\s+(\.*[\w.]*)\s+import\s+(.+)$/);
+      if (fromMatch && fromMatch[1] !== '__future__') {
+        const aliases: Record<string, string> = {};
+        const importedNames = fromMatch[2]
+          .replace(/[()]/g, '')
+          .split(',')
+          .map(name => {
+            const [imported, alias] = name.trim().split(/\s+as\s+/);
+            if (imported && alias) {
+              aliases[alias] = imported;
+            }
+            return imported;
+          })
+          .filter(Boolean);
+        imports.push({
+          moduleName: fromMatch[1],
+          importedNames,
+          isDefault: false,
+          isNamespace: false,
+          line: line.line,
+          ...(Object.keys(aliases).length > 0 ? { aliases } : {}),
+        });
+      }
+    }
+  }
+
+  /**
+   * 模块之间的 imports 关系；from 包 import 子模块 时指向子模块，本地不存在的模块（第三方库）忽略
+   */
+  private createImportRelations(
+    imports: ImportInfo[],
+    filePath: string,
+    moduleName: string,
+    relativePath: string,
+    relations: ExtractedRelation[]
+  ): void {
+    const added = new Map<string, ExtractedRelation>();
+    const addImport = (target: { file: string; module: string }, names: string[], line: number) => {
+      const targetFilePath = path.relative(this.workspaceRoot, target.file);
+      if (targetFilePath === relativePath) {
+        return;
+      }
+      const existing = added.get(targetFilePath);
+      if (existing) {
+        existing.metadata!.names = [...new Set([...existing.metadata!.names, ...names])];
+        return;
+      }
+      const relation: ExtractedRelation = {
+        sourceName: moduleName,
+        sourceFilePath: relativePath,
+        targetName: target.module,
+        targetFilePath,
+        verb: 'imports',
+        metadata: { names, line },
+        resolved: true,
+      };
+      added.set(targetFilePath, relation);
+      relations.push(relation);
+    };
+
+    for (const imp of imports) {
+      const target = this.resolveModule(imp.moduleName, filePath);
+      if (imp.isNamespace) {
+        if (target) {
+          addImport(target, [], imp.line);
+        }
+        continue;
+      }
+
+      const remaining: string[] = [];
+      for (const name of imp.importedNames) {
+        const submodule = name !== '*' ? this.resolveModule(`${imp.moduleName}${imp.moduleName.endsWith('.') ? '' : '.'}${name}`, filePath) : null;
+        if (submodule) {
+          addImport(submodule, [], imp.line);
+        } else {
+          remaining.push(name);
+        }
+      }
+      if (target && remaining.length > 0) {
+        addImport(target, remaining, imp.line);
+      }
+    }
+  }
+
+  /**
+   * 继承关系：基类按导入解析到所在的文件；未导入的名称在当前文件和全局中按名称查找
+   */
+  private extractBaseClasses(
+    logicalLines: LogicalLine[],
+    imports: PythonImport[],
+    filePath: string,
+    relativePath: string,
+    symbols: ExtractedSymbol[],
+    relations: ExtractedRelation[]
+  ): void {
+    const classes = symbols.filter(symbol => symbol.type === 'class');
+    for (const line of logicalLines) {
+      const match = line.code.match(/^class\s+(\w+)\s*\((.*)\)\s*:/);
+      const symbol = match && classes.find(item => item.startLine <= line.line && item.endLine >= line.line
+        && (item.name === match[1] || item.name.endsWith(`.${match[1]}`)));
+      if (!match || !symbol) {
+        continue;
+      }
+
+      for (const base of this.splitArguments(match[2])) {
+        // 跳过 metaclass= 等关键字参数，去掉泛型下标
+        const expression = base.includes('=') ? '' : base.replace(/\[.*$/, '').trim();
+        if (!/^[A-Za-z_][\w.]*$/.test(expression) || expression === 'object') {
+          continue;
+        }
+        const parts = expression.split('.');
+        // from … import X as Y 导入的名称按 X 解析
+        parts[0] = imports.map(item => item.aliases?.[parts[0]]).find(Boolean) || parts[0];
+        const targetName = parts[parts.length - 1];
+        relations.push({
+          sourceName: symbol.name,
+          sourceFilePath: relativePath,
+          targetName,
+          targetFilePath: this.resolveImportedName(parts, imports, filePath),
+          verb: 'extends',
+        });
+      }
+    }
+  }
+
+  /**
+   * 按逗号切分参数列表（忽略括号内的逗号）
+   */
+  private splitArguments(value: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of value) {
+      if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      }
+      if (char === ',' && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(Boolean);
+  }
+
+  /**
+   * 名称（如 Base 或 models.Base）定义所在文件的相对路径；未从本地模块导入时为当前文件
+   */
+  private resolveImportedName(parts: string[], imports: ImportInfo[], filePath: string): string | undefined {
+    if (parts.length === 1) {
+      const imp = imports.find(item => !item.isNamespace && item.importedNames.includes(parts[0]));
+      if (!imp) {
+        return path.relative(this.workspaceRoot, filePath);
+      }
+      const target = this.resolveModule(imp.moduleName, filePath);
+      return target ? path.relative(this.workspaceRoot, target.file) : undefined;
+    }
+
+    // import a.b as m → m.Base；import a.b → a.b.Base
+    const qualifier = parts.slice(0, -1).join('.');
+    const imp = imports.find(item => item.isNamespace && item.importedNames.includes(qualifier))
+      || imports.find(item => !item.isNamespace && item.importedNames.includes(parts[0]));
+    if (!imp) {
+      return undefined;
+    }
+    const moduleName = imp.isNamespace
+      ? imp.moduleName
+      : `${imp.moduleName}${imp.moduleName.endsWith('.') ? '' : '.'}${qualifier}`;
+    const target = this.resolveModule(moduleName, filePath);
+    return target ? path.relative(this.workspaceRoot, target.file) : undefined;
+  }
+
+  /**
+   * 把模块名解析为工作区中的文件（模块 .py 或包的 __init__.py）
+   * 相对导入相对于当前文件所在的包；绝对导入依次在当前包的根目录、工作区根目录和 src 目录中查找
+   */
+  private resolveModule(moduleName: string, fromFile: string): { file: string; module: string } | null {
+    const dots = moduleName.match(/^\.*/)![0].length;
+    const parts = moduleName.slice(dots).split('.').filter(Boolean);
+
+    let roots: string[];
+    if (dots > 0) {
+      let base = path.dirname(fromFile);
+      for (let i = 1; i < dots; i++) {
+        base = path.dirname(base);
+      }
+      roots = [base];
+    } else {
+      roots = [this.getPackageRoot(fromFile), this.workspaceRoot, path.join(this.workspaceRoot, 'src')];
+    }
+
+    for (const root of [...new Set(roots)]) {
+      const base = path.join(root, ...parts);
+      for (const file of [`${base}.py`, path.join(base, '__init__.py')]) {
+        if (parts.length === 0 && !file.endsWith('__init__.py')) {
+          continue;
+        }
+        if (this.isWorkspaceFile(file) && fs.existsSync(file)) {
+          return { file, module: this.getModuleName(file) };
+        }
+      }
+    }
+    return null;
+  }
+
+  private isWorkspaceFile(file: string): boolean {
+    const relative = path.relative(this.workspaceRoot, file);
+    return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  /**
+   * 文件所在的导入根目录：向上经过所有含 __init__.py 的包目录后的第一个目录
+   */
+  private getPackageRoot(filePath: string): string {
+    let dir = path.dirname(filePath);
+    while (this.isWorkspaceFile(dir) && fs.existsSync(path.join(dir, '__init__.py'))) {
+      dir = path.dirname(dir);
+    }
+    return dir;
+  }
+
+  /**
+   * 文件的模块名（相对于导入根目录，如 app.services.user；包的 __init__.py 为包名）
+   */
+  private getModuleName(filePath: string): string {
+    const relative = path.relative(this.getPackageRoot(filePath), filePath).replace(/\.py$/, '');
+    const parts = relative.split(/[\\/]/);
+    if (parts.length > 1 && parts[parts.length - 1] === '__init__') {
+      parts.pop();
+    }
+    return parts.join('.');
+  }
+}
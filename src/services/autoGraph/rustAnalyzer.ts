@@ -0,0 +1,874 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+  ExtractedRelation,
+  ExtractedSymbol,
+  FileAnalysisResult,
+  ImportInfo,
+  LanguageAnalyzer,
+} from './types';
+
+/** 标准库的 crate，路径以它们开头的是外部符号 */
+const STD_CRATES = new Set(['std', 'core', 'alloc']);
+
+/** prelude 中的 trait，不导入也可以直接使用 */
+const PRELUDE_TRAITS = new Set([
+  'Clone', 'Copy', 'Default', 'Drop', 'Eq', 'PartialEq', 'Ord', 'PartialOrd', 'Hash', 'Debug',
+  'Iterator', 'IntoIterator', 'DoubleEndedIterator', 'ExactSizeIterator', 'Extend', 'FromIterator',
+  'From', 'Into', 'TryFrom', 'TryInto', 'AsRef', 'AsMut', 'ToOwned', 'ToString',
+  'Send', 'Sync', 'Sized', 'Unpin', 'Fn', 'FnMut', 'FnOnce',
+]);
+
+/**
+ * 语句片段：以 {、}、; 分隔
+ */
+interface Chunk {
+  /** 去掉注释、字符串内容替换为空格后的代码 */
+  code: string;
+  line: number;
+  terminator: '{' | '}' | ';' | '';
+  /** 分隔符所在的行 */
+  endLine: number;
+}
+
+/**
+ * 打开的代码块
+ */
+interface Block {
+  kind: 'module' | 'impl' | 'trait' | 'other';
+  symbol?: ExtractedSymbol;
+  /** 模块块：相对于文件模块的内联模块路径 */
+  inline?: string[];
+  /** impl 块：实现的类型（及其所在文件）和 trait */
+  selfType?: string;
+  selfFile?: string;
+  trait?: string;
+}
+
+/**
+ * 文件所属的 crate 和模块
+ */
+interface ModuleInfo {
+  crateName: string;
+  /** crate 根目录（Cargo.toml 所在目录） */
+  crateRoot: string;
+  /** 模块文件的查找目录（通常是 src） */
+  srcDir: string;
+  /** 相对于 crate 根模块的模块路径 */
+  modulePath: string[];
+  /** 是否为 crate 根文件（lib.rs、main.rs 等） */
+  isRoot: boolean;
+}
+
+/**
+ * 一条 use 导入：完整路径和在当前模块中的名称
+ */
+interface UseEntry {
+  path: string[];
+  alias: string;
+  glob: boolean;
+  line: number;
+}
+
+/**
+ * 正在分析的文件
+ */
+interface FileContext {
+  filePath: string;
+  relativePath: string;
+  module: ModuleInfo;
+  uses: UseEntry[];
+  /** 文件中声明的类型和 trait 名称 */
+  localItems: Set<string>;
+}
+
+/**
+ * Rust 分析器
+ * 按 Cargo.toml 识别 crate，按文件路径（mod.rs、lib.rs、main.rs）确定模块；提取结构体、枚举、trait、函数和
+ * impl 中的方法（命名为 类型名.方法名）。impl Trait for Type 记为 implements 关系，trait 的父 trait 记为 extends，
+ * use 路径按 crate::、self::、super:: 解析为模块之间的 imports 关系
+ */
+export class RustAnalyzer implements LanguageAnalyzer {
+  private crates = new Map<string, { name: string; root: string } | null>();
+
+  constructor(private workspaceRoot: string) {}
+
+  public supports(filePath: string): boolean {
+    return filePath.endsWith('.rs');
+  }
+
+  public analyzeFile(filePath: string): FileAnalysisResult | null {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      return null;
+    }
+
+    const relativePath = path.relative(this.workspaceRoot, filePath);
+    const lines = content.split(/\r?\n/);
+    const code = this.maskSource(content);
+    const chunks = this.readChunks(code);
+    const module = this.getModuleInfo(filePath);
+    const context: FileContext = {
+      filePath,
+      relativePath,
+      module,
+      uses: [],
+      localItems: new Set([...code.matchAll(/\b(?:struct|enum|union|trait|type)\s+(?:r#)?(\w+)/g)].map(match => match[1])),
+    };
+
+    const symbols: ExtractedSymbol[] = [];
+    const relations: ExtractedRelation[] = [];
+    const imports: ImportInfo[] = [];
+
+    // 模块本身也是实体，作为 imports 和 contains 关系的一端；crate 根文件的实体即代表 crate
+    const moduleSymbol: ExtractedSymbol = {
+      name: this.getModuleName(module),
+      type: 'file',
+      filePath: relativePath,
+      startLine: 1,
+      endLine: Math.max(lines.length, 1),
+      description: lines.map(line => line.trim()).find(line => line.startsWith('//!'))?.replace(/^\/\/!\s?/, '').trim() || undefined,
+      metadata: {
+        language: 'rust',
+        crate: module.crateName,
+        module: ['crate', ...module.modulePath].join('::'),
+        ...(module.isRoot ? { kind: 'crate', crateRoot: path.relative(this.workspaceRoot, module.crateRoot) || '.' } : {}),
+      },
+    };
+    symbols.push(moduleSymbol);
+
+    const stack: Block[] = [];
+    for (const chunk of chunks) {
+      if (chunk.terminator === '}') {
+        this.handleStatement(chunk, stack, lines, symbols, relations, context, moduleSymbol);
+        const block = stack.pop();
+        if (block?.symbol) {
+          block.symbol.endLine = Math.max(block.symbol.endLine, chunk.endLine);
+        }
+        continue;
+      }
+
+      const opened = this.handleStatement(chunk, stack, lines, symbols, relations, context, moduleSymbol);
+      if (chunk.terminator === '{') {
+        stack.push(opened || { kind: 'other' });
+      }
+    }
+
+    for (const entry of context.uses) {
+      imports.push({
+        moduleName: (entry.glob ? entry.path : entry.path.slice(0, -1)).join('::') || entry.path[0],
+        importedNames: [entry.glob ? '*' : entry.alias],
+        isDefault: false,
+        isNamespace: entry.glob,
+        line: entry.line,
+      });
+    }
+    this.createImportRelations(context, moduleSymbol, relations);
+
+    return {
+      filePath: relativePath,
+      symbols,
+      relations,
+      imports,
+      exports: symbols
+        .filter(symbol => symbol.metadata?.public && !symbol.metadata.method)
+        .map(symbol => ({ exportedName: symbol.name, isDefault: false, line: symbol.startLine })),
+    };
+  }
+
+  /**
+   * 处理一个片段：识别 mod、use、类型、trait、impl 和函数；返回片段打开的代码块
+   */
+  private handleStatement(
+    chunk: Chunk,
+    stack: Block[],
+    lines: string[],
+    symbols: ExtractedSymbol[],
+    relations: ExtractedRelation[],
+    context: FileContext,
+    moduleSymbol: ExtractedSymbol
+  ): Block | undefined {
+    const parent = stack[stack.length - 1];
+    // 只分析模块、impl 和 trait 中的直接声明
+    if (parent?.kind === 'other') {
+      return undefined;
+    }
+
+    const { attributes, rest } = this.parseAttributes(chunk.code);
+    const isPublic = /^pub\b/.test(rest);
+    // 原始标识符（r#type）按去掉 r# 后的名称处理
+    const declaration = rest
+      .replace(/\br#(?=[A-Za-z_])/g, '')
+      .replace(/^pub\s*(?:\([^)]*\))?\s*/, '')
+      .replace(/^(?:(?:default|unsafe|async|const|extern\s*(?:"[^"]*")?)\s+)*(?=fn\b|impl\b|trait\b)/, '');
+    const moduleBlock = stack.filter(block => block.kind === 'module').pop();
+    const inline = moduleBlock?.inline || [];
+    const container = parent?.kind === 'module' ? parent.symbol : moduleSymbol;
+    const qualify = (name: string) => [...inline, name].join('::');
+    const base = (symbol: Omit<ExtractedSymbol, 'filePath' | 'startLine' | 'endLine'>): ExtractedSymbol => ({
+      ...symbol,
+      filePath: context.relativePath,
+      startLine: chunk.line,
+      endLine: chunk.endLine,
+      description: this.getDocComment(lines, chunk.line),
+    });
+
+    if (parent?.kind !== 'impl' && parent?.kind !== 'trait') {
+      const useMatch = declaration.match(/^use\s+(.+)$/);
+      if (useMatch && chunk.terminator === ';') {
+        for (const entry of this.expandUseTree([], useMatch[1].replace(/\s*::\s*/g, '::'))) {
+          context.uses.push({ ...entry, line: chunk.line });
+        }
+        return undefined;
+      }
+
+      const modMatch = declaration.match(/^mod\s+(\w+)$/);
+      if (modMatch) {
+        if (chunk.terminator === ';') {
+          // 文件模块：a.rs 或 a/mod.rs
+          const file = this.findModuleFile(context, [...context.module.modulePath, ...inline, modMatch[1]]);
+          if (file) {
+            relations.push({
+              sourceName: container!.name,
+              sourceFilePath: context.relativePath,
+              targetName: this.getModuleName(this.getModuleInfo(file)),
+              targetFilePath: path.relative(this.workspaceRoot, file),
+              verb: 'contains',
+              resolved: true,
+            });
+          }
+          return undefined;
+        }
+        // #[cfg(test)] 模块中的测试代码不提取
+        if (attributes.some(attribute => /^cfg\s*\(\s*test\s*\)$/.test(attribute))) {
+          return { kind: 'other' };
+        }
+        const symbol = base({
+          name: `${moduleSymbol.name}::${qualify(modMatch[1])}`,
+          type: 'file',
+          metadata: { language: 'rust', crate: context.module.crateName, kind: 'module', public: isPublic },
+        });
+        symbols.push(symbol);
+        this.addContains(container!, symbol, relations);
+        return { kind: 'module', symbol, inline: [...inline, modMatch[1]] };
+      }
+
+      const typeMatch = declaration.match(/^(struct|enum|union|trait)\s+(\w+)/);
+      if (typeMatch) {
+        const derives = attributes
+          .flatMap(attribute => attribute.match(/^derive\s*\((.*)\)$/)?.[1].split(',') || [])
+          .map(name => name.trim().split('::').pop()!)
+          .filter(Boolean);
+        const symbol = base({
+          name: qualify(typeMatch[2]),
+          type: typeMatch[1] === 'trait' ? 'interface' : 'class',
+          metadata: {
+            language: 'rust',
+            kind: typeMatch[1],
+            public: isPublic,
+            ...(derives.length > 0 ? { derives } : {}),
+          },
+        });
+        symbols.push(symbol);
+        this.addContains(container!, symbol, relations);
+
+        if (typeMatch[1] === 'trait') {
+          // 父 trait：trait A: B + C
+          const header = this.stripGenerics(declaration.slice(typeMatch[0].length));
+          const supertraits = header.match(/^\s*:\s*(.+?)(?:\bwhere\b|$)/)?.[1] || '';
+          for (const bound of supertraits.split('+').map(item => item.trim().replace(/^\?/, ''))) {
+            if (/^[A-Za-z_][\w:]*$/.test(bound)) {
+              this.addTypeRelation(symbol, bound, 'extends', relations, context);
+            }
+          }
+          return chunk.terminator === '{' ? { kind: 'trait', symbol } : undefined;
+        }
+        return chunk.terminator === '{' ? { kind: 'other', symbol } : undefined;
+      }
+
+      if (/^impl\b/.test(declaration)) {
+        return this.handleImpl(declaration, chunk, relations, context);
+      }
+    }
+
+    const fnMatch = declaration.match(/^fn\s+(\w+)/);
+    if (fnMatch) {
+      const owner = parent?.kind === 'impl' ? parent.selfType : parent?.kind === 'trait' ? parent.symbol!.name : undefined;
+      const name = owner ? `${owner}.${fnMatch[1]}` : qualify(fnMatch[1]);
+      // 同一类型的多个 impl 块（如 Display 和 Debug 的 fmt）中的同名方法合并为一个实体
+      let symbol = symbols.find(item => item.name === name && item.type === 'function');
+      if (symbol) {
+        symbol.startLine = Math.min(symbol.startLine, chunk.line);
+        symbol.endLine = Math.max(symbol.endLine, chunk.endLine);
+      } else {
+        symbol = base({
+          name,
+          type: 'function',
+          metadata: {
+            language: 'rust',
+            public: isPublic || parent?.kind === 'trait' || !!parent?.trait,
+            ...(/\basync\s/.test(rest) ? { async: true } : {}),
+            ...(owner ? { method: true, className: owner } : {}),
+            ...(parent?.trait ? { trait: parent.trait } : {}),
+          },
+        });
+        symbols.push(symbol);
+        // impl 中的方法属于实现的类型（类型可以声明在其他文件中），找不到类型时属于模块
+        if (parent?.kind === 'impl' && parent.selfFile) {
+          this.addContains({ name: parent.selfType!, filePath: parent.selfFile }, symbol, relations);
+        } else {
+          this.addContains(parent?.kind === 'trait' ? parent.symbol! : container!, symbol, relations);
+        }
+      }
+      return chunk.terminator === '{' ? { kind: 'other', symbol } : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * impl 块：impl Trait for Type 记为 Type implements Trait；块中的方法属于 Type
+   */
+  private handleImpl(declaration: string, chunk: Chunk, relations: ExtractedRelation[], context: FileContext): Block | undefined {
+    let header = declaration.replace(/^impl\s*/, '');
+    const typeParams = new Set<string>();
+    if (header.startsWith('<')) {
+      const end = this.findClosingAngle(header, 0);
+      this.splitTopLevel(header.slice(1, end))
+        .map(param => param.match(/^(?:const\s+)?(\w+)/)?.[1])
+        .forEach(param => param && typeParams.add(param));
+      header = header.slice(end + 1);
+    }
+    header = this.stripGenerics(header.replace(/\bwhere\b.*$/, '')).trim();
+
+    const forMatch = header.match(/^!?\s*(.+?)\s+for\s+(.+)$/);
+    const traitPath = forMatch ? forMatch[1].replace(/^!\s*/, '').trim() : undefined;
+    const selfPath = (forMatch ? forMatch[2] : header)
+      .replace(/^&\s*(?:'\w+\s*)?(?:mut\s+)?/, '')
+      .replace(/^dyn\s+/, '')
+      .trim();
+
+    // impl<T> Trait for T 等泛型实现没有具体的类型
+    if (!/^[A-Za-z_][\w:]*$/.test(selfPath) || typeParams.has(selfPath)) {
+      return chunk.terminator === '{' ? { kind: 'other' } : undefined;
+    }
+
+    const target = this.resolveName(selfPath.split('::'), context);
+    const selfFile = target.file;
+    if (traitPath && /^[A-Za-z_][\w:]*$/.test(traitPath)) {
+      relations.push(this.createTypeRelation(target.name, selfFile || context.relativePath, traitPath, 'implements', context));
+    }
+
+    return chunk.terminator === '{'
+      ? { kind: 'impl', selfType: target.name, selfFile, ...(traitPath ? { trait: traitPath.split('::').pop() } : {}) }
+      : undefined;
+  }
+
+  private addContains(owner: { name: string; filePath: string }, symbol: ExtractedSymbol, relations: ExtractedRelation[]): void {
+    relations.push({
+      sourceName: owner.name,
+      sourceFilePath: owner.filePath,
+      targetName: symbol.name,
+      targetFilePath: symbol.filePath,
+      verb: 'contains',
+      resolved: true,
+    });
+  }
+
+  private addTypeRelation(
+    symbol: ExtractedSymbol,
+    typePath: string,
+    verb: 'extends' | 'implements',
+    relations: ExtractedRelation[],
+    context: FileContext
+  ): void {
+    relations.push(this.createTypeRelation(symbol.name, symbol.filePath, typePath, verb, context));
+  }
+
+  private createTypeRelation(
+    sourceName: string,
+    sourceFilePath: string,
+    typePath: string,
+    verb: 'extends' | 'implements',
+    context: FileContext
+  ): ExtractedRelation {
+    const target = this.resolveName(typePath.split('::'), context);
+    return {
+      sourceName,
+      sourceFilePath,
+      targetName: target.name,
+      targetFilePath: target.file,
+      verb,
+      // 外部 crate 和标准库的 trait 不按名称查找，避免连到同名的本地符号
+      ...(target.external ? { resolved: true } : {}),
+    };
+  }
+
+  /**
+   * 名称（如 User、models::User、fmt::Display）对应的实体名和所在文件
+   * 依次按本文件的声明、use 导入、glob 导入解析；外部符号标记为 external
+   */
+  private resolveName(segments: string[], context: FileContext): { name: string; file?: string; external?: boolean } {
+    const name = segments[segments.length - 1];
+    if (segments.length === 1) {
+      if (context.localItems.has(name)) {
+        return { name, file: context.relativePath };
+      }
+      const entry = context.uses.find(item => !item.glob && item.alias === name);
+      if (entry) {
+        return this.resolvePath(entry.path, context);
+      }
+      for (const glob of context.uses.filter(item => item.glob)) {
+        const resolved = this.resolvePath([...glob.path, name], context);
+        if (resolved.file && this.definesItem(path.join(this.workspaceRoot, resolved.file), name)) {
+          return resolved;
+        }
+      }
+      return PRELUDE_TRAITS.has(name) ? { name, external: true } : { name };
+    }
+
+    const entry = context.uses.find(item => !item.glob && item.alias === segments[0]);
+    return this.resolvePath(entry ? [...entry.path, ...segments.slice(1)] : segments, context);
+  }
+
+  /**
+   * 路径解析到工作区中的文件：最长的模块前缀对应文件，其余部分是（内联模块中的）符号名；
+   * 模块文件中没有声明的符号按其 pub use 继续解析
+   */
+  private resolvePath(
+    segments: string[],
+    context: FileContext,
+    depth: number = 0
+  ): { name: string; file?: string; external?: boolean } {
+    const name = segments[segments.length - 1];
+    const absolute = this.toCratePath(segments, context);
+    if (!absolute) {
+      return { name, external: true };
+    }
+    for (let length = absolute.length; length >= 0; length--) {
+      const file = this.findModuleFile(context, absolute.slice(0, length));
+      if (file) {
+        const rest = absolute.slice(length);
+        if (rest.length === 1 && depth < 3 && file !== context.filePath && !this.definesItem(file, rest[0])) {
+          const reexported = this.resolveReexport(file, rest[0], depth + 1);
+          if (reexported) {
+            return reexported;
+          }
+        }
+        return {
+          name: rest.length > 0 ? rest.join('::') : this.getModuleName(this.getModuleInfo(file)),
+          file: path.relative(this.workspaceRoot, file),
+        };
+      }
+    }
+    return { name };
+  }
+
+  /**
+   * 模块文件中 pub use 重新导出的符号
+   */
+  private resolveReexport(filePath: string, name: string, depth: number): { name: string; file: string } | undefined {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      return undefined;
+    }
+    const context: FileContext = {
+      filePath,
+      relativePath: path.relative(this.workspaceRoot, filePath),
+      module: this.getModuleInfo(filePath),
+      uses: [],
+      localItems: new Set(),
+    };
+    for (const match of this.maskSource(content).matchAll(/\bpub(?:\s*\([^)]*\))?\s+use\s+([^;]+);/g)) {
+      this.expandUseTree([], match[1].replace(/\s*::\s*/g, '::')).forEach(entry => context.uses.push({ ...entry, line: 0 }));
+    }
+
+    const entry = context.uses.find(item => !item.glob && item.alias === name);
+    const candidates = entry
+      ? [this.resolvePath(entry.path, context, depth)]
+      : context.uses.filter(item => item.glob).map(glob => this.resolvePath([...glob.path, name], context, depth));
+    const resolved = candidates.find(item => item.file && this.definesItem(path.join(this.workspaceRoot, item.file), item.name));
+    return resolved ? { name: resolved.name, file: resolved.file! } : undefined;
+  }
+
+  /**
+   * 转换为相对于 crate 根模块的路径；外部 crate 和标准库返回 null
+   */
+  private toCratePath(segments: string[], context: FileContext): string[] | null {
+    const [first] = segments;
+    const current = context.module.modulePath;
+    if (first === 'crate' || first === context.module.crateName) {
+      return segments.slice(1);
+    }
+    if (first === 'self') {
+      return [...current, ...segments.slice(1)];
+    }
+    if (first === 'super') {
+      const count = segments.findIndex(segment => segment !== 'super');
+      const supers = count === -1 ? segments.length : count;
+      return [...current.slice(0, Math.max(current.length - supers, 0)), ...segments.slice(supers)];
+    }
+    if (!first || STD_CRATES.has(first)) {
+      return null;
+    }
+    // 相对于当前模块的子模块，或 crate 根模块下的模块（2015 版本的写法）
+    if (this.findModuleFile(context, [...current, first])) {
+      return [...current, ...segments];
+    }
+    if (this.findModuleFile(context, [first])) {
+      return segments;
+    }
+    return null;
+  }
+
+  /**
+   * 模块之间的 imports 关系；同一个目标模块的导入合并，名称记录在 metadata 中
+   */
+  private createImportRelations(context: FileContext, moduleSymbol: ExtractedSymbol, relations: ExtractedRelation[]): void {
+    const added = new Map<string, ExtractedRelation>();
+    for (const entry of context.uses) {
+      const resolved = this.resolvePath(entry.glob ? [...entry.path, '*'] : entry.path, context);
+      if (!resolved.file || resolved.file === context.relativePath) {
+        continue;
+      }
+      const targetName = this.getModuleName(this.getModuleInfo(path.join(this.workspaceRoot, resolved.file)));
+      // 导入模块本身或 glob 导入时不记录名称
+      const names = resolved.name === '*' || resolved.name === targetName ? [] : [entry.path[entry.path.length - 1]];
+      const existing = added.get(resolved.file);
+      if (existing) {
+        existing.metadata!.names = [...new Set([...existing.metadata!.names, ...names])];
+        continue;
+      }
+      const relation: ExtractedRelation = {
+        sourceName: moduleSymbol.name,
+        sourceFilePath: context.relativePath,
+        targetName,
+        targetFilePath: resolved.file,
+        verb: 'imports',
+        metadata: { names, line: entry.line },
+        resolved: true,
+      };
+      added.set(resolved.file, relation);
+      relations.push(relation);
+    }
+  }
+
+  /**
+   * 展开 use 树：a::{b, c::d as e, f::*} → a::b、a::c::d（别名 e）、a::f::*
+   */
+  private expandUseTree(prefix: string[], tree: string): Omit<UseEntry, 'line'>[] {
+    const brace = tree.indexOf('{');
+    if (brace !== -1 && tree.endsWith('}')) {
+      const head = [...prefix, ...tree.slice(0, brace).split('::').filter(Boolean)];
+      return this.splitTopLevel(tree.slice(brace + 1, -1)).flatMap(part => this.expandUseTree(head, part));
+    }
+    const [pathText, alias] = tree.trim().split(/\s+as\s+/);
+    const segments = [...prefix, ...pathText.split('::').filter(Boolean)];
+    if (segments[segments.length - 1] === '*') {
+      return [{ path: segments.slice(0, -1), alias: '*', glob: true }];
+    }
+    if (segments[segments.length - 1] === 'self') {
+      segments.pop();
+    }
+    if (segments.length === 0 || alias === '_') {
+      return [];
+    }
+    return [{ path: segments, alias: alias || segments[segments.length - 1], glob: false }];
+  }
+
+  /**
+   * 文件是否声明了该名称的类型、trait 或函数
+   */
+  private definesItem(filePath: string, name: string): boolean {
+    try {
+      return new RegExp(`\\b(?:struct|enum|union|trait|type|fn)\\s+${name}\\b`).test(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * 模块路径对应的文件：a/b.rs 或 a/b/mod.rs；空路径为 crate 根文件
+   */
+  private findModuleFile(context: FileContext, modulePath: string[]): string | undefined {
+    const { srcDir, isRoot } = context.module;
+    const candidates = modulePath.length === 0
+      ? [isRoot ? context.filePath : '', path.join(srcDir, 'lib.rs'), path.join(srcDir, 'main.rs')]
+      : [path.join(srcDir, ...modulePath) + '.rs', path.join(srcDir, ...modulePath, 'mod.rs')];
+    return candidates.find(file => file && fs.existsSync(file));
+  }
+
+  /**
+   * 文件所属的 crate 和模块路径：src/lib.rs、src/main.rs 和 src/bin/*.rs 是 crate 根；
+   * src 以外的文件（tests、examples、build.rs）各自作为独立的 crate 根
+   */
+  private getModuleInfo(filePath: string): ModuleInfo {
+    const crate = this.findCrate(path.dirname(filePath));
+    const stem = path.basename(filePath, '.rs');
+    const crateRoot = crate ? crate.root : path.dirname(filePath);
+    const srcDir = path.join(crateRoot, 'src');
+    const relative = path.relative(srcDir, filePath).replace(/\.rs$/, '');
+    const segments = relative.split(path.sep);
+
+    if (!crate || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return { crateName: stem, crateRoot, srcDir: path.dirname(filePath), modulePath: [], isRoot: true };
+    }
+    if (segments.length === 1 && (stem === 'lib' || stem === 'main')) {
+      return { crateName: crate.name, crateRoot, srcDir, modulePath: [], isRoot: true };
+    }
+    if (segments[0] === 'bin' && segments.length === 2) {
+      return { crateName: stem, crateRoot, srcDir: path.dirname(filePath), modulePath: [], isRoot: true };
+    }
+    if (segments[segments.length - 1] === 'mod') {
+      segments.pop();
+    }
+    return { crateName: crate.name, crateRoot, srcDir, modulePath: segments, isRoot: false };
+  }
+
+  /**
+   * 模块实体的名称：crate 名加模块路径（如 my_crate::net::http）
+   */
+  private getModuleName(module: ModuleInfo): string {
+    return [module.crateName, ...module.modulePath].join('::');
+  }
+
+  /**
+   * 目录所属的 crate：向上查找含 [package] 的 Cargo.toml，crate 名中的 - 替换为 _
+   */
+  private findCrate(dir: string): { name: string; root: string } | null {
+    if (this.crates.has(dir)) {
+      return this.crates.get(dir)!;
+    }
+    let crate: { name: string; root: string } | null = null;
+    const manifest = path.join(dir, 'Cargo.toml');
+    const name = fs.existsSync(manifest)
+      ? fs.readFileSync(manifest, 'utf-8').match(/^\s*\[package\][^[]*?^\s*name\s*=\s*"([^"]+)"/m)?.[1]
+      : undefined;
+    if (name) {
+      crate = { name: name.replace(/-/g, '_'), root: dir };
+    } else if (this.isWorkspacePath(path.dirname(dir)) && path.dirname(dir) !== dir) {
+      crate = this.findCrate(path.dirname(dir));
+    }
+    this.crates.set(dir, crate);
+    return crate;
+  }
+
+  /**
+   * 去掉片段开头的属性 #[...] 和 #![...]，返回属性内容和剩余的代码
+   */
+  private parseAttributes(code: string): { attributes: string[]; rest: string } {
+    const attributes: string[] = [];
+    let rest = code.trim();
+    let match;
+    while ((match = rest.match(/^#!?\s*\[/))) {
+      const end = this.findClosing(rest, match[0].length - 1);
+      attributes.push(rest.slice(match[0].length, end).trim());
+      rest = rest.slice(end + 1).trim();
+    }
+    return { attributes, rest: rest.replace(/\s+/g, ' ') };
+  }
+
+  /**
+   * 声明前（属性之上）紧邻的 /// 文档注释的第一行
+   */
+  private getDocComment(lines: string[], line: number): string | undefined {
+    const comments: string[] = [];
+    for (let index = line - 2; index >= 0; index--) {
+      const text = lines[index].trim();
+      if (!text.startsWith('///')) {
+        break;
+      }
+      comments.unshift(text.replace(/^\/\/\/\s?/, '').trim());
+    }
+    return comments.find(Boolean);
+  }
+
+  /**
+   * 去掉注释（块注释可以嵌套），字符串和字符字面量的内容替换为空格；与原文等长，保留换行
+   * 'a 这样的生命周期不是字符字面量
+   */
+  private maskSource(content: string): string {
+    let code = '';
+    const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (content.startsWith('//', i)) {
+        const end = content.indexOf('\n', i);
+        const stop = end === -1 ? content.length : end;
+        code += blank(content.slice(i, stop));
+        i = stop - 1;
+        continue;
+      }
+      if (content.startsWith('/*', i)) {
+        let depth = 0;
+        let end = i;
+        for (; end < content.length; end++) {
+          if (content.startsWith('/*', end)) {
+            depth++;
+            end++;
+          } else if (content.startsWith('*/', end) && --depth === 0) {
+            end += 2;
+            break;
+          }
+        }
+        code += blank(content.slice(i, Math.min(end, content.length)));
+        i = Math.min(end, content.length) - 1;
+        continue;
+      }
+
+      const raw = (char === 'r' || char === 'b') && !/\w/.test(content[i - 1] || '')
+        ? content.slice(i, i + 260).match(/^b?r(#*)"/)
+        : null;
+      if (raw) {
+        const terminator = `"${raw[1]}`;
+        const end = content.indexOf(terminator, i + raw[0].length);
+        const stop = end === -1 ? content.length : end + terminator.length;
+        code += raw[0] + blank(content.slice(i + raw[0].length, stop - terminator.length)) + content.slice(stop - terminator.length, stop);
+        i = stop - 1;
+        continue;
+      }
+
+      const isChar = char === '\'' && (content[i + 1] === '\\' || content[i + 2] === '\'');
+      if (char === '"' || isChar) {
+        let end = i + 1;
+        while (end < content.length && content[end] !== char) {
+          end += content[end] === '\\' ? 2 : 1;
+        }
+        if (end >= content.length) {
+          code += char + blank(content.slice(i + 1));
+          break;
+        }
+        code += char + blank(content.slice(i + 1, end)) + char;
+        i = end;
+        continue;
+      }
+      code += char;
+    }
+    return code;
+  }
+
+  /**
+   * 按 {、}、; 切分片段，括号内和 use 语句 { … } 中的分隔符不切分
+   */
+  private readChunks(code: string): Chunk[] {
+    const chunks: Chunk[] = [];
+    let current = '';
+    let line = 1;
+    let startLine = 0;
+    let parens = 0;
+    let useBraces = 0;
+
+    const flush = (terminator: Chunk['terminator']) => {
+      if (current.trim() || terminator === '{' || terminator === '}') {
+        chunks.push({ code: current, line: startLine || line, terminator, endLine: line });
+      }
+      current = '';
+      startLine = 0;
+    };
+
+    for (const char of code) {
+      if (char === '(' || char === '[') {
+        parens++;
+      } else if (char === ')' || char === ']') {
+        parens = Math.max(parens - 1, 0);
+      }
+      if (char === '{' && parens === 0 && (useBraces > 0 || /^\s*(?:pub(?:\s*\([^)]*\))?\s+)?use\s/.test(current.replace(/#!?\[[^\]]*\]/g, '')))) {
+        useBraces++;
+      } else if (char === '}' && useBraces > 0) {
+        useBraces--;
+      } else if (parens === 0 && (char === '{' || char === '}' || char === ';')) {
+        flush(char);
+        continue;
+      }
+      if (char === '\n') {
+        line++;
+        current += ' ';
+        continue;
+      }
+      if (!startLine && char.trim()) {
+        startLine = line;
+      }
+      current += char;
+    }
+    flush('');
+    return chunks;
+  }
+
+  /**
+   * 去掉泛型参数 <...>（忽略 -> 中的 >）
+   */
+  private stripGenerics(value: string): string {
+    let result = '';
+    let depth = 0;
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      if (char === '<') {
+        depth++;
+      } else if (char === '>' && value[i - 1] !== '-' && depth > 0) {
+        depth--;
+      } else if (depth === 0) {
+        result += char;
+      }
+    }
+    return result;
+  }
+
+  private findClosingAngle(value: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < value.length; i++) {
+      if (value[i] === '<') {
+        depth++;
+      } else if (value[i] === '>' && value[i - 1] !== '-' && --depth === 0) {
+        return i;
+      }
+    }
+    return value.length;
+  }
+
+  private findClosing(value: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < value.length; i++) {
+      if ('([{'.includes(value[i])) {
+        depth++;
+      } else if (')]}'.includes(value[i]) && --depth === 0) {
+        return i;
+      }
+    }
+    return value.length;
+  }
+
+  /**
+   * 按逗号切分（忽略括号和尖括号内的逗号）
+   */
+  private splitTopLevel(value: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      if ('(<[{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char) || (char === '>' && value[i - 1] !== '-')) {
+        depth--;
+      }
+      if (char === ',' && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(Boolean);
+  }
+
+  private isWorkspacePath(filePath: string): boolean {
+    const relative = path.relative(this.workspaceRoot, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+}
@@ -0,0 +1,584 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import * as fs from 'fs';
+import { EntityType, RelationVerb } from '../../utils/types';
+import {
+  ExportInfo,
+  ExtractedRelation,
+  ExtractedSymbol,
+  FileAnalysisResult,
+  ImportInfo,
+} from './types';
+import { addCallSite } from './callSites';
+
+/** 没有 tsconfig.json / jsconfig.json 时使用的编译选项 */
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  jsx: ts.JsxEmit.Preserve,
+  allowJs: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+/** 编译器 API 能处理的文件 */
+const SOURCE_FILE_PATTERN = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+
+/** @Module 装饰器中记录依赖的属性 */
+const MODULE_DECORATOR_PROPS = ['imports', 'controllers', 'providers', 'exports'];
+
+/**
+ * 提取的符号及其所有声明（函数重载、接口合并时有多个声明）
+ */
+interface DeclaredSymbol {
+  symbol: ExtractedSymbol;
+  declarations: ts.Node[];
+  /** 类或接口的方法，名称为 类名.方法名 */
+  className?: string;
+}
+
+/**
+ * 基于 TypeScript 编译器 API 的分析器
+ * 使用项目的 tsconfig.json（或 jsconfig.json）创建程序，通过类型检查器把引用解析到真正的声明，
+ * 包括导入别名、paths 映射和重新导出；符号范围来自语法树，能正确处理多行签名、重载和嵌套类
+ */
+export class TypeScriptAnalyzer {
+  private program: ts.Program | undefined;
+  private checker: ts.TypeChecker | undefined;
+  private results: Map<string, FileAnalysisResult> = new Map();
+  /** 解析过的源文件，文件未修改时在新程序中复用 */
+  private sourceFiles: Map<string, { version: string; sourceFile: ts.SourceFile }> = new Map();
+
+  constructor(private workspaceRoot: string) {}
+
+  /**
+   * 编译器 API 能否处理该文件
+   */
+  public static supports(filePath: string): boolean {
+    return SOURCE_FILE_PATTERN.test(filePath) && !filePath.endsWith('.d.ts');
+  }
+
+  /**
+   * 以给定文件（绝对路径）为根重新创建程序，导入的文件会自动加入
+   */
+  public update(files: string[]): void {
+    const options = this.loadCompilerOptions();
+    this.program = ts.createProgram({
+      rootNames: files.filter(file => TypeScriptAnalyzer.supports(file)),
+      options,
+      host: this.createCompilerHost(options),
+      oldProgram: this.program,
+    });
+    this.checker = this.program.getTypeChecker();
+    this.results.clear();
+  }
+
+  /**
+   * 分析文件；文件不在程序中（如未启用 allowJs 的 JS 文件）时返回 null
+   */
+  public analyzeFile(filePath: string): FileAnalysisResult | null {
+    const sourceFile = this.program?.getSourceFile(filePath);
+    if (!sourceFile || !this.checker) {
+      return null;
+    }
+
+    const relativePath = path.relative(this.workspaceRoot, filePath);
+    const cached = this.results.get(relativePath);
+    if (cached) {
+      return cached;
+    }
+
+    const declared = this.extractSymbols(sourceFile, relativePath);
+    const relations: ExtractedRelation[] = [];
+    for (const { symbol, declarations, className } of declared) {
+      if (className) {
+        relations.push({
+          sourceName: className,
+          sourceFilePath: relativePath,
+          targetName: symbol.name,
+          targetFilePath: relativePath,
+          verb: 'contains',
+          resolved: true,
+        });
+        continue;
+      }
+      this.extractHeritage(symbol, declarations, relations);
+      this.extractUses(symbol, declarations, relations);
+    }
+    this.extractCalls(sourceFile, relativePath, relations);
+
+    const imports = this.extractImports(sourceFile);
+    this.createImportRelations(sourceFile, relativePath, relations);
+
+    const result: FileAnalysisResult = {
+      filePath: relativePath,
+      symbols: declared.map(item => item.symbol),
+      relations,
+      imports,
+      exports: this.extractExports(sourceFile),
+    };
+    this.results.set(relativePath, result);
+    return result;
+  }
+
+  /**
+   * 读取项目的编译选项；不生成输出
+   */
+  private loadCompilerOptions(): ts.CompilerOptions {
+    const configPath = ['tsconfig.json', 'jsconfig.json']
+      .map(name => path.join(this.workspaceRoot, name))
+      .find(file => fs.existsSync(file));
+    if (!configPath) {
+      return DEFAULT_COMPILER_OPTIONS;
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      console.error(`Failed to read ${configPath}:`, ts.flattenDiagnosticMessageText(error.messageText, '\n'));
+      return DEFAULT_COMPILER_OPTIONS;
+    }
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath);
+    // jsconfig.json 默认允许 JS
+    const allowJs = parsed.options.allowJs ?? path.basename(configPath) === 'jsconfig.json';
+    return { ...parsed.options, allowJs, noEmit: true };
+  }
+
+  /**
+   * 编译器宿主：文件的修改时间和大小不变时复用之前解析的源文件
+   */
+  private createCompilerHost(options: ts.CompilerOptions): ts.CompilerHost {
+    const host = ts.createCompilerHost(options, true);
+    const getSourceFile = host.getSourceFile;
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+      let version: string | undefined;
+      try {
+        const stat = fs.statSync(fileName);
+        version = `${stat.mtimeMs}:${stat.size}`;
+      } catch {
+        version = undefined;
+      }
+
+      const cached = this.sourceFiles.get(fileName);
+      if (version && cached?.version === version && !shouldCreateNewSourceFile) {
+        return cached.sourceFile;
+      }
+      const sourceFile = getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+      if (sourceFile && version) {
+        this.sourceFiles.set(fileName, { version, sourceFile });
+      }
+      return sourceFile;
+    };
+    return host;
+  }
+
+  /**
+   * 提取文件中的符号：顶层（含命名空间中）的函数、接口、导出变量，任意位置的命名类，以及类和接口的方法
+   * 同名同类型的多个声明（重载、声明合并、get/set 访问器）合并为一个符号
+   */
+  private extractSymbols(sourceFile: ts.SourceFile, relativePath: string): DeclaredSymbol[] {
+    const declared = new Map<string, DeclaredSymbol>();
+
+    const visit = (node: ts.Node) => {
+      const member = this.classifyMember(node);
+      const info = member ? { name: member.name, type: 'function' as const } : this.classify(node);
+      if (info) {
+        const { start, end } = this.getLineRange(node, sourceFile);
+        const key = `${info.type}:${info.name}`;
+        const existing = declared.get(key);
+        if (existing) {
+          existing.symbol.startLine = Math.min(existing.symbol.startLine, start);
+          existing.symbol.endLine = Math.max(existing.symbol.endLine, end);
+          existing.declarations.push(node);
+        } else {
+          declared.set(key, {
+            symbol: {
+              name: info.name,
+              type: info.type,
+              filePath: relativePath,
+              startLine: start,
+              endLine: end,
+              description: this.getDocumentation(node),
+              ...(member ? { metadata: { method: true, className: member.className } } : {}),
+            },
+            declarations: [node],
+            className: member?.className,
+          });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return [...declared.values()];
+  }
+
+  /**
+   * 判断声明是否作为实体提取，返回实体名称和类型
+   */
+  private classify(node: ts.Node): { name: string; type: EntityType } | undefined {
+    if ((ts.isClassDeclaration(node) || ts.isClassExpression(node)) && node.name) {
+      return { name: node.name.text, type: 'class' };
+    }
+    if (ts.isFunctionDeclaration(node) && node.name && this.isContainerLevel(node)) {
+      return { name: node.name.text, type: 'function' };
+    }
+    if (ts.isInterfaceDeclaration(node) && this.isContainerLevel(node)) {
+      return { name: node.name.text, type: 'interface' };
+    }
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+      const statement = node.parent?.parent;
+      if (!statement || !ts.isVariableStatement(statement) || !this.isContainerLevel(statement)) {
+        return undefined;
+      }
+      const initializer = node.initializer && this.skipParentheses(node.initializer);
+      if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+        return { name: node.name.text, type: 'function' };
+      }
+      // 命名的类表达式作为类提取，匿名的按变量名提取
+      if (initializer && ts.isClassExpression(initializer)) {
+        return initializer.name ? undefined : { name: node.name.text, type: 'class' };
+      }
+      const exported = statement.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+      return exported ? { name: node.name.text, type: 'variable' } : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * 判断类或接口的成员是否作为方法实体提取（方法、构造函数、访问器、函数类型的属性），返回 类名.方法名
+   */
+  private classifyMember(node: ts.Node): { name: string; className: string } | undefined {
+    if (!this.isMember(node)) {
+      return undefined;
+    }
+    const initializer = ts.isPropertyDeclaration(node) && node.initializer && this.skipParentheses(node.initializer);
+    const callable = ts.isMethodDeclaration(node) || ts.isMethodSignature(node) || ts.isConstructorDeclaration(node)
+      || ts.isGetAccessor(node) || ts.isSetAccessor(node)
+      || (!!initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)));
+    // 匿名类表达式按变量名提取
+    const owner = this.classify(node.parent)
+      || (ts.isClassExpression(node.parent) && !node.parent.name ? this.classify(node.parent.parent) : undefined);
+    if (!callable || !owner) {
+      return undefined;
+    }
+    return { name: `${owner.name}.${this.getMemberName(node, node.getSourceFile())}`, className: owner.name };
+  }
+
+  /**
+   * 声明是否位于文件顶层或命名空间中
+   */
+  private isContainerLevel(node: ts.Node): boolean {
+    return !!node.parent && (ts.isSourceFile(node.parent) || ts.isModuleBlock(node.parent));
+  }
+
+  private skipParentheses(node: ts.Expression): ts.Expression {
+    while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+      node = node.expression;
+    }
+    return node;
+  }
+
+  /**
+   * 声明的行范围（从 1 开始，包含装饰器和修饰符，不包含前导注释）
+   * 变量声明使用整条语句的起始行
+   */
+  private getLineRange(node: ts.Node, sourceFile: ts.SourceFile): { start: number; end: number } {
+    const startNode = ts.isVariableDeclaration(node) ? node.parent.parent : node;
+    return {
+      start: sourceFile.getLineAndCharacterOfPosition(startNode.getStart(sourceFile)).line + 1,
+      end: sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+    };
+  }
+
+  private getDocumentation(node: ts.Node): string | undefined {
+    const name = (node as ts.NamedDeclaration).name;
+    const symbol = name && this.checker!.getSymbolAtLocation(name);
+    const documentation = symbol ? ts.displayPartsToString(symbol.getDocumentationComment(this.checker)).trim() : '';
+    return documentation || undefined;
+  }
+
+  /**
+   * 继承和实现关系：extends / implements 子句中的类型解析到真正的声明
+   */
+  private extractHeritage(symbol: ExtractedSymbol, declarations: ts.Node[], relations: ExtractedRelation[]): void {
+    for (const node of declarations) {
+      // const Foo = class extends Base {}
+      const declaration = ts.isVariableDeclaration(node) && node.initializer ? this.skipParentheses(node.initializer) : node;
+      if (!ts.isClassLike(declaration) && !ts.isInterfaceDeclaration(declaration)) {
+        continue;
+      }
+      for (const clause of declaration.heritageClauses || []) {
+        const verb: RelationVerb = clause.token === ts.SyntaxKind.ImplementsKeyword ? 'implements' : 'extends';
+        for (const type of clause.types) {
+          const target = this.resolveTarget(type.expression);
+          if (target) {
+            relations.push({
+              sourceName: symbol.name,
+              sourceFilePath: symbol.filePath,
+              targetName: target.name,
+              targetFilePath: target.filePath,
+              verb,
+              resolved: true,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * 使用关系：声明中引用的工作区内的类和接口（类型注解、泛型参数、new、静态访问、装饰器参数等）
+   * @Module 装饰器数组中的依赖记录来源属性
+   */
+  private extractUses(symbol: ExtractedSymbol, declarations: ts.Node[], relations: ExtractedRelation[]): void {
+    const added = new Set<string>();
+    const addUse = (node: ts.Node, metadata?: Record<string, string>) => {
+      const target = this.resolveTarget(node);
+      if (!target || (target.type !== 'class' && target.type !== 'interface')) {
+        return;
+      }
+      const key = `${target.filePath}::${target.name}`;
+      if (added.has(key) || (target.name === symbol.name && target.filePath === symbol.filePath)) {
+        return;
+      }
+      added.add(key);
+      relations.push({
+        sourceName: symbol.name,
+        sourceFilePath: symbol.filePath,
+        targetName: target.name,
+        targetFilePath: target.filePath,
+        verb: 'uses',
+        metadata,
+        resolved: true,
+      });
+    };
+
+    for (const declaration of declarations) {
+      if (ts.isClassLike(declaration)) {
+        for (const { prop, element } of this.getModuleDecoratorDependencies(declaration)) {
+          addUse(element, { decoratorProp: prop });
+        }
+      }
+
+      const visit = (node: ts.Node) => {
+        if (ts.isHeritageClause(node)) {
+          return;
+        }
+        if (ts.isIdentifier(node) && node !== (declaration as ts.NamedDeclaration).name) {
+          addUse(node);
+        }
+        ts.forEachChild(node, visit);
+      };
+      ts.forEachChild(declaration, visit);
+    }
+  }
+
+  /**
+   * 调用关系：函数和方法中的调用（包括通过注入字段的 this.dep.method()）解析到被调用的函数或方法
+   * 调用方是包含调用的最内层函数或方法实体（方法之外的调用属于类），同一对实体之间的调用合并为一条关系，记录次数和调用行
+   */
+  private extractCalls(sourceFile: ts.SourceFile, relativePath: string, relations: ExtractedRelation[]): void {
+    const visit = (node: ts.Node, caller: string | undefined) => {
+      caller = (this.classifyMember(node) || this.classify(node))?.name ?? caller;
+
+      if (caller && ts.isCallExpression(node)) {
+        const target = this.resolveCallTarget(node);
+        if (target) {
+          // 链式调用跨行时取方法名所在的行
+          const position = ts.isPropertyAccessExpression(node.expression) ? node.expression.name : node;
+          addCallSite(
+            relations,
+            { name: caller, filePath: relativePath },
+            { name: target.name, filePath: target.filePath, resolved: true },
+            sourceFile.getLineAndCharacterOfPosition(position.getStart(sourceFile)).line + 1
+          );
+        }
+      }
+
+      ts.forEachChild(node, child => visit(child, caller));
+    };
+    visit(sourceFile, undefined);
+  }
+
+  /**
+   * 被调用的声明所属的函数或方法实体（方法记为 类名.方法名）；函数类型的属性等不作为实体的成员属于所在的类
+   */
+  private resolveCallTarget(call: ts.CallExpression): { name: string; filePath: string } | undefined {
+    let declaration: ts.Node | undefined = this.checker!.getResolvedSignature(call)?.declaration;
+    if (!declaration || ts.isJSDocSignature(declaration)) {
+      // 未标注类型的 JS 调用没有签名，按被调用的名称解析
+      const expression = ts.isPropertyAccessExpression(call.expression) ? call.expression.name : call.expression;
+      let symbol = this.checker!.getSymbolAtLocation(expression);
+      if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+        symbol = this.checker!.getAliasedSymbol(symbol);
+      }
+      declaration = symbol?.declarations?.[0];
+    }
+
+    for (let node = declaration; node; node = node.parent) {
+      const info = this.classifyMember(node) || this.classify(node);
+      if (info) {
+        const filePath = this.getWorkspacePath(node.getSourceFile());
+        return filePath ? { name: info.name, filePath } : undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 类或接口的成员（方法、构造函数、访问器、属性）
+   */
+  private isMember(node: ts.Node): node is ts.ClassElement | ts.TypeElement {
+    return !!node.parent
+      && ((ts.isClassElement(node) && ts.isClassLike(node.parent))
+        || (ts.isTypeElement(node) && ts.isInterfaceDeclaration(node.parent)));
+  }
+
+  private getMemberName(node: ts.ClassElement | ts.TypeElement, sourceFile: ts.SourceFile): string {
+    if (ts.isConstructorDeclaration(node) || ts.isConstructSignatureDeclaration(node)) {
+      return 'constructor';
+    }
+    return node.name ? node.name.getText(sourceFile) : '';
+  }
+
+  /**
+   * NestJS @Module({ imports: [...], providers: [...] }) 中列出的标识符
+   */
+  private getModuleDecoratorDependencies(declaration: ts.ClassLikeDeclaration): Array<{ prop: string; element: ts.Identifier }> {
+    const dependencies: Array<{ prop: string; element: ts.Identifier }> = [];
+    for (const decorator of ts.canHaveDecorators(declaration) ? ts.getDecorators(declaration) || [] : []) {
+      const call = decorator.expression;
+      if (!ts.isCallExpression(call) || !ts.isIdentifier(call.expression) || call.expression.text !== 'Module') {
+        continue;
+      }
+      const options = call.arguments[0];
+      if (!options || !ts.isObjectLiteralExpression(options)) {
+        continue;
+      }
+      for (const property of options.properties) {
+        if (ts.isPropertyAssignment(property) && ts.isIdentifier(property.name)
+          && MODULE_DECORATOR_PROPS.includes(property.name.text) && ts.isArrayLiteralExpression(property.initializer)) {
+          property.initializer.elements
+            .filter(ts.isIdentifier)
+            .forEach(element => dependencies.push({ prop: (property.name as ts.Identifier).text, element }));
+        }
+      }
+    }
+    return dependencies;
+  }
+
+  /**
+   * 把引用解析到工作区中作为实体提取的声明（经过导入别名、paths 映射和重新导出）
+   * 外部库、声明文件和局部变量返回 undefined
+   */
+  private resolveTarget(node: ts.Node): { name: string; type: EntityType; filePath: string } | undefined {
+    let symbol = this.checker!.getSymbolAtLocation(node);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = this.checker!.getAliasedSymbol(symbol);
+    }
+
+    for (const declaration of symbol?.declarations || []) {
+      const info = this.classify(declaration);
+      const filePath = info && this.getWorkspacePath(declaration.getSourceFile());
+      if (info && filePath) {
+        return { ...info, filePath };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 工作区中源文件的相对路径；外部库和声明文件返回 undefined
+   */
+  private getWorkspacePath(sourceFile: ts.SourceFile): string | undefined {
+    if (sourceFile.isDeclarationFile || this.program!.isSourceFileFromExternalLibrary(sourceFile)) {
+      return undefined;
+    }
+    const relativePath = path.relative(this.workspaceRoot, sourceFile.fileName);
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)
+      || relativePath.split(/[\\/]/).includes('node_modules')) {
+      return undefined;
+    }
+    return relativePath;
+  }
+
+  private extractImports(sourceFile: ts.SourceFile): ImportInfo[] {
+    const imports: ImportInfo[] = [];
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+        continue;
+      }
+      const clause = statement.importClause;
+      const bindings = clause?.namedBindings;
+      const importedNames = [
+        ...(clause?.name ? [clause.name.text] : []),
+        ...(bindings && ts.isNamespaceImport(bindings) ? [bindings.name.text] : []),
+        ...(bindings && ts.isNamedImports(bindings)
+          ? bindings.elements.map(element => (element.propertyName || element.name).text)
+          : []),
+      ];
+      imports.push({
+        moduleName: statement.moduleSpecifier.text,
+        importedNames,
+        isDefault: !!clause?.name,
+        isNamespace: !!bindings && ts.isNamespaceImport(bindings),
+        line: sourceFile.getLineAndCharacterOfPosition(statement.getStart(sourceFile)).line + 1,
+      });
+    }
+    return imports;
+  }
+
+  /**
+   * 文件级别的导入关系，目标解析到真正声明所在的文件
+   */
+  private createImportRelations(sourceFile: ts.SourceFile, relativePath: string, relations: ExtractedRelation[]): void {
+    for (const statement of sourceFile.statements) {
+      const clause = ts.isImportDeclaration(statement) ? statement.importClause : undefined;
+      if (!clause || clause.isTypeOnly) {
+        continue;
+      }
+      const bindings = clause.namedBindings;
+      const names: ts.Identifier[] = [
+        ...(clause.name ? [clause.name] : []),
+        ...(bindings && ts.isNamedImports(bindings) ? bindings.elements.map(element => element.name) : []),
+      ];
+      for (const name of names) {
+        const target = this.resolveTarget(name);
+        if (target) {
+          relations.push({
+            sourceName: relativePath,
+            sourceFilePath: relativePath,
+            targetName: target.name,
+            targetFilePath: target.filePath,
+            verb: 'imports',
+            resolved: true,
+          });
+        }
+      }
+    }
+  }
+
+  private extractExports(sourceFile: ts.SourceFile): ExportInfo[] {
+    const moduleSymbol = this.checker!.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) {
+      return [];
+    }
+
+    // export * 转发的符号没有本文件中的声明，不列出
+    return this.checker!.getExportsOfModule(moduleSymbol).flatMap(symbol => {
+      const declaration = symbol.declarations?.find(item => item.getSourceFile() === sourceFile);
+      if (!declaration) {
+        return [];
+      }
+      const target = symbol.flags & ts.SymbolFlags.Alias ? this.checker!.getAliasedSymbol(symbol) : symbol;
+      return [{
+        exportedName: symbol.name,
+        localName: target.name !== symbol.name ? target.name : undefined,
+        isDefault: symbol.name === 'default',
+        line: sourceFile.getLineAndCharacterOfPosition(declaration.getStart(sourceFile)).line + 1,
+      }];
+    });
+  }
+}
@@ -90,6 +90,24 @@ export interface AnalysisError {
   line?: number;
 }
 
+/**
+ * 语言分析器从路由注解 / 装饰器中识别的 HTTP 路由，记录在方法实体的 metadata.routes 中
+ */
+export interface HttpRoute {
+  method: string;
+  path: string;
+}
+
+/**
+ * 语言分析器：把一个源文件分析为符号和关系
+ */
+export interface LanguageAnalyzer {
+  /** 是否处理该文件（绝对路径） */
+  supports(filePath: string): boolean;
+  /** 分析文件，无法读取时返回 null */
+  analyzeFile(filePath: string): FileAnalysisResult | null;
+}
+
 /**
  * 分析进度回调
  */
@@ -135,6 +153,18 @@ export interface ExtractedRelation {
   targetFilePath?: string;  // 可能是外部依赖
   verb: RelationVerb;
   metadata?: Record<string, any>;
+  /** 目标已由类型检查器解析到 targetFilePath，在该文件中找不到时不再按名称查找 */
+  resolved?: boolean;
+}
+
+/**
+ * calls 关系的 metadata：同一对函数或方法（类名.方法名）之间的所有调用
+ */
+export interface CallRelationMetadata {
+  /** 调用次数 */
+  count: number;
+  /** 调用所在的行（去重、升序） */
+  lines: number[];
 }
 
 /**
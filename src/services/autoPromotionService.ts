@@ -0,0 +1,211 @@
+import { DatabaseService } from './database';
+import { EntityService } from './entityService';
+import { RelationService } from './relationService';
+import { HistoryService } from './historyService';
+import { AutoEntity, AutoGraphService, AutoRelation } from './autoGraph';
+import { Entity } from '../utils/types';
+
+/**
+ * 提升结果
+ */
+export interface PromotionResult {
+  /** 新建的手动实体 */
+  created: Entity[];
+  /** 已经提升过，或同一文件中已有同名手动实体而直接关联的实体 */
+  linked: Entity[];
+  /** 其他文件中已有同名手动实体而跳过的自动实体 */
+  conflicts: AutoEntity[];
+  /** 新建的手动关系数 */
+  relations: number;
+}
+
+/**
+ * 读取手动实体关联的自动实体键（AutoGraphService.generateEntityKey），保存在 entity.metadata.autoEntityKey 中
+ */
+export function getAutoEntityKey(entity: Pick<Entity, 'metadata'>): string | undefined {
+  const key = entity.metadata?.autoEntityKey;
+  return typeof key === 'string' ? key : undefined;
+}
+
+/**
+ * 自动实体 ID → 提升后的手动实体 ID（合并视图中用手动实体代替自动实体）
+ */
+export function mapPromotedAutoEntities(manualEntities: Entity[], autoEntities: AutoEntity[]): Map<string, string> {
+  const byKey = new Map<string, string>();
+  manualEntities.forEach(entity => {
+    const key = getAutoEntityKey(entity);
+    if (key) {
+      byKey.set(key, entity.id);
+    }
+  });
+
+  const promoted = new Map<string, string>();
+  for (const entity of autoEntities) {
+    const manualId = byKey.get(AutoGraphService.generateEntityKey(entity.name, entity.type, entity.filePath));
+    if (manualId) {
+      promoted.set(entity.id, manualId);
+    }
+  }
+  return promoted;
+}
+
+/**
+ * 把自动图谱的实体和关系提升到手动图谱
+ * 提升后的实体记住对应的自动实体键，之后重新分析时跟随代码更新位置，而不是再生成一个重复的实体
+ */
+export class AutoPromotionService {
+  constructor(
+    private dbService: DatabaseService,
+    private entityService: EntityService,
+    private relationService: RelationService,
+    private autoGraphService: AutoGraphService,
+    private history?: HistoryService
+  ) {}
+
+  /**
+   * 提升自动实体和自动关系（关系两端的实体一并提升）
+   * 自动实体之间（以及与已提升实体之间）的关系也会提升；整体作为一次修改（可以一次撤销）
+   */
+  public promote(autoEntityIds: string[], autoRelationIds: string[] = []): PromotionResult {
+    const relations = [...new Set(autoRelationIds)]
+      .map(id => this.autoGraphService.getRelation(id))
+      .filter((relation): relation is AutoRelation => !!relation);
+    const entityIds = [
+      ...autoEntityIds,
+      ...relations.flatMap(relation => [relation.sourceEntityId, relation.targetEntityId]),
+    ];
+    const autoEntities = [...new Set(entityIds)]
+      .map(id => this.autoGraphService.getEntity(id))
+      .filter((entity): entity is AutoEntity => !!entity);
+    const candidates = [...relations, ...autoEntities.flatMap(entity => this.autoGraphService.getRelationsByEntity(entity.id))]
+      .filter((relation, index, all) => all.findIndex(other => other.id === relation.id) === index);
+    return this.apply(autoEntities, candidates);
+  }
+
+  /**
+   * 提升文件或目录（相对路径）中的所有自动实体
+   */
+  public promotePath(relativePath: string): PromotionResult {
+    return this.promote(this.getEntitiesInPath(relativePath).map(entity => entity.id));
+  }
+
+  /**
+   * 文件或目录（相对路径）中的自动实体
+   */
+  public getEntitiesInPath(relativePath: string): AutoEntity[] {
+    const normalize = (value: string) => value.replace(/\\/g, '/').replace(/\/+$/, '');
+    const prefix = normalize(relativePath);
+    return this.autoGraphService.listEntities().filter(entity => {
+      const filePath = normalize(entity.filePath);
+      return !prefix || filePath === prefix || filePath.startsWith(`${prefix}/`);
+    });
+  }
+
+  /**
+   * 自动实体对应的手动实体（没有提升过时返回 null）
+   */
+  public getPromotedEntity(autoEntity: AutoEntity): Entity | null {
+    const key = AutoGraphService.generateEntityKey(autoEntity.name, autoEntity.type, autoEntity.filePath);
+    return this.entityService.listEntities().find(entity => getAutoEntityKey(entity) === key) || null;
+  }
+
+  /**
+   * 分析完成后，让提升的实体跟随对应自动实体的新位置，返回更新的数量
+   * 自动实体已不存在（代码被删除或改名）时保留手动实体不变
+   */
+  public syncPromotedEntities(): number {
+    const promoted = this.entityService.listEntities().filter(entity => getAutoEntityKey(entity));
+    if (promoted.length === 0) {
+      return 0;
+    }
+
+    const autoEntities = this.autoGraphService.getAllEntitiesMap();
+    const moved = promoted
+      .map(entity => ({ entity, auto: autoEntities.get(getAutoEntityKey(entity)!) }))
+      .filter(({ entity, auto }) => auto && (
+        auto.filePath !== entity.filePath || auto.startLine !== entity.startLine || auto.endLine !== entity.endLine
+      ));
+    if (moved.length > 0) {
+      this.dbService.transaction(() => {
+        moved.forEach(({ entity, auto }) => this.entityService.updateLocation(entity.id, auto!));
+      });
+    }
+    return moved.length;
+  }
+
+  /**
+   * 提升实体，再提升两端都已提升的关系
+   */
+  private apply(autoEntities: AutoEntity[], autoRelations: AutoRelation[]): PromotionResult {
+    const result: PromotionResult = { created: [], linked: [], conflicts: [], relations: 0 };
+    if (autoEntities.length === 0) {
+      return result;
+    }
+
+    const promote = () => {
+      const manualEntities = this.entityService.listEntities();
+      const byKey = new Map<string, Entity>();
+      manualEntities.forEach(entity => {
+        const key = getAutoEntityKey(entity);
+        if (key) {
+          byKey.set(key, entity);
+        }
+      });
+
+      const manualIds = new Map<string, string>();
+      for (const auto of autoEntities) {
+        const key = AutoGraphService.generateEntityKey(auto.name, auto.type, auto.filePath);
+        let entity = byKey.get(key);
+        if (entity) {
+          result.linked.push(entity);
+        } else {
+          // 手动实体名称唯一：同一文件中的同名实体视为同一个，关联起来；其他文件中的同名实体视为冲突
+          const sameName = manualEntities.find(manual => manual.name === auto.name);
+          if (sameName && (sameName.filePath !== auto.filePath || getAutoEntityKey(sameName))) {
+            result.conflicts.push(auto);
+            continue;
+          }
+          if (sameName) {
+            entity = this.entityService.updateEntity(sameName.id, {
+              metadata: { ...sameName.metadata, autoEntityKey: key },
+            })!;
+            result.linked.push(entity);
+          } else {
+            entity = this.entityService.createEntity(
+              auto.name,
+              auto.type,
+              { filePath: auto.filePath, startLine: auto.startLine, endLine: auto.endLine },
+              auto.description,
+              { autoEntityKey: key }
+            );
+            manualEntities.push(entity);
+            result.created.push(entity);
+          }
+          byKey.set(key, entity);
+        }
+        manualIds.set(auto.id, entity.id);
+      }
+
+      // 另一端是此前已提升的实体时也建立关系
+      const resolve = (autoId: string) => {
+        if (manualIds.has(autoId)) {
+          return manualIds.get(autoId);
+        }
+        const auto = this.autoGraphService.getEntity(autoId);
+        return auto ? byKey.get(AutoGraphService.generateEntityKey(auto.name, auto.type, auto.filePath))?.id : undefined;
+      };
+      for (const relation of autoRelations) {
+        const sourceId = resolve(relation.sourceEntityId);
+        const targetId = resolve(relation.targetEntityId);
+        if (sourceId && targetId && sourceId !== targetId
+          && !this.relationService.relationExists(sourceId, targetId, relation.verb)) {
+          this.relationService.addRelation(sourceId, targetId, relation.verb, relation.metadata);
+          result.relations++;
+        }
+      }
+    };
+
+    this.dbService.transaction(() => this.history ? this.history.group(promote) : promote());
+    return result;
+  }
+}
@@ -0,0 +1,185 @@
+import { DatabaseService } from './database';
+import { EntityService } from './entityService';
+import { RelationService } from './relationService';
+import { ObservationService } from './observationService';
+import { HistoryService } from './historyService';
+import { Observation, ObservationFields, RelationVerb } from '../utils/types';
+import { normalizeTags } from '../../packages/mcp-server/src/schema/observationFields';
+
+/**
+ * 批量删除的对象
+ */
+export interface BulkDeleteTargets {
+  entityIds?: string[];
+  relationIds?: string[];
+  crossFolderRelationIds?: string[];
+  observationIds?: string[];
+}
+
+/**
+ * 批量删除结果（不包含随实体一起删除的观察记录和关系）
+ */
+export interface BulkDeleteResult {
+  entities: number;
+  relations: number;
+  observations: number;
+}
+
+/**
+ * 批量连接的目标实体，targetFolder 表示目标位于其他工作区文件夹
+ */
+export interface BulkLinkTarget {
+  entityId: string;
+  targetFolder?: string;
+}
+
+/**
+ * 批量连接结果
+ */
+export interface BulkLinkResult {
+  created: number;
+  /** 关系已存在或源实体就是目标而跳过的数量 */
+  skipped: number;
+}
+
+/**
+ * 树视图多选时的批量操作
+ * 每个操作整体作为一次修改（可以一次撤销）
+ */
+export class BulkOperationService {
+  constructor(
+    private dbService: DatabaseService,
+    private entityService: EntityService,
+    private relationService: RelationService,
+    private observationService: ObservationService,
+    private history?: HistoryService
+  ) {}
+
+  /**
+   * 批量删除实体、关系和观察记录
+   * 所属实体也被删除的观察记录和关系会随实体一起删除，不再单独处理
+   */
+  public deleteItems(targets: BulkDeleteTargets): BulkDeleteResult {
+    const entityIds = new Set(targets.entityIds || []);
+    const result: BulkDeleteResult = { entities: 0, relations: 0, observations: 0 };
+
+    this.run(() => {
+      for (const id of new Set(targets.observationIds || [])) {
+        const observation = this.observationService.getObservation(id);
+        if (observation && !entityIds.has(observation.entityId)) {
+          this.observationService.deleteObservation(id);
+          result.observations++;
+        }
+      }
+
+      for (const id of new Set(targets.relationIds || [])) {
+        const relation = this.relationService.getRelation(id);
+        if (relation && !entityIds.has(relation.sourceEntityId) && !entityIds.has(relation.targetEntityId)) {
+          this.relationService.removeRelation(id);
+          result.relations++;
+        }
+      }
+
+      const crossFolderIds = new Set(targets.crossFolderRelationIds || []);
+      if (crossFolderIds.size > 0) {
+        for (const relation of this.relationService.getCrossFolderRelations()) {
+          if (crossFolderIds.has(relation.id) && !entityIds.has(relation.sourceEntityId)) {
+            this.relationService.removeCrossFolderRelation(relation.id);
+            result.relations++;
+          }
+        }
+      }
+
+      for (const id of entityIds) {
+        if (this.entityService.getEntity(id) && this.entityService.deleteEntity(id)) {
+          result.entities++;
+        }
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * 批量修改实体类型，返回实际修改的数量
+   */
+  public retypeEntities(entityIds: string[], type: string): number {
+    let changed = 0;
+    this.run(() => {
+      for (const id of new Set(entityIds)) {
+        const entity = this.entityService.getEntity(id);
+        if (entity && entity.type !== type && this.entityService.updateEntity(id, { type })) {
+          changed++;
+        }
+      }
+    });
+    return changed;
+  }
+
+  /**
+   * 给观察记录追加标签（保留原有标签），返回实际修改的数量
+   */
+  public tagObservations(observationIds: string[], tags: string[]): number {
+    const added = normalizeTags(tags);
+    let changed = 0;
+    if (added.length === 0) {
+      return changed;
+    }
+
+    this.run(() => {
+      for (const id of new Set(observationIds)) {
+        const observation = this.observationService.getObservation(id);
+        if (!observation) {
+          continue;
+        }
+        const merged = normalizeTags([...(observation.tags || []), ...added]);
+        if (merged.length !== (observation.tags || []).length && this.observationService.setTags(id, merged)) {
+          changed++;
+        }
+      }
+    });
+    return changed;
+  }
+
+  /**
+   * 给多个实体添加同一条观察记录
+   */
+  public addObservation(entityIds: string[], content: string, fields: ObservationFields = {}): Observation[] {
+    const observations: Observation[] = [];
+    this.run(() => {
+      for (const id of new Set(entityIds)) {
+        observations.push(this.observationService.addObservation(id, content, fields));
+      }
+    });
+    return observations;
+  }
+
+  /**
+   * 把多个实体连接到同一个目标实体，已存在的关系会跳过
+   */
+  public linkEntities(sourceIds: string[], target: BulkLinkTarget, verb: RelationVerb): BulkLinkResult {
+    const result: BulkLinkResult = { created: 0, skipped: 0 };
+    this.run(() => {
+      for (const sourceId of new Set(sourceIds)) {
+        if (target.targetFolder) {
+          if (this.relationService.crossFolderRelationExists(sourceId, target.targetFolder, target.entityId, verb)) {
+            result.skipped++;
+          } else {
+            this.relationService.addCrossFolderRelation(sourceId, target.targetFolder, target.entityId, verb);
+            result.created++;
+          }
+        } else if (sourceId === target.entityId || this.relationService.relationExists(sourceId, target.entityId, verb)) {
+          result.skipped++;
+        } else {
+          this.relationService.addRelation(sourceId, target.entityId, verb);
+          result.created++;
+        }
+      }
+    });
+    return result;
+  }
+
+  private run(fn: () => void): void {
+    this.dbService.transaction(() => this.history ? this.history.group(fn) : fn());
+  }
+}
@@ -1,7 +1,29 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
+import * as crypto from 'crypto';
+import initSqlJs, { Database as SqlJsDatabase, SqlJsStatic } from 'sql.js';
+import { runMigrations } from '../../packages/mcp-server/src/schema/migrations';
+import { SEARCH_INDEX_QUERY, SearchIndexRow } from '../../packages/mcp-server/src/schema/fullTextSearch';
+
+/** 保留的快照数量上限 */
+const MAX_SNAPSHOTS = 20;
+
+/** 合并写盘的延迟（毫秒） */
+const SAVE_DEBOUNCE_MS = 1000;
+
+/** 自动快照的最小间隔（毫秒），保证崩溃后有近期可用的快照 */
+const AUTO_SNAPSHOT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 数据库快照信息
+ */
+export interface SnapshotInfo {
+  name: string;
+  path: string;
+  createdAt: number;
+  size: number;
+}
 
 /**
  * 数据库服务
@@ -10,6 +32,24 @@ import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
 export class DatabaseService {
   private db: SqlJsDatabase | null = null;
   private dbPath: string = '';
+  private sqlJs: SqlJsStatic | null = null;
+  private dirty = false;
+  private saveTimer: NodeJS.Timeout | null = null;
+  // 最近一次读取或写入的文件状态，用于识别外部修改
+  private lastKnownMtime = 0;
+  private lastKnownHash = '';
+  private reloadEmitter = new vscode.EventEmitter<void>();
+  private saveEmitter = new vscode.EventEmitter<void>();
+
+  /**
+   * 数据库内容被整体替换后触发（从磁盘重新加载、从快照恢复）
+   */
+  public readonly onDidReload = this.reloadEmitter.event;
+
+  /**
+   * 修改写入 graph.sqlite 后触发
+   */
+  public readonly onDidSave = this.saveEmitter.event;
 
   /**
    * 初始化数据库
@@ -33,11 +73,19 @@ export class DatabaseService {
           return require.resolve(`sql.js/dist/${file}`);
         }
       });
+      this.sqlJs = SQL;
 
       // 如果数据库文件存在，加载它；否则创建新的
+      let loadedFromDisk = false;
       if (fs.existsSync(this.dbPath)) {
         const buffer = fs.readFileSync(this.dbPath);
-        this.db = new SQL.Database(buffer);
+        this.db = this.tryOpen(buffer);
+        if (this.db) {
+          loadedFromDisk = true;
+          this.recordFileState(buffer);
+        } else {
+          this.db = this.recoverFromSnapshot();
+        }
       } else {
         this.db = new SQL.Database();
       }
@@ -48,6 +96,10 @@ export class DatabaseService {
       // 创建表结构
       this.createTables();
 
+      if (loadedFromDisk) {
+        this.ensureRecentSnapshot();
+      }
+
       console.log(`Database initialized at: ${this.dbPath}`);
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to initialize database: ${error}`);
@@ -57,134 +109,36 @@ export class DatabaseService {
 
   /**
    * 创建数据库表结构
+   * 表结构由与 MCP Server 共享的迁移脚本维护，按版本顺序执行未应用的迁移
    */
   private createTables(): void {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
-    // 创建 entities 表
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS entities (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL,
-        file_path TEXT NOT NULL,
-        start_line INTEGER NOT NULL,
-        end_line INTEGER NOT NULL,
-        description TEXT,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL,
-        metadata TEXT
-      )
-    `);
-
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(type)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_entities_file_path ON entities(file_path)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_entities_name ON entities(name)');
-
-    // 创建 relations 表
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS relations (
-        id TEXT PRIMARY KEY,
-        source_entity_id TEXT NOT NULL,
-        target_entity_id TEXT NOT NULL,
-        verb TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        metadata TEXT,
-        FOREIGN KEY (source_entity_id) REFERENCES entities(id) ON DELETE CASCADE,
-        FOREIGN KEY (target_entity_id) REFERENCES entities(id) ON DELETE CASCADE
-      )
-    `);
-
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_relations_source ON relations(source_entity_id)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_relations_target ON relations(target_entity_id)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_relations_verb ON relations(verb)');
-
-    // 创建 observations 表
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS observations (
-        id TEXT PRIMARY KEY,
-        entity_id TEXT NOT NULL,
-        content TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL,
-        FOREIGN KEY (entity_id) REFERENCES entities(id) ON DELETE CASCADE
-      )
-    `);
-
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_observations_entity ON observations(entity_id)');
-
-    // ============================================================
-    // 自动依赖图谱表（Auto Graph）- 与手动图谱完全隔离
-    // ============================================================
-
-    // 创建 auto_entities 表（自动生成的实体）
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS auto_entities (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL,
-        file_path TEXT NOT NULL,
-        start_line INTEGER NOT NULL,
-        end_line INTEGER NOT NULL,
-        description TEXT,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL,
-        metadata TEXT
-      )
-    `);
-
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_auto_entities_type ON auto_entities(type)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_auto_entities_file_path ON auto_entities(file_path)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_auto_entities_name ON auto_entities(name)');
-    // 为自动图谱添加唯一约束，防止重复（同一文件、同一名称、同一类型）
-    this.db.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_auto_entities_unique ON auto_entities(file_path, name, type, start_line)');
-
-    // 创建 auto_relations 表（自动生成的关系）
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS auto_relations (
-        id TEXT PRIMARY KEY,
-        source_entity_id TEXT NOT NULL,
-        target_entity_id TEXT NOT NULL,
-        verb TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        metadata TEXT,
-        FOREIGN KEY (source_entity_id) REFERENCES auto_entities(id) ON DELETE CASCADE,
-        FOREIGN KEY (target_entity_id) REFERENCES auto_entities(id) ON DELETE CASCADE
-      )
-    `);
-
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_auto_relations_source ON auto_relations(source_entity_id)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_auto_relations_target ON auto_relations(target_entity_id)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_auto_relations_verb ON auto_relations(verb)');
-    // 防止重复关系
-    this.db.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_auto_relations_unique ON auto_relations(source_entity_id, target_entity_id, verb)');
-
-    // 创建 auto_file_cache 表（文件分析缓存，用于增量分析）
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS auto_file_cache (
-        file_path TEXT PRIMARY KEY,
-        content_hash TEXT NOT NULL,
-        analyzed_at INTEGER NOT NULL
-      )
-    `);
-
-    // 创建 auto_observations 表（自动图谱的观察记录）
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS auto_observations (
-        id TEXT PRIMARY KEY,
-        entity_id TEXT NOT NULL,
-        content TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL,
-        FOREIGN KEY (entity_id) REFERENCES auto_entities(id) ON DELETE CASCADE
-      )
-    `);
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_auto_observations_entity ON auto_observations(entity_id)');
-
-    // 保存数据库到文件
-    this.save();
+    // 有迁移被应用时保存数据库到文件
+    if (this.migrate(this.db)) {
+      this.save();
+    }
+  }
+
+  /**
+   * 对指定数据库执行迁移，返回是否应用了新的迁移
+   */
+  private migrate(db: SqlJsDatabase): boolean {
+    const result = runMigrations({
+      exec: (sql) => db.exec(sql),
+      queryValue: (sql) => {
+        const rows = db.exec(sql);
+        return rows.length > 0 && rows[0].values.length > 0 ? rows[0].values[0][0] : null;
+      },
+    });
+
+    if (result.applied.length > 0) {
+      console.log(`Database schema migrated: v${result.fromVersion} -> v${result.toVersion}`);
+      return true;
+    }
+    return false;
   }
 
   /**
@@ -217,6 +171,220 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * 清空手动图谱（实体、关系、观察记录）
+   * 显式按依赖顺序删除，不依赖外键级联；删除未记入修改历史时（keepHistory 为 false），
+   * 之前的历史都不能再撤销 / 重做（undo_state 标记为 3 / 2）
+   */
+  public clearManualGraph(options: { keepHistory?: boolean } = {}): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    if (!options.keepHistory) {
+      this.db.run('UPDATE graph_history SET undo_state = CASE undo_state WHEN 0 THEN 3 ELSE 2 END WHERE undo_state IN (0, 1)');
+    }
+    this.db.run('DELETE FROM observations');
+    this.db.run('DELETE FROM cross_folder_relations');
+    this.db.run('DELETE FROM relations');
+    this.db.run('DELETE FROM entities');
+  }
+
+  /**
+   * 查询全文检索索引（matchQuery 由 buildMatchQuery 生成）
+   * 表达式无效时 sql.js 抛出异常，由调用方回退到 LIKE 搜索
+   */
+  public querySearchIndex(matchQuery: string, kind: 'entity' | 'observation'): SearchIndexRow[] {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const stmt = this.db.prepare(SEARCH_INDEX_QUERY);
+    const rows: SearchIndexRow[] = [];
+    try {
+      stmt.bind([matchQuery, kind]);
+      while (stmt.step()) {
+        rows.push(stmt.getAsObject() as unknown as SearchIndexRow);
+      }
+    } finally {
+      stmt.free();
+    }
+    return rows;
+  }
+
+  /**
+   * 清空自动图谱（包括自动图谱的观察记录和文件缓存）
+   */
+  public clearAutoGraph(): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    this.db.run('DELETE FROM auto_observations');
+    this.db.run('DELETE FROM auto_relations');
+    this.db.run('DELETE FROM auto_entities');
+    this.db.run('DELETE FROM auto_file_cache');
+  }
+
+  /**
+   * 清空 RAG 本地索引记录
+   * RAG 表由各 Provider 按需创建，因此只清理已存在的表
+   */
+  public clearRagIndex(): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    for (const table of ['local_rag_vectors', 'indexed_files']) {
+      if (this.tableExists(table)) {
+        this.db.run(`DELETE FROM ${table}`);
+      }
+    }
+    if (this.tableExists('rag_store_info')) {
+      this.db.run('UPDATE rag_store_info SET file_count = 0');
+    }
+  }
+
+  /**
+   * 检查表是否存在
+   */
+  public tableExists(tableName: string): boolean {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = this.db.exec(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+      [tableName]
+    );
+    return result.length > 0 && result[0].values.length > 0;
+  }
+
+  /**
+   * 创建带时间戳的数据库快照
+   * @param label 快照名称中的标签（如 clear / restore）
+   */
+  public createSnapshot(label: string): SnapshotInfo {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const snapshotDir = this.getSnapshotDir();
+    if (!fs.existsSync(snapshotDir)) {
+      fs.mkdirSync(snapshotDir, { recursive: true });
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const name = `graph-${timestamp}-${label}.sqlite`;
+    const snapshotPath = path.join(snapshotDir, name);
+
+    const buffer = Buffer.from(this.db.export());
+    this.db.run('PRAGMA foreign_keys = ON');
+    fs.writeFileSync(snapshotPath, buffer);
+
+    this.pruneSnapshots();
+
+    return {
+      name,
+      path: snapshotPath,
+      createdAt: Date.now(),
+      size: buffer.length,
+    };
+  }
+
+  /**
+   * 列出所有快照（按时间倒序）
+   */
+  public listSnapshots(): SnapshotInfo[] {
+    const snapshotDir = this.getSnapshotDir();
+    if (!fs.existsSync(snapshotDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(snapshotDir)
+      .filter(name => name.endsWith('.sqlite'))
+      .map(name => {
+        const snapshotPath = path.join(snapshotDir, name);
+        const stat = fs.statSync(snapshotPath);
+        return {
+          name,
+          path: snapshotPath,
+          createdAt: stat.mtimeMs,
+          size: stat.size,
+        };
+      })
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * 从快照恢复数据库
+   * 恢复前会自动为当前状态创建一个快照
+   */
+  public restoreSnapshot(snapshotPath: string): void {
+    if (!this.db || !this.sqlJs) {
+      throw new Error('Database not initialized');
+    }
+
+    const buffer = fs.readFileSync(snapshotPath);
+    // 先校验快照可以打开并迁移到当前版本，再替换当前数据库
+    const restored = new this.sqlJs.Database(buffer);
+    try {
+      this.migrate(restored);
+    } catch (error) {
+      restored.close();
+      throw error;
+    }
+
+    this.createSnapshot('before-restore');
+
+    this.db.close();
+    this.db = restored;
+    this.db.run('PRAGMA foreign_keys = ON');
+    this.dirty = true;
+    this.flush();
+    this.reloadEmitter.fire();
+  }
+
+  /**
+   * 打开另一个 graph.sqlite 文件（如合并时的 base/theirs），迁移到当前版本但不写回磁盘
+   * 调用方用完后需调用 close()
+   */
+  public openGraphFile(filePath: string): SqlJsDatabase {
+    if (!this.sqlJs) {
+      throw new Error('Database not initialized');
+    }
+
+    const db = new this.sqlJs.Database(fs.readFileSync(filePath));
+    try {
+      this.migrate(db);
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+    return db;
+  }
+
+  /**
+   * 获取快照目录
+   */
+  public getSnapshotDir(): string {
+    return path.join(path.dirname(this.dbPath), 'snapshots');
+  }
+
+  /**
+   * 删除超出上限的旧快照
+   */
+  private pruneSnapshots(): void {
+    const snapshots = this.listSnapshots();
+    for (const snapshot of snapshots.slice(MAX_SNAPSHOTS)) {
+      try {
+        fs.unlinkSync(snapshot.path);
+      } catch (error) {
+        console.warn('Failed to remove old snapshot:', snapshot.path, error);
+      }
+    }
+  }
+
   /**
    * 保存数据库到文件
    */
@@ -224,25 +392,217 @@ export class DatabaseService {
     if (!this.db) {
       return;
     }
-    
+
+    // 标记为脏数据，延迟合并写盘，避免每次事务都导出整个数据库
+    this.dirty = true;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      try {
+        this.flush();
+      } catch {
+        // flush 内部已记录错误，保持脏标记等待下次写盘
+      }
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  /**
+   * 立即将未保存的修改写入文件
+   * 先写入临时文件再原子重命名，避免写入中途崩溃导致文件被截断
+   */
+  public flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.db || !this.dirty) {
+      return;
+    }
+
+    const tempPath = `${this.dbPath}.tmp`;
     try {
-      const data = this.db.export();
-      const buffer = Buffer.from(data);
-      fs.writeFileSync(this.dbPath, buffer);
+      const buffer = Buffer.from(this.db.export());
+      // export 会重置连接状态，需要重新启用外键约束
+      this.db.run('PRAGMA foreign_keys = ON');
+
+      const fd = fs.openSync(tempPath, 'w');
+      try {
+        fs.writeSync(fd, buffer);
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tempPath, this.dbPath);
+      this.recordFileState(buffer);
+
+      this.dirty = false;
       console.log('Database saved successfully');
+      this.saveEmitter.fire();
     } catch (error) {
       console.error('Failed to save database:', error);
       throw error;
     }
   }
 
+  /**
+   * 是否有尚未写入文件的修改
+   */
+  public isDirty(): boolean {
+    return this.dirty;
+  }
+
+  /**
+   * 检查 graph.sqlite 是否被其他进程修改（另一个窗口、git checkout、MCP Server 等）
+   * 先比较 mtime，mtime 变化时再比较内容哈希
+   */
+  public hasExternalChanges(): boolean {
+    if (!this.db || !fs.existsSync(this.dbPath)) {
+      return false;
+    }
+
+    const stat = fs.statSync(this.dbPath);
+    if (stat.mtimeMs === this.lastKnownMtime) {
+      return false;
+    }
+
+    const hash = this.hashBuffer(fs.readFileSync(this.dbPath));
+    if (hash === this.lastKnownHash) {
+      this.lastKnownMtime = stat.mtimeMs;
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 从磁盘重新加载数据库，丢弃内存中尚未保存的修改
+   */
+  public reloadFromDisk(): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const buffer = fs.readFileSync(this.dbPath);
+    const reloaded = this.tryOpen(buffer);
+    if (!reloaded) {
+      throw new Error(`Database file is not a valid SQLite database: ${this.dbPath}`);
+    }
+
+    let migrated: boolean;
+    try {
+      migrated = this.migrate(reloaded);
+    } catch (error) {
+      reloaded.close();
+      throw error;
+    }
+
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.db.close();
+    this.db = reloaded;
+    this.db.run('PRAGMA foreign_keys = ON');
+    this.dirty = false;
+    this.recordFileState(buffer);
+
+    if (migrated) {
+      this.save();
+    }
+
+    console.log('Database reloaded from disk');
+    this.reloadEmitter.fire();
+  }
+
+  /**
+   * 记录文件当前的 mtime 和内容哈希
+   */
+  private recordFileState(buffer: Buffer): void {
+    this.lastKnownHash = this.hashBuffer(buffer);
+    this.lastKnownMtime = fs.statSync(this.dbPath).mtimeMs;
+  }
+
+  private hashBuffer(buffer: Buffer): string {
+    return crypto.createHash('md5').update(buffer).digest('hex');
+  }
+
+  /**
+   * 尝试从文件内容打开数据库，内容损坏时返回 null
+   */
+  private tryOpen(buffer: Buffer): SqlJsDatabase | null {
+    if (!this.sqlJs || buffer.length === 0) {
+      return null;
+    }
+
+    let db: SqlJsDatabase | null = null;
+    try {
+      db = new this.sqlJs.Database(buffer);
+      const result = db.exec('PRAGMA quick_check');
+      if (result.length > 0 && result[0].values[0][0] === 'ok') {
+        return db;
+      }
+    } catch (error) {
+      console.warn('Database file failed integrity check:', error);
+    }
+    db?.close();
+    return null;
+  }
+
+  /**
+   * graph.sqlite 损坏时，保留损坏文件并从最近可用的快照恢复
+   */
+  private recoverFromSnapshot(): SqlJsDatabase {
+    if (!this.sqlJs) {
+      throw new Error('Database not initialized');
+    }
+
+    const corruptPath = `${this.dbPath}.corrupt-${Date.now()}`;
+    fs.renameSync(this.dbPath, corruptPath);
+    console.error(`Database file is corrupt, moved to: ${corruptPath}`);
+
+    for (const snapshot of this.listSnapshots()) {
+      const db = this.tryOpen(fs.readFileSync(snapshot.path));
+      if (db) {
+        vscode.window.showWarningMessage(
+          `graph.sqlite was corrupt and has been recovered from snapshot ${snapshot.name}. The damaged file was kept as ${path.basename(corruptPath)}.`
+        );
+        this.dirty = true;
+        return db;
+      }
+    }
+
+    vscode.window.showWarningMessage(
+      `graph.sqlite was corrupt and no usable snapshot was found. A new empty graph was created; the damaged file was kept as ${path.basename(corruptPath)}.`
+    );
+    return new this.sqlJs.Database();
+  }
+
+  /**
+   * 距离最近一次快照超过间隔时自动创建快照，作为崩溃恢复的依据
+   */
+  private ensureRecentSnapshot(): void {
+    const latest = this.listSnapshots()[0];
+    if (latest && Date.now() - latest.createdAt < AUTO_SNAPSHOT_INTERVAL_MS) {
+      return;
+    }
+
+    try {
+      this.createSnapshot('auto');
+    } catch (error) {
+      console.warn('Failed to create automatic snapshot:', error);
+    }
+  }
+
   /**
    * 关闭数据库连接
    */
   public close(): void {
     if (this.db) {
-      this.save(); // 最后保存一次
+      this.flush(); // 最后保存一次
       this.db.close();
+      this.reloadEmitter.dispose();
+      this.saveEmitter.dispose();
       this.db = null;
     }
   }
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DatabaseService } from './database';
+import { t } from '../i18n/i18nService';
+
+/**
+ * graph.sqlite 外部修改监听
+ * 文件被其他窗口、git checkout 或 MCP Server 修改时，重新加载或提示用户重新加载
+ */
+export class DatabaseWatcher implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private checking = false;
+
+  constructor(private dbService: DatabaseService) {}
+
+  /**
+   * 开始监听数据库文件
+   */
+  public start(): void {
+    const dbPath = this.dbService.getDbPath();
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(path.dirname(dbPath), path.basename(dbPath))
+    );
+
+    watcher.onDidChange(() => this.checkForChanges());
+    watcher.onDidCreate(() => this.checkForChanges());
+
+    this.disposables.push(
+      watcher,
+      // 文件监听可能漏掉其他进程的写入，窗口重新获得焦点时再检查一次
+      vscode.window.onDidChangeWindowState(state => {
+        if (state.focused) {
+          this.checkForChanges();
+        }
+      })
+    );
+  }
+
+  /**
+   * 检查外部修改；内存中没有未保存的修改时直接重新加载，否则询问用户
+   */
+  public async checkForChanges(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+
+    this.checking = true;
+    try {
+      if (!this.dbService.hasExternalChanges()) {
+        return;
+      }
+
+      const translations = t().database;
+
+      if (this.dbService.isDirty()) {
+        const action = await vscode.window.showWarningMessage(
+          translations.externalChange,
+          translations.reload,
+          translations.keepMine
+        );
+        if (action === translations.keepMine) {
+          this.dbService.flush();
+          return;
+        }
+        if (action !== translations.reload) {
+          return;
+        }
+      }
+
+      this.dbService.reloadFromDisk();
+      vscode.window.showInformationMessage(translations.reloaded);
+    } catch (error) {
+      console.error('Failed to reload database:', error);
+      vscode.window.showErrorMessage(t().database.reloadFailed(String(error)));
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,261 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DatabaseService } from './database';
+import { EntityService } from './entityService';
+import { CodeLocation } from '../utils/types';
+import { EntityAnchor, createAnchor, getDocumentSymbols, getEntityAnchor, locateAnchor } from '../utils/codeAnchor';
+
+/** 文档编辑停止多久后重新定位实体 */
+const RELOCATE_DEBOUNCE_MS = 1000;
+
+/**
+ * 跟踪实体对应的代码
+ * 文档编辑或保存后根据锚点重新定位实体；代码被删除时把实体标记为孤立
+ * 旧数据中没有锚点的实体在文件打开时补充锚点
+ */
+export class EntityAnchorService implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  /**
+   * 实体位置或孤立状态变化后触发
+   */
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private folder: vscode.WorkspaceFolder,
+    private dbService: DatabaseService,
+    private entityService: EntityService
+  ) {}
+
+  /**
+   * 开始监听文档的编辑、保存、重命名和删除
+   */
+  public start(): void {
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this.syncDocument(document)),
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (e.contentChanges.length > 0) {
+          this.scheduleRelocate(e.document);
+        }
+      }),
+      vscode.workspace.onDidSaveTextDocument(document => this.relocate(document)),
+      vscode.workspace.onDidRenameFiles(e => this.handleRename(e.files)),
+      vscode.workspace.onDidDeleteFiles(e => this.handleDelete(e.files))
+    );
+
+    vscode.workspace.textDocuments.forEach(document => this.syncDocument(document));
+  }
+
+  /**
+   * 立即重新定位文档中的实体
+   */
+  public async relocate(document: vscode.TextDocument): Promise<void> {
+    this.clearTimer(document);
+    const filePath = this.getRelativePath(document.uri);
+    if (!filePath) {
+      return;
+    }
+    const entities = this.entityService.getEntitiesByFile(filePath).filter(entity => getEntityAnchor(entity));
+    if (entities.length === 0) {
+      return;
+    }
+
+    const symbols = await getDocumentSymbols(document);
+    const updates: Array<{ id: string; location: CodeLocation; anchor: EntityAnchor }> = [];
+    for (const entity of entities) {
+      const anchor = getEntityAnchor(entity)!;
+      const location = locateAnchor(document, entity, anchor, symbols);
+
+      if (!location) {
+        if (!anchor.orphaned) {
+          updates.push({ id: entity.id, location: entity, anchor: { ...anchor, orphaned: true } });
+        }
+        continue;
+      }
+
+      const updated = createAnchor(document, location.startLine, location.endLine, symbols, anchor.symbol);
+      if (
+        anchor.orphaned
+        || location.startLine !== entity.startLine
+        || location.endLine !== entity.endLine
+        || updated.fingerprint !== anchor.fingerprint
+        || updated.signature !== anchor.signature
+      ) {
+        updates.push({ id: entity.id, location, anchor: updated });
+      }
+    }
+
+    if (updates.length > 0) {
+      this.dbService.transaction(() => {
+        updates.forEach(update => this.entityService.updateAnchor(update.id, update.location, update.anchor));
+      });
+      this.changeEmitter.fire();
+    }
+  }
+
+  public dispose(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.changeEmitter.dispose();
+  }
+
+  /**
+   * 文档打开时：文件可能在 VS Code 之外被修改（如 git pull），先重新定位再补充缺少的锚点
+   */
+  private async syncDocument(document: vscode.TextDocument): Promise<void> {
+    try {
+      await this.relocate(document);
+      await this.addMissingAnchors(document);
+    } catch (error) {
+      console.error('Failed to sync entity anchors:', error);
+    }
+  }
+
+  private scheduleRelocate(document: vscode.TextDocument): void {
+    if (!this.getRelativePath(document.uri)) {
+      return;
+    }
+    this.clearTimer(document);
+    this.timers.set(document.uri.toString(), setTimeout(() => {
+      this.relocate(document).catch(error => console.error('Failed to relocate entities:', error));
+    }, RELOCATE_DEBOUNCE_MS));
+  }
+
+  private clearTimer(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const timer = this.timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(key);
+    }
+  }
+
+  /**
+   * 为没有锚点的实体生成锚点（只处理未修改的文档，确保行号仍然对应磁盘上的代码）
+   */
+  private async addMissingAnchors(document: vscode.TextDocument): Promise<void> {
+    const filePath = this.getRelativePath(document.uri);
+    if (!filePath || document.isDirty) {
+      return;
+    }
+    const entities = this.entityService.getEntitiesByFile(filePath).filter(entity => !getEntityAnchor(entity));
+    if (entities.length === 0) {
+      return;
+    }
+
+    try {
+      const symbols = await getDocumentSymbols(document);
+      this.dbService.transaction(() => {
+        for (const entity of entities) {
+          this.entityService.updateAnchor(
+            entity.id,
+            entity,
+            createAnchor(document, entity.startLine, entity.endLine, symbols)
+          );
+        }
+      });
+    } catch (error) {
+      console.error('Failed to add entity anchors:', error);
+    }
+  }
+
+  /**
+   * 文件重命名或移动后更新实体的文件路径
+   */
+  private handleRename(files: ReadonlyArray<{ oldUri: vscode.Uri; newUri: vscode.Uri }>): void {
+    const moves = files
+      .map(file => ({ from: this.getRelativePath(file.oldUri), to: this.getRelativePath(file.newUri) }))
+      .filter(move => move.from);
+    if (moves.length === 0) {
+      return;
+    }
+
+    let changed = false;
+    this.dbService.transaction(() => {
+      for (const entity of this.entityService.listEntities()) {
+        for (const move of moves) {
+          const filePath = this.renamePath(entity.filePath, move.from!, move.to);
+          if (filePath === entity.filePath) {
+            continue;
+          }
+          const anchor = getEntityAnchor(entity);
+          if (filePath && anchor) {
+            this.entityService.updateAnchor(entity.id, { ...entity, filePath }, anchor);
+            changed = true;
+          } else if (filePath) {
+            this.entityService.overwriteEntity({ ...entity, filePath });
+            changed = true;
+          } else if (anchor && !anchor.orphaned) {
+            // 移出了工作区文件夹
+            this.entityService.updateAnchor(entity.id, entity, { ...anchor, orphaned: true });
+            changed = true;
+          }
+          break;
+        }
+      }
+    });
+
+    if (changed) {
+      this.changeEmitter.fire();
+    }
+  }
+
+  /**
+   * 文件删除后把其中的实体标记为孤立
+   */
+  private handleDelete(files: ReadonlyArray<vscode.Uri>): void {
+    const deleted = files.map(uri => this.getRelativePath(uri)).filter((filePath): filePath is string => !!filePath);
+    if (deleted.length === 0) {
+      return;
+    }
+
+    const entities = this.entityService.listEntities().filter(entity =>
+      deleted.some(filePath => entity.filePath === filePath || entity.filePath.startsWith(`${filePath}/`))
+    );
+    let changed = false;
+    this.dbService.transaction(() => {
+      for (const entity of entities) {
+        const anchor = getEntityAnchor(entity);
+        if (anchor && !anchor.orphaned) {
+          this.entityService.updateAnchor(entity.id, entity, { ...anchor, orphaned: true });
+          changed = true;
+        }
+      }
+    });
+
+    if (changed) {
+      this.changeEmitter.fire();
+    }
+  }
+
+  /**
+   * 计算重命名后的路径；不受影响时原样返回，移出文件夹时返回 undefined
+   */
+  private renamePath(filePath: string, from: string, to: string | undefined): string | undefined {
+    if (filePath === from) {
+      return to;
+    }
+    if (filePath.startsWith(`${from}/`)) {
+      return to ? `${to}${filePath.substring(from.length)}` : undefined;
+    }
+    return filePath;
+  }
+
+  /**
+   * 文件相对于本文件夹的路径，不属于本文件夹时返回 undefined
+   */
+  private getRelativePath(uri: vscode.Uri): string | undefined {
+    if (uri.scheme !== 'file') {
+      return undefined;
+    }
+    const relativePath = path.relative(this.folder.uri.fsPath, uri.fsPath);
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return undefined;
+    }
+    return relativePath.replace(/\\/g, '/');
+  }
+}
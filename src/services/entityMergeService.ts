@@ -0,0 +1,127 @@
+import { DatabaseService } from './database';
+import { EntityService } from './entityService';
+import { RelationService } from './relationService';
+import { ObservationService } from './observationService';
+import { HistoryService } from './historyService';
+import { Entity } from '../utils/types';
+import { normalizeAliases } from '../../packages/mcp-server/src/schema/entityAliases';
+
+/**
+ * 实体合并结果
+ */
+export interface EntityMergeResult {
+  survivor: Entity;
+  mergedIds: string[];
+  movedObservations: number;
+  movedRelations: number;
+  /** 合并后重复或指向自身而被删除的关系 */
+  removedRelations: number;
+}
+
+/**
+ * 重复实体合并服务
+ * 把观察记录和出入关系移到保留的实体上，删除重复的关系，被合并实体的名称和 ID 记为别名
+ */
+export class EntityMergeService {
+  constructor(
+    private dbService: DatabaseService,
+    private entityService: EntityService,
+    private relationService: RelationService,
+    private observationService: ObservationService,
+    private history?: HistoryService
+  ) {}
+
+  /**
+   * 把 duplicateIds 合并到 survivorId，整体作为一次修改（可以一次撤销）
+   */
+  public merge(survivorId: string, duplicateIds: string[]): EntityMergeResult {
+    const survivor = this.entityService.getEntity(survivorId);
+    if (!survivor) {
+      throw new Error(`Entity not found: ${survivorId}`);
+    }
+    const duplicates = [...new Set(duplicateIds)]
+      .filter(id => id !== survivorId)
+      .map(id => {
+        const entity = this.entityService.getEntity(id);
+        if (!entity) {
+          throw new Error(`Entity not found: ${id}`);
+        }
+        return entity;
+      });
+
+    const result: EntityMergeResult = {
+      survivor,
+      mergedIds: duplicates.map(entity => entity.id),
+      movedObservations: 0,
+      movedRelations: 0,
+      removedRelations: 0,
+    };
+    if (duplicates.length === 0) {
+      return result;
+    }
+
+    const merge = () => {
+      const mergedIds = new Set(result.mergedIds);
+      const resolve = (id: string) => mergedIds.has(id) ? survivorId : id;
+
+      for (const duplicate of duplicates) {
+        result.movedObservations += this.observationService.moveObservations(duplicate.id, survivorId);
+      }
+
+      // 保留的实体原有的关系优先，其后按创建时间处理被合并实体的关系
+      const seen = new Set(
+        this.relationService.getRelations(survivorId)
+          .map(relation => `${relation.sourceEntityId}\u0000${relation.targetEntityId}\u0000${relation.verb}`)
+      );
+      const relations = duplicates
+        .flatMap(duplicate => this.relationService.getRelations(duplicate.id))
+        .filter((relation, index, all) => all.findIndex(other => other.id === relation.id) === index)
+        .sort((a, b) => a.createdAt - b.createdAt);
+      for (const relation of relations) {
+        const sourceId = resolve(relation.sourceEntityId);
+        const targetId = resolve(relation.targetEntityId);
+        const key = `${sourceId}\u0000${targetId}\u0000${relation.verb}`;
+        if (sourceId === targetId || seen.has(key)) {
+          this.relationService.removeRelation(relation.id);
+          result.removedRelations++;
+        } else {
+          this.relationService.reassignRelation(relation.id, sourceId, targetId);
+          seen.add(key);
+          result.movedRelations++;
+        }
+      }
+
+      const crossFolderKey = (relation: { targetFolder: string; targetEntityId: string; verb: string }) =>
+        `${relation.targetFolder}\u0000${relation.targetEntityId}\u0000${relation.verb}`;
+      const seenCrossFolder = new Set(this.relationService.getCrossFolderRelations(survivorId).map(crossFolderKey));
+      for (const duplicate of duplicates) {
+        for (const relation of this.relationService.getCrossFolderRelations(duplicate.id)) {
+          if (seenCrossFolder.has(crossFolderKey(relation))) {
+            this.relationService.removeCrossFolderRelation(relation.id);
+            result.removedRelations++;
+          } else {
+            this.relationService.reassignCrossFolderRelation(relation.id, survivorId);
+            seenCrossFolder.add(crossFolderKey(relation));
+            result.movedRelations++;
+          }
+        }
+      }
+
+      duplicates.forEach(duplicate => this.entityService.deleteEntity(duplicate.id));
+
+      result.survivor = this.entityService.updateEntity(survivorId, {
+        description: survivor.description || duplicates.find(duplicate => duplicate.description)?.description,
+        aliases: normalizeAliases(
+          [
+            ...(survivor.aliases || []),
+            ...duplicates.flatMap(duplicate => [duplicate.name, ...(duplicate.aliases || []), duplicate.id]),
+          ],
+          survivor.name
+        ),
+      })!;
+    };
+
+    this.dbService.transaction(() => this.history ? this.history.group(merge) : merge());
+    return result;
+  }
+}
@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseService } from './database';
+import { EntityService } from './entityService';
+import { HistoryService } from './historyService';
+import { AutoEntity, AutoGraphService } from './autoGraph';
+import { getAutoEntityKey } from './autoPromotionService';
+import { CodeLocation, Entity } from '../utils/types';
+import { getEntityAnchor, isOrphaned, withAnchor } from '../utils/codeAnchor';
+import { matchesEntityName } from '../../packages/mcp-server/src/schema/entityAliases';
+
+/** 名称、类型和路径加权后的最低匹配分数 */
+const MATCH_THRESHOLD = 0.7;
+
+/** 名称相似度低于此值时不视为同一个符号 */
+const NAME_SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * 对账建议：手动实体的符号移动（或改名）到了新位置，或者已不存在
+ * 每个手动实体最多一条建议，id 即手动实体 ID
+ */
+export type ReconcileProposal =
+  | {
+    kind: 'move';
+    id: string;
+    entity: Entity;
+    autoEntity: AutoEntity;
+    location: CodeLocation;
+    /** 符号改名后的新名称 */
+    name?: string;
+    /** 匹配分数（0~1） */
+    score: number;
+  }
+  | {
+    kind: 'missing';
+    id: string;
+    entity: Entity;
+  };
+
+/**
+ * 应用建议的结果
+ */
+export interface ReconcileResult {
+  moved: number;
+  orphaned: number;
+}
+
+/**
+ * 手动图谱与自动图谱的对账
+ * 按名称、类型和相似度把手动实体与分析出的自动实体对应起来，
+ * 为符号已移动的实体建议新的路径和行号，并标出符号已不存在的实体
+ */
+export class EntityReconcileService {
+  constructor(
+    private folder: vscode.WorkspaceFolder,
+    private dbService: DatabaseService,
+    private entityService: EntityService,
+    private autoGraphService: AutoGraphService,
+    private history?: HistoryService
+  ) {}
+
+  /**
+   * 生成对账建议（不修改图谱）
+   */
+  public reconcile(): ReconcileProposal[] {
+    const autoEntities = this.autoGraphService.listEntities();
+    if (autoEntities.length === 0) {
+      return [];
+    }
+
+    const autoByKey = this.autoGraphService.getAllEntitiesMap();
+    const autoTypes = new Set(autoEntities.map(entity => entity.type));
+    const claimed = new Set<string>();
+    const proposals: ReconcileProposal[] = [];
+    const pending: Entity[] = [];
+
+    // 名称、类型和文件都相同的自动实体就是同一个符号；只在范围不再重叠（或实体已孤立）时建议更新行号
+    for (const entity of this.entityService.listEntities()) {
+      const exact = autoByKey.get(getAutoEntityKey(entity)
+        || AutoGraphService.generateEntityKey(entity.name, entity.type, entity.filePath));
+      if (!exact) {
+        pending.push(entity);
+        continue;
+      }
+      claimed.add(exact.id);
+      const overlaps = entity.filePath === exact.filePath
+        && entity.startLine <= exact.endLine && exact.startLine <= entity.endLine;
+      if (!overlaps || isOrphaned(entity)) {
+        proposals.push(this.moveProposal(entity, exact, 1));
+      }
+    }
+
+    // 其余实体按相似度贪心匹配，分数高的优先，每个自动实体只匹配一次
+    const pairs = pending
+      .flatMap(entity => autoEntities
+        .filter(auto => !claimed.has(auto.id))
+        .map(auto => ({ entity, auto, score: this.score(entity, auto) })))
+      .filter(pair => pair.score >= MATCH_THRESHOLD)
+      .sort((a, b) => b.score - a.score);
+    const matched = new Set<string>();
+    for (const { entity, auto, score } of pairs) {
+      if (!matched.has(entity.id) && !claimed.has(auto.id)) {
+        matched.add(entity.id);
+        claimed.add(auto.id);
+        proposals.push(this.moveProposal(entity, auto, score));
+      }
+    }
+
+    // 没有匹配的实体：文件已不存在，或文件已分析过但找不到该符号（只考虑分析器会生成的类型）
+    for (const entity of pending) {
+      if (matched.has(entity.id) || isOrphaned(entity)) {
+        continue;
+      }
+      const analyzed = !!this.autoGraphService.getFileCache(entity.filePath) && autoTypes.has(entity.type);
+      if (!this.fileExists(entity.filePath) || analyzed) {
+        proposals.push({ kind: 'missing', id: entity.id, entity });
+      }
+    }
+
+    return proposals.sort((a, b) => a.entity.name.localeCompare(b.entity.name));
+  }
+
+  /**
+   * 应用接受的建议，整体作为一次修改（可以一次撤销）
+   * 移动的实体去掉旧锚点（文件打开时重新生成），改名时旧名称记为别名；不存在的实体标记为孤立
+   */
+  public apply(proposals: ReconcileProposal[]): ReconcileResult {
+    const result: ReconcileResult = { moved: 0, orphaned: 0 };
+    if (proposals.length === 0) {
+      return result;
+    }
+
+    const apply = () => {
+      for (const proposal of proposals) {
+        const entity = this.entityService.getEntity(proposal.id);
+        if (!entity) {
+          continue;
+        }
+
+        if (proposal.kind === 'missing') {
+          const anchor = getEntityAnchor(entity) || { fingerprint: '', signature: '' };
+          this.entityService.updateEntity(entity.id, {
+            metadata: withAnchor(entity.metadata, { ...anchor, orphaned: true }),
+          });
+          result.orphaned++;
+          continue;
+        }
+
+        const metadata: NonNullable<Entity['metadata']> = { ...entity.metadata };
+        delete metadata.anchor;
+        if (getAutoEntityKey(entity)) {
+          const { name, type, filePath } = proposal.autoEntity;
+          metadata.autoEntityKey = AutoGraphService.generateEntityKey(name, type, filePath);
+        }
+        // 新名称已被其他实体使用时只更新位置
+        const rename = proposal.name && !this.entityService.listEntities({ name: proposal.name })
+          .some(other => other.name === proposal.name)
+          ? proposal.name
+          : undefined;
+        this.entityService.updateEntity(entity.id, {
+          ...proposal.location,
+          ...(rename ? { name: rename, aliases: [...(entity.aliases || []), entity.name] } : {}),
+          metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+        });
+        result.moved++;
+      }
+    };
+
+    this.dbService.transaction(() => this.history ? this.history.group(apply) : apply());
+    return result;
+  }
+
+  private moveProposal(entity: Entity, auto: AutoEntity, score: number): ReconcileProposal {
+    return {
+      kind: 'move',
+      id: entity.id,
+      entity,
+      autoEntity: auto,
+      location: { filePath: auto.filePath, startLine: auto.startLine, endLine: auto.endLine },
+      name: matchesEntityName(entity, auto.name) ? undefined : auto.name,
+      score,
+    };
+  }
+
+  /**
+   * 手动实体与自动实体的匹配分数：名称 50%、类型 20%、路径 30%
+   */
+  private score(entity: Entity, auto: AutoEntity): number {
+    const nameScore = matchesEntityName(entity, auto.name) ? 1 : nameSimilarity(entity.name, auto.name);
+    if (nameScore < NAME_SIMILARITY_THRESHOLD) {
+      return 0;
+    }
+
+    const typeScore = entity.type === auto.type ? 1 : 0;
+    const from = entity.filePath.replace(/\\/g, '/');
+    const to = auto.filePath.replace(/\\/g, '/');
+    const pathScore = from === to ? 1
+      : path.posix.basename(from) === path.posix.basename(to) ? 0.8
+        : path.posix.dirname(from) === path.posix.dirname(to) ? 0.5
+          : 0;
+    return nameScore * 0.5 + typeScore * 0.2 + pathScore * 0.3;
+  }
+
+  private fileExists(filePath: string): boolean {
+    return fs.existsSync(path.join(this.folder.uri.fsPath, filePath));
+  }
+}
+
+/**
+ * 名称相似度：1 - 编辑距离 / 较长名称的长度（不区分大小写）
+ */
+function nameSimilarity(a: string, b: string): number {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  const length = Math.max(x.length, y.length);
+  if (length === 0) {
+    return 0;
+  }
+
+  let previous = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= y.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[y.length] / length;
+}
@@ -1,12 +1,18 @@
 import { DatabaseService } from './database';
+import { HistoryService } from './historyService';
 import { Entity, EntityType, EntityFilters, CodeLocation } from '../utils/types';
+import { EntityAnchor, isOrphaned, withAnchor } from '../utils/codeAnchor';
+import { matchesEntityName, normalizeAliases } from '../../packages/mcp-server/src/schema/entityAliases';
 import { randomUUID } from 'crypto';
 
 /**
  * 实体管理服务
  */
 export class EntityService {
-  constructor(private dbService: DatabaseService) { }
+  constructor(
+    private dbService: DatabaseService,
+    private history?: HistoryService
+  ) { }
 
   /**
    * 创建实体
@@ -64,6 +70,7 @@ export class EntityService {
     ]);
 
     console.log('Entity created in database:', entity.name);
+    this.history?.record('entities', 'create', entity.id, null, this.history.getRow('entities', entity.id));
     this.dbService.save(); // 保存到文件
 
     // 验证是否成功保存
@@ -90,11 +97,12 @@ export class EntityService {
       id: entityId, // 确保 ID 不被修改
       updatedAt: Date.now(),
     };
+    const before = this.history?.getRow('entities', entityId) ?? null;
 
     const stmt = db.prepare(`
       UPDATE entities 
       SET name = ?, type = ?, file_path = ?, start_line = ?, end_line = ?,
-          description = ?, updated_at = ?, metadata = ?
+          description = ?, updated_at = ?, metadata = ?, aliases = ?
       WHERE id = ?
     `);
 
@@ -107,9 +115,11 @@ export class EntityService {
       updated.description || null,
       updated.updatedAt,
       updated.metadata ? JSON.stringify(updated.metadata) : null,
+      this.aliasesColumn(updated),
       entityId
     ]);
 
+    this.history?.record('entities', 'update', entityId, before, this.history.getRow('entities', entityId));
     this.dbService.save(); // 保存到文件
     return updated;
   }
@@ -119,12 +129,109 @@ export class EntityService {
    */
   public deleteEntity(entityId: string): boolean {
     const db = this.dbService.getDatabase();
+    // 级联删除的观察记录和关系一并记录，撤销时整体恢复
+    this.history?.recordEntityDelete(entityId);
     const stmt = db.prepare('DELETE FROM entities WHERE id = ?');
     stmt.run([entityId]);
     this.dbService.save(); // 保存到文件
     return true;
   }
 
+  /**
+   * 按原样写入实体（保留 ID 和时间戳，用于导入）
+   * 不会自动保存，调用方需在事务中使用
+   */
+  public insertEntity(entity: Entity): void {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare(`
+      INSERT INTO entities (
+        id, name, type, file_path, start_line, end_line,
+        description, created_at, updated_at, metadata, aliases
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run([
+      entity.id,
+      entity.name,
+      entity.type,
+      entity.filePath,
+      entity.startLine,
+      entity.endLine,
+      entity.description || null,
+      entity.createdAt,
+      entity.updatedAt,
+      entity.metadata ? JSON.stringify(entity.metadata) : null,
+      this.aliasesColumn(entity)
+    ]);
+    stmt.free();
+  }
+
+  /**
+   * 按原样覆盖实体字段（用于导入）
+   * 不会自动保存，调用方需在事务中使用
+   */
+  public overwriteEntity(entity: Entity): void {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare(`
+      UPDATE entities
+      SET name = ?, type = ?, file_path = ?, start_line = ?, end_line = ?,
+          description = ?, updated_at = ?, metadata = ?, aliases = ?
+      WHERE id = ?
+    `);
+
+    stmt.run([
+      entity.name,
+      entity.type,
+      entity.filePath,
+      entity.startLine,
+      entity.endLine,
+      entity.description || null,
+      entity.updatedAt,
+      entity.metadata ? JSON.stringify(entity.metadata) : null,
+      this.aliasesColumn(entity),
+      entity.id
+    ]);
+    stmt.free();
+  }
+
+  /**
+   * 更新实体的位置和锚点（代码移动后自动重新定位时使用）
+   * 位置变化不属于知识编辑：不记录历史、不修改 updatedAt，也不会自动保存
+   */
+  public updateAnchor(entityId: string, location: CodeLocation, anchor: EntityAnchor): void {
+    const existing = this.getEntity(entityId);
+    if (!existing) {
+      return;
+    }
+
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare(`
+      UPDATE entities
+      SET file_path = ?, start_line = ?, end_line = ?, metadata = ?
+      WHERE id = ?
+    `);
+
+    stmt.run([
+      location.filePath,
+      location.startLine,
+      location.endLine,
+      JSON.stringify(withAnchor(existing.metadata, anchor)),
+      entityId
+    ]);
+    stmt.free();
+  }
+
+  /**
+   * 更新实体的位置（从自动图谱提升的实体跟随分析结果移动时使用）
+   * 与 updateAnchor 相同：不记录历史、不修改 updatedAt，也不会自动保存
+   */
+  public updateLocation(entityId: string, location: CodeLocation): void {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare('UPDATE entities SET file_path = ?, start_line = ?, end_line = ? WHERE id = ?');
+    stmt.run([location.filePath, location.startLine, location.endLine, entityId]);
+    stmt.free();
+  }
+
   /**
    * 获取单个实体
    */
@@ -162,8 +269,9 @@ export class EntityService {
     }
 
     if (filters?.name) {
-      query += ' AND name LIKE ?';
-      params.push(`%${filters.name}%`);
+      // 同时匹配别名（aliases 为 JSON 数组，按文本模糊匹配）
+      query += ' AND (name LIKE ? OR aliases LIKE ?)';
+      params.push(`%${filters.name}%`, `%${filters.name}%`);
     }
 
     query += ' ORDER BY created_at DESC';
@@ -197,7 +305,7 @@ export class EntityService {
   }
 
   /**
-   * 在指定位置查找实体
+   * 在指定位置查找实体（跳过代码已被删除的孤立实体）
    */
   public findEntityAtLocation(filePath: string, line: number): Entity | null {
     const db = this.dbService.getDatabase();
@@ -207,21 +315,30 @@ export class EntityService {
         AND start_line <= ? 
         AND end_line >= ?
       ORDER BY (end_line - start_line) ASC
-      LIMIT 1
     `);
 
     stmt.bind([filePath, line, line]);
 
-    if (stmt.step()) {
-      const row = stmt.getAsObject();
-      stmt.free();
-      return this.rowToEntity(row);
+    while (stmt.step()) {
+      const entity = this.rowToEntity(stmt.getAsObject());
+      if (!isOrphaned(entity)) {
+        stmt.free();
+        return entity;
+      }
     }
 
     stmt.free();
     return null;
   }
 
+  /**
+   * 按名称或别名查找实体（不区分大小写），名称完全相同的优先
+   */
+  public findEntityByName(name: string): Entity | null {
+    const candidates = this.listEntities({ name: name.trim() }).filter(entity => matchesEntityName(entity, name));
+    return candidates.find(entity => entity.name === name.trim()) || candidates[0] || null;
+  }
+
   /**
    * 获取所有实体数量
    */
@@ -251,12 +368,18 @@ export class EntityService {
       startLine: row.start_line,
       endLine: row.end_line,
       description: row.description,
+      aliases: row.aliases ? normalizeAliases(row.aliases) : undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
     };
   }
 
+  private aliasesColumn(entity: Entity): string | null {
+    const aliases = normalizeAliases(entity.aliases, entity.name);
+    return aliases.length > 0 ? JSON.stringify(aliases) : null;
+  }
+
   /**
    * 生成唯一 ID
    */
@@ -5,7 +5,7 @@ import { EntityService } from './entityService';
 import { RelationService } from './relationService';
 import { ObservationService } from './observationService';
 import { DependencyAnalyzer } from './dependencyAnalyzer';
-import { Entity, Relation, Observation } from '../utils/types';
+import { Entity, Relation, Observation, GraphExportData } from '../utils/types';
 import { t, getLocale } from '../i18n/i18nService';
 
 /**
@@ -279,7 +279,7 @@ export class ExportService {
       observations[entity.id] = this.observationService.getObservations(entity.id);
     }
     
-    const exportData = {
+    const exportData: GraphExportData = {
       exportTime: new Date().toISOString(),
       version: '1.0',
       statistics: {
@@ -0,0 +1,400 @@
+import * as path from 'path';
+import { DatabaseService } from './database';
+import { EntityService } from './entityService';
+import { RelationService } from './relationService';
+import { ObservationService } from './observationService';
+import { ImportService } from './importService';
+import { HistoryService } from './historyService';
+import { Entity, Relation, Observation, GraphExportData, HistoryTable } from '../utils/types';
+
+/**
+ * 参与合并的条目类型
+ */
+export type MergeItemKind = 'entity' | 'relation' | 'observation';
+
+/**
+ * 冲突解决时采用的一方
+ */
+export type MergeSide = 'ours' | 'theirs';
+
+/**
+ * 冲突原因
+ * - modify-modify：双方修改了同一字段
+ * - modify-delete：我方修改、对方删除
+ * - delete-modify：我方删除、对方修改
+ * - add-add：双方新增了同一 ID 但内容不同
+ */
+export type MergeConflictReason = 'modify-modify' | 'modify-delete' | 'delete-modify' | 'add-add';
+
+type MergeItem = Entity | Relation | Observation;
+
+/**
+ * graph.sqlite 中的一行
+ */
+type GraphFileRow = Record<string, string | number | null>;
+
+/**
+ * 合并冲突
+ * ours/theirs 已包含自动合并的非冲突字段，选择一方即得到最终结果（undefined 表示删除）
+ */
+export interface MergeConflict {
+  /** `${kind}:${id}`，用于记录用户的选择 */
+  key: string;
+  kind: MergeItemKind;
+  reason: MergeConflictReason;
+  /** 发生冲突的字段（modify-modify / add-add） */
+  fields: string[];
+  base?: MergeItem;
+  ours?: MergeItem;
+  theirs?: MergeItem;
+}
+
+/**
+ * 三方合并结果（冲突解决前）
+ */
+export interface GraphMergeResult {
+  entities: Entity[];
+  relations: Relation[];
+  observations: Observation[];
+  conflicts: MergeConflict[];
+  /** 自动采用对方修改的条目数 */
+  theirsChanges: number;
+}
+
+/**
+ * 最终合并的图谱
+ */
+export interface MergedGraph {
+  entities: Entity[];
+  relations: Relation[];
+  observations: Observation[];
+  /** 因实体被删除而丢弃的关系和观察记录数 */
+  dropped: number;
+}
+
+/**
+ * 参与比较的字段（ID 和时间戳不参与）
+ */
+export const MERGE_FIELDS: {
+  entity: (keyof Entity)[];
+  relation: (keyof Relation)[];
+  observation: (keyof Observation)[];
+} = {
+  entity: ['name', 'type', 'filePath', 'startLine', 'endLine', 'description', 'aliases', 'metadata'],
+  relation: ['sourceEntityId', 'targetEntityId', 'verb', 'metadata'],
+  observation: ['entityId', 'content', 'kind', 'tags', 'severity', 'codeHash'],
+};
+
+/**
+ * 手动图谱三方合并服务
+ * base/ours/theirs 可以是 graph.sqlite 文件或 JSON 导出文件，按 ID 合并实体、关系和观察记录
+ */
+export class GraphMergeService {
+  constructor(
+    private dbService: DatabaseService,
+    private entityService: EntityService,
+    private relationService: RelationService,
+    private observationService: ObservationService,
+    private importService: ImportService,
+    private history?: HistoryService
+  ) {}
+
+  /**
+   * 读取 .sqlite 或 JSON 导出文件中的手动图谱
+   */
+  public loadGraph(filePath: string): GraphExportData {
+    if (path.extname(filePath).toLowerCase() === '.json') {
+      return this.importService.readExportFile(filePath);
+    }
+
+    const db = this.dbService.openGraphFile(filePath);
+    try {
+      const query = (sql: string): GraphFileRow[] => {
+        const rows: GraphFileRow[] = [];
+        const stmt = db.prepare(sql);
+        while (stmt.step()) {
+          rows.push(stmt.getAsObject());
+        }
+        stmt.free();
+        return rows;
+      };
+      const json = (value: string | number | null) => (typeof value === 'string' && value ? JSON.parse(value) : undefined);
+
+      // 转换为导出文件格式，复用导入时的校验
+      return this.importService.normalizeExportData({
+        version: '1.0',
+        entities: query('SELECT * FROM entities ORDER BY created_at').map(row => ({
+          id: row.id,
+          name: row.name,
+          type: row.type,
+          filePath: row.file_path,
+          startLine: row.start_line,
+          endLine: row.end_line,
+          description: row.description,
+          aliases: json(row.aliases),
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+          metadata: json(row.metadata),
+        })),
+        relations: query('SELECT * FROM relations ORDER BY created_at').map(row => ({
+          id: row.id,
+          sourceEntityId: row.source_entity_id,
+          targetEntityId: row.target_entity_id,
+          verb: row.verb,
+          createdAt: row.created_at,
+          metadata: json(row.metadata),
+        })),
+        observations: query('SELECT * FROM observations ORDER BY created_at').map(row => ({
+          id: row.id,
+          entityId: row.entity_id,
+          content: row.content,
+          kind: row.kind || undefined,
+          tags: json(row.tags),
+          severity: row.severity || undefined,
+          codeHash: row.code_hash || undefined,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+        })),
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * 当前工作区的手动图谱
+   */
+  public loadCurrentGraph(): GraphExportData {
+    const observations: Record<string, Observation[]> = {};
+    this.observationService.listAllObservations().forEach(observation => {
+      (observations[observation.entityId] ||= []).push(observation);
+    });
+
+    return {
+      version: '1.0',
+      entities: this.entityService.listEntities(),
+      relations: this.relationService.getAllRelations(),
+      observations,
+    };
+  }
+
+  /**
+   * 三方合并：一方未修改时采用另一方的版本，双方修改不同字段时按字段合并
+   */
+  public merge(base: GraphExportData, ours: GraphExportData, theirs: GraphExportData): GraphMergeResult {
+    const result: GraphMergeResult = {
+      entities: [],
+      relations: [],
+      observations: [],
+      conflicts: [],
+      theirsChanges: 0,
+    };
+
+    const observationsOf = (data: GraphExportData) => Object.values(data.observations).flat();
+
+    result.entities = this.mergeItems('entity', MERGE_FIELDS.entity, base.entities, ours.entities, theirs.entities, result);
+    result.relations = this.mergeItems(
+      'relation',
+      MERGE_FIELDS.relation,
+      base.relations,
+      ours.relations,
+      theirs.relations,
+      result
+    );
+    result.observations = this.mergeItems(
+      'observation',
+      MERGE_FIELDS.observation,
+      observationsOf(base),
+      observationsOf(ours),
+      observationsOf(theirs),
+      result
+    );
+
+    return result;
+  }
+
+  /**
+   * 按用户的选择解决冲突（未选择的冲突保留我方版本），并丢弃指向已删除实体的关系和观察记录
+   */
+  public resolve(result: GraphMergeResult, resolutions: Record<string, MergeSide>): MergedGraph {
+    const entities = [...result.entities];
+    const relations = [...result.relations];
+    const observations = [...result.observations];
+
+    for (const conflict of result.conflicts) {
+      const chosen = resolutions[conflict.key] === 'theirs' ? conflict.theirs : conflict.ours;
+      if (!chosen) {
+        continue;
+      }
+      if (conflict.kind === 'entity') {
+        entities.push(chosen as Entity);
+      } else if (conflict.kind === 'relation') {
+        relations.push(chosen as Relation);
+      } else {
+        observations.push(chosen as Observation);
+      }
+    }
+
+    const entityIds = new Set(entities.map(entity => entity.id));
+    const keptRelations = relations.filter(
+      relation => entityIds.has(relation.sourceEntityId) && entityIds.has(relation.targetEntityId)
+    );
+    const keptObservations = observations.filter(observation => entityIds.has(observation.entityId));
+
+    return {
+      entities,
+      relations: keptRelations,
+      observations: keptObservations,
+      dropped: relations.length - keptRelations.length + observations.length - keptObservations.length,
+    };
+  }
+
+  /**
+   * 用合并结果替换当前手动图谱（单个事务内完成，整体作为一次修改，可以一次撤销）
+   * 跨文件夹关系不参与合并，源实体仍存在的保留
+   */
+  public applyMerge(merged: MergedGraph): void {
+    const entityIds = new Set(merged.entities.map(entity => entity.id));
+    const crossFolderRelations = this.relationService
+      .getCrossFolderRelations()
+      .filter(relation => entityIds.has(relation.sourceEntityId));
+
+    const history = this.history;
+    const apply = () => {
+      const write = (table: HistoryTable, rowId: string, fn: () => void) =>
+        history ? history.recordWrite(table, rowId, fn) : fn();
+
+      if (history) {
+        history.clearManualGraph();
+      } else {
+        this.dbService.clearManualGraph();
+      }
+      merged.entities.forEach(entity => write('entities', entity.id, () => this.entityService.insertEntity(entity)));
+      merged.relations.forEach(relation => write('relations', relation.id, () => this.relationService.insertRelation(relation)));
+      merged.observations.forEach(observation =>
+        write('observations', observation.id, () => this.observationService.insertObservation(observation))
+      );
+      crossFolderRelations.forEach(relation =>
+        write('cross_folder_relations', relation.id, () => this.relationService.insertCrossFolderRelation(relation))
+      );
+    };
+
+    this.dbService.transaction(() => history ? history.group(apply) : apply());
+  }
+
+  /**
+   * 按 ID 三方合并同一类条目，冲突写入 result.conflicts
+   */
+  private mergeItems<T extends MergeItem>(
+    kind: MergeItemKind,
+    fields: Extract<keyof T, string>[],
+    baseItems: T[],
+    ourItems: T[],
+    theirItems: T[],
+    result: GraphMergeResult
+  ): T[] {
+    const base = new Map(baseItems.map(item => [item.id, item]));
+    const ours = new Map(ourItems.map(item => [item.id, item]));
+    const theirs = new Map(theirItems.map(item => [item.id, item]));
+
+    // 保持我方顺序，对方新增的条目排在后面
+    const ids = [...new Set([...ours.keys(), ...theirs.keys(), ...base.keys()])];
+    const merged: T[] = [];
+
+    for (const id of ids) {
+      const b = base.get(id);
+      const o = ours.get(id);
+      const t = theirs.get(id);
+
+      if (this.sameItem(o, t, fields)) {
+        if (o) {
+          merged.push(o);
+        }
+        continue;
+      }
+      if (this.sameItem(b, o, fields)) {
+        if (t) {
+          merged.push(t);
+        }
+        result.theirsChanges++;
+        continue;
+      }
+      if (this.sameItem(b, t, fields)) {
+        if (o) {
+          merged.push(o);
+        }
+        continue;
+      }
+
+      const key = `${kind}:${id}`;
+      if (!o || !t) {
+        result.conflicts.push({
+          key,
+          kind,
+          reason: o ? 'modify-delete' : 'delete-modify',
+          fields: [],
+          base: b,
+          ours: o,
+          theirs: t,
+        });
+        continue;
+      }
+
+      // 双方都修改（或都新增）：逐字段合并，只有同一字段改成不同的值才算冲突
+      const combined: T = { ...o };
+      if ('updatedAt' in combined && 'updatedAt' in t) {
+        combined.updatedAt = Math.max(combined.updatedAt, t.updatedAt);
+      }
+      const conflicting: Extract<keyof T, string>[] = [];
+      for (const field of fields) {
+        const ov = o[field];
+        const tv = t[field];
+        if (this.sameValue(ov, tv)) {
+          continue;
+        }
+        if (b && this.sameValue(b[field], ov)) {
+          combined[field] = tv;
+        } else if (!b || !this.sameValue(b[field], tv)) {
+          conflicting.push(field);
+        }
+      }
+
+      if (conflicting.length === 0) {
+        merged.push(combined);
+        result.theirsChanges++;
+        continue;
+      }
+
+      const pick = (side: T) => {
+        const version: T = { ...combined };
+        conflicting.forEach(field => {
+          version[field] = side[field];
+        });
+        return version;
+      };
+
+      result.conflicts.push({
+        key,
+        kind,
+        reason: b ? 'modify-modify' : 'add-add',
+        fields: conflicting,
+        base: b,
+        ours: pick(o),
+        theirs: pick(t),
+      });
+    }
+
+    return merged;
+  }
+
+  private sameItem<T extends MergeItem>(a: T | undefined, b: T | undefined, fields: Extract<keyof T, string>[]): boolean {
+    if (!a || !b) {
+      return !a && !b;
+    }
+    return fields.every(field => this.sameValue(a[field], b[field]));
+  }
+
+  private sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  }
+}
@@ -0,0 +1,469 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { DatabaseService } from './database';
+import { EntityService } from './entityService';
+import { RelationService } from './relationService';
+import { ObservationService } from './observationService';
+import { CrossFolderRelation, Entity, Observation, ObservationKind, Relation } from '../utils/types';
+import { t } from '../i18n/i18nService';
+
+/** 文本文件格式 */
+export type TextStorageFormat = 'jsonl' | 'yaml';
+
+/** 拆分方式：每个实体一个文件 / 每种实体类型一个文件 */
+export type TextStorageLayout = 'entity' | 'type';
+
+/**
+ * 文本文件中的一条记录
+ * kind 表示记录类型，观察记录自身的种类写在 observationKind 中（note 省略）
+ */
+type TextRecord =
+  | ({ kind: 'entity' } & Entity)
+  | ({ kind: 'observation'; observationKind?: ObservationKind } & Omit<Observation, 'kind'>)
+  | ({ kind: 'relation' } & Relation)
+  | ({ kind: 'crossFolderRelation' } & CrossFolderRelation);
+
+/** 每种记录写入文件时的字段顺序 */
+const FIELD_ORDER: Record<TextRecord['kind'], string[]> = {
+  entity: ['kind', 'id', 'name', 'type', 'filePath', 'startLine', 'endLine', 'description', 'aliases', 'createdAt', 'updatedAt', 'metadata'],
+  observation: ['kind', 'id', 'entityId', 'content', 'observationKind', 'tags', 'severity', 'codeHash', 'createdAt', 'updatedAt'],
+  relation: ['kind', 'id', 'sourceEntityId', 'targetEntityId', 'verb', 'createdAt', 'metadata'],
+  crossFolderRelation: ['kind', 'id', 'sourceEntityId', 'targetFolder', 'targetEntityId', 'verb', 'createdAt', 'metadata'],
+};
+
+/**
+ * 从文本文件重建的结果；skipped* 为因引用的实体缺失而跳过的记录数（手动编辑或合并文件后可能出现）
+ */
+export interface TextRebuildResult {
+  entities: number;
+  skippedRelations: number;
+  skippedObservations: number;
+}
+
+const TEXT_EXTENSIONS = ['.jsonl', '.yaml'];
+const WATCH_DEBOUNCE_MS = 500;
+
+/**
+ * 手动图谱的文本镜像（.vscode/.knowledge/graph/）
+ *
+ * 数据库保存后把实体、关系、观察记录写成排序稳定的 JSONL 或 YAML 文件，便于提交和以文本方式解决合并冲突；
+ * 文件被外部修改（git checkout、合并）后，以文件内容为准重建 SQLite 中的手动图谱。
+ * 关系和观察记录写在源实体所在的文件中。
+ */
+export class GraphTextStore implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private lastWritten: Map<string, string> = new Map();
+  private checkTimer: NodeJS.Timeout | null = null;
+  private rebuilding = false;
+  private rebuildEmitter = new vscode.EventEmitter<void>();
+
+  /**
+   * 从文本文件重建数据库后触发
+   */
+  public readonly onDidRebuild = this.rebuildEmitter.event;
+
+  constructor(
+    private dbService: DatabaseService,
+    private entityService: EntityService,
+    private relationService: RelationService,
+    private observationService: ObservationService
+  ) {}
+
+  /**
+   * 开始同步：已有文本文件时以文件为准，否则从数据库生成
+   */
+  public start(): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(this.getRootDir(), '**/*')
+    );
+    watcher.onDidChange(() => this.scheduleCheck());
+    watcher.onDidCreate(() => this.scheduleCheck());
+    watcher.onDidDelete(() => this.scheduleCheck());
+
+    this.disposables.push(
+      watcher,
+      this.dbService.onDidSave(() => this.syncToFiles()),
+      this.dbService.onDidReload(() => this.syncToFiles()),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('knowledgeGraph.textStorage')) {
+          this.initialSync();
+        }
+      })
+    );
+
+    this.initialSync();
+  }
+
+  public isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('knowledgeGraph.textStorage').get<boolean>('enabled', false);
+  }
+
+  /**
+   * 文本文件根目录
+   */
+  public getRootDir(): string {
+    return path.join(path.dirname(this.dbService.getDbPath()), 'graph');
+  }
+
+  /**
+   * 将数据库中的手动图谱写入文本文件，只改写内容有变化的文件并删除多余的文件
+   */
+  public writeFiles(): void {
+    const rendered = this.render();
+    const existing = this.readFiles();
+
+    for (const [relativePath, content] of rendered) {
+      if (existing.get(relativePath) === content) {
+        continue;
+      }
+      const filePath = path.join(this.getRootDir(), relativePath);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content, 'utf-8');
+    }
+
+    for (const relativePath of existing.keys()) {
+      if (!rendered.has(relativePath)) {
+        fs.unlinkSync(path.join(this.getRootDir(), relativePath));
+      }
+    }
+
+    this.lastWritten = rendered;
+  }
+
+  /**
+   * 从文本文件重建手动图谱，返回写入的实体数量和跳过的关系、观察记录数量
+   */
+  public rebuildFromFiles(): TextRebuildResult {
+    const files = this.readFiles();
+    const records: TextRecord[] = [];
+    for (const [relativePath, content] of [...files.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      try {
+        records.push(...this.parse(content, relativePath.endsWith('.yaml') ? 'yaml' : 'jsonl'));
+      } catch (error) {
+        throw new Error(`${relativePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const entities = records.filter((r): r is { kind: 'entity' } & Entity => r.kind === 'entity');
+    const entityIds = new Set(entities.map(entity => entity.id));
+    let skippedRelations = 0;
+    let skippedObservations = 0;
+
+    this.rebuilding = true;
+    try {
+      this.dbService.transaction(() => {
+        // 文件被外部修改后的重建无法逐行对应到之前的修改，之前的历史标记为不可撤销
+        this.dbService.clearManualGraph();
+
+        entities.forEach(entity => this.entityService.insertEntity(this.withoutKind(entity)));
+
+        for (const record of records) {
+          if (record.kind === 'observation') {
+            if (entityIds.has(record.entityId)) {
+              const { observationKind, ...observation } = this.withoutKind(record);
+              this.observationService.insertObservation({ ...observation, kind: observationKind });
+            } else {
+              skippedObservations++;
+            }
+          } else if (record.kind === 'relation') {
+            // 合并后可能出现指向已删除实体的关系，跳过以免违反外键约束
+            if (entityIds.has(record.sourceEntityId) && entityIds.has(record.targetEntityId)) {
+              this.relationService.insertRelation(this.withoutKind(record));
+            } else {
+              skippedRelations++;
+            }
+          } else if (record.kind === 'crossFolderRelation') {
+            if (entityIds.has(record.sourceEntityId)) {
+              this.relationService.insertCrossFolderRelation(this.withoutKind(record));
+            } else {
+              skippedRelations++;
+            }
+          }
+        }
+      });
+    } finally {
+      this.rebuilding = false;
+    }
+
+    this.lastWritten = files;
+    this.rebuildEmitter.fire();
+    return { entities: entities.length, skippedRelations, skippedObservations };
+  }
+
+  /**
+   * 重建结果的提示；有记录被跳过时 warning 为 true
+   */
+  public describeRebuild(result: TextRebuildResult): { message: string; warning: boolean } {
+    const translations = t().database;
+    const lines = [translations.textRebuilt(result.entities)];
+    if (result.skippedRelations > 0) {
+      lines.push(translations.textSkippedRelations(result.skippedRelations));
+    }
+    if (result.skippedObservations > 0) {
+      lines.push(translations.textSkippedObservations(result.skippedObservations));
+    }
+    return { message: lines.join('\n'), warning: lines.length > 1 };
+  }
+
+  /**
+   * 检查文本文件是否被外部修改，是则重建数据库
+   */
+  public checkForChanges(): void {
+    if (!this.isEnabled() || this.rebuilding) {
+      return;
+    }
+
+    const files = this.readFiles();
+    if (this.sameFiles(files, this.lastWritten)) {
+      return;
+    }
+    if (this.sameFiles(files, this.render())) {
+      this.lastWritten = files;
+      return;
+    }
+
+    try {
+      const { message, warning } = this.describeRebuild(this.rebuildFromFiles());
+      if (warning) {
+        vscode.window.showWarningMessage(message);
+      } else {
+        vscode.window.showInformationMessage(message);
+      }
+    } catch (error) {
+      console.error('Failed to rebuild graph from text files:', error);
+      vscode.window.showErrorMessage(t().database.textRebuildFailed(String(error)));
+    }
+  }
+
+  public dispose(): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+      this.checkTimer = null;
+    }
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.rebuildEmitter.dispose();
+  }
+
+  /**
+   * 启用时：目录中已有文件则以文件为准，否则生成文件
+   */
+  private initialSync(): void {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      if (this.readFiles().size > 0) {
+        this.checkForChanges();
+      } else {
+        this.writeFiles();
+      }
+    } catch (error) {
+      console.error('Failed to sync graph text files:', error);
+    }
+  }
+
+  private syncToFiles(): void {
+    if (!this.isEnabled() || this.rebuilding) {
+      return;
+    }
+
+    try {
+      this.writeFiles();
+    } catch (error) {
+      console.error('Failed to write graph text files:', error);
+    }
+  }
+
+  private scheduleCheck(): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+    }
+    this.checkTimer = setTimeout(() => {
+      this.checkTimer = null;
+      this.checkForChanges();
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  /**
+   * 将数据库中的手动图谱渲染为 相对路径 → 文件内容
+   */
+  private render(): Map<string, string> {
+    const config = vscode.workspace.getConfiguration('knowledgeGraph.textStorage');
+    const format = config.get<TextStorageFormat>('format', 'jsonl');
+    const layout = config.get<TextStorageLayout>('layout', 'entity');
+
+    const entities = [...this.entityService.listEntities()].sort(
+      (a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id)
+    );
+    const observations = this.groupBy(this.observationService.listAllObservations(), o => o.entityId);
+    const relations = this.groupBy(this.relationService.getAllRelations(), r => r.sourceEntityId);
+    const crossFolderRelations = this.groupBy(this.relationService.getCrossFolderRelations(), r => r.sourceEntityId);
+
+    const files = new Map<string, TextRecord[]>();
+    for (const entity of entities) {
+      const relativePath = layout === 'entity'
+        ? `entities/${this.slugify(entity.name)}-${entity.id.substring(0, 8)}.${format}`
+        : `types/${this.slugify(entity.type)}.${format}`;
+
+      const records = files.get(relativePath) || [];
+      records.push(
+        { kind: 'entity', ...entity },
+        ...(observations.get(entity.id) || [])
+          .sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id))
+          .map(({ kind, ...o }) => ({
+            kind: 'observation' as const,
+            ...o,
+            observationKind: kind === 'note' ? undefined : kind,
+          })),
+        ...(relations.get(entity.id) || [])
+          .sort((a, b) => a.verb.localeCompare(b.verb) || a.targetEntityId.localeCompare(b.targetEntityId) || a.id.localeCompare(b.id))
+          .map(r => ({ kind: 'relation' as const, ...r })),
+        ...(crossFolderRelations.get(entity.id) || [])
+          .sort((a, b) => a.verb.localeCompare(b.verb) || a.targetEntityId.localeCompare(b.targetEntityId) || a.id.localeCompare(b.id))
+          .map(r => ({ kind: 'crossFolderRelation' as const, ...r }))
+      );
+      files.set(relativePath, records);
+    }
+
+    const rendered = new Map<string, string>();
+    for (const [relativePath, records] of files) {
+      rendered.set(relativePath, this.serialize(records, format));
+    }
+    return rendered;
+  }
+
+  /**
+   * 序列化记录；字段顺序固定，省略空值，metadata 按键名排序
+   * YAML 只使用受限子集：每条记录是一个列表项，每个值都是 JSON 标量或流式对象
+   */
+  private serialize(records: TextRecord[], format: TextStorageFormat): string {
+    const lines: string[] = [];
+    for (const record of records) {
+      const values = new Map<string, unknown>(Object.entries(record));
+      const fields = FIELD_ORDER[record.kind]
+        .filter(key => values.get(key) !== undefined && values.get(key) !== null)
+        .map(key => [key, this.stableStringify(values.get(key))] as const);
+
+      if (format === 'jsonl') {
+        lines.push(`{${fields.map(([key, value]) => `${JSON.stringify(key)}:${value}`).join(',')}}`);
+      } else {
+        fields.forEach(([key, value], i) => {
+          lines.push(`${i === 0 ? '- ' : '  '}${key}: ${value}`);
+        });
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private parse(content: string, format: TextStorageFormat): TextRecord[] {
+    const lines = content.split(/\r?\n/);
+    const records: Record<string, unknown>[] = [];
+
+    lines.forEach((line, i) => {
+      if (!line.trim() || line.startsWith('#')) {
+        return;
+      }
+
+      try {
+        if (format === 'jsonl') {
+          records.push(JSON.parse(line));
+          return;
+        }
+
+        if (!line.startsWith('- ') && !line.startsWith('  ')) {
+          throw new Error('unexpected indentation');
+        }
+        if (line.startsWith('- ')) {
+          records.push({});
+        }
+        const rest = line.substring(2);
+        const separator = rest.indexOf(': ');
+        if (separator <= 0 || records.length === 0) {
+          throw new Error('expected "key: value"');
+        }
+        records[records.length - 1][rest.substring(0, separator)] = JSON.parse(rest.substring(separator + 2));
+      } catch (error) {
+        throw new Error(`line ${i + 1}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+
+    for (const record of records) {
+      if (typeof record.kind !== 'string' || !(record.kind in FIELD_ORDER) || typeof record.id !== 'string') {
+        throw new Error(`invalid record: ${JSON.stringify(record)}`);
+      }
+    }
+    return records as TextRecord[];
+  }
+
+  /**
+   * 读取目录下所有文本文件：相对路径（正斜杠）→ 内容
+   */
+  private readFiles(): Map<string, string> {
+    const files = new Map<string, string>();
+    const root = this.getRootDir();
+
+    const walk = (dir: string) => {
+      if (!fs.existsSync(dir)) {
+        return;
+      }
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(fullPath);
+        } else if (TEXT_EXTENSIONS.includes(path.extname(entry.name))) {
+          files.set(path.relative(root, fullPath).replace(/\\/g, '/'), fs.readFileSync(fullPath, 'utf-8'));
+        }
+      }
+    };
+    walk(root);
+
+    return files;
+  }
+
+  private withoutKind<T extends { kind: string }>(record: T): Omit<T, 'kind'> {
+    const copy: Partial<T> = { ...record };
+    delete copy.kind;
+    return copy as Omit<T, 'kind'>;
+  }
+
+  private sameFiles(a: Map<string, string>, b: Map<string, string>): boolean {
+    if (a.size !== b.size) {
+      return false;
+    }
+    for (const [key, value] of a) {
+      if (b.get(key) !== value) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private stableStringify(value: unknown): string {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const entries = Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${this.stableStringify(item)}`).join(',')}}`;
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+    return JSON.stringify(value);
+  }
+
+  private groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const key = keyOf(item);
+      const group = groups.get(key) || [];
+      group.push(item);
+      groups.set(key, group);
+    }
+    return groups;
+  }
+
+  private slugify(value: string): string {
+    return value.replace(/[^A-Za-z0-9_.-]+/g, '-').replace(/^-+|-+$/g, '') || 'entity';
+  }
+}
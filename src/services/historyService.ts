@@ -0,0 +1,333 @@
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+import { DatabaseService } from './database';
+import { HistoryAction, HistoryEntry, HistoryRow, HistoryTable } from '../utils/types';
+
+/**
+ * sql.js 查询返回的一行（列名为 snake_case）
+ */
+type SqlRow = Record<string, string | number | null>;
+
+/**
+ * 清空手动图谱时按依赖顺序记录删除的表（撤销时倒序恢复）
+ */
+const MANUAL_GRAPH_TABLES: HistoryTable[] = ['observations', 'cross_folder_relations', 'relations', 'entities'];
+
+/**
+ * 手动图谱修改历史服务
+ * 记录实体、关系、观察记录的每次创建/更新/删除（修改前后的整行 JSON），并支持撤销/重做
+ */
+export class HistoryService {
+  private currentGroup?: string;
+  private author?: string;
+
+  constructor(private dbService: DatabaseService) {}
+
+  /**
+   * 将 fn 中的所有修改记为同一组，撤销/重做时整体处理
+   */
+  public group<T>(fn: () => T): T {
+    if (this.currentGroup) {
+      return fn();
+    }
+
+    this.currentGroup = randomUUID();
+    try {
+      return fn();
+    } finally {
+      this.currentGroup = undefined;
+    }
+  }
+
+  /**
+   * 读取表中的一行（用于记录修改前后的数据）
+   */
+  public getRow(table: HistoryTable, rowId: string): HistoryRow | null {
+    return this.queryRows<HistoryRow>(`SELECT * FROM ${table} WHERE id = ?`, rowId)[0] || null;
+  }
+
+  /**
+   * 记录一次修改；新的修改会清空重做栈
+   */
+  public record(
+    table: HistoryTable,
+    action: HistoryAction,
+    rowId: string,
+    before: HistoryRow | null,
+    after: HistoryRow | null
+  ): void {
+    const db = this.dbService.getDatabase();
+    db.run('UPDATE graph_history SET undo_state = 2 WHERE undo_state = 1');
+
+    const row = before || after;
+    const stmt = db.prepare(`
+      INSERT INTO graph_history (
+        group_id, table_name, row_id, entity_id, target_entity_id, action, before_json, after_json, author, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run([
+      this.currentGroup || randomUUID(),
+      table,
+      rowId,
+      this.getEntityId(table, row),
+      table === 'relations' && row ? row.target_entity_id as string : null,
+      action,
+      before ? JSON.stringify(before) : null,
+      after ? JSON.stringify(after) : null,
+      this.getAuthor(),
+      Date.now()
+    ]);
+    stmt.free();
+  }
+
+  /**
+   * 执行一次直接写入数据库的修改（导入、合并时按原样写入的行），并记录修改前后的整行
+   */
+  public recordWrite(table: HistoryTable, rowId: string, write: () => void): void {
+    const before = this.getRow(table, rowId);
+    write();
+    const after = this.getRow(table, rowId);
+    if (before || after) {
+      this.record(table, !before ? 'create' : after ? 'update' : 'delete', rowId, before, after);
+    }
+  }
+
+  /**
+   * 记录实体删除，包括会被外键级联删除的观察记录和关系
+   * 必须在执行删除之前调用
+   */
+  public recordEntityDelete(entityId: string): void {
+    const entity = this.getRow('entities', entityId);
+    if (!entity) {
+      return;
+    }
+
+    this.group(() => {
+      const dependents: [HistoryTable, string][] = [
+        ['observations', 'SELECT * FROM observations WHERE entity_id = ?'],
+        ['relations', 'SELECT * FROM relations WHERE source_entity_id = ? OR target_entity_id = ?'],
+        ['cross_folder_relations', 'SELECT * FROM cross_folder_relations WHERE source_entity_id = ?'],
+      ];
+
+      for (const [table, query] of dependents) {
+        for (const row of this.queryRows<HistoryRow>(query, entityId)) {
+          this.record(table, 'delete', row.id, row, null);
+        }
+      }
+
+      this.record('entities', 'delete', entityId, entity, null);
+    });
+  }
+
+  /**
+   * 清空手动图谱，并把删除的每一行记入当前组：撤销时恢复整个图谱，之前的历史仍可撤销
+   * 用于导入（替换模式）、合并、从文本文件重建等整体重写，通常与随后的写入放在同一个 group 中
+   */
+  public clearManualGraph(): void {
+    this.group(() => {
+      for (const table of MANUAL_GRAPH_TABLES) {
+        for (const row of this.queryRows<HistoryRow>(`SELECT * FROM ${table}`)) {
+          this.record(table, 'delete', row.id, row, null);
+        }
+      }
+      this.dbService.clearManualGraph({ keepHistory: true });
+    });
+  }
+
+  /**
+   * 获取实体及其观察记录、关系（包括指向它的关系）的修改历史（按时间倒序）
+   */
+  public getEntityHistory(entityId: string): HistoryEntry[] {
+    return this.queryRows<SqlRow>(
+      'SELECT * FROM graph_history WHERE entity_id = ? OR target_entity_id = ? ORDER BY id DESC',
+      entityId
+    ).map(row => this.rowToEntry(row));
+  }
+
+  public canUndo(): boolean {
+    return this.findGroup(0) !== null;
+  }
+
+  public canRedo(): boolean {
+    return this.findGroup(1) !== null;
+  }
+
+  /**
+   * 撤销最近一组修改，返回被撤销的记录；没有可撤销的修改时返回 null
+   * 无法恢复的组（数据已被未记录的方式修改）连同更早的历史标记为不可撤销，然后抛出原来的错误
+   */
+  public undo(): HistoryEntry[] | null {
+    const groupId = this.findGroup(0);
+    if (!groupId) {
+      return null;
+    }
+
+    const entries = this.getGroupEntries(groupId);
+    try {
+      this.dbService.transaction(() => {
+        // 倒序恢复：先恢复实体，再恢复依赖它的观察记录和关系
+        [...entries].reverse().forEach(entry => {
+          if (entry.action === 'create') {
+            this.deleteRow(entry.table, entry.rowId);
+          } else if (entry.action === 'delete') {
+            this.insertRow(entry.table, entry.before!);
+          } else {
+            this.updateRow(entry.table, entry.before!);
+          }
+        });
+        this.setUndoState(groupId, 1);
+      });
+    } catch (error) {
+      const lastId = entries[entries.length - 1].id;
+      this.dbService.transaction(() => {
+        this.dbService.getDatabase().run('UPDATE graph_history SET undo_state = 3 WHERE undo_state = 0 AND id <= ?', [lastId]);
+      });
+      throw error;
+    }
+    return entries;
+  }
+
+  /**
+   * 重做最近一次撤销的修改
+   * 无法重做的组连同之后撤销的组标记为不可重做，然后抛出原来的错误
+   */
+  public redo(): HistoryEntry[] | null {
+    const groupId = this.findGroup(1);
+    if (!groupId) {
+      return null;
+    }
+
+    const entries = this.getGroupEntries(groupId);
+    try {
+      this.dbService.transaction(() => {
+        entries.forEach(entry => {
+          if (entry.action === 'create') {
+            this.insertRow(entry.table, entry.after!);
+          } else if (entry.action === 'delete') {
+            this.deleteRow(entry.table, entry.rowId);
+          } else {
+            this.updateRow(entry.table, entry.after!);
+          }
+        });
+        this.setUndoState(groupId, 0);
+      });
+    } catch (error) {
+      const firstId = entries[0].id;
+      this.dbService.transaction(() => {
+        this.dbService.getDatabase().run('UPDATE graph_history SET undo_state = 2 WHERE undo_state = 1 AND id >= ?', [firstId]);
+      });
+      throw error;
+    }
+    return entries;
+  }
+
+  /**
+   * 可撤销：最新的未撤销组；可重做：最早被撤销的组（即最后一次撤销的组）
+   */
+  private findGroup(undoState: 0 | 1): string | null {
+    const order = undoState === 0 ? 'DESC' : 'ASC';
+    const rows = this.queryRows<SqlRow>(
+      `SELECT group_id FROM graph_history WHERE undo_state = ? ORDER BY id ${order} LIMIT 1`,
+      undoState
+    );
+    return rows.length > 0 ? rows[0].group_id as string : null;
+  }
+
+  private getGroupEntries(groupId: string): HistoryEntry[] {
+    return this.queryRows<SqlRow>('SELECT * FROM graph_history WHERE group_id = ? ORDER BY id ASC', groupId)
+      .map(row => this.rowToEntry(row));
+  }
+
+  private setUndoState(groupId: string, undoState: number): void {
+    const db = this.dbService.getDatabase();
+    db.run('UPDATE graph_history SET undo_state = ? WHERE group_id = ?', [undoState, groupId]);
+  }
+
+  private insertRow(table: HistoryTable, row: HistoryRow): void {
+    const columns = Object.keys(row);
+    const db = this.dbService.getDatabase();
+    db.run(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+      columns.map(column => row[column])
+    );
+  }
+
+  private updateRow(table: HistoryTable, row: HistoryRow): void {
+    const columns = Object.keys(row).filter(column => column !== 'id');
+    const db = this.dbService.getDatabase();
+    db.run(
+      `UPDATE ${table} SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+      [...columns.map(column => row[column]), row.id]
+    );
+  }
+
+  private deleteRow(table: HistoryTable, rowId: string): void {
+    const db = this.dbService.getDatabase();
+    db.run(`DELETE FROM ${table} WHERE id = ?`, [rowId]);
+  }
+
+  /**
+   * 查询多行；查询中的每个 ? 都绑定同一个参数
+   */
+  private queryRows<T>(query: string, param?: string | number): T[] {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare(query);
+    const placeholders = (query.match(/\?/g) || []).length;
+    stmt.bind(new Array(placeholders).fill(param));
+
+    const rows: T[] = [];
+    while (stmt.step()) {
+      rows.push(stmt.getAsObject() as T);
+    }
+    stmt.free();
+    return rows;
+  }
+
+  /**
+   * 历史记录归属的实体（用于实体历史视图）；关系的目标实体另外记录在 target_entity_id 中
+   */
+  private getEntityId(table: HistoryTable, row: HistoryRow | null): string | null {
+    if (!row) {
+      return null;
+    }
+    switch (table) {
+      case 'entities':
+        return row.id;
+      case 'observations':
+        return row.entity_id as string;
+      default:
+        return row.source_entity_id as string;
+    }
+  }
+
+  private getAuthor(): string {
+    if (this.author === undefined) {
+      try {
+        this.author = os.userInfo().username;
+      } catch {
+        this.author = '';
+      }
+    }
+    return this.author;
+  }
+
+  /**
+   * graph_history 的一行转换为历史记录
+   * undo_state: 0 正常，1 已撤销（可重做），2 已撤销且不可重做，3 未撤销但不可撤销（之后的修改未记录或撤销失败）
+   */
+  private rowToEntry(row: SqlRow): HistoryEntry {
+    return {
+      id: row.id as number,
+      groupId: row.group_id as string,
+      table: row.table_name as HistoryTable,
+      rowId: row.row_id as string,
+      entityId: row.entity_id as string || undefined,
+      action: row.action as HistoryAction,
+      before: row.before_json ? JSON.parse(row.before_json as string) : undefined,
+      after: row.after_json ? JSON.parse(row.after_json as string) : undefined,
+      author: row.author as string || undefined,
+      createdAt: row.created_at as number,
+      undone: row.undo_state === 1 || row.undo_state === 2,
+    };
+  }
+}
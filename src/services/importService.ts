@@ -0,0 +1,496 @@
+import * as fs from 'fs';
+import { randomUUID } from 'crypto';
+import { DatabaseService } from './database';
+import { EntityService } from './entityService';
+import { RelationService } from './relationService';
+import { ObservationService } from './observationService';
+import { HistoryService } from './historyService';
+import { Entity, Relation, Observation, GraphExportData, HistoryTable } from '../utils/types';
+import {
+  DEFAULT_OBSERVATION_KIND,
+  isObservationKind,
+  isObservationSeverity,
+  normalizeTags,
+} from '../../packages/mcp-server/src/schema/observationFields';
+
+/**
+ * 导入模式
+ * - replace：清空现有手动图谱后整体导入
+ * - merge-id：按实体 ID 合并
+ * - merge-key：按 (name, type, filePath) 合并
+ */
+export type ImportMode = 'replace' | 'merge-id' | 'merge-key';
+
+/**
+ * 观察记录冲突处理策略
+ */
+export type ObservationConflictStrategy = 'keep-existing' | 'use-imported' | 'keep-both';
+
+/**
+ * 观察记录冲突（同一 ID 内容不同）
+ */
+export interface ObservationConflict {
+  existing: Observation;
+  imported: Observation;
+}
+
+/**
+ * 被跳过的条目及原因
+ */
+export interface SkippedItem<T> {
+  item: T;
+  reason: 'unchanged' | 'duplicate' | 'dangling' | 'conflict';
+}
+
+/**
+ * 导入计划（预览 + 执行依据）
+ */
+export interface ImportPlan {
+  mode: ImportMode;
+  strategy: ObservationConflictStrategy;
+  entities: {
+    added: Entity[];
+    updated: Entity[];
+    skipped: SkippedItem<Entity>[];
+  };
+  relations: {
+    added: Relation[];
+    skipped: SkippedItem<Relation>[];
+  };
+  observations: {
+    added: Observation[];
+    updated: Observation[];
+    skipped: SkippedItem<Observation>[];
+  };
+  conflicts: ObservationConflict[];
+}
+
+/**
+ * 导入结果统计
+ */
+export interface ImportResult {
+  entitiesAdded: number;
+  entitiesUpdated: number;
+  relationsAdded: number;
+  observationsAdded: number;
+  observationsUpdated: number;
+  skipped: number;
+}
+
+/** 支持的导出文件主版本号 */
+const SUPPORTED_MAJOR_VERSION = '1';
+
+/**
+ * 导出文件中尚未校验的 JSON 对象
+ */
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 导入服务
+ * 负责读取 ExportService.exportToJSON 生成的文件，并合并回手动图谱
+ */
+export class ImportService {
+  constructor(
+    private dbService: DatabaseService,
+    private entityService: EntityService,
+    private relationService: RelationService,
+    private observationService: ObservationService,
+    private history?: HistoryService
+  ) {}
+
+  /**
+   * 读取并校验导出文件
+   */
+  public readExportFile(filePath: string): GraphExportData {
+    const raw = fs.readFileSync(filePath, 'utf-8');
+
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return this.normalizeExportData(data);
+  }
+
+  /**
+   * 校验并规范化导出数据
+   */
+  public normalizeExportData(data: unknown): GraphExportData {
+    if (!isRecord(data)) {
+      throw new Error('Export file must contain a JSON object');
+    }
+
+    const version = String(data.version ?? '');
+    if (version.split('.')[0] !== SUPPORTED_MAJOR_VERSION) {
+      throw new Error(`Unsupported export version: "${version || 'unknown'}"`);
+    }
+
+    if (!Array.isArray(data.entities) || !Array.isArray(data.relations)) {
+      throw new Error('Export file must contain "entities" and "relations" arrays');
+    }
+
+    const now = Date.now();
+    const entities: Entity[] = data.entities.map((e: unknown, index: number) => {
+      if (!isRecord(e) || !e.id || !e.name || !e.type || typeof e.filePath !== 'string') {
+        throw new Error(`Invalid entity at index ${index}`);
+      }
+      return {
+        id: String(e.id),
+        name: String(e.name),
+        type: String(e.type),
+        filePath: e.filePath,
+        startLine: Number(e.startLine) || 1,
+        endLine: Number(e.endLine) || Number(e.startLine) || 1,
+        description: e.description ? String(e.description) : undefined,
+        aliases: Array.isArray(e.aliases) ? e.aliases.map(String) : undefined,
+        createdAt: Number(e.createdAt) || now,
+        updatedAt: Number(e.updatedAt) || now,
+        metadata: isRecord(e.metadata) ? e.metadata : undefined,
+      };
+    });
+
+    const relations: Relation[] = data.relations.map((r: unknown, index: number) => {
+      if (!isRecord(r) || !r.id || !r.sourceEntityId || !r.targetEntityId || !r.verb) {
+        throw new Error(`Invalid relation at index ${index}`);
+      }
+      return {
+        id: String(r.id),
+        sourceEntityId: String(r.sourceEntityId),
+        targetEntityId: String(r.targetEntityId),
+        verb: String(r.verb),
+        createdAt: Number(r.createdAt) || now,
+        metadata: isRecord(r.metadata) ? r.metadata : undefined,
+      };
+    });
+
+    // observations 可能是 { entityId: Observation[] } 或扁平数组
+    const rawObservations: unknown[] = Array.isArray(data.observations)
+      ? data.observations
+      : Object.values(isRecord(data.observations) ? data.observations : {}).flat();
+
+    const observations: Record<string, Observation[]> = {};
+    rawObservations.forEach((o, index) => {
+      if (!isRecord(o) || !o.id || !o.entityId || typeof o.content !== 'string') {
+        throw new Error(`Invalid observation at index ${index}`);
+      }
+      const tags = normalizeTags(o.tags);
+      const observation: Observation = {
+        id: String(o.id),
+        entityId: String(o.entityId),
+        content: o.content,
+        // 旧版本导出的观察记录没有种类，视为 note
+        kind: isObservationKind(o.kind) ? o.kind : DEFAULT_OBSERVATION_KIND,
+        tags: tags.length > 0 ? tags : undefined,
+        severity: isObservationSeverity(o.severity) ? o.severity : undefined,
+        codeHash: o.codeHash ? String(o.codeHash) : undefined,
+        createdAt: Number(o.createdAt) || now,
+        updatedAt: Number(o.updatedAt) || now,
+      };
+      (observations[observation.entityId] ||= []).push(observation);
+    });
+
+    return {
+      exportTime: typeof data.exportTime === 'string' ? data.exportTime : undefined,
+      version,
+      entities,
+      relations,
+      observations,
+    };
+  }
+
+  /**
+   * 生成导入计划（不修改数据库）
+   */
+  public buildPlan(
+    data: GraphExportData,
+    mode: ImportMode,
+    strategy: ObservationConflictStrategy = 'keep-existing'
+  ): ImportPlan {
+    const plan: ImportPlan = {
+      mode,
+      strategy,
+      entities: { added: [], updated: [], skipped: [] },
+      relations: { added: [], skipped: [] },
+      observations: { added: [], updated: [], skipped: [] },
+      conflicts: [],
+    };
+
+    // replace 模式下视为空库
+    const isReplace = mode === 'replace';
+    const existingEntities = isReplace ? [] : this.entityService.listEntities();
+    const existingRelations = isReplace ? [] : this.relationService.getAllRelations();
+    const existingObservations = isReplace ? [] : this.observationService.listAllObservations();
+
+    const entitiesById = new Map(existingEntities.map(e => [e.id, e]));
+    const entitiesByKey = new Map(existingEntities.map(e => [this.entityKey(e), e]));
+    const usedEntityIds = new Set(entitiesById.keys());
+    // 计划新增的实体（merge-key 模式下文件中 (name, type, filePath) 重复的实体只新增一次）
+    const addedByKey = new Map<string, Entity>();
+
+    // 导入实体 ID -> 目标实体 ID
+    const entityIdMap = new Map<string, string>();
+
+    for (const imported of data.entities) {
+      if (entityIdMap.has(imported.id)) {
+        plan.entities.skipped.push({ item: imported, reason: 'duplicate' });
+        continue;
+      }
+
+      const key = this.entityKey(imported);
+      const planned = mode === 'merge-key' ? addedByKey.get(key) : undefined;
+      if (planned) {
+        entityIdMap.set(imported.id, planned.id);
+        plan.entities.skipped.push({ item: imported, reason: 'duplicate' });
+        continue;
+      }
+
+      const match = mode === 'merge-key'
+        ? entitiesByKey.get(key)
+        : entitiesById.get(imported.id);
+
+      if (match) {
+        entityIdMap.set(imported.id, match.id);
+        const merged: Entity = { ...imported, id: match.id, createdAt: match.createdAt };
+        if (this.sameEntity(match, merged)) {
+          plan.entities.skipped.push({ item: imported, reason: 'unchanged' });
+        } else {
+          plan.entities.updated.push(merged);
+        }
+        continue;
+      }
+
+      const id = usedEntityIds.has(imported.id) ? randomUUID() : imported.id;
+      usedEntityIds.add(id);
+      entityIdMap.set(imported.id, id);
+      const added = { ...imported, id };
+      addedByKey.set(key, added);
+      plan.entities.added.push(added);
+    }
+
+    // 解析关系端点：优先使用导入映射，其次是已存在的实体
+    const resolveEntityId = (id: string): string | undefined =>
+      entityIdMap.get(id) ?? (entitiesById.has(id) ? id : undefined);
+
+    const relationIds = new Set(existingRelations.map(r => r.id));
+    const relationKeys = new Set(existingRelations.map(r => this.relationKey(r)));
+
+    for (const imported of data.relations) {
+      const sourceEntityId = resolveEntityId(imported.sourceEntityId);
+      const targetEntityId = resolveEntityId(imported.targetEntityId);
+
+      if (!sourceEntityId || !targetEntityId) {
+        plan.relations.skipped.push({ item: imported, reason: 'dangling' });
+        continue;
+      }
+
+      const relation: Relation = { ...imported, sourceEntityId, targetEntityId };
+      const key = this.relationKey(relation);
+      if (relationKeys.has(key)) {
+        plan.relations.skipped.push({ item: imported, reason: 'duplicate' });
+        continue;
+      }
+
+      if (relationIds.has(relation.id)) {
+        relation.id = randomUUID();
+      }
+      relationIds.add(relation.id);
+      relationKeys.add(key);
+      plan.relations.added.push(relation);
+    }
+
+    const observationsById = new Map(existingObservations.map(o => [o.id, o]));
+    const observationKeys = new Set(existingObservations.map(o => this.observationKey(o)));
+
+    for (const imported of Object.values(data.observations).flat()) {
+      const entityId = resolveEntityId(imported.entityId);
+      if (!entityId) {
+        plan.observations.skipped.push({ item: imported, reason: 'dangling' });
+        continue;
+      }
+
+      const observation: Observation = { ...imported, entityId };
+      const key = this.observationKey(observation);
+      const existing = observationsById.get(observation.id);
+
+      if (existing) {
+        if (existing.entityId === entityId && this.sameObservationContent(existing, observation)) {
+          plan.observations.skipped.push({ item: imported, reason: 'unchanged' });
+          continue;
+        }
+
+        plan.conflicts.push({ existing, imported: observation });
+
+        if (strategy === 'use-imported') {
+          plan.observations.updated.push(observation);
+        } else if (strategy === 'keep-both' && !observationKeys.has(key)) {
+          const copy = { ...observation, id: randomUUID() };
+          observationsById.set(copy.id, copy);
+          observationKeys.add(key);
+          plan.observations.added.push(copy);
+        } else {
+          plan.observations.skipped.push({ item: imported, reason: 'conflict' });
+        }
+        continue;
+      }
+
+      if (observationKeys.has(key)) {
+        plan.observations.skipped.push({ item: imported, reason: 'duplicate' });
+        continue;
+      }
+
+      observationsById.set(observation.id, observation);
+      observationKeys.add(key);
+      plan.observations.added.push(observation);
+    }
+
+    return plan;
+  }
+
+  /**
+   * 执行导入计划（单个事务内完成，整体作为一次修改，可以一次撤销）
+   */
+  public applyPlan(plan: ImportPlan): ImportResult {
+    const apply = () => {
+      if (plan.mode === 'replace') {
+        if (this.history) {
+          this.history.clearManualGraph();
+        } else {
+          this.dbService.clearManualGraph();
+        }
+      }
+
+      plan.entities.added.forEach(e => this.write('entities', e.id, () => this.entityService.insertEntity(e)));
+      plan.entities.updated.forEach(e => this.write('entities', e.id, () => this.entityService.overwriteEntity(e)));
+      plan.relations.added.forEach(r => this.write('relations', r.id, () => this.relationService.insertRelation(r)));
+      plan.observations.added.forEach(o => this.write('observations', o.id, () => this.observationService.insertObservation(o)));
+      plan.observations.updated.forEach(o => this.write('observations', o.id, () => this.observationService.overwriteObservation(o)));
+    };
+
+    this.dbService.transaction(() => this.history ? this.history.group(apply) : apply());
+
+    return {
+      entitiesAdded: plan.entities.added.length,
+      entitiesUpdated: plan.entities.updated.length,
+      relationsAdded: plan.relations.added.length,
+      observationsAdded: plan.observations.added.length,
+      observationsUpdated: plan.observations.updated.length,
+      skipped:
+        plan.entities.skipped.length +
+        plan.relations.skipped.length +
+        plan.observations.skipped.length,
+    };
+  }
+
+  /**
+   * 将导入计划格式化为 Markdown 预览
+   */
+  public formatPlan(plan: ImportPlan, sourceName: string): string {
+    const lines: string[] = [
+      `# Import Preview: ${sourceName}`,
+      '',
+      `- **Mode**: ${plan.mode}`,
+      `- **Observation conflicts**: ${plan.conflicts.length} (${plan.strategy})`,
+      '',
+      '| | Add | Update | Skip |',
+      '|---|---|---|---|',
+      `| Entities | ${plan.entities.added.length} | ${plan.entities.updated.length} | ${plan.entities.skipped.length} |`,
+      `| Relations | ${plan.relations.added.length} | 0 | ${plan.relations.skipped.length} |`,
+      `| Observations | ${plan.observations.added.length} | ${plan.observations.updated.length} | ${plan.observations.skipped.length} |`,
+      '',
+    ];
+
+    const entityLabel = (e: Entity) => `\`${e.name}\` (${e.type}) — ${e.filePath}:${e.startLine}`;
+    const preview = (content: string) =>
+      content.length > 80 ? `${content.substring(0, 80)}...` : content;
+
+    if (plan.entities.added.length > 0) {
+      lines.push('## Entities to add', '');
+      plan.entities.added.forEach(e => lines.push(`- ${entityLabel(e)}`));
+      lines.push('');
+    }
+
+    if (plan.entities.updated.length > 0) {
+      lines.push('## Entities to update', '');
+      plan.entities.updated.forEach(e => lines.push(`- ${entityLabel(e)}`));
+      lines.push('');
+    }
+
+    const danglingRelations = plan.relations.skipped.filter(s => s.reason === 'dangling');
+    if (danglingRelations.length > 0) {
+      lines.push('## Dangling relations (skipped)', '');
+      danglingRelations.forEach(({ item }) =>
+        lines.push(`- \`${item.sourceEntityId}\` ${item.verb} \`${item.targetEntityId}\``)
+      );
+      lines.push('');
+    }
+
+    const danglingObservations = plan.observations.skipped.filter(s => s.reason === 'dangling');
+    if (danglingObservations.length > 0) {
+      lines.push('## Observations without entity (skipped)', '');
+      danglingObservations.forEach(({ item }) => lines.push(`- ${preview(item.content)}`));
+      lines.push('');
+    }
+
+    if (plan.conflicts.length > 0) {
+      lines.push('## Conflicting observations', '');
+      plan.conflicts.forEach(({ existing, imported }) => {
+        lines.push(`- **Existing**: ${preview(existing.content)}`);
+        lines.push(`  **Imported**: ${preview(imported.content)}`);
+      });
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 按原样写入一行，有修改历史时一并记录
+   */
+  private write(table: HistoryTable, rowId: string, write: () => void): void {
+    if (this.history) {
+      this.history.recordWrite(table, rowId, write);
+    } else {
+      write();
+    }
+  }
+
+  private entityKey(entity: Entity): string {
+    return `${entity.name}\u0000${entity.type}\u0000${entity.filePath}`;
+  }
+
+  private relationKey(relation: Relation): string {
+    return `${relation.sourceEntityId}\u0000${relation.targetEntityId}\u0000${relation.verb}`;
+  }
+
+  private observationKey(observation: Observation): string {
+    return `${observation.entityId}\u0000${observation.content.trim()}`;
+  }
+
+  private sameEntity(a: Entity, b: Entity): boolean {
+    return (
+      a.name === b.name &&
+      a.type === b.type &&
+      a.filePath === b.filePath &&
+      a.startLine === b.startLine &&
+      a.endLine === b.endLine &&
+      (a.description || '') === (b.description || '') &&
+      JSON.stringify(a.aliases ?? []) === JSON.stringify(b.aliases ?? []) &&
+      JSON.stringify(a.metadata ?? null) === JSON.stringify(b.metadata ?? null)
+    );
+  }
+
+  private sameObservationContent(a: Observation, b: Observation): boolean {
+    return (
+      a.content === b.content &&
+      (a.kind || DEFAULT_OBSERVATION_KIND) === (b.kind || DEFAULT_OBSERVATION_KIND) &&
+      (a.severity || '') === (b.severity || '') &&
+      JSON.stringify(a.tags ?? []) === JSON.stringify(b.tags ?? [])
+    );
+  }
+}
@@ -1,6 +1,14 @@
 import { DatabaseService } from './database';
-import { Observation } from '../utils/types';
+import { Entity, Observation, ObservationFields, ObservationKind } from '../utils/types';
+import {
+  DEFAULT_OBSERVATION_KIND,
+  isObservationKind,
+  isObservationSeverity,
+  normalizeTags,
+} from '../../packages/mcp-server/src/schema/observationFields';
+import { buildMatchQuery, rankSearchRows } from '../../packages/mcp-server/src/schema/fullTextSearch';
 import { EntityService } from './entityService';
+import { HistoryService } from './historyService';
 import { randomUUID } from 'crypto';
 
 /**
@@ -9,51 +17,45 @@ import { randomUUID } from 'crypto';
 export class ObservationService {
   constructor(
     private dbService: DatabaseService,
-    private entityService: EntityService
+    private entityService: EntityService,
+    private history?: HistoryService,
+    private codeHash?: (entity: Entity) => string | undefined
   ) {}
 
   /**
    * 添加观察记录
    */
-  public addObservation(entityId: string, content: string): Observation {
+  public addObservation(entityId: string, content: string, fields: ObservationFields = {}): Observation {
     // 验证实体是否存在
     const entity = this.entityService.getEntity(entityId);
     if (!entity) {
       throw new Error('Entity not found');
     }
 
-    const db = this.dbService.getDatabase();
     const now = Date.now();
 
     const observation: Observation = {
       id: this.generateId(),
       entityId,
       content,
+      ...this.normalizeFields(fields),
+      codeHash: this.codeHash?.(entity),
       createdAt: now,
       updatedAt: now,
     };
 
-    const stmt = db.prepare(`
-      INSERT INTO observations (id, entity_id, content, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?)
-    `);
-
-    stmt.run([
-      observation.id,
-      observation.entityId,
-      observation.content,
-      observation.createdAt,
-      observation.updatedAt
-    ]);
+    this.insertObservation(observation);
 
+    this.history?.record('observations', 'create', observation.id, null, this.history.getRow('observations', observation.id));
     this.dbService.save(); // 保存到文件
     return observation;
   }
 
   /**
-   * 更新观察记录
+   * 更新观察记录；未传入的种类、标签和严重程度保持不变
+   * 同时记录实体代码的当前哈希
    */
-  public updateObservation(observationId: string, content: string): Observation | null {
+  public updateObservation(observationId: string, content: string, fields?: ObservationFields): Observation | null {
     const db = this.dbService.getDatabase();
     const existing = this.getObservation(observationId);
 
@@ -61,20 +63,55 @@ export class ObservationService {
       return null;
     }
 
+    const entity = this.entityService.getEntity(existing.entityId);
     const updated: Observation = {
       ...existing,
       content,
+      ...(fields ? this.normalizeFields({ ...existing, ...fields }) : {}),
+      codeHash: (entity && this.codeHash?.(entity)) || existing.codeHash,
       updatedAt: Date.now(),
     };
+    const before = this.history?.getRow('observations', observationId) ?? null;
 
     const stmt = db.prepare(`
       UPDATE observations 
-      SET content = ?, updated_at = ?
+      SET content = ?, kind = ?, tags = ?, severity = ?, code_hash = ?, updated_at = ?
       WHERE id = ?
     `);
 
-    stmt.run([updated.content, updated.updatedAt, observationId]);
+    stmt.run([...this.toColumns(updated), updated.updatedAt, observationId]);
+
+    this.history?.record('observations', 'update', observationId, before, this.history.getRow('observations', observationId));
+    this.dbService.save(); // 保存到文件
+    return updated;
+  }
+
+  /**
+   * 确认观察记录在代码变化后仍然有效：记录实体代码的当前哈希
+   */
+  public confirmObservation(observationId: string): Observation | null {
+    const existing = this.getObservation(observationId);
+    return existing ? this.updateObservation(observationId, existing.content) : null;
+  }
+
+  /**
+   * 只修改观察记录的标签；不更新代码哈希，避免把过期的观察记录当作已确认
+   */
+  public setTags(observationId: string, tags: string[]): Observation | null {
+    const existing = this.getObservation(observationId);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: Observation = { ...existing, ...this.normalizeFields({ ...existing, tags }), updatedAt: Date.now() };
+    const [, , tagsColumn] = this.toColumns(updated);
+    const before = this.history?.getRow('observations', observationId) ?? null;
+    this.dbService.getDatabase().run(
+      'UPDATE observations SET tags = ?, updated_at = ? WHERE id = ?',
+      [tagsColumn, updated.updatedAt, observationId]
+    );
 
+    this.history?.record('observations', 'update', observationId, before, this.history.getRow('observations', observationId));
     this.dbService.save(); // 保存到文件
     return updated;
   }
@@ -84,12 +121,73 @@ export class ObservationService {
    */
   public deleteObservation(observationId: string): boolean {
     const db = this.dbService.getDatabase();
+    const before = this.history?.getRow('observations', observationId);
+    if (before) {
+      this.history!.record('observations', 'delete', observationId, before, null);
+    }
     const stmt = db.prepare('DELETE FROM observations WHERE id = ?');
     stmt.run([observationId]);
     this.dbService.save(); // 保存到文件
     return true;
   }
 
+  /**
+   * 把实体的所有观察记录移到另一个实体（合并重复实体时使用），返回移动的条数
+   * 不会自动保存，调用方需在事务中使用
+   */
+  public moveObservations(fromEntityId: string, toEntityId: string): number {
+    const db = this.dbService.getDatabase();
+    const observations = this.getObservations(fromEntityId);
+    for (const observation of observations) {
+      const before = this.history?.getRow('observations', observation.id) ?? null;
+      db.run('UPDATE observations SET entity_id = ? WHERE id = ?', [toEntityId, observation.id]);
+      this.history?.record('observations', 'update', observation.id, before, this.history.getRow('observations', observation.id));
+    }
+    return observations.length;
+  }
+
+  /**
+   * 按原样写入观察记录（保留 ID 和时间戳，用于导入）
+   * 不会自动保存，调用方需在事务中使用
+   */
+  public insertObservation(observation: Observation): void {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare(`
+      INSERT INTO observations (id, entity_id, content, kind, tags, severity, code_hash, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run([
+      observation.id,
+      observation.entityId,
+      ...this.toColumns(observation),
+      observation.createdAt,
+      observation.updatedAt
+    ]);
+    stmt.free();
+  }
+
+  /**
+   * 按原样覆盖观察记录内容（用于导入）
+   * 不会自动保存，调用方需在事务中使用
+   */
+  public overwriteObservation(observation: Observation): void {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare(`
+      UPDATE observations
+      SET entity_id = ?, content = ?, kind = ?, tags = ?, severity = ?, code_hash = ?, updated_at = ?
+      WHERE id = ?
+    `);
+
+    stmt.run([
+      observation.entityId,
+      ...this.toColumns(observation),
+      observation.updatedAt,
+      observation.id
+    ]);
+    stmt.free();
+  }
+
   /**
    * 获取单个观察记录
    */
@@ -129,6 +227,22 @@ export class ObservationService {
     return rows.map(row => this.rowToObservation(row));
   }
 
+  /**
+   * 获取所有观察记录
+   */
+  public listAllObservations(): Observation[] {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare('SELECT * FROM observations ORDER BY created_at DESC');
+
+    const observations: Observation[] = [];
+    while (stmt.step()) {
+      observations.push(this.rowToObservation(stmt.getAsObject()));
+    }
+    stmt.free();
+
+    return observations;
+  }
+
   /**
    * 获取观察记录数量
    */
@@ -148,12 +262,26 @@ export class ObservationService {
   }
 
   /**
-   * 搜索观察记录
+   * 搜索观察记录：使用全文检索按相关度排序，没有结果时回退到 LIKE 搜索
    */
   public searchObservations(query: string): Observation[] {
+    const matchQuery = buildMatchQuery(query);
+    if (matchQuery) {
+      try {
+        const ranked = rankSearchRows(this.dbService.querySearchIndex(matchQuery, 'observation'));
+        const observations = ranked
+          .filter(row => row.matchedFields.includes('content'))
+          .map(row => this.getObservation(row.itemId))
+          .filter((observation): observation is Observation => !!observation);
+        if (observations.length > 0) {
+          return observations;
+        }
+      } catch (error) {
+        console.error('Full-text search failed, falling back to LIKE:', error);
+      }
+    }
+
     const db = this.dbService.getDatabase();
-    
-    // sql.js 不支持 FTS5，使用 LIKE 搜索
     const stmt = db.prepare(`
       SELECT * FROM observations 
       WHERE content LIKE ?
@@ -179,11 +307,39 @@ export class ObservationService {
       id: row.id,
       entityId: row.entity_id,
       content: row.content,
+      ...this.normalizeFields({ kind: row.kind, tags: normalizeTags(row.tags), severity: row.severity }),
+      codeHash: row.code_hash || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   }
 
+  /**
+   * 校验种类、标签和严重程度；无效的种类视为 note，空标签和无效的严重程度省略
+   */
+  private normalizeFields(fields: ObservationFields): ObservationFields {
+    const tags = normalizeTags(fields.tags);
+    return {
+      kind: isObservationKind(fields.kind) ? fields.kind : DEFAULT_OBSERVATION_KIND,
+      tags: tags.length > 0 ? tags : undefined,
+      severity: isObservationSeverity(fields.severity) ? fields.severity : undefined,
+    };
+  }
+
+  /**
+   * content / kind / tags / severity / code_hash 列的值
+   */
+  private toColumns(observation: Observation): [string, ObservationKind, string | null, string | null, string | null] {
+    const { kind, tags, severity } = this.normalizeFields(observation);
+    return [
+      observation.content,
+      kind!,
+      tags ? JSON.stringify(tags) : null,
+      severity ?? null,
+      observation.codeHash ?? null,
+    ];
+  }
+
   /**
    * 生成唯一 ID
    */
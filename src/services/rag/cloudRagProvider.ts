@@ -651,6 +651,16 @@ export class CloudRAGProvider implements IRAGProvider {
      // Re-scan is initiated by service
   }
 
+  /**
+   * 数据库被外部清空或恢复后，重新加载索引文件缓存
+   */
+  public async reloadFromDatabase(): Promise<void> {
+    this.createStoreInfoTable();
+    this.createIndexTable();
+    this.indexedFiles.clear();
+    await this.loadIndexedFilesFromDB();
+  }
+
   public getStoreInfo(): StoreInfo | null {
     const db = this.dbService.getDatabase();
     const result = db.exec(`SELECT * FROM rag_store_info WHERE store_id = ?`, [this.storeId]);
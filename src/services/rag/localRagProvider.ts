@@ -513,6 +513,14 @@ export class LocalRAGProvider implements IRAGProvider {
         // Service will trigger rescan
     }
 
+    /**
+     * 数据库被外部清空或恢复后，重新加载向量缓存
+     */
+    public async reloadFromDatabase(): Promise<void> {
+        this.createTables();
+        this.loadVectorsToCache();
+    }
+
     public getStoreInfo(): StoreInfo | null {
         const db = this.dbService.getDatabase();
         const result = db.exec(`SELECT * FROM rag_store_info WHERE store_id = ?`, [this.storeId]);
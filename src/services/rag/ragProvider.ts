@@ -8,6 +8,7 @@ export interface IRAGProvider {
     searchDocuments(query: string): Promise<SearchResult[]>;
     askQuestion(question: string): Promise<QuestionAnswerResult>;
     reindexAll(): Promise<void>;
+    reloadFromDatabase(): Promise<void>;
     dispose(): void;
     getStoreInfo(): StoreInfo | null;
     getIndexedFiles(): IndexedFile[];
@@ -208,6 +208,13 @@ export class RAGService {
     await this.initialScan(this.workspaceRoot);
   }
 
+  public async reloadFromDatabase(): Promise<void> {
+    if (!this.provider) {
+      return;
+    }
+    await this.provider.reloadFromDatabase();
+  }
+
   public async testConnection(): Promise<boolean> {
     return this.provider ? this.provider.testConnection() : false;
   }
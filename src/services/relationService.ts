@@ -1,6 +1,8 @@
 import { DatabaseService } from './database';
-import { Relation, RelationVerb, RelatedEntity } from '../utils/types';
+import { Relation, RelationVerb, RelatedEntity, CrossFolderRelation, RelationProperties } from '../utils/types';
+import { mergeRelationProperties } from '../../packages/mcp-server/src/schema/relationProperties';
 import { EntityService } from './entityService';
+import { HistoryService } from './historyService';
 import { randomUUID } from 'crypto';
 
 /**
@@ -9,7 +11,8 @@ import { randomUUID } from 'crypto';
 export class RelationService {
   constructor(
     private dbService: DatabaseService,
-    private entityService: EntityService
+    private entityService: EntityService,
+    private history?: HistoryService
   ) {}
 
   /**
@@ -56,6 +59,7 @@ export class RelationService {
       relation.metadata ? JSON.stringify(relation.metadata) : null
     ]);
 
+    this.history?.record('relations', 'create', relation.id, null, this.history.getRow('relations', relation.id));
     this.dbService.save(); // 保存到文件
     return relation;
   }
@@ -65,12 +69,94 @@ export class RelationService {
    */
   public removeRelation(relationId: string): boolean {
     const db = this.dbService.getDatabase();
+    const before = this.history?.getRow('relations', relationId);
+    if (before) {
+      this.history!.record('relations', 'delete', relationId, before, null);
+    }
     const stmt = db.prepare('DELETE FROM relations WHERE id = ?');
     stmt.run([relationId]);
     this.dbService.save(); // 保存到文件
     return true;
   }
 
+  /**
+   * 更新关系属性（label / weight / cardinality / confidence / sinceVersion）
+   * 值为 undefined 的属性会被清除，metadata 中的其他字段保持不变
+   */
+  public updateRelationProperties(relationId: string, properties: RelationProperties): Relation | null {
+    const existing = this.getRelation(relationId);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: Relation = {
+      ...existing,
+      metadata: mergeRelationProperties(existing.metadata, properties),
+    };
+    const before = this.history?.getRow('relations', relationId) ?? null;
+
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare('UPDATE relations SET metadata = ? WHERE id = ?');
+    stmt.run([updated.metadata ? JSON.stringify(updated.metadata) : null, relationId]);
+    stmt.free();
+
+    this.history?.record('relations', 'update', relationId, before, this.history.getRow('relations', relationId));
+    this.dbService.save(); // 保存到文件
+    return updated;
+  }
+
+  /**
+   * 修改关系的源实体和目标实体（合并重复实体时使用）
+   * 不会自动保存，调用方需在事务中使用
+   */
+  public reassignRelation(relationId: string, sourceId: string, targetId: string): void {
+    const before = this.history?.getRow('relations', relationId) ?? null;
+    const db = this.dbService.getDatabase();
+    db.run('UPDATE relations SET source_entity_id = ?, target_entity_id = ? WHERE id = ?', [sourceId, targetId, relationId]);
+    this.history?.record('relations', 'update', relationId, before, this.history.getRow('relations', relationId));
+  }
+
+  /**
+   * 按原样写入关系（保留 ID，用于导入）
+   * 不会自动保存，调用方需在事务中使用
+   */
+  public insertRelation(relation: Relation): void {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare(`
+      INSERT INTO relations (
+        id, source_entity_id, target_entity_id, verb, created_at, metadata
+      ) VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run([
+      relation.id,
+      relation.sourceEntityId,
+      relation.targetEntityId,
+      relation.verb,
+      relation.createdAt,
+      relation.metadata ? JSON.stringify(relation.metadata) : null
+    ]);
+    stmt.free();
+  }
+
+  /**
+   * 获取单个关系
+   */
+  public getRelation(relationId: string): Relation | null {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare('SELECT * FROM relations WHERE id = ?');
+    stmt.bind([relationId]);
+
+    if (stmt.step()) {
+      const row = stmt.getAsObject();
+      stmt.free();
+      return this.rowToRelation(row);
+    }
+
+    stmt.free();
+    return null;
+  }
+
   /**
    * 获取实体的所有关系
    */
@@ -209,6 +295,184 @@ export class RelationService {
     return 0;
   }
 
+  /**
+   * 添加跨文件夹关系（目标实体位于另一个工作区文件夹）
+   */
+  public addCrossFolderRelation(
+    sourceId: string,
+    targetFolder: string,
+    targetId: string,
+    verb: RelationVerb,
+    metadata?: CrossFolderRelation['metadata']
+  ): CrossFolderRelation {
+    if (!this.entityService.getEntity(sourceId)) {
+      throw new Error('Source entity not found');
+    }
+
+    const db = this.dbService.getDatabase();
+    const relation: CrossFolderRelation = {
+      id: this.generateId(),
+      sourceEntityId: sourceId,
+      targetFolder,
+      targetEntityId: targetId,
+      verb,
+      createdAt: Date.now(),
+      metadata,
+    };
+
+    const stmt = db.prepare(`
+      INSERT INTO cross_folder_relations (
+        id, source_entity_id, target_folder, target_entity_id, verb, created_at, metadata
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run([
+      relation.id,
+      relation.sourceEntityId,
+      relation.targetFolder,
+      relation.targetEntityId,
+      relation.verb,
+      relation.createdAt,
+      relation.metadata ? JSON.stringify(relation.metadata) : null
+    ]);
+    stmt.free();
+
+    this.history?.record(
+      'cross_folder_relations', 'create', relation.id, null, this.history.getRow('cross_folder_relations', relation.id)
+    );
+    this.dbService.save(); // 保存到文件
+    return relation;
+  }
+
+  /**
+   * 按原样写入跨文件夹关系（用于从文本文件重建）
+   * 不会自动保存，调用方需在事务中使用
+   */
+  public insertCrossFolderRelation(relation: CrossFolderRelation): void {
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare(`
+      INSERT INTO cross_folder_relations (
+        id, source_entity_id, target_folder, target_entity_id, verb, created_at, metadata
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run([
+      relation.id,
+      relation.sourceEntityId,
+      relation.targetFolder,
+      relation.targetEntityId,
+      relation.verb,
+      relation.createdAt,
+      relation.metadata ? JSON.stringify(relation.metadata) : null
+    ]);
+    stmt.free();
+  }
+
+  /**
+   * 获取跨文件夹关系，可按源实体过滤
+   */
+  public getCrossFolderRelations(sourceId?: string): CrossFolderRelation[] {
+    const db = this.dbService.getDatabase();
+    const stmt = sourceId
+      ? db.prepare('SELECT * FROM cross_folder_relations WHERE source_entity_id = ? ORDER BY created_at DESC')
+      : db.prepare('SELECT * FROM cross_folder_relations ORDER BY created_at DESC');
+    if (sourceId) {
+      stmt.bind([sourceId]);
+    }
+
+    const relations: CrossFolderRelation[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      relations.push({
+        id: row.id,
+        sourceEntityId: row.source_entity_id,
+        targetFolder: row.target_folder,
+        targetEntityId: row.target_entity_id,
+        verb: row.verb as RelationVerb,
+        createdAt: row.created_at,
+        metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      });
+    }
+    stmt.free();
+
+    return relations;
+  }
+
+  /**
+   * 检查跨文件夹关系是否存在
+   */
+  public crossFolderRelationExists(
+    sourceId: string,
+    targetFolder: string,
+    targetId: string,
+    verb: RelationVerb
+  ): boolean {
+    return this.getCrossFolderRelations(sourceId).some(relation =>
+      relation.targetFolder === targetFolder &&
+      relation.targetEntityId === targetId &&
+      relation.verb === verb
+    );
+  }
+
+  /**
+   * 更新跨文件夹关系的属性
+   */
+  public updateCrossFolderRelationProperties(
+    relationId: string,
+    properties: RelationProperties
+  ): CrossFolderRelation | null {
+    const existing = this.getCrossFolderRelations().find(relation => relation.id === relationId);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: CrossFolderRelation = {
+      ...existing,
+      metadata: mergeRelationProperties(existing.metadata, properties),
+    };
+    const before = this.history?.getRow('cross_folder_relations', relationId) ?? null;
+
+    const db = this.dbService.getDatabase();
+    const stmt = db.prepare('UPDATE cross_folder_relations SET metadata = ? WHERE id = ?');
+    stmt.run([updated.metadata ? JSON.stringify(updated.metadata) : null, relationId]);
+    stmt.free();
+
+    this.history?.record(
+      'cross_folder_relations', 'update', relationId, before, this.history.getRow('cross_folder_relations', relationId)
+    );
+    this.dbService.save(); // 保存到文件
+    return updated;
+  }
+
+  /**
+   * 修改跨文件夹关系的源实体（合并重复实体时使用）
+   * 不会自动保存，调用方需在事务中使用
+   */
+  public reassignCrossFolderRelation(relationId: string, sourceId: string): void {
+    const before = this.history?.getRow('cross_folder_relations', relationId) ?? null;
+    const db = this.dbService.getDatabase();
+    db.run('UPDATE cross_folder_relations SET source_entity_id = ? WHERE id = ?', [sourceId, relationId]);
+    this.history?.record(
+      'cross_folder_relations', 'update', relationId, before, this.history.getRow('cross_folder_relations', relationId)
+    );
+  }
+
+  /**
+   * 删除跨文件夹关系
+   */
+  public removeCrossFolderRelation(relationId: string): boolean {
+    const db = this.dbService.getDatabase();
+    const before = this.history?.getRow('cross_folder_relations', relationId);
+    if (before) {
+      this.history!.record('cross_folder_relations', 'delete', relationId, before, null);
+    }
+    const stmt = db.prepare('DELETE FROM cross_folder_relations WHERE id = ?');
+    stmt.run([relationId]);
+    stmt.free();
+    this.dbService.save(); // 保存到文件
+    return true;
+  }
+
   /**
    * 将数据库行转换为 Relation 对象
    */
@@ -0,0 +1,153 @@
+import { DatabaseService } from './database';
+import { EntityService } from './entityService';
+import { RelationService } from './relationService';
+import { ObservationService } from './observationService';
+import { Entity, Observation, SearchResult } from '../utils/types';
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  RankedSearchRow,
+  SEARCH_FIELDS,
+  buildMatchQuery,
+  rankSearchRows,
+} from '../../packages/mcp-server/src/schema/fullTextSearch';
+import { runGraphQuery } from '../../packages/mcp-server/src/schema/graphQuery';
+
+/** 默认返回的实体数量 */
+const DEFAULT_LIMIT = 50;
+
+/**
+ * 手动图谱搜索
+ * - search：在实体名称、别名、描述、文件路径和观察记录内容中全文检索，按 BM25 得分排序，
+ *   查询语法见 buildMatchQuery（前缀、"短语"、字段:词）
+ * - queryGraph：结构化查询（类型、路径、关系遍历、观察记录和聚合条件），语法见 graphQuery.ts
+ */
+export class SearchService {
+  constructor(
+    private dbService: DatabaseService,
+    private entityService: EntityService,
+    private relationService: RelationService,
+    private observationService: ObservationService
+  ) {}
+
+  /**
+   * 搜索实体；命中观察记录的实体也会返回，得分为实体与观察记录得分之和
+   * 全文检索没有结果时（如中文子串）回退到 LIKE 搜索，得分为 0
+   */
+  public search(query: string, limit: number = DEFAULT_LIMIT): SearchResult[] {
+    const matchQuery = buildMatchQuery(query);
+    if (!matchQuery) {
+      return [];
+    }
+
+    let rows: RankedSearchRow[] = [];
+    try {
+      rows = rankSearchRows([
+        ...this.dbService.querySearchIndex(matchQuery, 'entity'),
+        ...this.dbService.querySearchIndex(matchQuery, 'observation'),
+      ]);
+    } catch (error) {
+      console.error('Full-text search failed, falling back to LIKE:', error);
+    }
+
+    const results = rows.length > 0 ? this.groupByEntity(rows) : this.searchByLike(query);
+    return results.slice(0, limit);
+  }
+
+  /**
+   * 执行图谱查询，结果按名称排序；语法错误时抛出 GraphQuerySyntaxError
+   */
+  public queryGraph(query: string): Entity[] {
+    return runGraphQuery(query, {
+      entities: this.entityService.listEntities(),
+      relations: this.relationService.getAllRelations(),
+      observations: this.observationService.listAllObservations(),
+    });
+  }
+
+  private groupByEntity(rows: RankedSearchRow[]): SearchResult[] {
+    const results = new Map<string, SearchResult>();
+    for (const row of rows) {
+      // 观察记录行中的名称和路径属于实体，只命中这些字段的观察记录不算匹配
+      if (row.kind === 'observation' && !row.matchedFields.includes('content')) {
+        continue;
+      }
+      let result = results.get(row.entityId);
+      if (!result) {
+        const entity = this.entityService.getEntity(row.entityId);
+        if (!entity) {
+          continue;
+        }
+        result = { entity, score: 0, matchedFields: [], highlight: row.highlight, observations: [] };
+        results.set(row.entityId, result);
+      }
+
+      result.score += row.score;
+      const fields = row.kind === 'observation'
+        ? row.matchedFields.filter(field => field === 'content')
+        : row.matchedFields;
+      fields.forEach(field => {
+        if (!result!.matchedFields.includes(field)) {
+          result!.matchedFields.push(field);
+        }
+      });
+      if (row.kind === 'observation') {
+        const observation = this.observationService.getObservation(row.itemId);
+        if (observation) {
+          result.observations!.push(observation);
+        }
+      }
+    }
+
+    return Array.from(results.values())
+      .map(result => ({
+        ...result,
+        matchedFields: SEARCH_FIELDS.filter(field => result.matchedFields.includes(field)),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * LIKE 搜索（不区分大小写的子串匹配）
+   */
+  private searchByLike(query: string): SearchResult[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return [];
+    }
+    const contains = (value: string | undefined) => !!value && value.toLowerCase().includes(needle);
+
+    const observationsByEntity = new Map<string, Observation[]>();
+    this.observationService.listAllObservations()
+      .filter(observation => contains(observation.content))
+      .forEach(observation => {
+        observationsByEntity.set(observation.entityId, [...(observationsByEntity.get(observation.entityId) || []), observation]);
+      });
+
+    const results: SearchResult[] = [];
+    for (const entity of this.entityService.listEntities()) {
+      const observations = observationsByEntity.get(entity.id) || [];
+      const matchedFields = [
+        contains(entity.name) && 'name',
+        entity.aliases?.some(alias => contains(alias)) && 'aliases',
+        contains(entity.description) && 'description',
+        observations.length > 0 && 'content',
+        contains(entity.filePath) && 'path',
+      ].filter((field): field is string => !!field);
+      if (matchedFields.length > 0) {
+        results.push({ entity, score: 0, matchedFields, highlight: this.highlight(entity, observations, needle), observations });
+      }
+    }
+    return results;
+  }
+
+  private highlight(entity: Entity, observations: Observation[], needle: string): string | undefined {
+    const text = [entity.name, ...(entity.aliases || []), entity.description || '', ...observations.map(o => o.content)]
+      .find(value => value.toLowerCase().includes(needle));
+    if (!text) {
+      return undefined;
+    }
+    const index = text.toLowerCase().indexOf(needle);
+    return `${text.substring(0, index)}${HIGHLIGHT_START}${text.substring(index, index + needle.length)}${HIGHLIGHT_END}${text.substring(index + needle.length)}`;
+  }
+}
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DatabaseService } from './database';
+import { EntityService } from './entityService';
+import { ObservationService } from './observationService';
+import { Entity, Observation } from '../utils/types';
+import { codeHashDistance, computeCodeHash, isOrphaned, readEntityLines } from '../utils/codeAnchor';
+import { t } from '../i18n/i18nService';
+
+/** 代码哈希相差多少位（共 64 位）视为显著变化 */
+const STALE_DISTANCE_THRESHOLD = 10;
+
+/** 文档编辑停止多久后重新检测 */
+const REFRESH_DEBOUNCE_MS = 1500;
+
+/**
+ * 可能过期的观察记录
+ */
+export interface StaleObservation {
+  entity: Entity;
+  observation: Observation;
+  /** 代码哈希相差的位数 */
+  distance: number;
+}
+
+/**
+ * 过期知识检测
+ * 观察记录写入时记录实体代码的哈希；代码显著变化后在实体范围上显示诊断信息
+ */
+export class StaleKnowledgeService implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private diagnostics: vscode.DiagnosticCollection;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private stale: StaleObservation[] = [];
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  /**
+   * 过期的观察记录列表变化后触发
+   */
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private folder: vscode.WorkspaceFolder,
+    private dbService: DatabaseService,
+    private entityService: EntityService,
+    private observationService: ObservationService
+  ) {
+    this.diagnostics = vscode.languages.createDiagnosticCollection(`knowledgeGraph.stale.${folder.index}`);
+  }
+
+  /**
+   * 实体当前代码的哈希；文件不存在或实体已孤立时返回 undefined
+   */
+  public getCodeHash(entity: Entity): string | undefined {
+    if (isOrphaned(entity)) {
+      return undefined;
+    }
+    const lines = readEntityLines(this.folder, entity);
+    return lines ? computeCodeHash(lines) : undefined;
+  }
+
+  /**
+   * 开始监听文档和图谱的变化
+   */
+  public start(): void {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (e.contentChanges.length > 0 && this.isInFolder(e.document.uri)) {
+          this.scheduleRefresh();
+        }
+      }),
+      vscode.workspace.onDidSaveTextDocument(document => {
+        if (this.isInFolder(document.uri)) {
+          this.scheduleRefresh();
+        }
+      }),
+      this.dbService.onDidSave(() => this.scheduleRefresh()),
+      this.dbService.onDidReload(() => this.scheduleRefresh()),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('knowledgeGraph.staleKnowledge', this.folder.uri)) {
+          this.refresh();
+        }
+      })
+    );
+
+    this.refresh();
+  }
+
+  /**
+   * 当前可能过期的观察记录（按实体分组顺序）
+   */
+  public getStaleObservations(): StaleObservation[] {
+    return this.stale;
+  }
+
+  /**
+   * 重新检测所有带代码哈希的观察记录，并更新诊断信息
+   */
+  public refresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    const stale: StaleObservation[] = [];
+    try {
+      const byEntity = new Map<string, Observation[]>();
+      this.observationService.listAllObservations()
+        .filter(observation => observation.codeHash)
+        .forEach(observation => {
+          const list = byEntity.get(observation.entityId) || [];
+          list.push(observation);
+          byEntity.set(observation.entityId, list);
+        });
+
+      for (const [entityId, observations] of byEntity) {
+        const entity = this.entityService.getEntity(entityId);
+        const currentHash = entity && this.getCodeHash(entity);
+        if (!entity || !currentHash) {
+          continue;
+        }
+        for (const observation of observations) {
+          const distance = codeHashDistance(observation.codeHash!, currentHash);
+          if (distance >= STALE_DISTANCE_THRESHOLD) {
+            stale.push({ entity, observation, distance });
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Failed to detect stale knowledge:', error);
+      return;
+    }
+
+    const changed = stale.map(item => item.observation.id).join() !== this.stale.map(item => item.observation.id).join();
+    this.stale = stale;
+    this.updateDiagnostics();
+    if (changed) {
+      this.changeEmitter.fire();
+    }
+  }
+
+  public dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.diagnostics.dispose();
+    this.changeEmitter.dispose();
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => this.refresh(), REFRESH_DEBOUNCE_MS);
+  }
+
+  /**
+   * 每个实体一条 Information 级别的诊断，覆盖实体的代码范围
+   */
+  private updateDiagnostics(): void {
+    this.diagnostics.clear();
+    const enabled = vscode.workspace
+      .getConfiguration('knowledgeGraph.staleKnowledge', this.folder.uri)
+      .get<boolean>('diagnostics', true);
+    if (!enabled) {
+      return;
+    }
+
+    const byFile = new Map<string, Map<string, StaleObservation[]>>();
+    for (const item of this.stale) {
+      const entities = byFile.get(item.entity.filePath) || new Map<string, StaleObservation[]>();
+      entities.set(item.entity.id, [...(entities.get(item.entity.id) || []), item]);
+      byFile.set(item.entity.filePath, entities);
+    }
+
+    for (const [filePath, entities] of byFile) {
+      const diagnostics = Array.from(entities.values()).map(items => {
+        const entity = items[0].entity;
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(Math.max(entity.startLine - 1, 0), 0, Math.max(entity.endLine - 1, 0), Number.MAX_SAFE_INTEGER),
+          t().staleKnowledge.diagnostic(entity.name, items.map(item => item.observation.content)),
+          vscode.DiagnosticSeverity.Information
+        );
+        diagnostic.source = 'Knowledge Graph';
+        diagnostic.code = 'stale-knowledge';
+        return diagnostic;
+      });
+      this.diagnostics.set(vscode.Uri.file(path.join(this.folder.uri.fsPath, filePath)), diagnostics);
+    }
+  }
+
+  private isInFolder(uri: vscode.Uri): boolean {
+    return uri.scheme === 'file' && vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() === this.folder.uri.toString();
+  }
+}
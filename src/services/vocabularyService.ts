@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+  GraphVocabulary,
+  VocabularyTerm,
+  SCHEMA_FILE_NAME,
+  buildVocabulary,
+  parseSchemaFile,
+  parseVocabularyTerms,
+} from '../../packages/mcp-server/src/schema/vocabulary';
+import { t } from '../i18n/i18nService';
+
+/**
+ * 工作区文件夹的实体类型与关系动词词汇表
+ * 合并内置词汇、.vscode/.knowledge/schema.json 和 knowledgeGraph.schema.* 设置，文件或设置变化时重新加载
+ */
+export class VocabularyService implements vscode.Disposable {
+  private vocabulary: GraphVocabulary = buildVocabulary();
+  private disposables: vscode.Disposable[] = [];
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  /**
+   * 词汇表重新加载后触发
+   */
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private folder: vscode.WorkspaceFolder) {
+    this.load();
+  }
+
+  /**
+   * 开始监听 schema.json 和设置的变化
+   */
+  public start(): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(path.dirname(this.getSchemaPath()), SCHEMA_FILE_NAME)
+    );
+    watcher.onDidChange(() => this.reload());
+    watcher.onDidCreate(() => this.reload());
+    watcher.onDidDelete(() => this.reload());
+
+    this.disposables.push(
+      watcher,
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('knowledgeGraph.schema', this.folder.uri)) {
+          this.reload();
+        }
+      })
+    );
+  }
+
+  public getSchemaPath(): string {
+    return path.join(this.folder.uri.fsPath, '.vscode', '.knowledge', SCHEMA_FILE_NAME);
+  }
+
+  /**
+   * 所有实体类型（内置类型在前）
+   */
+  public getEntityTypes(): VocabularyTerm[] {
+    return this.vocabulary.entityTypes.map(term => this.localize(term, t().entityTypes));
+  }
+
+  /**
+   * 所有关系动词（内置动词在前）
+   */
+  public getRelationVerbs(): VocabularyTerm[] {
+    return this.vocabulary.relationVerbs.map(term => this.localize(term, t().relationTypes));
+  }
+
+  /**
+   * 查找实体类型；未声明的类型（如旧数据中的类型）返回 undefined
+   */
+  public getEntityType(name: string): VocabularyTerm | undefined {
+    return this.getEntityTypes().find(term => term.name === name);
+  }
+
+  public getRelationVerb(name: string): VocabularyTerm | undefined {
+    return this.getRelationVerbs().find(term => term.name === name);
+  }
+
+  /**
+   * 实体类型的树视图图标
+   */
+  public getEntityTypeIcon(name: string): string {
+    return this.getEntityType(name)?.icon || 'symbol-misc';
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.changeEmitter.dispose();
+  }
+
+  private reload(): void {
+    this.load();
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * 内置词汇没有自定义描述时使用当前语言的描述
+   */
+  private localize(term: VocabularyTerm, translations: Record<string, { description: string }>): VocabularyTerm {
+    return term.description ? term : { ...term, description: translations[term.name]?.description };
+  }
+
+  /**
+   * 读取 schema.json 和设置
+   */
+  private load(): void {
+    let fromFile: Partial<GraphVocabulary> = {};
+    const schemaPath = this.getSchemaPath();
+    if (fs.existsSync(schemaPath)) {
+      try {
+        fromFile = parseSchemaFile(fs.readFileSync(schemaPath, 'utf-8'));
+      } catch (error) {
+        console.error('Failed to load knowledge schema:', error);
+        vscode.window.showWarningMessage(t().vocabulary.invalidSchemaFile(String(error)));
+      }
+    }
+
+    const config = vscode.workspace.getConfiguration('knowledgeGraph.schema', this.folder.uri);
+    const fromSettings: Partial<GraphVocabulary> = {
+      entityTypes: parseVocabularyTerms(config.get('entityTypes')),
+      relationVerbs: parseVocabularyTerms(config.get('relationVerbs')),
+    };
+
+    this.vocabulary = buildVocabulary(fromFile, fromSettings);
+  }
+}
@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+import { DatabaseService } from './database';
+import { EntityService } from './entityService';
+import { RelationService } from './relationService';
+import { ObservationService } from './observationService';
+import { ImportService } from './importService';
+import { EntityMergeService } from './entityMergeService';
+import { BulkOperationService } from './bulkOperationService';
+import { AutoPromotionService } from './autoPromotionService';
+import { EntityReconcileService } from './entityReconcileService';
+import { SearchService } from './searchService';
+import { HistoryService } from './historyService';
+import { GraphTextStore } from './graphTextStore';
+import { VocabularyService } from './vocabularyService';
+import { EntityAnchorService } from './entityAnchorService';
+import { StaleKnowledgeService } from './staleKnowledgeService';
+import { AutoGraphService, CodeAnalyzer } from './autoGraph';
+import { Entity } from '../utils/types';
+
+/**
+ * 单个工作区文件夹的图谱及其服务
+ * 每个文件夹拥有独立的 .vscode/.knowledge/graph.sqlite
+ */
+export interface FolderGraph {
+  /** 文件夹唯一标识（folder.uri.toString()） */
+  key: string;
+  folder: vscode.WorkspaceFolder;
+  dbService: DatabaseService;
+  historyService: HistoryService;
+  entityService: EntityService;
+  relationService: RelationService;
+  observationService: ObservationService;
+  importService: ImportService;
+  entityMergeService: EntityMergeService;
+  bulkOperationService: BulkOperationService;
+  searchService: SearchService;
+  autoGraphService: AutoGraphService;
+  codeAnalyzer: CodeAnalyzer;
+  /** 把自动图谱的实体和关系提升到手动图谱 */
+  autoPromotionService: AutoPromotionService;
+  /** 分析后按自动图谱核对手动实体的位置 */
+  entityReconcileService: EntityReconcileService;
+  /** 手动图谱的文本镜像（需调用 start() 后才开始同步） */
+  textStore: GraphTextStore;
+  /** 实体类型与关系动词词汇表（需调用 start() 后才监听变化） */
+  vocabulary: VocabularyService;
+  /** 实体锚点跟踪（需调用 start() 后才监听文档变化） */
+  anchors: EntityAnchorService;
+  /** 过期知识检测（需调用 start() 后才更新诊断信息） */
+  staleKnowledge: StaleKnowledgeService;
+}
+
+/**
+ * 命令参数中可用于定位文件夹的信息
+ * - 树视图节点（带 folderKey）
+ * - 实体对象或实体 ID（实体 ID 为 UUID，跨文件夹唯一）
+ */
+export type FolderHint = string | { folderKey?: string; id?: string; entity?: { id: string } } | undefined;
+
+/**
+ * 多根工作区图谱注册表
+ */
+export class WorkspaceGraphRegistry implements vscode.Disposable {
+  private graphs: Map<string, FolderGraph> = new Map();
+  private _onDidChangeFolders = new vscode.EventEmitter<void>();
+  readonly onDidChangeFolders = this._onDidChangeFolders.event;
+
+  /**
+   * 为工作区文件夹初始化图谱
+   */
+  public async addFolder(folder: vscode.WorkspaceFolder): Promise<FolderGraph> {
+    const key = folder.uri.toString();
+    const existing = this.graphs.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const dbService = new DatabaseService();
+    await dbService.initialize(folder.uri.fsPath);
+
+    const historyService = new HistoryService(dbService);
+    const entityService = new EntityService(dbService, historyService);
+    const relationService = new RelationService(dbService, entityService, historyService);
+    // 观察记录写入时记录实体代码的哈希，用于检测过期的知识
+    const observationService = new ObservationService(
+      dbService,
+      entityService,
+      historyService,
+      entity => staleKnowledge.getCodeHash(entity)
+    );
+    const importService = new ImportService(dbService, entityService, relationService, observationService, historyService);
+    const entityMergeService = new EntityMergeService(
+      dbService, entityService, relationService, observationService, historyService
+    );
+    const bulkOperationService = new BulkOperationService(
+      dbService, entityService, relationService, observationService, historyService
+    );
+    const searchService = new SearchService(dbService, entityService, relationService, observationService);
+    const autoGraphService = new AutoGraphService(dbService);
+    const codeAnalyzer = new CodeAnalyzer(autoGraphService);
+    codeAnalyzer.initialize(folder.uri.fsPath);
+    const autoPromotionService = new AutoPromotionService(
+      dbService, entityService, relationService, autoGraphService, historyService
+    );
+    // 重新分析后，提升到手动图谱的实体跟随代码的新位置
+    codeAnalyzer.onDidAnalyze(() => autoPromotionService.syncPromotedEntities());
+    const entityReconcileService = new EntityReconcileService(
+      folder, dbService, entityService, autoGraphService, historyService
+    );
+    const textStore = new GraphTextStore(dbService, entityService, relationService, observationService);
+    const vocabulary = new VocabularyService(folder);
+    const anchors = new EntityAnchorService(folder, dbService, entityService);
+    const staleKnowledge: StaleKnowledgeService = new StaleKnowledgeService(folder, dbService, entityService, observationService);
+
+    const graph: FolderGraph = {
+      key,
+      folder,
+      dbService,
+      historyService,
+      entityService,
+      relationService,
+      observationService,
+      importService,
+      entityMergeService,
+      bulkOperationService,
+      searchService,
+      autoGraphService,
+      codeAnalyzer,
+      autoPromotionService,
+      entityReconcileService,
+      textStore,
+      vocabulary,
+      anchors,
+      staleKnowledge,
+    };
+    this.graphs.set(key, graph);
+    this._onDidChangeFolders.fire();
+    return graph;
+  }
+
+  /**
+   * 移除文件夹并关闭其数据库
+   */
+  public removeFolder(folder: vscode.WorkspaceFolder): void {
+    const key = folder.uri.toString();
+    const graph = this.graphs.get(key);
+    if (!graph) {
+      return;
+    }
+
+    graph.textStore.dispose();
+    graph.vocabulary.dispose();
+    graph.anchors.dispose();
+    graph.staleKnowledge.dispose();
+    graph.dbService.close();
+    this.graphs.delete(key);
+    this._onDidChangeFolders.fire();
+  }
+
+  public get(key: string): FolderGraph | undefined {
+    return this.graphs.get(key);
+  }
+
+  /**
+   * 按文件夹名称查找（跨文件夹关系通过名称引用目标文件夹）
+   */
+  public getByName(name: string): FolderGraph | undefined {
+    return this.getAll().find(graph => graph.folder.name === name);
+  }
+
+  /**
+   * 获取文件所属文件夹的图谱
+   */
+  public forUri(uri: vscode.Uri): FolderGraph | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return folder ? this.graphs.get(folder.uri.toString()) : undefined;
+  }
+
+  /**
+   * 按工作区文件夹顺序返回所有图谱
+   */
+  public getAll(): FolderGraph[] {
+    return Array.from(this.graphs.values()).sort((a, b) => a.folder.index - b.folder.index);
+  }
+
+  /**
+   * 第一个文件夹的图谱（RAG 等单实例功能使用）
+   */
+  public getPrimary(): FolderGraph {
+    const graphs = this.getAll();
+    if (graphs.length === 0) {
+      throw new Error('No workspace folder graph initialized');
+    }
+    return graphs[0];
+  }
+
+  public isMultiRoot(): boolean {
+    return this.graphs.size > 1;
+  }
+
+  /**
+   * 在所有文件夹中查找实体
+   */
+  public findEntity(entityId: string): { graph: FolderGraph; entity: Entity } | undefined {
+    for (const graph of this.getAll()) {
+      const entity = graph.entityService.getEntity(entityId);
+      if (entity) {
+        return { graph, entity };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 根据命令参数确定目标文件夹
+   * 参数无法定位时依次使用：当前编辑器所在文件夹、唯一文件夹、用户选择
+   */
+  public async resolve(hint?: FolderHint, placeHolder?: string): Promise<FolderGraph | undefined> {
+    if (typeof hint === 'string') {
+      const byKey = this.graphs.get(hint);
+      if (byKey) {
+        return byKey;
+      }
+      const found = this.findEntity(hint)?.graph || this.findAutoEntity(hint);
+      if (found) {
+        return found;
+      }
+    } else if (hint) {
+      if (hint.folderKey && this.graphs.has(hint.folderKey)) {
+        return this.graphs.get(hint.folderKey);
+      }
+      const entityId = hint.entity?.id || hint.id;
+      if (entityId) {
+        const found = this.findEntity(entityId)?.graph || this.findAutoEntity(entityId);
+        if (found) {
+          return found;
+        }
+      }
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (editor) {
+      const graph = this.forUri(editor.document.uri);
+      if (graph) {
+        return graph;
+      }
+    }
+
+    if (!this.isMultiRoot()) {
+      return this.getAll()[0];
+    }
+
+    return this.pickFolder(placeHolder);
+  }
+
+  /**
+   * 让用户选择工作区文件夹
+   */
+  public async pickFolder(placeHolder?: string): Promise<FolderGraph | undefined> {
+    const selected = await vscode.window.showQuickPick(
+      this.getAll().map(graph => ({
+        label: graph.folder.name,
+        description: graph.folder.uri.fsPath,
+        graph,
+      })),
+      { placeHolder }
+    );
+    return selected?.graph;
+  }
+
+  public dispose(): void {
+    for (const graph of this.graphs.values()) {
+      graph.textStore.dispose();
+      graph.vocabulary.dispose();
+      graph.anchors.dispose();
+      graph.staleKnowledge.dispose();
+      graph.dbService.close();
+    }
+    this.graphs.clear();
+    this._onDidChangeFolders.dispose();
+  }
+
+  private findAutoEntity(entityId: string): FolderGraph | undefined {
+    return this.getAll().find(graph => graph.autoGraphService.getEntity(entityId));
+  }
+}
@@ -1,5 +1,10 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { AutoGraphService, CodeAnalyzer, AutoGraphStats } from '../../services/autoGraph';
+import { AutoPromotionService, PromotionResult } from '../../services/autoPromotionService';
+import { EntityReconcileService, ReconcileProposal } from '../../services/entityReconcileService';
+import { EntityReconcileView } from '../webview/reconcileView';
+import { KnowledgeTreeItem } from '../../providers/treeDataProvider';
 import { t } from '../../i18n/i18nService';
 
 /**
@@ -8,7 +13,10 @@ import { t } from '../../i18n/i18nService';
 export class AutoGraphCommands {
   constructor(
     private autoGraphService: AutoGraphService,
-    private codeAnalyzer: CodeAnalyzer
+    private codeAnalyzer: CodeAnalyzer,
+    private autoPromotionService: AutoPromotionService,
+    private entityReconcileService: EntityReconcileService,
+    private folder: vscode.WorkspaceFolder
   ) {}
 
   /**
@@ -74,7 +82,7 @@ export class AutoGraphCommands {
     const fileName = vscode.workspace.asRelativePath(uri);
 
     // 检查文件类型
-    if (!this.isAnalyzableFile(uri.fsPath)) {
+    if (!this.codeAnalyzer.isAnalyzableFile(uri.fsPath)) {
       vscode.window.showWarningMessage(
         t().autoGraph.commands.analyzeFile.unsupportedType(fileName)
       );
@@ -194,6 +202,129 @@ export class AutoGraphCommands {
     return lines.join('\n');
   }
 
+  /**
+   * 把树视图中选中的自动实体和自动关系提升到手动图谱
+   */
+  public async promoteToManual(treeItem?: KnowledgeTreeItem, selectedItems?: KnowledgeTreeItem[]): Promise<void> {
+    const translations = t().commands.promoteToManual;
+    // 只处理与右键节点同一文件夹的选中项
+    const items = (selectedItems?.length ? selectedItems : treeItem ? [treeItem] : [])
+      .filter(item => item.isAuto && item.folderKey === treeItem?.folderKey);
+    const entityIds = items.filter(item => item.type === 'entity' && item.entity).map(item => item.entity!.id);
+    const relationIds = items.filter(item => item.type === 'relation' && item.relationData).map(item => item.relationData.id);
+    if (entityIds.length + relationIds.length === 0) {
+      vscode.window.showInformationMessage(translations.noAutoItems);
+      return;
+    }
+
+    this.runPromotion(() => this.autoPromotionService.promote(entityIds, relationIds));
+  }
+
+  /**
+   * 把文件或目录中的所有自动实体提升到手动图谱
+   * 从资源管理器调用时使用所选的文件或目录，从自动实体节点调用时选择实体所在的文件或上级目录
+   */
+  public async promotePathToManual(target?: vscode.Uri | KnowledgeTreeItem): Promise<void> {
+    const translations = t().commands.promotePathToManual;
+    let relativePath: string | undefined;
+
+    if (target instanceof vscode.Uri) {
+      relativePath = vscode.workspace.asRelativePath(target, false);
+    } else {
+      const filePath: string | undefined = target?.entity?.filePath
+        || (vscode.window.activeTextEditor && vscode.workspace.asRelativePath(vscode.window.activeTextEditor.document.uri, false));
+      if (!filePath) {
+        vscode.window.showWarningMessage(t().autoGraph.commands.analyzeFile.noActiveFile);
+        return;
+      }
+
+      const countIn = (prefix: string) => this.autoPromotionService.getEntitiesInPath(prefix).length;
+      const options = [{ label: translations.fileOption(filePath), description: translations.entityCount(countIn(filePath)), value: filePath }];
+      for (let dir = path.dirname(filePath); dir !== '.' && dir !== path.dirname(dir); dir = path.dirname(dir)) {
+        options.push({ label: translations.directoryOption(dir), description: translations.entityCount(countIn(dir)), value: dir });
+      }
+
+      const selected = await vscode.window.showQuickPick(options, { placeHolder: translations.placeholder });
+      if (!selected) {
+        return;
+      }
+      relativePath = selected.value;
+    }
+
+    if (this.autoPromotionService.getEntitiesInPath(relativePath).length === 0) {
+      vscode.window.showInformationMessage(translations.noEntities(relativePath));
+      return;
+    }
+    this.runPromotion(() => this.autoPromotionService.promotePath(relativePath!));
+  }
+
+  private runPromotion(promote: () => PromotionResult): void {
+    const translations = t().commands.promoteToManual;
+    try {
+      const result = promote();
+      vscode.window.showInformationMessage(
+        translations.success(result.created.length, result.linked.length, result.relations)
+      );
+      if (result.conflicts.length > 0) {
+        vscode.window.showWarningMessage(translations.conflicts(result.conflicts.map(entity => entity.name)));
+      }
+    } catch (error) {
+      console.error('Failed to promote to manual graph:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 按自动图谱核对手动实体，在审查面板中逐项接受或拒绝建议
+   */
+  public async reconcileEntities(): Promise<void> {
+    const translations = t().commands.reconcileEntities;
+    if (this.autoGraphService.listEntities().length === 0) {
+      vscode.window.showInformationMessage(translations.noAutoGraph);
+      return;
+    }
+
+    const proposals = this.entityReconcileService.reconcile();
+    if (proposals.length === 0) {
+      vscode.window.showInformationMessage(translations.upToDate);
+      return;
+    }
+    await this.reviewProposals(proposals);
+  }
+
+  /**
+   * 分析完成后：有需要核对的手动实体时提示用户审查
+   */
+  public async offerReconciliation(): Promise<void> {
+    const translations = t().commands.reconcileEntities;
+    const proposals = this.entityReconcileService.reconcile();
+    if (proposals.length === 0) {
+      return;
+    }
+
+    const action = await vscode.window.showInformationMessage(translations.found(proposals.length), translations.review);
+    if (action === translations.review) {
+      await this.reviewProposals(proposals);
+    }
+  }
+
+  private async reviewProposals(proposals: ReconcileProposal[]): Promise<void> {
+    const translations = t().commands.reconcileEntities;
+    const accepted = await EntityReconcileView.show(proposals, this.folder);
+    if (!accepted) {
+      return;
+    }
+
+    try {
+      const ids = new Set(accepted);
+      const result = this.entityReconcileService.apply(proposals.filter(proposal => ids.has(proposal.id)));
+      vscode.window.showInformationMessage(translations.success(result.moved, result.orphaned));
+    } catch (error) {
+      console.error('Failed to reconcile entities:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
   /**
    * 为自动图谱实体添加观察记录
    */
@@ -521,13 +652,5 @@ export class AutoGraphCommands {
       vscode.window.showInformationMessage(t().autoGraph.commands.deleteObservation.success);
     }
   }
-
-  /**
-   * 检查文件是否可分析
-   */
-  private isAnalyzableFile(filePath: string): boolean {
-    const extensions = ['.ts', '.tsx', '.js', '.jsx'];
-    return extensions.some((ext) => filePath.endsWith(ext));
-  }
 }
 
@@ -4,14 +4,57 @@ import { EntityService } from '../../services/entityService';
 import { RelationService } from '../../services/relationService';
 import { ObservationService } from '../../services/observationService';
 import { ExportService } from '../../services/exportService';
+import { ImportService, ImportMode, ObservationConflictStrategy } from '../../services/importService';
+import { EntityMergeService } from '../../services/entityMergeService';
+import { BulkOperationService } from '../../services/bulkOperationService';
+import { SearchService } from '../../services/searchService';
 import { AIIntegrationService, GraphData } from '../../services/aiIntegrationService';
 import { AutoGraphService } from '../../services/autoGraph';
-import { Entity, EntityType, Observation, Relation } from '../../utils/types';
+import { mapPromotedAutoEntities } from '../../services/autoPromotionService';
+import { FolderGraph, WorkspaceGraphRegistry } from '../../services/workspaceGraphs';
+import { VocabularyService } from '../../services/vocabularyService';
+import { KnowledgeTreeItem } from '../../providers/treeDataProvider';
+import {
+  Entity,
+  Observation,
+  ObservationFields,
+  ObservationSeverity,
+  Relation,
+  RelationVerb,
+  RelationProperties,
+  RelationCardinality,
+  SearchResult,
+} from '../../utils/types';
+import {
+  RELATION_CARDINALITIES,
+  RELATION_PROPERTY_KEYS,
+  getRelationProperties,
+} from '../../../packages/mcp-server/src/schema/relationProperties';
+import {
+  DEFAULT_OBSERVATION_KIND,
+  OBSERVATION_KINDS,
+  OBSERVATION_KIND_ICONS,
+  OBSERVATION_SEVERITIES,
+  normalizeTags,
+} from '../../../packages/mcp-server/src/schema/observationFields';
+import { matchesEntityName } from '../../../packages/mcp-server/src/schema/entityAliases';
+import { GraphQuerySyntaxError, isGraphQuery } from '../../../packages/mcp-server/src/schema/graphQuery';
+import { createAnchor, findSymbolAtLine, getDocumentSymbols, isOrphaned, withAnchor } from '../../utils/codeAnchor';
 import { t } from '../../i18n/i18nService';
 
 /** 图谱数据源类型 */
 export type GraphSourceType = 'manual' | 'auto' | 'merged';
 
+/** 关系目标选项，targetFolder 表示目标实体位于其他工作区文件夹 */
+type RelationTargetItem = vscode.QuickPickItem & { entity: Entity; targetFolder?: string };
+
+/** 树视图多选时参与批量操作的项目（当前文件夹中手动图谱的实体、关系和观察记录） */
+type BulkSelection = {
+  entities: Entity[];
+  relations: Array<{ id: string; isCrossFolder?: boolean }>;
+  observations: Array<{ id: string; entityId: string }>;
+};
+
 /**
  * 实体相关的命令处理器
  */
@@ -24,6 +67,13 @@ export class EntityCommands {
     private entityService: EntityService,
     private relationService: RelationService,
     private observationService: ObservationService,
+    private importService: ImportService,
+    private entityMergeService: EntityMergeService,
+    private bulkOperationService: BulkOperationService,
+    private searchService: SearchService,
+    private folder: vscode.WorkspaceFolder,
+    private registry: WorkspaceGraphRegistry,
+    private vocabulary: VocabularyService,
     autoGraphService?: AutoGraphService
   ) {
     this.autoGraphService = autoGraphService;
@@ -78,7 +128,7 @@ export class EntityCommands {
       // 手动图谱数据
       const entities = this.entityService.listEntities({});
       const relations = this.relationService.getAllRelations();
-      const observations: Array<{ entityId: string; entityName: string; content: string }> = [];
+      const observations: GraphData['observations'] = [];
       
       for (const entity of entities) {
         const entityObservations = this.observationService.getObservations(entity.id);
@@ -86,7 +136,10 @@ export class EntityCommands {
           observations.push({
             entityId: entity.id,
             entityName: entity.name,
-            content: obs.content
+            content: obs.content,
+            kind: obs.kind,
+            tags: obs.tags,
+            severity: obs.severity
           });
         }
       }
@@ -119,7 +172,7 @@ export class EntityCommands {
       }));
       
       // 获取自动图谱的观察记录
-      const observations: Array<{ entityId: string; entityName: string; content: string }> = [];
+      const observations: GraphData['observations'] = [];
       for (const entity of autoEntities) {
         const entityObservations = this.autoGraphService.getObservationsByEntity(entity.id);
         for (const obs of entityObservations) {
@@ -139,11 +192,12 @@ export class EntityCommands {
       const autoEntities = this.autoGraphService.listEntities();
       const autoRelations = this.autoGraphService.listRelations();
       
-      // 合并实体（按名称去重，手动优先）
+      // 合并实体（按名称去重，手动优先；已提升到手动图谱的自动实体由对应的手动实体代替）
       const entityMap = new Map<string, Entity>();
+      const promoted = mapPromotedAutoEntities(manualEntities, autoEntities);
       
       // 先添加自动实体
-      for (const e of autoEntities) {
+      for (const e of autoEntities.filter(entity => !promoted.has(entity.id))) {
         const key = `${e.name}::${e.filePath}`;
         entityMap.set(key, {
           id: e.id,
@@ -166,20 +220,21 @@ export class EntityCommands {
       
       const entities = Array.from(entityMap.values());
       
-      // 合并关系（需要映射 ID）
-      const relations: Relation[] = [
-        ...manualRelations,
-        ...autoRelations.map(r => ({
-          id: r.id,
-          sourceEntityId: r.sourceEntityId,
-          targetEntityId: r.targetEntityId,
-          verb: r.verb,
-          createdAt: r.createdAt
-        }))
-      ];
+      // 合并关系（需要映射 ID）：已提升的自动实体改为对应的手动实体，与手动关系重复的省略
+      const relationKeys = new Set(manualRelations.map(r => `${r.sourceEntityId}|${r.targetEntityId}|${r.verb}`));
+      const relations: Relation[] = [...manualRelations];
+      for (const r of autoRelations) {
+        const sourceEntityId = promoted.get(r.sourceEntityId) || r.sourceEntityId;
+        const targetEntityId = promoted.get(r.targetEntityId) || r.targetEntityId;
+        const key = `${sourceEntityId}|${targetEntityId}|${r.verb}`;
+        if (!relationKeys.has(key)) {
+          relationKeys.add(key);
+          relations.push({ id: r.id, sourceEntityId, targetEntityId, verb: r.verb, createdAt: r.createdAt });
+        }
+      }
       
       // 合并观察记录
-      const observations: Array<{ entityId: string; entityName: string; content: string }> = [];
+      const observations: GraphData['observations'] = [];
       
       // 手动图谱的观察记录
       for (const entity of manualEntities) {
@@ -188,18 +243,22 @@ export class EntityCommands {
           observations.push({
             entityId: entity.id,
             entityName: entity.name,
-            content: obs.content
+            content: obs.content,
+            kind: obs.kind,
+            tags: obs.tags,
+            severity: obs.severity
           });
         }
       }
       
-      // 自动图谱的观察记录
+      // 自动图谱的观察记录（已提升的实体归到对应的手动实体）
       for (const entity of autoEntities) {
+        const manualEntity = manualEntities.find(e => e.id === promoted.get(entity.id));
         const entityObservations = this.autoGraphService.getObservationsByEntity(entity.id);
         for (const obs of entityObservations) {
           observations.push({
-            entityId: entity.id,
-            entityName: entity.name,
+            entityId: manualEntity?.id || entity.id,
+            entityName: manualEntity?.name || entity.name,
             content: obs.content
           });
         }
@@ -211,7 +270,7 @@ export class EntityCommands {
     // 默认返回手动图谱
     const entities = this.entityService.listEntities({});
     const relations = this.relationService.getAllRelations();
-    const observations: Array<{ entityId: string; entityName: string; content: string }> = [];
+    const observations: GraphData['observations'] = [];
     
     for (const entity of entities) {
       const entityObservations = this.observationService.getObservations(entity.id);
@@ -219,7 +278,10 @@ export class EntityCommands {
         observations.push({
           entityId: entity.id,
           entityName: entity.name,
-          content: obs.content
+          content: obs.content,
+          kind: obs.kind,
+          tags: obs.tags,
+          severity: obs.severity
         });
       }
     }
@@ -279,10 +341,30 @@ export class EntityCommands {
       return;
     }
 
+    // 同名（不区分大小写）或别名相同的实体通常是同一个符号
+    const existing = this.entityService.findEntityByName(name);
+    if (existing) {
+      const translations = t().commands.createEntity;
+      const actions = existing.name === name.trim()
+        ? [translations.openExisting]
+        : [translations.openExisting, translations.createAnyway];
+      const action = await vscode.window.showWarningMessage(
+        translations.duplicate(existing.name, `${existing.filePath}:${existing.startLine}`),
+        ...actions
+      );
+      if (action === translations.openExisting) {
+        await this.jumpToEntity(existing);
+      }
+      if (action !== translations.createAnyway) {
+        return;
+      }
+    }
+
     // 选择实体类型
-    const typeOptions: vscode.QuickPickItem[] = Object.entries(t().entityTypes).map(([key, value]) => ({
-      label: value.label,
-      description: value.description
+    const typeOptions = this.vocabulary.getEntityTypes().map(term => ({
+      label: term.icon ? `$(${term.icon}) ${term.name}` : term.name,
+      description: term.description,
+      type: term.name
     }));
 
     const selectedType = await vscode.window.showQuickPick(typeOptions, {
@@ -306,15 +388,26 @@ export class EntityCommands {
         return;
       }
 
+      // 记录锚点，代码移动后可以重新定位实体
+      const startLine = selection.start.line + 1;
+      const endLine = selection.end.line + 1;
+      const anchor = createAnchor(
+        editor.document,
+        startLine,
+        endLine,
+        await getDocumentSymbols(editor.document)
+      );
+
       const entity = this.entityService.createEntity(
         name,
-        selectedType.label as EntityType,
+        selectedType.type,
         {
           filePath: relativePath,
-          startLine: selection.start.line + 1,
-          endLine: selection.end.line + 1,
+          startLine,
+          endLine,
         },
-        description
+        description,
+        withAnchor(undefined, anchor)
       );
 
       vscode.window.showInformationMessage(
@@ -327,6 +420,425 @@ export class EntityCommands {
     }
   }
 
+  /**
+   * 把实体重新锚定到当前编辑器中的代码
+   * 有选中内容时使用选中的行，否则使用光标所在的符号
+   */
+  public async reanchorEntity(treeItem?: string | KnowledgeTreeItem): Promise<void> {
+    const translations = t().commands.reanchorEntity;
+    let entity: Entity | null = null;
+
+    if (typeof treeItem === 'string') {
+      entity = this.entityService.getEntity(treeItem);
+    } else if (treeItem?.entity && !treeItem.isAuto) {
+      entity = this.entityService.getEntity(treeItem.entity.id);
+    }
+
+    if (!entity) {
+      // 孤立实体排在前面
+      const entities = this.entityService.listEntities()
+        .sort((a, b) => Number(isOrphaned(b)) - Number(isOrphaned(a)));
+      if (entities.length === 0) {
+        vscode.window.showInformationMessage(translations.noEntities);
+        return;
+      }
+
+      const selected = await vscode.window.showQuickPick(
+        entities.map(item => ({
+          label: isOrphaned(item) ? `$(warning) ${item.name}` : item.name,
+          description: isOrphaned(item)
+            ? `${translations.orphanedLabel} · ${item.filePath}`
+            : `${item.filePath}:${item.startLine}`,
+          entity: item,
+        })),
+        { placeHolder: translations.placeholder, matchOnDescription: true }
+      );
+      if (!selected) {
+        return;
+      }
+      entity = selected.entity;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showWarningMessage(translations.noEditor(entity.name));
+      return;
+    }
+    if (vscode.workspace.getWorkspaceFolder(editor.document.uri)?.uri.toString() !== this.folder.uri.toString()) {
+      vscode.window.showWarningMessage(translations.otherFolder);
+      return;
+    }
+
+    try {
+      const relativePath = this.getRelativePath(editor.document);
+      if (!relativePath) {
+        vscode.window.showWarningMessage(t().common.fileNotInWorkspace);
+        return;
+      }
+
+      const symbols = await getDocumentSymbols(editor.document);
+      const selection = editor.selection;
+      let startLine = selection.start.line + 1;
+      let endLine = selection.end.line + 1;
+      let symbolName: string | undefined;
+      if (selection.isEmpty) {
+        const symbol = findSymbolAtLine(symbols, startLine);
+        if (symbol) {
+          startLine = symbol.range.start.line + 1;
+          endLine = symbol.range.end.line + 1;
+          symbolName = symbol.name;
+        }
+      }
+
+      const anchor = createAnchor(editor.document, startLine, endLine, symbols, symbolName);
+      this.entityService.updateEntity(entity.id, {
+        filePath: relativePath,
+        startLine,
+        endLine,
+        metadata: withAnchor(entity.metadata, anchor),
+      });
+
+      vscode.window.showInformationMessage(
+        translations.success(entity.name, `${relativePath}:${startLine}-${endLine}`)
+      );
+    } catch (error) {
+      console.error('Failed to re-anchor entity:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 合并重复实体：观察记录和出入关系移到保留的实体上，被合并实体的名称和 ID 记为别名
+   */
+  public async mergeEntities(treeItem?: KnowledgeTreeItem): Promise<void> {
+    const translations = t().commands.mergeEntities;
+    const entities = this.entityService.listEntities();
+    if (entities.length < 2) {
+      vscode.window.showInformationMessage(translations.notEnoughEntities);
+      return;
+    }
+
+    // 从实体节点调用时预先选中该实体，同名或别名相同的实体排在前面
+    const initialId = treeItem?.entity && !treeItem.isAuto ? treeItem.entity.id : undefined;
+    const initial = initialId ? entities.find(entity => entity.id === initialId) : undefined;
+    const isCandidate = (entity: Entity) =>
+      !!initial && (entity.id === initial.id
+        || [initial.name, ...(initial.aliases || [])].some(name => matchesEntityName(entity, name)));
+    const sorted = [...entities].sort((a, b) => Number(isCandidate(b)) - Number(isCandidate(a)));
+
+    const selected = await vscode.window.showQuickPick(
+      sorted.map(entity => ({
+        label: entity.name,
+        description: `${entity.type} · ${entity.filePath}:${entity.startLine}`,
+        detail: entity.aliases?.length ? translations.aliases(entity.aliases) : undefined,
+        picked: entity.id === initial?.id,
+        entity,
+      })),
+      { placeHolder: translations.placeholder, canPickMany: true, matchOnDescription: true, matchOnDetail: true }
+    );
+    if (!selected) {
+      return;
+    }
+    if (selected.length < 2) {
+      vscode.window.showWarningMessage(translations.selectAtLeastTwo);
+      return;
+    }
+
+    const survivorItem = await vscode.window.showQuickPick(
+      selected.map(item => ({
+        label: item.label,
+        description: translations.counts(
+          this.observationService.getObservationCount(item.entity.id),
+          this.relationService.getRelationsByEntity(item.entity.id).length
+        ),
+        detail: item.description,
+        entity: item.entity,
+      })),
+      { placeHolder: translations.survivorPlaceholder }
+    );
+    if (!survivorItem) {
+      return;
+    }
+
+    const survivor = survivorItem.entity;
+    const duplicates = selected.map(item => item.entity).filter(entity => entity.id !== survivor.id);
+    const confirm = await vscode.window.showWarningMessage(
+      translations.confirm(survivor.name, duplicates.map(entity => entity.name)),
+      { modal: true },
+      translations.confirmButton
+    );
+    if (confirm !== translations.confirmButton) {
+      return;
+    }
+
+    try {
+      const result = this.entityMergeService.merge(survivor.id, duplicates.map(entity => entity.id));
+      vscode.window.showInformationMessage(
+        translations.success(survivor.name, result.mergedIds.length, result.movedObservations, result.movedRelations)
+      );
+    } catch (error) {
+      console.error('Failed to merge entities:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 删除树视图中选中的实体、关系和观察记录
+   */
+  public async deleteSelected(treeItem?: KnowledgeTreeItem, selectedItems?: KnowledgeTreeItem[]): Promise<void> {
+    const translations = t().commands.deleteSelected;
+    const selection = this.getBulkSelection(treeItem, selectedItems);
+    if (!selection) {
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      translations.confirm(selection.entities.length, selection.relations.length, selection.observations.length),
+      { modal: true },
+      translations.confirmButton
+    );
+    if (confirm !== translations.confirmButton) {
+      return;
+    }
+
+    try {
+      const result = this.bulkOperationService.deleteItems({
+        entityIds: selection.entities.map(entity => entity.id),
+        relationIds: selection.relations.filter(relation => !relation.isCrossFolder).map(relation => relation.id),
+        crossFolderRelationIds: selection.relations.filter(relation => relation.isCrossFolder).map(relation => relation.id),
+        observationIds: selection.observations.map(observation => observation.id),
+      });
+      vscode.window.showInformationMessage(translations.success(result.entities, result.relations, result.observations));
+    } catch (error) {
+      console.error('Failed to delete selected items:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 修改树视图中选中实体的类型
+   */
+  public async retypeSelected(treeItem?: KnowledgeTreeItem, selectedItems?: KnowledgeTreeItem[]): Promise<void> {
+    const translations = t().commands.retypeSelected;
+    const selection = this.getBulkSelection(treeItem, selectedItems);
+    if (!selection) {
+      return;
+    }
+    if (selection.entities.length === 0) {
+      vscode.window.showInformationMessage(translations.noEntities);
+      return;
+    }
+
+    const currentTypes = new Set(selection.entities.map(entity => entity.type));
+    const selectedType = await vscode.window.showQuickPick(
+      this.vocabulary.getEntityTypes().map(term => ({
+        label: term.icon ? `$(${term.icon}) ${term.name}` : term.name,
+        description: currentTypes.has(term.name) ? `✓ ${term.description || ''}`.trim() : term.description,
+        type: term.name
+      })),
+      { placeHolder: translations.placeholder }
+    );
+    if (!selectedType) {
+      return;
+    }
+
+    try {
+      const count = this.bulkOperationService.retypeEntities(
+        selection.entities.map(entity => entity.id),
+        selectedType.type
+      );
+      vscode.window.showInformationMessage(translations.success(count, selectedType.type));
+    } catch (error) {
+      console.error('Failed to change entity types:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 给选中的观察记录（以及选中实体的所有观察记录）追加标签
+   */
+  public async tagSelected(treeItem?: KnowledgeTreeItem, selectedItems?: KnowledgeTreeItem[]): Promise<void> {
+    const translations = t().commands.tagSelected;
+    const selection = this.getBulkSelection(treeItem, selectedItems);
+    if (!selection) {
+      return;
+    }
+
+    const observationIds = [
+      ...selection.observations.map(observation => observation.id),
+      ...selection.entities.flatMap(entity =>
+        this.observationService.getObservations(entity.id).map(observation => observation.id)
+      ),
+    ];
+    if (observationIds.length === 0) {
+      vscode.window.showInformationMessage(translations.noObservations);
+      return;
+    }
+
+    const tags = await vscode.window.showInputBox({
+      prompt: translations.prompt,
+      placeHolder: translations.placeholder,
+      validateInput: (value) => normalizeTags(value).length > 0 ? null : translations.validateEmpty,
+    });
+    if (!tags) {
+      return;
+    }
+
+    try {
+      const count = this.bulkOperationService.tagObservations(observationIds, normalizeTags(tags));
+      vscode.window.showInformationMessage(translations.success(count));
+    } catch (error) {
+      console.error('Failed to tag observations:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 给树视图中选中的每个实体添加同一条观察记录
+   */
+  public async addObservationToSelected(treeItem?: KnowledgeTreeItem, selectedItems?: KnowledgeTreeItem[]): Promise<void> {
+    const translations = t().commands.addObservationToSelected;
+    const selection = this.getBulkSelection(treeItem, selectedItems);
+    if (!selection) {
+      return;
+    }
+    if (selection.entities.length === 0) {
+      vscode.window.showInformationMessage(translations.noEntities);
+      return;
+    }
+
+    const content = await vscode.window.showInputBox({
+      prompt: t().commands.addObservation.prompt,
+      placeHolder: t().commands.addObservation.placeholder,
+      validateInput: (value) => {
+        return value.trim() ? null : t().commands.addObservation.validateEmpty;
+      },
+    });
+    if (!content) {
+      return;
+    }
+
+    const fields = await this.promptObservationFields();
+    if (!fields) {
+      return;
+    }
+
+    try {
+      const observations = this.bulkOperationService.addObservation(
+        selection.entities.map(entity => entity.id),
+        content,
+        fields
+      );
+      vscode.window.showInformationMessage(translations.success(observations.length));
+    } catch (error) {
+      console.error('Failed to add observations:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 把树视图中选中的实体都连接到同一个目标实体
+   * 拖放时 dropTarget 为放下位置的实体节点，否则让用户选择目标
+   */
+  public async linkSelectedTo(treeItem?: KnowledgeTreeItem, selectedItems?: KnowledgeTreeItem[], dropTarget?: KnowledgeTreeItem): Promise<void> {
+    const translations = t().commands.linkSelected;
+    const selection = this.getBulkSelection(treeItem, selectedItems);
+    if (!selection) {
+      return;
+    }
+    if (selection.entities.length === 0) {
+      vscode.window.showInformationMessage(translations.noEntities);
+      return;
+    }
+    const sources = selection.entities;
+
+    let target: RelationTargetItem | undefined;
+    if (dropTarget?.entity) {
+      const targetGraph = dropTarget.folderKey ? this.registry.get(dropTarget.folderKey) : undefined;
+      target = {
+        label: dropTarget.entity.name,
+        entity: dropTarget.entity as Entity,
+        targetFolder: targetGraph && targetGraph.key !== this.folder.uri.toString() ? targetGraph.folder.name : undefined,
+      };
+    } else {
+      target = await vscode.window.showQuickPick(
+        this.getRelationTargetItems(...sources.map(entity => entity.id)),
+        { placeHolder: translations.placeholder, matchOnDescription: true, matchOnDetail: true }
+      );
+    }
+    if (!target) {
+      return;
+    }
+
+    const selectedVerb = await vscode.window.showQuickPick(
+      this.getVerbOptions(sources.map(entity => entity.name).join(', '), target.label),
+      {
+        placeHolder: translations.verbPlaceholder(sources.length, target.label),
+        matchOnDescription: true,
+        matchOnDetail: true
+      }
+    );
+    if (!selectedVerb) {
+      return;
+    }
+
+    try {
+      const result = this.bulkOperationService.linkEntities(
+        sources.map(entity => entity.id),
+        { entityId: target.entity.id, targetFolder: target.targetFolder },
+        selectedVerb.verb
+      );
+      vscode.window.showInformationMessage(
+        translations.success(result.created, result.skipped, selectedVerb.verb, target.label)
+      );
+    } catch (error) {
+      console.error('Failed to link selected entities:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 收集树视图的选中项；右键的节点不在多选中时只处理该节点
+   * 自动图谱的项目和其他工作区文件夹的项目会被忽略
+   */
+  private getBulkSelection(treeItem?: KnowledgeTreeItem, selectedItems?: KnowledgeTreeItem[]): BulkSelection | undefined {
+    const items = selectedItems?.length ? selectedItems : treeItem ? [treeItem] : [];
+    const folderKey = this.folder.uri.toString();
+    const selection: BulkSelection = { entities: [], relations: [], observations: [] };
+    const seen = new Set<string>();
+    let otherFolders = 0;
+
+    for (const item of items) {
+      if (item.isAuto) {
+        continue;
+      }
+      if (item.folderKey && item.folderKey !== folderKey) {
+        otherFolders++;
+        continue;
+      }
+      // 自动图谱的项目已跳过，剩下的实体都是 Entity；同一关系会同时出现在源实体和目标实体下
+      if (item.type === 'entity' && item.entity && !seen.has(`entity:${item.entity.id}`)) {
+        seen.add(`entity:${item.entity.id}`);
+        selection.entities.push(item.entity as Entity);
+      } else if (item.type === 'relation' && item.relationData && !seen.has(`relation:${item.relationData.id}`)) {
+        seen.add(`relation:${item.relationData.id}`);
+        selection.relations.push(item.relationData);
+      } else if (item.type === 'observation' && item.observationData && !seen.has(`observation:${item.observationData.id}`)) {
+        seen.add(`observation:${item.observationData.id}`);
+        selection.observations.push(item.observationData);
+      }
+    }
+
+    if (otherFolders > 0) {
+      vscode.window.showWarningMessage(t().commands.bulkSelection.otherFoldersIgnored(otherFolders));
+    }
+    if (selection.entities.length + selection.relations.length + selection.observations.length === 0) {
+      vscode.window.showInformationMessage(t().commands.bulkSelection.noManualItems);
+      return undefined;
+    }
+    return selection;
+  }
+
   /**
    * 为实体添加观察记录
    */
@@ -376,8 +888,13 @@ export class EntityCommands {
       return;
     }
 
+    const fields = await this.promptObservationFields();
+    if (!fields) {
+      return;
+    }
+
     try {
-      this.observationService.addObservation(targetEntityId!, content);
+      this.observationService.addObservation(targetEntityId!, content, fields);
       vscode.window.showInformationMessage(t().commands.addObservation.success);
     } catch (error) {
       vscode.window.showErrorMessage(
@@ -462,12 +979,8 @@ export class EntityCommands {
    * 跳转到实体位置
    */
   public async jumpToEntity(entity: Entity): Promise<void> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
-      return;
-    }
-
-    const uri = vscode.Uri.joinPath(workspaceFolders[0].uri, entity.filePath);
+    // 实体路径相对于其所属文件夹
+    const uri = vscode.Uri.joinPath(this.folder.uri, entity.filePath);
     
     try {
       const document = await vscode.workspace.openTextDocument(uri);
@@ -493,37 +1006,52 @@ export class EntityCommands {
    */
   public async searchGraph(): Promise<void> {
     const query = await vscode.window.showInputBox({
-      prompt: 'Search entities by name',
-      placeHolder: 'Enter search query',
+      prompt: t().commands.searchGraph.prompt,
+      placeHolder: t().commands.searchGraph.placeholder,
     });
 
     if (!query) {
       return;
     }
 
-    const entities = this.entityService.listEntities({ name: query });
+    // 使用了类型、遍历、观察记录或聚合条件时按图谱查询执行，否则全文检索
+    let results: SearchResult[];
+    if (isGraphQuery(query)) {
+      try {
+        results = this.searchService.queryGraph(query).map(entity => ({ entity, score: 0, matchedFields: [] }));
+      } catch (error) {
+        if (error instanceof GraphQuerySyntaxError) {
+          vscode.window.showErrorMessage(t().commands.searchGraph.invalidQuery(error.message));
+          return;
+        }
+        throw error;
+      }
+    } else {
+      results = this.searchService.search(query);
+    }
 
-    if (entities.length === 0) {
-      vscode.window.showInformationMessage('No entities found');
+    if (results.length === 0) {
+      vscode.window.showInformationMessage(t().commands.searchGraph.noResults);
       return;
     }
 
-    // 显示搜索结果
-    const items: vscode.QuickPickItem[] = entities.map(entity => ({
-      label: entity.name,
-      description: `${entity.type} - ${entity.filePath}:${entity.startLine}`,
-      detail: entity.description,
+    // 显示搜索结果（按相关度排序）
+    const items = results.map(result => ({
+      label: result.entity.name,
+      description: `${result.entity.type} - ${result.entity.filePath}:${result.entity.startLine}`
+        + (result.score > 0 ? ` · ${t().commands.searchGraph.score(result.score)}` : ''),
+      detail: result.highlight || result.entity.description,
+      entity: result.entity,
     }));
 
     const selected = await vscode.window.showQuickPick(items, {
-      placeHolder: 'Select an entity to view',
+      placeHolder: t().commands.searchGraph.selectPlaceholder,
+      matchOnDescription: true,
+      matchOnDetail: true,
     });
 
     if (selected) {
-      const entity = entities.find(e => e.name === selected.label);
-      if (entity) {
-        await this.jumpToEntity(entity);
-      }
+      await this.jumpToEntity(selected.entity);
     }
   }
 
@@ -555,11 +1083,10 @@ export class EntityCommands {
       return;
     }
 
-    // 3. 获取所有其他实体
-    const allEntities = this.entityService.listEntities();
-    const targetEntities = allEntities.filter(e => e.id !== sourceEntity.id);
+    // 3. 获取所有其他实体（包括其他工作区文件夹中的实体）
+    const targetItems = this.getRelationTargetItems(sourceEntity.id);
 
-    if (targetEntities.length === 0) {
+    if (targetItems.length === 0) {
       vscode.window.showWarningMessage(
         `No other entities to link to. Create more entities first.`
       );
@@ -567,12 +1094,6 @@ export class EntityCommands {
     }
 
     // 4. 选择目标实体
-    const targetItems = targetEntities.map(entity => ({
-      label: entity.name,
-      description: `${entity.type} - ${entity.filePath}:${entity.startLine}`,
-      detail: entity.description,
-      entity: entity
-    }));
 
     const selectedTarget = await vscode.window.showQuickPick(targetItems, {
       placeHolder: `Link from: ${sourceEntity.name} → To:`,
@@ -585,62 +1106,7 @@ export class EntityCommands {
     }
 
     // 5. 选择关系类型
-    const verbOptions: (vscode.QuickPickItem & { verb: string })[] = [
-      { 
-        label: 'uses', 
-        verb: 'uses',
-        description: 'Uses or utilizes',
-        detail: `${sourceEntity.name} uses ${selectedTarget.label}`
-      },
-      { 
-        label: 'calls', 
-        verb: 'calls',
-        description: 'Calls or invokes',
-        detail: `${sourceEntity.name} calls ${selectedTarget.label}`
-      },
-      { 
-        label: 'extends', 
-        verb: 'extends',
-        description: 'Extends or inherits from',
-        detail: `${sourceEntity.name} extends ${selectedTarget.label}`
-      },
-      { 
-        label: 'implements', 
-        verb: 'implements',
-        description: 'Implements an interface',
-        detail: `${sourceEntity.name} implements ${selectedTarget.label}`
-      },
-      { 
-        label: 'depends_on', 
-        verb: 'depends_on',
-        description: 'Depends on',
-        detail: `${sourceEntity.name} depends on ${selectedTarget.label}`
-      },
-      { 
-        label: 'contains', 
-        verb: 'contains',
-        description: 'Contains or includes',
-        detail: `${sourceEntity.name} contains ${selectedTarget.label}`
-      },
-      { 
-        label: 'references', 
-        verb: 'references',
-        description: 'References or mentions',
-        detail: `${sourceEntity.name} references ${selectedTarget.label}`
-      },
-      { 
-        label: 'imports', 
-        verb: 'imports',
-        description: 'Imports from',
-        detail: `${sourceEntity.name} imports ${selectedTarget.label}`
-      },
-      { 
-        label: 'exports', 
-        verb: 'exports',
-        description: 'Exports to',
-        detail: `${sourceEntity.name} exports ${selectedTarget.label}`
-      }
-    ];
+    const verbOptions = this.getVerbOptions(sourceEntity.name, selectedTarget.label);
 
     const selectedVerb = await vscode.window.showQuickPick(verbOptions, {
       placeHolder: 'Select relation type',
@@ -653,11 +1119,7 @@ export class EntityCommands {
     }
 
     // 6. 检查关系是否已存在
-    const exists = this.relationService.relationExists(
-      sourceEntity.id,
-      selectedTarget.entity.id,
-      selectedVerb.verb as any
-    );
+    const exists = this.relationExistsTo(sourceEntity.id, selectedTarget, selectedVerb.verb);
 
     if (exists) {
       const overwrite = await vscode.window.showWarningMessage(
@@ -673,11 +1135,7 @@ export class EntityCommands {
 
     // 7. 创建关系
     try {
-      this.relationService.addRelation(
-        sourceEntity.id,
-        selectedTarget.entity.id,
-        selectedVerb.verb as any
-      );
+      this.createRelationTo(sourceEntity.id, selectedTarget, selectedVerb.verb);
 
       vscode.window.showInformationMessage(
         `✅ Linked: ${sourceEntity.name} ${selectedVerb.label} ${selectedTarget.label}`
@@ -694,7 +1152,7 @@ export class EntityCommands {
     // 1. 获取所有实体
     const allEntities = this.entityService.listEntities();
     
-    if (allEntities.length < 2) {
+    if (allEntities.length === 0 || allEntities.length + this.countOtherFolderEntities() < 2) {
       vscode.window.showWarningMessage('Need at least 2 entities to create a relation');
       return;
     }
@@ -717,15 +1175,8 @@ export class EntityCommands {
       return;
     }
 
-    // 3. 选择目标实体（To）
-    const targetItems = allEntities
-      .filter(e => e.id !== selectedSource.entity.id) // 排除源实体
-      .map(entity => ({
-        label: entity.name,
-        description: `${entity.type} - ${entity.filePath}:${entity.startLine}`,
-        detail: entity.description,
-        entity: entity
-      }));
+    // 3. 选择目标实体（To），排除源实体
+    const targetItems = this.getRelationTargetItems(selectedSource.entity.id);
 
     const selectedTarget = await vscode.window.showQuickPick(targetItems, {
       placeHolder: `Select target entity (To) - From: ${selectedSource.label}`,
@@ -738,62 +1189,7 @@ export class EntityCommands {
     }
 
     // 4. 选择关系类型（Verb）
-    const verbOptions: (vscode.QuickPickItem & { verb: string })[] = [
-      { 
-        label: 'uses', 
-        verb: 'uses',
-        description: 'Uses or utilizes',
-        detail: `${selectedSource.label} uses ${selectedTarget.label}`
-      },
-      { 
-        label: 'calls', 
-        verb: 'calls',
-        description: 'Calls or invokes',
-        detail: `${selectedSource.label} calls ${selectedTarget.label}`
-      },
-      { 
-        label: 'extends', 
-        verb: 'extends',
-        description: 'Extends or inherits from',
-        detail: `${selectedSource.label} extends ${selectedTarget.label}`
-      },
-      { 
-        label: 'implements', 
-        verb: 'implements',
-        description: 'Implements an interface',
-        detail: `${selectedSource.label} implements ${selectedTarget.label}`
-      },
-      { 
-        label: 'depends_on', 
-        verb: 'depends_on',
-        description: 'Depends on',
-        detail: `${selectedSource.label} depends on ${selectedTarget.label}`
-      },
-      { 
-        label: 'contains', 
-        verb: 'contains',
-        description: 'Contains or includes',
-        detail: `${selectedSource.label} contains ${selectedTarget.label}`
-      },
-      { 
-        label: 'references', 
-        verb: 'references',
-        description: 'References or mentions',
-        detail: `${selectedSource.label} references ${selectedTarget.label}`
-      },
-      { 
-        label: 'imports', 
-        verb: 'imports',
-        description: 'Imports from',
-        detail: `${selectedSource.label} imports ${selectedTarget.label}`
-      },
-      { 
-        label: 'exports', 
-        verb: 'exports',
-        description: 'Exports to',
-        detail: `${selectedSource.label} exports ${selectedTarget.label}`
-      }
-    ];
+    const verbOptions = this.getVerbOptions(selectedSource.label, selectedTarget.label);
 
     const selectedVerb = await vscode.window.showQuickPick(verbOptions, {
       placeHolder: 'Select relation type',
@@ -806,11 +1202,7 @@ export class EntityCommands {
     }
 
     // 5. 检查关系是否已存在
-    const exists = this.relationService.relationExists(
-      selectedSource.entity.id,
-      selectedTarget.entity.id,
-      selectedVerb.verb as any
-    );
+    const exists = this.relationExistsTo(selectedSource.entity.id, selectedTarget, selectedVerb.verb);
 
     if (exists) {
       const overwrite = await vscode.window.showWarningMessage(
@@ -826,11 +1218,7 @@ export class EntityCommands {
 
     // 6. 创建关系
     try {
-      this.relationService.addRelation(
-        selectedSource.entity.id,
-        selectedTarget.entity.id,
-        selectedVerb.verb as any
-      );
+      this.createRelationTo(selectedSource.entity.id, selectedTarget, selectedVerb.verb);
 
       vscode.window.showInformationMessage(
         `✅ Relation created: ${selectedSource.label} ${selectedVerb.label} ${selectedTarget.label}`
@@ -840,6 +1228,68 @@ export class EntityCommands {
     }
   }
 
+  /**
+   * 关系目标候选：当前文件夹的实体，以及其他工作区文件夹的实体
+   */
+  private getRelationTargetItems(...excludeIds: string[]): RelationTargetItem[] {
+    const items: RelationTargetItem[] = this.entityService.listEntities()
+      .filter(e => !excludeIds.includes(e.id))
+      .map(entity => ({
+        label: entity.name,
+        description: `${entity.type} - ${entity.filePath}:${entity.startLine}`,
+        detail: entity.description,
+        entity: entity
+      }));
+
+    for (const graph of this.getOtherFolderGraphs()) {
+      graph.entityService.listEntities().forEach(entity => {
+        items.push({
+          label: entity.name,
+          description: `${graph.folder.name} · ${entity.type} - ${entity.filePath}:${entity.startLine}`,
+          detail: entity.description,
+          entity: entity,
+          targetFolder: graph.folder.name
+        });
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * 关系动词候选（内置动词 + 自定义动词）
+   */
+  private getVerbOptions(sourceLabel: string, targetLabel: string): (vscode.QuickPickItem & { verb: RelationVerb })[] {
+    return this.vocabulary.getRelationVerbs().map(term => ({
+      label: term.name,
+      verb: term.name,
+      description: term.description,
+      detail: `${sourceLabel} ${term.name.replace(/_/g, ' ')} ${targetLabel}`
+    }));
+  }
+
+  private getOtherFolderGraphs(): FolderGraph[] {
+    return this.registry.getAll().filter(graph => graph.key !== this.folder.uri.toString());
+  }
+
+  private countOtherFolderEntities(): number {
+    return this.getOtherFolderGraphs().reduce((sum, graph) => sum + graph.entityService.listEntities().length, 0);
+  }
+
+  private relationExistsTo(sourceId: string, target: RelationTargetItem, verb: RelationVerb): boolean {
+    return target.targetFolder
+      ? this.relationService.crossFolderRelationExists(sourceId, target.targetFolder, target.entity.id, verb)
+      : this.relationService.relationExists(sourceId, target.entity.id, verb);
+  }
+
+  private createRelationTo(sourceId: string, target: RelationTargetItem, verb: RelationVerb): void {
+    if (target.targetFolder) {
+      this.relationService.addCrossFolderRelation(sourceId, target.targetFolder, target.entity.id, verb);
+    } else {
+      this.relationService.addRelation(sourceId, target.entity.id, verb);
+    }
+  }
+
   /**
    * 编辑实体的观察记录
    */
@@ -870,9 +1320,12 @@ export class EntityCommands {
     }
 
     const observations = this.observationService.getObservations(targetEntity.id);
-    let selectedObservation: Observation | null = null;
+    // 从观察记录节点调用时直接编辑该记录
+    let selectedObservation: Observation | null = treeItem?.observationData
+      ? observations.find(observation => observation.id === treeItem.observationData.id) || null
+      : null;
 
-    if (observations.length > 0) {
+    if (!selectedObservation && observations.length > 0) {
       const observationItems = observations.map((observation) => {
         const preview =
           observation.content.length > 80
@@ -882,7 +1335,7 @@ export class EntityCommands {
         const timestamp = new Date(observation.updatedAt || observation.createdAt).toLocaleString();
 
         return {
-          label: preview,
+          label: `$(${OBSERVATION_KIND_ICONS[observation.kind || DEFAULT_OBSERVATION_KIND]}) ${preview}`,
           description: timestamp,
           observation,
         } as vscode.QuickPickItem & { observation: Observation };
@@ -918,11 +1371,17 @@ export class EntityCommands {
       return;
     }
 
+    const fields = await this.promptObservationFields(selectedObservation ?? undefined);
+    if (!fields) {
+      return;
+    }
+
     try {
       if (selectedObservation) {
         const updated = this.observationService.updateObservation(
           selectedObservation.id,
-          trimmedContent
+          trimmedContent,
+          fields
         );
 
         if (!updated) {
@@ -932,7 +1391,7 @@ export class EntityCommands {
 
         vscode.window.showInformationMessage(translations.success(targetEntity.name));
       } else {
-        this.observationService.addObservation(targetEntity.id, trimmedContent);
+        this.observationService.addObservation(targetEntity.id, trimmedContent, fields);
         const successMessage = t().commands.addObservation.success || translations.success(targetEntity.name);
         vscode.window.showInformationMessage(successMessage);
       }
@@ -941,6 +1400,75 @@ export class EntityCommands {
     }
   }
 
+  /**
+   * 确认过期的观察记录仍然有效：按实体当前的代码重新记录哈希
+   */
+  public async confirmStaleObservation(treeItem?: KnowledgeTreeItem): Promise<void> {
+    const observationId = treeItem?.observationData?.id;
+    const confirmed = observationId ? this.observationService.confirmObservation(observationId) : null;
+    if (!confirmed) {
+      vscode.window.showWarningMessage(t().staleKnowledge.notFound);
+      return;
+    }
+
+    const entity = this.entityService.getEntity(confirmed.entityId);
+    vscode.window.showInformationMessage(t().staleKnowledge.confirmed(entity?.name || confirmed.entityId));
+  }
+
+  /**
+   * 依次选择观察记录的种类、严重程度和标签，任一步取消时返回 undefined
+   * note 和 decision 不需要严重程度
+   */
+  private async promptObservationFields(current: ObservationFields = {}): Promise<ObservationFields | undefined> {
+    const translations = t().observationFields;
+    const currentKind = current.kind || DEFAULT_OBSERVATION_KIND;
+
+    const kindItems = OBSERVATION_KINDS.map(kind => ({
+      label: `$(${OBSERVATION_KIND_ICONS[kind]}) ${t().observationKinds[kind].label}`,
+      description: t().observationKinds[kind].description,
+      value: kind,
+    }));
+    // 当前种类排在最前，直接回车即保持不变
+    kindItems.sort((a, b) => Number(b.value === currentKind) - Number(a.value === currentKind));
+
+    const selectedKind = await vscode.window.showQuickPick(kindItems, {
+      placeHolder: translations.kindPlaceholder
+    });
+    if (!selectedKind) {
+      return undefined;
+    }
+
+    let severity: ObservationSeverity | undefined;
+    if (selectedKind.value !== 'note' && selectedKind.value !== 'decision') {
+      const severityItems: (vscode.QuickPickItem & { severity?: ObservationSeverity })[] = [
+        { label: translations.severities.none },
+        ...[...OBSERVATION_SEVERITIES].reverse().map(value => ({
+          label: translations.severities[value],
+          description: value === current.severity ? '✓' : undefined,
+          severity: value,
+        })),
+      ];
+      const selectedSeverity = await vscode.window.showQuickPick(severityItems, {
+        placeHolder: translations.severityPlaceholder
+      });
+      if (!selectedSeverity) {
+        return undefined;
+      }
+      severity = selectedSeverity.severity;
+    }
+
+    const tags = await vscode.window.showInputBox({
+      prompt: translations.tagsPrompt,
+      placeHolder: translations.tagsPlaceholder,
+      value: (current.tags || []).join(', ')
+    });
+    if (tags === undefined) {
+      return undefined;
+    }
+
+    return { kind: selectedKind.value, severity, tags: normalizeTags(tags) };
+  }
+
   /**
    * 删除观察记录
    */
@@ -1049,13 +1577,191 @@ export class EntityCommands {
 
     // 执行删除
     try {
-      this.relationService.removeRelation(relationData.id);
+      if (relationData.isCrossFolder) {
+        this.relationService.removeCrossFolderRelation(relationData.id);
+      } else {
+        this.relationService.removeRelation(relationData.id);
+      }
       vscode.window.showInformationMessage(`✅ Relation deleted: ${displayLabel}`);
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to delete relation: ${error}`);
     }
   }
 
+  /**
+   * 编辑关系属性（从树视图右键或命令面板调用）
+   */
+  public async editRelation(treeItem?: KnowledgeTreeItem): Promise<void> {
+    const translations = t().commands.editRelation;
+    let target: { id: string; label: string; metadata?: Relation['metadata']; isCrossFolder: boolean } | undefined;
+
+    if (treeItem?.relationData && !treeItem.isAuto) {
+      const relationData = treeItem.relationData;
+      const relation = relationData.isCrossFolder
+        ? this.relationService.getCrossFolderRelations(relationData.sourceId).find(r => r.id === relationData.id)
+        : this.relationService.getRelation(relationData.id);
+      if (!relation) {
+        vscode.window.showErrorMessage(translations.notFound);
+        return;
+      }
+      target = {
+        id: relation.id,
+        label: `${relationData.sourceName} ${relationData.verb} ${relationData.targetName}`,
+        metadata: relation.metadata,
+        isCrossFolder: !!relationData.isCrossFolder,
+      };
+    } else {
+      const items = this.relationService.getAllRelations().flatMap(relation => {
+        const source = this.entityService.getEntity(relation.sourceEntityId);
+        const targetEntity = this.entityService.getEntity(relation.targetEntityId);
+        if (!source || !targetEntity) {
+          return [];
+        }
+        return [{
+          label: `${source.name} ${relation.verb} ${targetEntity.name}`,
+          description: `${source.filePath}:${source.startLine} → ${targetEntity.filePath}:${targetEntity.startLine}`,
+          relation,
+        }];
+      });
+
+      if (items.length === 0) {
+        vscode.window.showInformationMessage(translations.noRelations);
+        return;
+      }
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: translations.placeholder,
+        matchOnDescription: true
+      });
+      if (!selected) {
+        return;
+      }
+      target = {
+        id: selected.relation.id,
+        label: selected.label,
+        metadata: selected.relation.metadata,
+        isCrossFolder: false,
+      };
+    }
+
+    const properties = await this.promptRelationProperties(target.label, getRelationProperties(target.metadata));
+    if (!properties) {
+      return;
+    }
+
+    try {
+      if (target.isCrossFolder) {
+        this.relationService.updateCrossFolderRelationProperties(target.id, properties);
+      } else {
+        this.relationService.updateRelationProperties(target.id, properties);
+      }
+      vscode.window.showInformationMessage(translations.success(target.label));
+    } catch (error) {
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 关系属性菜单：逐个修改属性，选择“保存”后返回全部属性，取消时返回 undefined
+   */
+  private async promptRelationProperties(
+    relationLabel: string,
+    current: RelationProperties
+  ): Promise<RelationProperties | undefined> {
+    const translations = t().commands.editRelation;
+    const properties: RelationProperties = { ...current };
+
+    for (;;) {
+      const items: (vscode.QuickPickItem & { key?: keyof RelationProperties })[] = [
+        ...RELATION_PROPERTY_KEYS.map(key => ({
+          label: translations.fields[key].title,
+          description: this.formatRelationProperty(key, properties) || translations.notSet,
+          key,
+        })),
+        { label: `$(check) ${translations.save}` },
+      ];
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: translations.propertiesPlaceholder(relationLabel)
+      });
+      if (!selected) {
+        return undefined;
+      }
+      if (!selected.key) {
+        return properties;
+      }
+
+      const changed = await this.promptRelationProperty(selected.key, properties);
+      if (changed) {
+        Object.assign(properties, changed);
+      }
+    }
+  }
+
+  /**
+   * 修改单个关系属性，返回只包含该属性的对象（值为 undefined 表示清除），取消时返回 undefined
+   */
+  private async promptRelationProperty(
+    key: keyof RelationProperties,
+    properties: RelationProperties
+  ): Promise<RelationProperties | undefined> {
+    const translations = t().commands.editRelation;
+
+    if (key === 'cardinality') {
+      const options: (vscode.QuickPickItem & { cardinality?: RelationCardinality })[] = [
+        { label: translations.cardinalities.none },
+        ...RELATION_CARDINALITIES.map(cardinality => ({
+          label: this.getCardinalityLabel(cardinality),
+          description: cardinality,
+          picked: cardinality === properties.cardinality,
+          cardinality,
+        })),
+      ];
+      const selected = await vscode.window.showQuickPick(options, {
+        placeHolder: translations.fields.cardinality.placeholder
+      });
+      return selected ? { cardinality: selected.cardinality } : undefined;
+    }
+
+    const field = translations.fields[key];
+    const isNumber = key === 'weight' || key === 'confidence';
+    const value = await vscode.window.showInputBox({
+      prompt: field.prompt,
+      placeHolder: field.placeholder,
+      value: properties[key] === undefined ? '' : String(properties[key]),
+      validateInput: (input) => {
+        if (!isNumber || !input.trim()) {
+          return null;
+        }
+        const parsed = Number(input.trim());
+        if (key === 'weight') {
+          return Number.isFinite(parsed) && parsed >= 0 ? null : translations.fields.weight.invalid;
+        }
+        return Number.isFinite(parsed) && parsed >= 0 && parsed <= 1 ? null : translations.fields.confidence.invalid;
+      }
+    });
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const trimmed = value.trim();
+    return { [key]: trimmed ? (isNumber ? Number(trimmed) : trimmed) : undefined };
+  }
+
+  private formatRelationProperty(key: keyof RelationProperties, properties: RelationProperties): string {
+    const value = properties[key];
+    if (value === undefined) {
+      return '';
+    }
+    return key === 'cardinality' ? this.getCardinalityLabel(value as RelationCardinality) : String(value);
+  }
+
+  private getCardinalityLabel(cardinality: RelationCardinality): string {
+    const labels = t().commands.editRelation.cardinalities;
+    // 'one-to-many' -> oneToMany
+    return labels[cardinality.replace(/-(\w)/g, (_, c: string) => c.toUpperCase()) as keyof typeof labels];
+  }
+
   /**
    * 删除关系（从命令面板，显示列表选择）
    */
@@ -1253,11 +1959,7 @@ export class EntityCommands {
     const actualFormat = includeDeps ? 'md' : format.value;
 
     // 选择保存位置
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-      vscode.window.showErrorMessage(translations.noWorkspace);
-      return;
-    }
+    const workspaceFolder = this.folder;
 
     const defaultFileName = this.exportService.generateExportFileName(actualFormat as 'md' | 'json');
     const defaultUri = vscode.Uri.joinPath(workspaceFolder.uri, defaultFileName);
@@ -1319,15 +2021,108 @@ export class EntityCommands {
   }
 
   /**
-   * 生成 Cursor Rules
+   * 导入知识图谱（JSON）
    */
-  public async generateCursorRules(): Promise<void> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-      vscode.window.showErrorMessage(t().commands.generateCursorRules.noWorkspace);
+  public async importGraph(): Promise<void> {
+    const translations = t().commands.importGraph;
+
+    const openUris = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'JSON': ['json'] },
+      openLabel: translations.openLabel,
+    });
+
+    if (!openUris || openUris.length === 0) {
+      return;
+    }
+
+    const sourceUri = openUris[0];
+    const sourceName = path.basename(sourceUri.fsPath);
+
+    let data;
+    try {
+      data = this.importService.readExportFile(sourceUri.fsPath);
+    } catch (error) {
+      vscode.window.showErrorMessage(translations.invalidFile(String(error)));
       return;
     }
 
+    // 选择导入模式
+    const mode = await vscode.window.showQuickPick(
+      [
+        { label: translations.mode.mergeKey.label, description: translations.mode.mergeKey.description, value: 'merge-key' as ImportMode },
+        { label: translations.mode.mergeId.label, description: translations.mode.mergeId.description, value: 'merge-id' as ImportMode },
+        { label: translations.mode.replace.label, description: translations.mode.replace.description, value: 'replace' as ImportMode },
+      ],
+      { placeHolder: translations.mode.placeholder }
+    );
+
+    if (!mode) {
+      return;
+    }
+
+    let plan = this.importService.buildPlan(data, mode.value);
+
+    // 存在冲突的观察记录时，让用户选择处理策略
+    if (plan.conflicts.length > 0) {
+      const strategy = await vscode.window.showQuickPick(
+        [
+          { label: translations.conflict.keepExisting, value: 'keep-existing' as ObservationConflictStrategy },
+          { label: translations.conflict.useImported, value: 'use-imported' as ObservationConflictStrategy },
+          { label: translations.conflict.keepBoth, value: 'keep-both' as ObservationConflictStrategy },
+        ],
+        { placeHolder: translations.conflict.placeholder(plan.conflicts.length) }
+      );
+
+      if (!strategy) {
+        return;
+      }
+
+      plan = this.importService.buildPlan(data, mode.value, strategy.value);
+    }
+
+    // 预览
+    const doc = await vscode.workspace.openTextDocument({
+      content: this.importService.formatPlan(plan, sourceName),
+      language: 'markdown',
+    });
+    await vscode.window.showTextDocument(doc, { preview: true });
+
+    const confirmMessage = translations.confirm(
+      plan.entities.added.length + plan.relations.added.length + plan.observations.added.length,
+      plan.entities.updated.length + plan.observations.updated.length,
+      plan.entities.skipped.length + plan.relations.skipped.length + plan.observations.skipped.length
+    );
+    const answer = await vscode.window.showWarningMessage(
+      mode.value === 'replace' ? `${confirmMessage}\n\n${translations.replaceWarning}` : confirmMessage,
+      { modal: true },
+      translations.importLabel
+    );
+
+    if (answer !== translations.importLabel) {
+      return;
+    }
+
+    try {
+      const result = this.importService.applyPlan(plan);
+      vscode.window.showInformationMessage(
+        translations.success(
+          result.entitiesAdded + result.entitiesUpdated,
+          result.relationsAdded,
+          result.observationsAdded + result.observationsUpdated
+        )
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 生成 Cursor Rules
+   */
+  public async generateCursorRules(): Promise<void> {
+    const workspaceFolder = this.folder;
+
     // 选择图谱数据源
     const sourceType = await this.selectGraphSource();
     if (!sourceType) {
@@ -1363,11 +2158,7 @@ export class EntityCommands {
    * 生成 Copilot Instructions
    */
   public async generateCopilotInstructions(): Promise<void> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-      vscode.window.showErrorMessage(t().commands.generateCopilotInstructions.noWorkspace);
-      return;
-    }
+    const workspaceFolder = this.folder;
 
     // 选择图谱数据源
     const sourceType = await this.selectGraphSource();
@@ -1404,11 +2195,7 @@ export class EntityCommands {
    * 生成所有 AI 配置
    */
   public async generateAllAIConfigs(): Promise<void> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-      vscode.window.showErrorMessage(t().commands.generateAllAIConfigs.noWorkspace);
-      return;
-    }
+    const workspaceFolder = this.folder;
 
     // 选择图谱数据源
     const sourceType = await this.selectGraphSource();
@@ -1578,10 +2365,7 @@ export class EntityCommands {
         );
       } else {
         // 保存到文件
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-          return;
-        }
+        const workspaceFolder = this.folder;
 
         const fileName = `${path.basename(relativePath, path.extname(relativePath))}-context.md`;
         const defaultUri = vscode.Uri.joinPath(workspaceFolder.uri, fileName);
@@ -1666,15 +2450,9 @@ export class EntityCommands {
 
         case 'save':
           // 保存到文件
-          const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-          if (!workspaceFolder) {
-            vscode.window.showErrorMessage('请先打开一个工作区');
-            return;
-          }
-
           const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
           const fileName = `ai-summary-${timestamp}.md`;
-          const defaultUri = vscode.Uri.joinPath(workspaceFolder.uri, fileName);
+          const defaultUri = vscode.Uri.joinPath(this.folder.uri, fileName);
 
           const saveUri = await vscode.window.showSaveDialog({
             defaultUri,
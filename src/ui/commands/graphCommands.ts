@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DatabaseService } from '../../services/database';
+import { RAGService } from '../../services/ragService';
+import { GraphTextStore } from '../../services/graphTextStore';
+import { GraphMergeService } from '../../services/graphMergeService';
+import { WorkspaceGraphRegistry } from '../../services/workspaceGraphs';
+import { MergeConflictView } from '../webview/mergeView';
+import { GraphExportData } from '../../utils/types';
+import { t } from '../../i18n/i18nService';
+
+/**
+ * 清空范围
+ */
+type ClearScope = 'manual' | 'auto' | 'rag' | 'all';
+
+/**
+ * 图谱维护相关命令处理器（清空、快照恢复、合并）
+ */
+export class GraphCommands {
+  constructor(
+    private dbService: DatabaseService,
+    private ragService: RAGService,
+    private textStore: GraphTextStore,
+    private mergeService: GraphMergeService,
+    private registry: WorkspaceGraphRegistry
+  ) {}
+
+  /**
+   * 按范围清空图谱，清空前自动创建快照
+   */
+  public async clearGraph(): Promise<void> {
+    const translations = t().commands.clearGraph;
+
+    const scopes: ClearScope[] = ['manual', 'auto', 'rag', 'all'];
+    const selected = await vscode.window.showQuickPick(
+      scopes.map(scope => ({
+        label: translations.scope[scope].label,
+        description: translations.scope[scope].description,
+        scope,
+      })),
+      { placeHolder: translations.scopePlaceholder }
+    );
+
+    if (!selected) {
+      return;
+    }
+
+    const clearsRag = selected.scope === 'rag' || selected.scope === 'all';
+    let message = translations.confirm(selected.label);
+    if (clearsRag && this.ragService.getMode() === 'cloud') {
+      message += `\n\n${translations.ragCloudNote}`;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+      message,
+      { modal: true },
+      translations.clearLabel
+    );
+    if (answer !== translations.clearLabel) {
+      return;
+    }
+
+    try {
+      // 快照必须在事务之外创建（导出会重置 sql.js 的连接状态）
+      const snapshot = this.dbService.createSnapshot('clear');
+
+      this.dbService.transaction(() => {
+        if (selected.scope === 'manual' || selected.scope === 'all') {
+          this.dbService.clearManualGraph();
+        }
+        if (selected.scope === 'auto' || selected.scope === 'all') {
+          this.dbService.clearAutoGraph();
+        }
+        if (clearsRag) {
+          this.dbService.clearRagIndex();
+        }
+      });
+
+      // RAG 服务只绑定第一个文件夹的图谱
+      if (clearsRag && this.registry.getPrimary().dbService === this.dbService) {
+        await this.ragService.reloadFromDatabase();
+      }
+
+      vscode.window.showInformationMessage(translations.success(selected.label, snapshot.name));
+    } catch (error) {
+      console.error('Failed to clear graph:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 从 .vscode/.knowledge/graph/ 下的文本文件重建手动图谱，重建前自动创建快照
+   */
+  public async rebuildFromTextFiles(): Promise<void> {
+    const translations = t().database;
+
+    if (!this.textStore.isEnabled()) {
+      vscode.window.showInformationMessage(translations.textNotEnabled);
+      return;
+    }
+
+    try {
+      this.dbService.createSnapshot('text-rebuild');
+      const { message, warning } = this.textStore.describeRebuild(this.textStore.rebuildFromFiles());
+      if (warning) {
+        vscode.window.showWarningMessage(message);
+      } else {
+        vscode.window.showInformationMessage(message);
+      }
+    } catch (error) {
+      console.error('Failed to rebuild graph from text files:', error);
+      vscode.window.showErrorMessage(translations.textRebuildFailed(String(error)));
+    }
+  }
+
+  /**
+   * 三方合并两个分叉的手动图谱，冲突在 Webview 中手动解决，合并前自动创建快照
+   */
+  public async mergeGraph(): Promise<void> {
+    const translations = t().commands.mergeGraph;
+
+    const base = await this.pickGraphFile(translations.basePrompt);
+    if (!base) {
+      return;
+    }
+
+    const oursSource = await vscode.window.showQuickPick(
+      [
+        { ...translations.oursCurrent, fromFile: false },
+        { ...translations.oursFile, fromFile: true },
+      ],
+      { placeHolder: translations.oursPlaceholder }
+    );
+    if (!oursSource) {
+      return;
+    }
+
+    let ours: GraphExportData | undefined = this.mergeService.loadCurrentGraph();
+    if (oursSource.fromFile) {
+      ours = await this.pickGraphFile(translations.oursPrompt);
+      if (!ours) {
+        return;
+      }
+    }
+
+    const theirs = await this.pickGraphFile(translations.theirsPrompt);
+    if (!theirs) {
+      return;
+    }
+
+    const result = this.mergeService.merge(base, ours, theirs);
+
+    let resolutions = {};
+    if (result.conflicts.length > 0) {
+      const entityNames = new Map<string, string>();
+      [base, theirs, ours].forEach(data => data.entities.forEach(e => entityNames.set(e.id, e.name)));
+
+      const selected = await MergeConflictView.show(result.conflicts, entityNames);
+      if (!selected) {
+        return;
+      }
+      resolutions = selected;
+    }
+
+    const merged = this.mergeService.resolve(result, resolutions);
+    const answer = await vscode.window.showWarningMessage(
+      translations.confirm(
+        merged.entities.length,
+        merged.relations.length,
+        merged.observations.length,
+        result.theirsChanges,
+        result.conflicts.length,
+        merged.dropped
+      ),
+      { modal: true },
+      translations.mergeLabel
+    );
+    if (answer !== translations.mergeLabel) {
+      return;
+    }
+
+    try {
+      // 快照必须在事务之外创建（导出会重置 sql.js 的连接状态）
+      const snapshot = this.dbService.createSnapshot('merge');
+      this.mergeService.applyMerge(merged);
+
+      vscode.window.showInformationMessage(translations.success(snapshot.name));
+    } catch (error) {
+      console.error('Failed to merge graph:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 选择并读取一个图谱文件（.sqlite 或 JSON 导出）
+   */
+  private async pickGraphFile(title: string): Promise<GraphExportData | undefined> {
+    const translations = t().commands.mergeGraph;
+
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'Knowledge Graph': ['sqlite', 'db', 'json'] },
+      openLabel: translations.openLabel,
+      title,
+    });
+    if (!uris || uris.length === 0) {
+      return undefined;
+    }
+
+    try {
+      return this.mergeService.loadGraph(uris[0].fsPath);
+    } catch (error) {
+      vscode.window.showErrorMessage(translations.invalidFile(path.basename(uris[0].fsPath), String(error)));
+      return undefined;
+    }
+  }
+
+  /**
+   * 从快照恢复 graph.sqlite
+   */
+  public async restoreSnapshot(): Promise<void> {
+    const translations = t().commands.restoreSnapshot;
+
+    const snapshots = this.dbService.listSnapshots();
+    if (snapshots.length === 0) {
+      vscode.window.showInformationMessage(translations.noSnapshots);
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      snapshots.map(snapshot => ({
+        label: snapshot.name,
+        description: new Date(snapshot.createdAt).toLocaleString(),
+        detail: `${(snapshot.size / 1024).toFixed(1)} KB`,
+        snapshot,
+      })),
+      { placeHolder: translations.placeholder }
+    );
+
+    if (!selected) {
+      return;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+      translations.confirm(selected.snapshot.name),
+      { modal: true },
+      translations.restoreLabel
+    );
+    if (answer !== translations.restoreLabel) {
+      return;
+    }
+
+    try {
+      // RAG 索引由 onDidReload 重新加载
+      this.dbService.restoreSnapshot(selected.snapshot.path);
+
+      vscode.window.showInformationMessage(translations.success(selected.snapshot.name));
+    } catch (error) {
+      console.error('Failed to restore snapshot:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import { EntityService } from '../../services/entityService';
+import { HistoryService } from '../../services/historyService';
+import { Entity, HistoryEntry, HistoryRow } from '../../utils/types';
+import { KnowledgeTreeItem } from '../../providers/treeDataProvider';
+import { t } from '../../i18n/i18nService';
+
+/**
+ * 修改历史相关命令处理器（撤销、重做、实体历史）
+ */
+export class HistoryCommands {
+  constructor(
+    private historyService: HistoryService,
+    private entityService: EntityService
+  ) {}
+
+  /**
+   * 撤销最近一次修改
+   */
+  public async undo(): Promise<void> {
+    const translations = t().commands.undo;
+
+    try {
+      const entries = this.historyService.undo();
+      if (!entries) {
+        vscode.window.showInformationMessage(translations.nothing);
+        return;
+      }
+      vscode.window.showInformationMessage(translations.success(this.summarize(entries)));
+    } catch (error) {
+      console.error('Failed to undo:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 重做最近一次撤销的修改
+   */
+  public async redo(): Promise<void> {
+    const translations = t().commands.redo;
+
+    try {
+      const entries = this.historyService.redo();
+      if (!entries) {
+        vscode.window.showInformationMessage(translations.nothing);
+        return;
+      }
+      vscode.window.showInformationMessage(translations.success(this.summarize(entries)));
+    } catch (error) {
+      console.error('Failed to redo:', error);
+      vscode.window.showErrorMessage(translations.error(String(error)));
+    }
+  }
+
+  /**
+   * 显示实体的修改历史（包括观察记录随时间的变化）
+   */
+  public async viewEntityHistory(treeItem?: string | KnowledgeTreeItem): Promise<void> {
+    const translations = t().commands.entityHistory;
+
+    let entity: Entity | null = null;
+    if (typeof treeItem === 'string') {
+      entity = this.entityService.getEntity(treeItem);
+    } else if (treeItem?.entity && !treeItem.isAuto) {
+      entity = this.entityService.getEntity(treeItem.entity.id);
+    }
+
+    if (!entity) {
+      const entities = this.entityService.listEntities();
+      if (entities.length === 0) {
+        vscode.window.showInformationMessage(translations.noEntities);
+        return;
+      }
+
+      const selected = await vscode.window.showQuickPick(
+        entities.map(e => ({
+          label: e.name,
+          description: `${e.type} - ${e.filePath}:${e.startLine}`,
+          entity: e,
+        })),
+        { placeHolder: translations.placeholder }
+      );
+      if (!selected) {
+        return;
+      }
+      entity = selected.entity;
+    }
+
+    const history = this.historyService.getEntityHistory(entity.id);
+
+    const doc = await vscode.workspace.openTextDocument({
+      content: this.formatHistory(entity, history),
+      language: 'markdown',
+    });
+    await vscode.window.showTextDocument(doc, { preview: true });
+  }
+
+  /**
+   * 格式化实体历史为 Markdown
+   */
+  private formatHistory(entity: Entity, history: HistoryEntry[]): string {
+    const translations = t().commands.entityHistory;
+    const lines: string[] = [`# ${translations.heading(entity.name)}`, ''];
+
+    if (history.length === 0) {
+      lines.push(translations.empty);
+      return lines.join('\n');
+    }
+
+    history.forEach(entry => {
+      const time = new Date(entry.createdAt).toLocaleString();
+      const author = entry.author ? ` · ${entry.author}` : '';
+      const undone = entry.undone ? ` _(${translations.undone})_` : '';
+      lines.push(`### ${this.describe(entry)}${undone}`, '', `${time}${author}`, '');
+
+      if (entry.table === 'observations') {
+        if (entry.before) {
+          lines.push(`- **${translations.before}:** ${entry.before.content}`);
+        }
+        if (entry.after) {
+          lines.push(`- **${translations.after}:** ${entry.after.content}`);
+        }
+        lines.push('');
+      } else if (entry.action === 'update' && entry.before && entry.after) {
+        // 只列出变化的字段
+        Object.keys(entry.after)
+          .filter(key => key !== 'updated_at' && entry.before![key] !== entry.after![key])
+          .forEach(key => {
+            lines.push(`- \`${key}\`: ${entry.before![key] ?? ''} → ${entry.after![key] ?? ''}`);
+          });
+        lines.push('');
+      }
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 一组修改的简短描述
+   */
+  private summarize(entries: HistoryEntry[]): string {
+    // 删除实体时，实体本身是组内最后一条记录
+    const main = entries.find(entry => entry.table === 'entities') || entries[entries.length - 1];
+    return this.describe(main);
+  }
+
+  private describe(entry: HistoryEntry): string {
+    const translations = t().commands.entityHistory;
+    const row: Partial<HistoryRow> = entry.after || entry.before || {};
+    const table = entry.table === 'cross_folder_relations' ? 'crossFolderRelations' : entry.table;
+
+    let detail: string;
+    if (entry.table === 'entities') {
+      detail = String(row.name ?? '');
+    } else if (entry.table === 'observations') {
+      const content = String(row.content ?? '');
+      detail = content.length > 50 ? `${content.substring(0, 50)}...` : content;
+    } else {
+      detail = String(row.verb ?? '');
+    }
+
+    return `${translations.actions[entry.action]} ${translations.tables[table]} "${detail}"`;
+  }
+}
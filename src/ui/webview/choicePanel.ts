@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+
+/**
+ * Webview 发回的消息：apply 时附带用户的选择，其他类型由具体面板处理
+ */
+export interface ChoicePanelMessage {
+    type: string;
+    [key: string]: unknown;
+}
+
+/**
+ * 逐项选择的 Webview 面板（合并冲突、实体对账）
+ * 用户点击应用后返回选择结果；取消、关闭面板或被新的面板替换时返回 undefined
+ * 每种面板同一时间只打开一个
+ */
+export abstract class ChoicePanel<T> {
+    /** 各类面板当前打开的实例（按 viewType） */
+    private static readonly _open = new Map<string, ChoicePanel<unknown>>();
+    private _disposables: vscode.Disposable[] = [];
+    private _onDone: ((result: T | undefined) => void) | undefined;
+
+    protected constructor(protected readonly _panel: vscode.WebviewPanel, onDone: (result: T | undefined) => void) {
+        this._onDone = onDone;
+
+        this._panel.webview.onDidReceiveMessage(
+            (message: ChoicePanelMessage) => {
+                if (message.type === 'apply') {
+                    this._finish(this._getResult(message));
+                    this.dispose();
+                } else if (message.type === 'cancel') {
+                    this.dispose();
+                } else {
+                    this._onMessage?.(message);
+                }
+            },
+            null,
+            this._disposables
+        );
+
+        // 关闭面板视为取消
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+    }
+
+    /**
+     * 打开面板并等待用户选择；同类面板未完成的选择视为取消
+     */
+    protected static _show<T>(
+        viewType: string,
+        title: string,
+        create: (panel: vscode.WebviewPanel, onDone: (result: T | undefined) => void) => ChoicePanel<T>
+    ): Promise<T | undefined> {
+        ChoicePanel._open.get(viewType)?.dispose();
+
+        return new Promise(resolve => {
+            const panel = vscode.window.createWebviewPanel(
+                viewType,
+                title,
+                vscode.ViewColumn.One,
+                {
+                    enableScripts: true,
+                    retainContextWhenHidden: true,
+                }
+            );
+
+            ChoicePanel._open.set(viewType, create(panel, resolve));
+        });
+    }
+
+    /**
+     * 从 apply 消息中取出选择结果
+     */
+    protected abstract _getResult(message: ChoicePanelMessage): T;
+
+    /**
+     * 处理 apply / cancel 以外的消息
+     */
+    protected _onMessage?(message: ChoicePanelMessage): void;
+
+    private _finish(result: T | undefined) {
+        const onDone = this._onDone;
+        this._onDone = undefined;
+        onDone?.(result);
+    }
+
+    /**
+     * 释放资源；未完成的选择视为取消
+     */
+    public dispose() {
+        if (ChoicePanel._open.get(this._panel.viewType) === this) {
+            ChoicePanel._open.delete(this._panel.viewType);
+        }
+        this._finish(undefined);
+
+        this._panel.dispose();
+
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+}
+
+/**
+ * 选择面板共用的样式：说明、工具栏按钮、对照表格和单选项
+ */
+export const CHOICE_PANEL_STYLES = `body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            padding: 12px 20px;
+        }
+        .toolbar {
+            position: sticky;
+            top: 0;
+            padding: 8px 0;
+            background: var(--vscode-editor-background);
+        }
+        button {
+            margin-right: 6px;
+            padding: 4px 12px;
+            color: var(--vscode-button-foreground);
+            background: var(--vscode-button-background);
+            border: none;
+            cursor: pointer;
+        }
+        button.secondary {
+            color: var(--vscode-button-secondaryForeground);
+            background: var(--vscode-button-secondaryBackground);
+        }
+        .card {
+            margin: 12px 0;
+            padding: 10px;
+            border: 1px solid var(--vscode-panel-border);
+        }
+        .header {
+            margin-bottom: 8px;
+        }
+        table {
+            width: 100%;
+            margin-bottom: 8px;
+            border-collapse: collapse;
+        }
+        th, td {
+            padding: 4px 6px;
+            text-align: left;
+            vertical-align: top;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        label {
+            margin-right: 16px;
+        }`;
+
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -2,7 +2,10 @@ import * as vscode from 'vscode';
 import { EntityService } from '../../services/entityService';
 import { RelationService } from '../../services/relationService';
 import { ObservationService } from '../../services/observationService';
-import { AutoGraphService } from '../../services/autoGraph';
+import { VocabularyService } from '../../services/vocabularyService';
+import { formatRelationProperties, getRelationProperties } from '../../../packages/mcp-server/src/schema/relationProperties';
+import { AutoEntity, AutoGraphService, AutoRelation } from '../../services/autoGraph';
+import { mapPromotedAutoEntities } from '../../services/autoPromotionService';
 import { MusicGeneratorService } from '../../services/musicGenerator';
 import { StrudelView } from './strudelView';
 import { t } from '../../i18n/i18nService';
@@ -21,9 +24,11 @@ export class GraphView {
 
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
-    private readonly _entityService: EntityService;
-    private readonly _relationService: RelationService;
-    private readonly _observationService: ObservationService;
+    private _entityService: EntityService;
+    private _relationService: RelationService;
+    private _observationService: ObservationService;
+    private _vocabulary: VocabularyService;
+    private _folder: vscode.WorkspaceFolder;
     private readonly _musicGenerator: MusicGeneratorService;
     private _disposables: vscode.Disposable[] = [];
     private _currentMode: GraphViewMode = 'manual';
@@ -41,13 +46,17 @@ export class GraphView {
         extensionUri: vscode.Uri,
         entityService: EntityService,
         relationService: RelationService,
-        observationService: ObservationService
+        observationService: ObservationService,
+        vocabulary: VocabularyService,
+        folder: vscode.WorkspaceFolder
     ) {
         this._panel = panel;
         this._extensionUri = extensionUri;
         this._entityService = entityService;
         this._relationService = relationService;
         this._observationService = observationService;
+        this._vocabulary = vocabulary;
+        this._folder = folder;
         this._musicGenerator = new MusicGeneratorService({ ambientStyle: true });
 
         // 设置初始内容
@@ -70,12 +79,20 @@ export class GraphView {
         extensionUri: vscode.Uri,
         entityService: EntityService,
         relationService: RelationService,
-        observationService: ObservationService
+        observationService: ObservationService,
+        vocabulary: VocabularyService,
+        folder: vscode.WorkspaceFolder
     ) {
-        // 如果已经存在，则更新数据并显示
+        // 如果已经存在，则切换到指定文件夹的图谱并显示
         if (GraphView.currentPanel) {
-            GraphView.currentPanel._panel.reveal(vscode.ViewColumn.One);
-            GraphView.currentPanel._update();
+            const current = GraphView.currentPanel;
+            current._entityService = entityService;
+            current._relationService = relationService;
+            current._observationService = observationService;
+            current._vocabulary = vocabulary;
+            current._folder = folder;
+            current._panel.reveal(vscode.ViewColumn.One);
+            current._update();
             return;
         }
 
@@ -95,10 +112,21 @@ export class GraphView {
             extensionUri,
             entityService,
             relationService,
-            observationService
+            observationService,
+            vocabulary,
+            folder
         );
     }
 
+    /**
+     * 词汇表变化后重新生成视图（颜色、类型说明）
+     */
+    public static refreshVocabulary(vocabulary: VocabularyService): void {
+        if (GraphView.currentPanel?._vocabulary === vocabulary) {
+            GraphView.currentPanel._update();
+        }
+    }
+
     public dispose() {
         GraphView.currentPanel = undefined;
 
@@ -193,15 +221,16 @@ export class GraphView {
                     sourceId: r.sourceEntityId,
                     targetId: r.targetEntityId,
                     verb: r.verb,
+                    ...this._getRelationDisplayProperties(r.metadata),
                     isAuto: false,
                 })));
             }
         }
 
         if ((this._currentMode === 'auto' || this._currentMode === 'merged') && GraphView._autoGraphService) {
-            // 获取自动图谱数据
-            const autoEntities = GraphView._autoGraphService.listEntities();
-            
+            // 获取自动图谱数据（合并视图中已提升的自动实体由对应的手动实体代替）
+            const { autoEntities, autoRelations } = this._getAutoGraph(allRelations);
+
             for (const entity of autoEntities) {
                 // 获取自动图谱实体的观察记录
                 const autoObservations = GraphView._autoGraphService.getObservationsByEntity(entity.id);
@@ -225,12 +254,12 @@ export class GraphView {
                 });
             }
 
-            const autoRelations = GraphView._autoGraphService.listRelations();
             allRelations.push(...autoRelations.map(r => ({
                 id: r.id,
                 sourceId: r.sourceEntityId,
                 targetId: r.targetEntityId,
                 verb: r.verb,
+                ...this._getRelationDisplayProperties(r.metadata),
                 isAuto: true,
             })));
         }
@@ -246,6 +275,54 @@ export class GraphView {
         });
     }
 
+    /**
+     * 要显示的自动图谱实体和关系
+     * 合并视图中去掉已提升到手动图谱的实体，关系改为连接对应的手动实体，与已有手动关系重复的关系省略
+     */
+    private _getAutoGraph(manualRelations: { sourceId: string; targetId: string; verb: string }[]): {
+        autoEntities: AutoEntity[];
+        autoRelations: AutoRelation[];
+    } {
+        const autoEntities = GraphView._autoGraphService!.listEntities();
+        const autoRelations = GraphView._autoGraphService!.listRelations();
+        if (this._currentMode !== 'merged') {
+            return { autoEntities, autoRelations };
+        }
+
+        const promoted = mapPromotedAutoEntities(this._entityService.listEntities(), autoEntities);
+        if (promoted.size === 0) {
+            return { autoEntities, autoRelations };
+        }
+
+        const existing = new Set(manualRelations.map(r => `${r.sourceId}|${r.targetId}|${r.verb}`));
+        const relations: AutoRelation[] = [];
+        for (const relation of autoRelations) {
+            const sourceEntityId = promoted.get(relation.sourceEntityId) || relation.sourceEntityId;
+            const targetEntityId = promoted.get(relation.targetEntityId) || relation.targetEntityId;
+            const key = `${sourceEntityId}|${targetEntityId}|${relation.verb}`;
+            if (!existing.has(key)) {
+                existing.add(key);
+                relations.push({ ...relation, sourceEntityId, targetEntityId });
+            }
+        }
+        return {
+            autoEntities: autoEntities.filter(entity => !promoted.has(entity.id)),
+            autoRelations: relations,
+        };
+    }
+
+    /**
+     * 连线显示用的关系属性：标签、权重（线宽）和属性摘要
+     */
+    private _getRelationDisplayProperties(metadata?: unknown) {
+        const properties = getRelationProperties(metadata);
+        return {
+            label: properties.label,
+            weight: properties.weight,
+            summary: formatRelationProperties(properties),
+        };
+    }
+
     /**
      * 生成并发送音乐代码
      */
@@ -279,7 +356,7 @@ export class GraphView {
         }
 
         if ((this._currentMode === 'auto' || this._currentMode === 'merged') && GraphView._autoGraphService) {
-            const autoEntities = GraphView._autoGraphService.listEntities();
+            const { autoEntities, autoRelations } = this._getAutoGraph(relations);
             for (const entity of autoEntities) {
                 const autoObservations = GraphView._autoGraphService.getObservationsByEntity(entity.id);
                 entities.push({
@@ -293,7 +370,6 @@ export class GraphView {
                 });
             }
 
-            const autoRelations = GraphView._autoGraphService.listRelations();
             relations.push(...autoRelations.map(r => ({
                 id: r.id,
                 sourceId: r.sourceEntityId,
@@ -337,12 +413,7 @@ export class GraphView {
             return;
         }
 
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            return;
-        }
-
-        const uri = vscode.Uri.joinPath(workspaceFolders[0].uri, entity.filePath);
+        const uri = vscode.Uri.joinPath(this._folder.uri, entity.filePath);
 
         try {
             const document = await vscode.workspace.openTextDocument(uri);
@@ -363,8 +434,41 @@ export class GraphView {
         }
     }
 
+    /**
+     * 词汇表中的颜色和类型说明（供 Webview 脚本使用）
+     */
+    private _getVocabularyData() {
+        const typeColors: Record<string, string> = {};
+        const typeDescriptions: Record<string, string> = {};
+        const verbColors: Record<string, string> = {};
+
+        for (const term of this._vocabulary.getEntityTypes()) {
+            if (term.color) {
+                typeColors[term.name] = term.color;
+            }
+            if (term.description) {
+                typeDescriptions[term.name] = term.description;
+            }
+        }
+        for (const term of this._vocabulary.getRelationVerbs()) {
+            if (term.color) {
+                verbColors[term.name] = term.color;
+            }
+        }
+
+        return { typeColors, typeDescriptions, verbColors };
+    }
+
+    /**
+     * 序列化为可直接嵌入 <script> 的 JSON
+     */
+    private _toScriptJson(value: unknown): string {
+        return JSON.stringify(value).replace(/</g, '\\u003c');
+    }
+
     private _getHtmlForWebview(webview: vscode.Webview) {
         const translations = t().graphView;
+        const vocabularyData = this._getVocabularyData();
         const autoGraphTranslations = t().autoGraph?.graphView || {
             manualGraph: 'Manual Graph',
             autoGraph: 'Auto Graph',
@@ -713,18 +817,10 @@ export class GraphView {
             cyclicDependency: '${translations.cyclicDependency}'
         };
         
-        const typeColors = {
-            'function': '#61AFEF',
-            'class': '#E06C75',
-            'interface': '#C678DD',
-            'variable': '#98C379',
-            'component': '#E5C07B',
-            'service': '#56B6C2',
-            'api': '#D19A66',
-            'config': '#ABB2BF',
-            'external': '#888888',  // 外部模块使用灰色
-            'other': '#5C6370'
-        };
+        // 颜色和类型说明来自词汇表（内置 + 自定义）
+        const typeColors = ${this._toScriptJson(vocabularyData.typeColors)};
+        const verbColors = ${this._toScriptJson(vocabularyData.verbColors)};
+        const typeDescriptions = ${this._toScriptJson(vocabularyData.typeDescriptions)};
 
         window.addEventListener('load', () => {
             vscode.postMessage({ type: 'ready' });
@@ -798,6 +894,21 @@ export class GraphView {
                     .attr('fill', color);
             });
 
+            // Markers for relation verbs with a custom color
+            Object.entries(verbColors).forEach(([verb, color]) => {
+                defs.append('marker')
+                    .attr('id', 'arrow-verb-' + verb)
+                    .attr('viewBox', '0 -5 10 10')
+                    .attr('refX', 28) 
+                    .attr('refY', 0)
+                    .attr('markerWidth', 6)
+                    .attr('markerHeight', 6)
+                    .attr('orient', 'auto')
+                    .append('path')
+                    .attr('d', 'M0,-5L10,0L0,5')
+                    .attr('fill', color);
+            });
+
             // Default marker
             defs.append('marker')
                 .attr('id', 'arrow')
@@ -840,6 +951,10 @@ export class GraphView {
                 target: r.targetId,
                 ...r
             }));
+
+            // Edge thickness scales with relation weight (1.5px ~ 6px)
+            const maxWeight = Math.max(0, ...links.map(l => l.weight || 0));
+            const linkWidth = d => (d.weight && maxWeight) ? 1.5 + 4.5 * (d.weight / maxWeight) : 1.5;
             
             // Detect multiple links between same nodes
             const linkGroups = {};
@@ -906,15 +1021,18 @@ export class GraphView {
                 .attr('id', d => 'link-' + d.id) // Add ID for textPath
                 .attr('fill', 'none')
                 .attr('stroke', d => {
-                    // Link color same as source node, but darker/transparent
-                    const color = typeColors[entities.find(e => e.id === d.sourceId)?.type] || typeColors['other'];
+                    // Verb color if declared, otherwise same as source node
+                    const color = verbColors[d.verb] || typeColors[entities.find(e => e.id === d.sourceId)?.type] || typeColors['other'];
                     return color;
                 })
                 .attr('stroke-opacity', 0.4)
-                .attr('stroke-width', 1.5)
+                .attr('stroke-width', d => linkWidth(d))
                 .attr('stroke-dasharray', '4, 4') 
                 .attr('class', 'link-flow')       
                 .attr('marker-end', d => {
+                    if (verbColors[d.verb]) {
+                        return 'url(#arrow-verb-' + d.verb + ')';
+                    }
                     const type = entities.find(e => e.id === d.sourceId)?.type || 'other';
                     return 'url(#arrow-' + type + ')';
                 });
@@ -963,7 +1081,7 @@ export class GraphView {
             
             // Label background (halo) to make text readable over lines
             linkLabel.append('text')
-                .text(d => d.verb)
+                .text(d => d.label || d.verb)
                 .attr('font-size', 10)
                 .attr('text-anchor', 'middle')
                 .attr('dy', -5)
@@ -973,12 +1091,16 @@ export class GraphView {
 
             // Actual label text
             linkLabel.append('text')
-                .text(d => d.verb)
+                .text(d => d.label || d.verb)
                 .attr('font-size', 10)
                 .attr('fill', '#aaa')
                 .attr('text-anchor', 'middle')
                 .attr('dy', -5);
 
+            // Relation properties on hover
+            linkLabel.append('title')
+                .text(d => d.summary ? d.verb + ' · ' + d.summary : d.verb);
+
             // Warning Icon for Cyclic Dependencies
             linkLabel.filter(d => d.isCyclic)
                 .append('text')
@@ -1206,7 +1328,8 @@ export class GraphView {
                 'external': '📦',  // 外部模块图标
                 'other': '?'
             };
-            return icons[type] || '?';
+            // 自定义类型使用首字母
+            return icons[type] || (type ? type.charAt(0).toUpperCase() : '?');
         }
 
         const tooltip = document.getElementById('tooltip');
@@ -1218,7 +1341,7 @@ export class GraphView {
 
             let html = \`
                 <strong>\${escapeHtml(d.name)}</strong><br>
-                \${i18n.tooltip.type}: \${escapeHtml(d.type)}<br>
+                \${i18n.tooltip.type}: \${escapeHtml(d.type)}\${typeDescriptions[d.type] ? ' — ' + escapeHtml(typeDescriptions[d.type]) : ''}<br>
                 \${i18n.tooltip.file}: \${escapeHtml(d.filePath)}:\${d.startLine}<br>
             \`;
 
@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import { MergeConflict, MergeSide, MERGE_FIELDS } from '../../services/graphMergeService';
+import { t } from '../../i18n/i18nService';
+import { ChoicePanel, ChoicePanelMessage, CHOICE_PANEL_STYLES, escapeHtml } from './choicePanel';
+
+/**
+ * 图谱合并冲突 Webview
+ * 逐项显示 base/ours/theirs 三个版本，用户选择后返回每个冲突采用的一方
+ */
+export class MergeConflictView extends ChoicePanel<Record<string, MergeSide>> {
+    private constructor(
+        panel: vscode.WebviewPanel,
+        conflicts: MergeConflict[],
+        entityNames: Map<string, string>,
+        onDone: (resolutions: Record<string, MergeSide> | undefined) => void
+    ) {
+        super(panel, onDone);
+        this._panel.webview.html = this._getHtmlForWebview(conflicts, entityNames);
+    }
+
+    /**
+     * 显示冲突并等待用户选择，取消时返回 undefined
+     * 同一时间只进行一次合并，未完成的合并视为取消
+     */
+    public static show(
+        conflicts: MergeConflict[],
+        entityNames: Map<string, string>
+    ): Promise<Record<string, MergeSide> | undefined> {
+        return ChoicePanel._show(
+            'knowledgeMergeConflicts',
+            t().commands.mergeGraph.view.title,
+            (panel, onDone) => new MergeConflictView(panel, conflicts, entityNames, onDone)
+        );
+    }
+
+    protected _getResult(message: ChoicePanelMessage): Record<string, MergeSide> {
+        return message.resolutions as Record<string, MergeSide>;
+    }
+
+    /**
+     * 生成 Webview HTML
+     */
+    private _getHtmlForWebview(conflicts: MergeConflict[], entityNames: Map<string, string>): string {
+        const translations = t().commands.mergeGraph.view;
+        // 'modify-delete' -> modifyDelete
+        const reason = (conflict: MergeConflict) =>
+            translations.reasons[conflict.reason.replace(/-(\w)/g, (_, c: string) => c.toUpperCase()) as keyof typeof translations.reasons];
+
+        const cards = conflicts.map(conflict => {
+            const versions = [conflict.base, conflict.ours, conflict.theirs]
+                .map(version => version && new Map<string, unknown>(Object.entries(version)));
+            const rows = MERGE_FIELDS[conflict.kind]
+                // 删除类冲突显示所有字段，修改类冲突只显示冲突字段
+                .filter(field => conflict.fields.length === 0 || conflict.fields.includes(field))
+                .map(field => {
+                    const cells = versions.map(version =>
+                        version
+                            ? `<td>${escapeHtml(this._formatValue(field, version.get(field), entityNames))}</td>`
+                            : `<td class="deleted">${translations.deleted}</td>`
+                    );
+                    return `<tr><th>${escapeHtml(field)}</th>${cells.join('')}</tr>`;
+                });
+
+            return `
+    <div class="card">
+        <div class="header">
+            <span class="kind">${translations.kinds[conflict.kind]}</span>
+            <strong>${escapeHtml(this._describe(conflict, entityNames))}</strong>
+            <span class="reason">${reason(conflict)}</span>
+        </div>
+        <table>
+            <tr><th></th><th>${translations.base}</th><th>${translations.ours}</th><th>${translations.theirs}</th></tr>
+            ${rows.join('\n            ')}
+        </table>
+        <label><input type="radio" name="${escapeHtml(conflict.key)}" value="ours" checked> ${translations.useOurs}</label>
+        <label><input type="radio" name="${escapeHtml(conflict.key)}" value="theirs"> ${translations.useTheirs}</label>
+    </div>`;
+        });
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${translations.title}</title>
+    <style>
+        ${CHOICE_PANEL_STYLES}
+        .kind, .reason {
+            margin: 0 6px;
+            opacity: 0.7;
+        }
+        th, td {
+            white-space: pre-wrap;
+        }
+        td.deleted {
+            font-style: italic;
+            opacity: 0.6;
+        }
+    </style>
+</head>
+<body>
+    <p>${escapeHtml(translations.intro(conflicts.length))}</p>
+    <div class="toolbar">
+        <button class="secondary" onclick="selectAll('ours')">${translations.allOurs}</button>
+        <button class="secondary" onclick="selectAll('theirs')">${translations.allTheirs}</button>
+        <button onclick="apply()">${translations.apply}</button>
+        <button class="secondary" onclick="cancel()">${translations.cancel}</button>
+    </div>
+    ${cards.join('\n')}
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function selectAll(side) {
+            document.querySelectorAll('input[type=radio][value=' + side + ']').forEach(input => {
+                input.checked = true;
+            });
+        }
+
+        function apply() {
+            const resolutions = {};
+            document.querySelectorAll('input[type=radio]:checked').forEach(input => {
+                resolutions[input.name] = input.value;
+            });
+            vscode.postMessage({ type: 'apply', resolutions });
+        }
+
+        function cancel() {
+            vscode.postMessage({ type: 'cancel' });
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * 冲突条目的标题
+     */
+    private _describe(conflict: MergeConflict, entityNames: Map<string, string>): string {
+        const item = conflict.ours || conflict.theirs || conflict.base;
+        const name = (id: string) => entityNames.get(id) || id;
+
+        if (!item) {
+            return conflict.key;
+        }
+        if ('name' in item) {
+            return item.name;
+        }
+        if ('verb' in item) {
+            return `${name(item.sourceEntityId)} ${item.verb} ${name(item.targetEntityId)}`;
+        }
+        return `${name(item.entityId)}: ${item.content.length > 60 ? `${item.content.substring(0, 60)}...` : item.content}`;
+    }
+
+    private _formatValue(field: string, value: unknown, entityNames: Map<string, string>): string {
+        if (value === undefined || value === null) {
+            return '';
+        }
+        if (field.endsWith('EntityId') || field === 'entityId') {
+            return entityNames.get(String(value)) || String(value);
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+}
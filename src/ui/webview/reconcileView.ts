@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { ReconcileProposal } from '../../services/entityReconcileService';
+import { CodeLocation } from '../../utils/types';
+import { t } from '../../i18n/i18nService';
+import { ChoicePanel, ChoicePanelMessage, CHOICE_PANEL_STYLES, escapeHtml } from './choicePanel';
+
+/**
+ * 手动实体对账 Webview
+ * 逐项显示当前位置和建议的新位置，用户逐项接受或拒绝后返回接受的建议 ID
+ */
+export class EntityReconcileView extends ChoicePanel<string[]> {
+    private constructor(
+        panel: vscode.WebviewPanel,
+        proposals: ReconcileProposal[],
+        private readonly _folder: vscode.WorkspaceFolder,
+        onDone: (accepted: string[] | undefined) => void
+    ) {
+        super(panel, onDone);
+        this._panel.webview.html = this._getHtmlForWebview(proposals);
+    }
+
+    /**
+     * 显示对账建议并等待用户选择，取消时返回 undefined
+     * 同一时间只进行一次对账，未完成的对账视为取消
+     */
+    public static show(proposals: ReconcileProposal[], folder: vscode.WorkspaceFolder): Promise<string[] | undefined> {
+        return ChoicePanel._show(
+            'knowledgeReconcileEntities',
+            t().commands.reconcileEntities.view.title,
+            (panel, onDone) => new EntityReconcileView(panel, proposals, folder, onDone)
+        );
+    }
+
+    protected _getResult(message: ChoicePanelMessage): string[] {
+        return message.accepted as string[];
+    }
+
+    /**
+     * 在面板旁边打开代码，方便对照
+     */
+    protected _onMessage(message: ChoicePanelMessage): void {
+        if (message.type !== 'open') {
+            return;
+        }
+        const uri = vscode.Uri.joinPath(this._folder.uri, String(message.filePath));
+        const line = Math.max(Number(message.line) - 1, 0);
+        vscode.window.showTextDocument(uri, {
+            viewColumn: vscode.ViewColumn.Beside,
+            preserveFocus: true,
+            selection: new vscode.Range(line, 0, line, 0),
+        }).then(undefined, error => console.error('Failed to open file:', error));
+    }
+
+    /**
+     * 生成 Webview HTML
+     */
+    private _getHtmlForWebview(proposals: ReconcileProposal[]): string {
+        const translations = t().commands.reconcileEntities.view;
+        const link = (location: CodeLocation) =>
+            `<a href="#" data-file="${escapeHtml(location.filePath)}" data-line="${location.startLine}">` +
+            `${escapeHtml(location.filePath)}:${location.startLine}-${location.endLine}</a>`;
+
+        const cards = proposals.map(proposal => {
+            const rows = [`<tr><th>${translations.current}</th><td>${link(proposal.entity)}</td></tr>`];
+            if (proposal.kind === 'move') {
+                rows.push(`<tr><th>${translations.proposed}</th><td>${link(proposal.location)}</td></tr>`);
+                if (proposal.name) {
+                    rows.push(`<tr><th>${translations.newName}</th><td>${escapeHtml(proposal.name)}</td></tr>`);
+                }
+            }
+            const detail = proposal.kind === 'move'
+                ? translations.score(Math.round(proposal.score * 100))
+                : translations.missingDetail;
+
+            return `
+    <div class="card">
+        <div class="header">
+            <span class="kind">${proposal.kind === 'move' ? translations.moved : translations.missing}</span>
+            <strong>${escapeHtml(proposal.entity.name)}</strong>
+            <span class="detail">${escapeHtml(proposal.entity.type)} · ${escapeHtml(detail)}</span>
+        </div>
+        <table>
+            ${rows.join('\n            ')}
+        </table>
+        <label><input type="radio" name="${escapeHtml(proposal.id)}" value="accept" checked> ${translations.accept}</label>
+        <label><input type="radio" name="${escapeHtml(proposal.id)}" value="reject"> ${translations.reject}</label>
+    </div>`;
+        });
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${translations.title}</title>
+    <style>
+        ${CHOICE_PANEL_STYLES}
+        .kind, .detail {
+            margin: 0 6px;
+            opacity: 0.7;
+        }
+        th {
+            width: 120px;
+        }
+        a {
+            color: var(--vscode-textLink-foreground);
+        }
+    </style>
+</head>
+<body>
+    <p>${escapeHtml(translations.intro(proposals.length))}</p>
+    <div class="toolbar">
+        <button class="secondary" onclick="selectAll('accept')">${translations.acceptAll}</button>
+        <button class="secondary" onclick="selectAll('reject')">${translations.rejectAll}</button>
+        <button onclick="apply()">${translations.apply}</button>
+        <button class="secondary" onclick="cancel()">${translations.cancel}</button>
+    </div>
+    ${cards.join('\n')}
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        document.querySelectorAll('a[data-file]').forEach(anchor => {
+            anchor.addEventListener('click', event => {
+                event.preventDefault();
+                vscode.postMessage({ type: 'open', filePath: anchor.dataset.file, line: anchor.dataset.line });
+            });
+        });
+
+        function selectAll(choice) {
+            document.querySelectorAll('input[type=radio][value=' + choice + ']').forEach(input => {
+                input.checked = true;
+            });
+        }
+
+        function apply() {
+            const accepted = [];
+            document.querySelectorAll('input[type=radio][value=accept]:checked').forEach(input => {
+                accepted.push(input.name);
+            });
+            vscode.postMessage({ type: 'apply', accepted });
+        }
+
+        function cancel() {
+            vscode.postMessage({ type: 'cancel' });
+        }
+    </script>
+</body>
+</html>`;
+    }
+}
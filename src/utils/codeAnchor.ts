@@ -0,0 +1,303 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { CodeLocation, Entity } from './types';
+import { CodeParser } from './codeParser';
+
+/**
+ * 实体锚点：保存在 entity.metadata.anchor 中
+ * 代码移动后依靠符号名、内容指纹和首行签名重新定位实体
+ */
+export interface EntityAnchor {
+  /** 符号名称（如函数名、类名） */
+  symbol?: string;
+  /** 实体范围内代码的指纹（忽略空白差异） */
+  fingerprint: string;
+  /** 范围内第一行非空代码（已规范化空白），用于模糊匹配 */
+  signature: string;
+  /** 代码已被删除或无法重新定位 */
+  orphaned?: boolean;
+}
+
+/** 模糊匹配首行签名时要求的最低相似度 */
+const SIGNATURE_SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * 读取实体的锚点，旧数据没有锚点时返回 undefined
+ */
+export function getEntityAnchor(entity: Pick<Entity, 'metadata'>): EntityAnchor | undefined {
+  const anchor = entity.metadata?.anchor;
+  if (!anchor || typeof anchor !== 'object' || typeof anchor.fingerprint !== 'string') {
+    return undefined;
+  }
+  return anchor as EntityAnchor;
+}
+
+export function isOrphaned(entity: Pick<Entity, 'metadata'>): boolean {
+  return getEntityAnchor(entity)?.orphaned === true;
+}
+
+/**
+ * 把锚点写回 metadata，保留其他元数据
+ */
+export function withAnchor(metadata: Entity['metadata'], anchor: EntityAnchor): NonNullable<Entity['metadata']> {
+  const { symbol, fingerprint, signature } = anchor;
+  return { ...metadata, anchor: anchor.orphaned ? { symbol, fingerprint, signature, orphaned: true } : { symbol, fingerprint, signature } };
+}
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * 计算代码行的指纹：忽略缩进、空白和空行
+ */
+export function fingerprintLines(lines: string[]): string {
+  const normalized = lines.map(normalizeLine).filter(Boolean).join('\n');
+  return createHash('sha1').update(normalized).digest('hex').substring(0, 16);
+}
+
+/**
+ * 读取文档中的行（行号从 1 开始，超出范围的部分被忽略）
+ */
+export function getDocumentLines(document: vscode.TextDocument, startLine: number, endLine: number): string[] {
+  const lines: string[] = [];
+  for (let line = Math.max(startLine, 1); line <= Math.min(endLine, document.lineCount); line++) {
+    lines.push(document.lineAt(line - 1).text);
+  }
+  return lines;
+}
+
+/**
+ * 获取文档的所有符号（展开嵌套符号）
+ * 没有符号提供者的语言返回空数组
+ */
+export async function getDocumentSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
+  try {
+    const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+      'vscode.executeDocumentSymbolProvider',
+      document.uri
+    );
+    const flat: vscode.DocumentSymbol[] = [];
+    const visit = (items: vscode.DocumentSymbol[] | undefined) => {
+      for (const item of items || []) {
+        // 旧的提供者可能返回没有 range 的 SymbolInformation
+        if (item.range) {
+          flat.push(item);
+          visit(item.children);
+        }
+      }
+    };
+    visit(symbols);
+    return flat;
+  } catch (error) {
+    console.error('Failed to get document symbols:', error);
+    return [];
+  }
+}
+
+/**
+ * 包含指定行（从 1 开始）的最内层符号
+ */
+export function findSymbolAtLine(symbols: vscode.DocumentSymbol[], line: number): vscode.DocumentSymbol | undefined {
+  return symbols
+    .filter(symbol => symbol.range.start.line + 1 <= line && symbol.range.end.line + 1 >= line)
+    .sort((a, b) => (a.range.end.line - a.range.start.line) - (b.range.end.line - b.range.start.line))[0];
+}
+
+/**
+ * 为文档中的一段代码生成锚点
+ * 未指定符号名称时使用起始行所在的符号，找不到符号时从代码中提取
+ */
+export function createAnchor(
+  document: vscode.TextDocument,
+  startLine: number,
+  endLine: number,
+  symbols: vscode.DocumentSymbol[],
+  symbol?: string
+): EntityAnchor {
+  const lines = getDocumentLines(document, startLine, endLine);
+  return {
+    symbol: symbol
+      || findSymbolAtLine(symbols, startLine)?.name
+      || CodeParser.extractSymbolName(lines.join('\n'))
+      || undefined,
+    fingerprint: fingerprintLines(lines),
+    signature: normalizeLine(lines.find(line => line.trim()) || ''),
+  };
+}
+
+/**
+ * 在文档中重新定位实体，依次尝试：
+ * 1. 原位置的内容未变化
+ * 2. 相同内容整体移动到了其他位置
+ * 3. 同名符号（代码被修改时跟随符号的新范围）
+ * 4. 首行签名完全相同或足够相似
+ * 都失败时返回 null，表示代码已被删除
+ */
+export function locateAnchor(
+  document: vscode.TextDocument,
+  location: CodeLocation,
+  anchor: EntityAnchor,
+  symbols: vscode.DocumentSymbol[]
+): CodeLocation | null {
+  const length = Math.max(location.endLine - location.startLine, 0);
+  const at = (startLine: number, endLine = startLine + length): CodeLocation => ({
+    filePath: location.filePath,
+    startLine,
+    endLine: Math.min(endLine, document.lineCount),
+  });
+  const nearest = <T>(items: T[], lineOf: (item: T) => number): T | undefined =>
+    [...items].sort((a, b) => Math.abs(lineOf(a) - location.startLine) - Math.abs(lineOf(b) - location.startLine))[0];
+
+  if (location.endLine <= document.lineCount
+    && fingerprintLines(getDocumentLines(document, location.startLine, location.endLine)) === anchor.fingerprint) {
+    return at(location.startLine, location.endLine);
+  }
+
+  // 只在首行签名相同的位置比较指纹
+  const signatureLines: number[] = [];
+  for (let line = 1; line <= document.lineCount; line++) {
+    if (anchor.signature && normalizeLine(document.lineAt(line - 1).text) === anchor.signature) {
+      signatureLines.push(line);
+    }
+  }
+  const moved = nearest(
+    signatureLines.filter(line => fingerprintLines(getDocumentLines(document, line, line + length)) === anchor.fingerprint),
+    line => line
+  );
+  if (moved !== undefined) {
+    return at(moved);
+  }
+
+  if (anchor.symbol) {
+    const symbol = nearest(symbols.filter(item => item.name === anchor.symbol), item => item.range.start.line + 1);
+    if (symbol) {
+      return at(symbol.range.start.line + 1, symbol.range.end.line + 1);
+    }
+  }
+
+  const sameSignature = nearest(signatureLines, line => line);
+  if (sameSignature !== undefined) {
+    return at(sameSignature);
+  }
+
+  if (anchor.signature) {
+    // 有符号名时只接受仍包含该名称的行，避免匹配到结构相似的其他函数
+    const symbolPattern = anchor.symbol ? new RegExp(`\\b${escapeRegExp(anchor.symbol)}\\b`) : undefined;
+    let best: { line: number; score: number } | undefined;
+    for (let line = 1; line <= document.lineCount; line++) {
+      const text = normalizeLine(document.lineAt(line - 1).text);
+      if (symbolPattern && !symbolPattern.test(text)) {
+        continue;
+      }
+      const score = similarity(text, anchor.signature);
+      if (score >= SIGNATURE_SIMILARITY_THRESHOLD && (!best || score > best.score
+        || (score === best.score && Math.abs(line - location.startLine) < Math.abs(best.line - location.startLine)))) {
+        best = { line, score };
+      }
+    }
+    if (best) {
+      return at(best.line);
+    }
+  }
+
+  return null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 两行代码的相似度（按标识符和符号切分后的 Dice 系数）
+ */
+function similarity(a: string, b: string): number {
+  const tokenize = (text: string) => text.match(/\w+|[^\s\w]/g) || [];
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  tokensA.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  let common = 0;
+  for (const token of tokensB) {
+    const count = counts.get(token) || 0;
+    if (count > 0) {
+      common++;
+      counts.set(token, count - 1);
+    }
+  }
+  return (2 * common) / (tokensA.length + tokensB.length);
+}
+
+/**
+ * 代码范围的相似性哈希（64 位 SimHash，16 个十六进制字符）
+ * 与指纹不同，代码改动越小哈希的差异位数越少，可以用来判断改动是否显著；注释不参与计算
+ */
+export function computeCodeHash(lines: string[]): string {
+  const code = lines.join('\n')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/(^|\s)(\/\/|#\s).*$/gm, '$1');
+  const tokens = code.match(/\w+|[^\s\w]/g) || [];
+  // 相邻两个 token 作为特征，保留一定的顺序信息
+  const features = tokens.length < 2 ? tokens : tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`);
+  const weights = new Array<number>(64).fill(0);
+  for (const feature of features) {
+    const digest = createHash('md5').update(feature).digest();
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (digest[bit >> 3] >> (bit & 7)) & 1 ? 1 : -1;
+    }
+  }
+
+  let hex = '';
+  for (let nibble = 0; nibble < 16; nibble++) {
+    let value = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      if (weights[nibble * 4 + bit] > 0) {
+        value |= 1 << bit;
+      }
+    }
+    hex += value.toString(16);
+  }
+  return hex;
+}
+
+/**
+ * 两个代码哈希之间不同的位数（0 ~ 64）
+ */
+export function codeHashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let diff = (parseInt(a[i] || '0', 16) ^ parseInt(b[i] || '0', 16)) & 0xf;
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * 读取实体当前的代码行：优先使用已打开的文档（包含未保存的修改），否则读取磁盘文件
+ * 文件不存在时返回 undefined
+ */
+export function readEntityLines(folder: vscode.WorkspaceFolder, entity: CodeLocation): string[] | undefined {
+  const filePath = path.join(folder.uri.fsPath, entity.filePath);
+  const document = vscode.workspace.textDocuments.find(doc => doc.uri.scheme === 'file' && doc.uri.fsPath === filePath);
+  if (document) {
+    return getDocumentLines(document, entity.startLine, entity.endLine);
+  }
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  try {
+    return fs.readFileSync(filePath, 'utf-8').split(/\r?\n/).slice(Math.max(entity.startLine - 1, 0), entity.endLine);
+  } catch (error) {
+    console.error('Failed to read entity code:', error);
+    return undefined;
+  }
+}
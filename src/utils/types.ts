@@ -1,3 +1,8 @@
+import type { ObservationKind, ObservationSeverity } from '../../packages/mcp-server/src/schema/observationFields';
+
+export type { RelationCardinality, RelationProperties } from '../../packages/mcp-server/src/schema/relationProperties';
+export type { ObservationKind, ObservationSeverity, ObservationFields } from '../../packages/mcp-server/src/schema/observationFields';
+
 /**
  * 代码位置信息
  */
@@ -8,9 +13,9 @@ export interface CodeLocation {
 }
 
 /**
- * 实体类型
+ * 内置实体类型
  */
-export type EntityType = 
+export type BuiltinEntityType = 
   | 'function'
   | 'class'
   | 'interface'
@@ -25,6 +30,11 @@ export type EntityType =
   | 'external'  // 外部模块的类/接口
   | 'other';
 
+/**
+ * 实体类型：内置类型或在设置 / schema.json 中声明的自定义类型
+ */
+export type EntityType = BuiltinEntityType | (string & Record<never, never>);
+
 /**
  * 实体
  */
@@ -36,15 +46,17 @@ export interface Entity {
   startLine: number;
   endLine: number;
   description?: string;
+  /** 别名：同一事物的其他名称，以及合并到本实体的重复实体的名称和 ID */
+  aliases?: string[];
   createdAt: number;
   updatedAt: number;
   metadata?: Record<string, any>;
 }
 
 /**
- * 关系动词类型
+ * 内置关系动词
  */
-export type RelationVerb = 
+export type BuiltinRelationVerb = 
   | 'uses'
   | 'calls'
   | 'extends'
@@ -55,8 +67,14 @@ export type RelationVerb =
   | 'imports'
   | 'exports';
 
+/**
+ * 关系动词：内置动词或在设置 / schema.json 中声明的自定义动词
+ */
+export type RelationVerb = BuiltinRelationVerb | (string & Record<never, never>);
+
 /**
  * 关系
+ * metadata 中的 label / weight / cardinality / confidence / sinceVersion 为结构化属性（RelationProperties）
  */
 export interface Relation {
   id: string;
@@ -67,6 +85,56 @@ export interface Relation {
   metadata?: Record<string, any>;
 }
 
+/**
+ * 跨工作区文件夹的关系
+ * 保存在源实体所在文件夹的图谱中，目标实体通过文件夹名称定位
+ */
+export interface CrossFolderRelation {
+  id: string;
+  sourceEntityId: string;
+  targetFolder: string;
+  targetEntityId: string;
+  verb: RelationVerb;
+  createdAt: number;
+  metadata?: Relation['metadata'];
+}
+
+/**
+ * 修改历史记录的表
+ */
+export type HistoryTable = 'entities' | 'relations' | 'observations' | 'cross_folder_relations';
+
+/**
+ * 修改操作类型
+ */
+export type HistoryAction = 'create' | 'update' | 'delete';
+
+/**
+ * 修改历史中保存的数据库整行（列名为 snake_case，值为数据库中的原始值）
+ */
+export interface HistoryRow {
+  id: string;
+  [column: string]: string | number | null;
+}
+
+/**
+ * 手动图谱修改历史
+ * before / after 为修改前后的数据库整行
+ */
+export interface HistoryEntry {
+  id: number;
+  groupId: string;
+  table: HistoryTable;
+  rowId: string;
+  entityId?: string;
+  action: HistoryAction;
+  before?: HistoryRow;
+  after?: HistoryRow;
+  author?: string;
+  createdAt: number;
+  undone: boolean;
+}
+
 /**
  * 观察记录
  */
@@ -74,6 +142,12 @@ export interface Observation {
   id: string;
   entityId: string;
   content: string;
+  /** 种类，未设置时视为 note */
+  kind?: ObservationKind;
+  tags?: string[];
+  severity?: ObservationSeverity;
+  /** 写入时实体代码范围的哈希，用于检测代码变化后可能过期的观察记录 */
+  codeHash?: string;
   createdAt: number;
   updatedAt: number;
 }
@@ -92,8 +166,14 @@ export interface EntityFilters {
  */
 export interface SearchResult {
   entity: Entity;
+  /** BM25 得分（实体及其命中的观察记录之和），越大越相关 */
   score: number;
+  /** 命中的字段：name / aliases / description / content / path */
   matchedFields: string[];
+  /** 得分最高的命中片段，命中的词用 « » 标记 */
+  highlight?: string;
+  /** 命中的观察记录（按得分排序） */
+  observations?: Observation[];
 }
 
 /**
@@ -105,3 +185,19 @@ export interface RelatedEntity {
   direction: 'incoming' | 'outgoing';
 }
 
+
+/**
+ * 图谱导出文件格式（ExportService.exportToJSON 输出）
+ */
+export interface GraphExportData {
+  exportTime?: string;
+  version: string;
+  statistics?: {
+    entityCount: number;
+    relationCount: number;
+    observationCount: number;
+  };
+  entities: Entity[];
+  relations: Relation[];
+  observations: Record<string, Observation[]>;
+}
@@ -0,0 +1,170 @@
+/**
+ * 测试用的 vscode 模块（vitest.config.ts 中通过 alias 替换）
+ * 只实现服务层用到的部分：事件、配置（总是返回默认值）、消息提示和文件监听
+ */
+
+type Listener<T> = (event: T) => unknown;
+
+export class Disposable {
+  constructor(private readonly callOnDispose?: () => unknown) {}
+
+  static from(...disposables: { dispose(): unknown }[]): Disposable {
+    return new Disposable(() => disposables.forEach(d => d.dispose()));
+  }
+
+  dispose(): void {
+    this.callOnDispose?.();
+  }
+}
+
+export class EventEmitter<T> {
+  private listeners: Listener<T>[] = [];
+
+  event = (listener: Listener<T>): Disposable => {
+    this.listeners.push(listener);
+    return new Disposable(() => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    });
+  };
+
+  fire(event: T): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  dispose(): void {
+    this.listeners = [];
+  }
+}
+
+export class Uri {
+  public readonly scheme = 'file';
+
+  private constructor(public readonly fsPath: string) {}
+
+  static file(fsPath: string): Uri {
+    return new Uri(fsPath);
+  }
+
+  toString(): string {
+    return `file://${this.fsPath}`;
+  }
+}
+
+export class RelativePattern {
+  constructor(public readonly base: unknown, public readonly pattern: string) {}
+}
+
+export class Position {
+  constructor(public readonly line: number, public readonly character: number) {}
+}
+
+export class Range {
+  public readonly start: Position;
+  public readonly end: Position;
+
+  constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+    this.start = new Position(startLine, startCharacter);
+    this.end = new Position(endLine, endCharacter);
+  }
+}
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3,
+}
+
+export class Diagnostic {
+  source?: string;
+  code?: string | number;
+
+  constructor(public range: Range, public message: string, public severity = DiagnosticSeverity.Error) {}
+}
+
+export enum TreeItemCollapsibleState {
+  None = 0,
+  Collapsed = 1,
+  Expanded = 2,
+}
+
+export class TreeItem {
+  constructor(public label: string, public collapsibleState = TreeItemCollapsibleState.None) {}
+}
+
+export class ThemeIcon {
+  constructor(public readonly id: string) {}
+}
+
+export class ThemeColor {
+  constructor(public readonly id: string) {}
+}
+
+export enum ConfigurationTarget {
+  Global = 1,
+  Workspace = 2,
+  WorkspaceFolder = 3,
+}
+
+const noopDisposable = () => new Disposable();
+
+function createFileSystemWatcher() {
+  return {
+    onDidChange: noopDisposable,
+    onDidCreate: noopDisposable,
+    onDidDelete: noopDisposable,
+    dispose: () => undefined,
+  };
+}
+
+export const window = {
+  activeTextEditor: undefined,
+  showInformationMessage: async (..._args: unknown[]): Promise<string | undefined> => undefined,
+  showWarningMessage: async (..._args: unknown[]): Promise<string | undefined> => undefined,
+  showErrorMessage: async (..._args: unknown[]): Promise<string | undefined> => undefined,
+  showQuickPick: async (..._args: unknown[]): Promise<unknown> => undefined,
+  onDidChangeWindowState: noopDisposable,
+  createOutputChannel: () => ({
+    appendLine: () => undefined,
+    show: () => undefined,
+    clear: () => undefined,
+    dispose: () => undefined,
+  }),
+};
+
+export const workspace = {
+  workspaceFolders: [] as { uri: Uri; name: string; index: number }[],
+  textDocuments: [] as unknown[],
+  getConfiguration: (_section?: string) => ({
+    get: <T>(_key: string, defaultValue?: T): T | undefined => defaultValue,
+    update: async (): Promise<void> => undefined,
+  }),
+  getWorkspaceFolder: (uri: Uri) =>
+    workspace.workspaceFolders.find(folder => uri.fsPath.startsWith(`${folder.uri.fsPath}/`)),
+  createFileSystemWatcher,
+  onDidChangeConfiguration: noopDisposable,
+  onDidChangeTextDocument: noopDisposable,
+  onDidOpenTextDocument: noopDisposable,
+  onDidSaveTextDocument: noopDisposable,
+  onDidRenameFiles: noopDisposable,
+  onDidDeleteFiles: noopDisposable,
+};
+
+export const languages = {
+  createDiagnosticCollection: (name: string) => {
+    const entries = new Map<string, Diagnostic[]>();
+    return {
+      name,
+      set: (uri: Uri, diagnostics: Diagnostic[]) => entries.set(uri.fsPath, diagnostics),
+      get: (uri: Uri) => entries.get(uri.fsPath),
+      delete: (uri: Uri) => entries.delete(uri.fsPath),
+      clear: () => entries.clear(),
+      dispose: () => entries.clear(),
+    };
+  },
+};
+
+export const commands = {
+  executeCommand: async (..._args: unknown[]): Promise<unknown> => undefined,
+  registerCommand: noopDisposable,
+};
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as path from 'path';
+import { GoAnalyzer } from '../../src/services/autoGraph/goAnalyzer';
+import { ExtractedRelation } from '../../src/services/autoGraph/types';
+import { createWorkspace, removeWorkspace } from '../helpers/workspace';
+
+describe('GoAnalyzer', () => {
+  let root: string;
+
+  afterEach(() => {
+    removeWorkspace(root);
+  });
+
+  describe('implements', () => {
+    const implementsOf = (relations: ExtractedRelation[]) =>
+      relations
+        .filter(relation => relation.verb === 'implements')
+        .map(relation => `${relation.sourceFilePath}:${relation.sourceName} -> ${relation.targetFilePath}:${relation.targetName}`);
+
+    const files = {
+      'go.mod': 'module example.com/svc\n\ngo 1.21\n',
+      'internal/store/store.go': [
+        'package store',
+        '',
+        'import "context"',
+        '',
+        'type Store interface {',
+        '\tLoad(ctx context.Context, id string) (string, error)',
+        '\tSaver',
+        '}',
+        '',
+        'type Saver interface {',
+        '\tSave(ctx context.Context, id, value string) error',
+        '}',
+        '',
+        'type MemoryStore struct {',
+        '\tdata map[string]string',
+        '\tbase',
+        '}',
+        '',
+        'type base struct{}',
+        '',
+        'func (b *base) Save(ctx context.Context, id, value string) error { return nil }',
+        '',
+        'func (m *MemoryStore) Load(c context.Context, key string) (value string, err error) {',
+        '\treturn m.data[key], nil',
+        '}',
+      ].join('\n'),
+      'internal/store/readonly.go': [
+        'package store',
+        '',
+        'import "context"',
+        '',
+        'type ReadOnly struct{}',
+        '',
+        'func (r ReadOnly) Load(ctx context.Context, id string) (string, error) { return "", nil }',
+      ].join('\n'),
+      'internal/user/service.go': [
+        'package user',
+        '',
+        'import (',
+        '\t"context"',
+        '',
+        '\tst "example.com/svc/internal/store"',
+        ')',
+        '',
+        'type Loader interface {',
+        '\tLoad(ctx context.Context, id string) (string, error)',
+        '}',
+        '',
+        'type Service struct {',
+        '\tstore st.Store',
+        '}',
+      ].join('\n'),
+    };
+
+    it('应该按方法集（包括嵌入类型的方法）记录隐式实现', () => {
+      root = createWorkspace(files);
+      const analyzer = new GoAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'internal/store/store.go'))!;
+
+      const store = path.join('internal', 'store', 'store.go');
+      expect(result.symbols[0]).toEqual(expect.objectContaining({
+        name: 'example.com/svc/internal/store',
+        type: 'directory',
+        startLine: 1,
+        endLine: 1,
+      }));
+      expect(implementsOf(result.relations)).toEqual([
+        `${store}:MemoryStore -> ${store}:Store`,
+        `${store}:MemoryStore -> ${store}:Saver`,
+        `${store}:base -> ${store}:Saver`,
+      ]);
+    });
+
+    it('应该把导入的包中的类型与本文件的接口比较', () => {
+      root = createWorkspace(files);
+      const analyzer = new GoAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'internal/user/service.go'))!;
+
+      const service = path.join('internal', 'user', 'service.go');
+      expect(implementsOf(result.relations)).toEqual([
+        `${path.join('internal', 'store', 'readonly.go')}:ReadOnly -> ${service}:Loader`,
+        `${path.join('internal', 'store', 'store.go')}:MemoryStore -> ${service}:Loader`,
+      ]);
+      expect(result.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'example.com/svc/internal/user',
+        targetName: 'example.com/svc/internal/store',
+        targetFilePath: path.join('internal', 'store'),
+        verb: 'imports',
+      }));
+    });
+  });
+});
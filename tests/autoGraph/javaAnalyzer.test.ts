@@ -0,0 +1,264 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as path from 'path';
+import { JavaAnalyzer } from '../../src/services/autoGraph/javaAnalyzer';
+import { ExtractedRelation, ExtractedSymbol } from '../../src/services/autoGraph/types';
+import { createWorkspace, removeWorkspace } from '../helpers/workspace';
+
+describe('JavaAnalyzer', () => {
+  let root: string;
+
+  afterEach(() => {
+    removeWorkspace(root);
+  });
+
+  describe('imports', () => {
+    it('应该提取包实体并解析通配符导入的包名', () => {
+      root = createWorkspace({
+        'src/main/java/com/example/app/App.java': [
+          'package com.example.app;',
+          '',
+          'import org.x.annotation.*;',
+          'import com.example.model.User;',
+          '',
+          'public class App {}',
+        ].join('\n'),
+      });
+      const analyzer = new JavaAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/main/java/com/example/app/App.java'))!;
+
+      expect(result.symbols[0]).toEqual(expect.objectContaining({
+        name: 'com.example.app',
+        type: 'directory',
+        filePath: path.join('src', 'main', 'java', 'com', 'example', 'app'),
+        startLine: 1,
+        endLine: 1,
+      }));
+      expect(result.imports).toEqual([
+        expect.objectContaining({ moduleName: 'org.x.annotation', importedNames: ['*'], isNamespace: true }),
+        expect.objectContaining({ moduleName: 'com.example.model.User', importedNames: ['User'], isNamespace: false }),
+      ]);
+    });
+
+    it('应该通过通配符导入找到类型所在的文件', () => {
+      root = createWorkspace({
+        'src/main/kotlin/com/example/app/App.kt': [
+          'package com.example.app',
+          '',
+          'import com.example.model.*',
+          '',
+          'class App : Base()',
+        ].join('\n'),
+        'src/main/kotlin/com/example/model/Base.kt': [
+          'package com.example.model',
+          '',
+          'open class Base',
+        ].join('\n'),
+      });
+      const analyzer = new JavaAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/main/kotlin/com/example/app/App.kt'))!;
+
+      expect(result.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'App',
+        targetName: 'Base',
+        targetFilePath: path.join('src', 'main', 'kotlin', 'com', 'example', 'model', 'Base.kt'),
+        verb: 'extends',
+      }));
+    });
+    it('应该解析 Kotlin 文件的导入，包括省略公共包前缀的目录和同一源码集的 java 目录', () => {
+      root = createWorkspace({
+        'src/main/kotlin/com/example/UserService.kt': [
+          'package com.example',
+          '',
+          'import com.example.repo.UserRepo',
+          'import com.example.repo.AuditLog',
+          '',
+          '@Service',
+          'class UserService(private val repo: UserRepo, private val audit: AuditLog)',
+        ].join('\n'),
+        'src/main/kotlin/com/example/repo/UserRepo.kt': [
+          'package com.example.repo',
+          '',
+          'interface UserRepo',
+        ].join('\n'),
+        'src/main/java/com/example/repo/AuditLog.java': [
+          'package com.example.repo;',
+          '',
+          'public interface AuditLog {}',
+        ].join('\n'),
+        'app/src/service/Billing.kt': [
+          'package org.acme.service',
+          '',
+          'import org.acme.repo.InvoiceRepo',
+          '',
+          '@Service',
+          'class Billing(private val invoices: InvoiceRepo)',
+        ].join('\n'),
+        'app/src/repo/InvoiceRepo.kt': [
+          'package org.acme.repo',
+          '',
+          'interface InvoiceRepo',
+        ].join('\n'),
+      });
+      const analyzer = new JavaAnalyzer(root);
+      const userService = analyzer.analyzeFile(path.join(root, 'src/main/kotlin/com/example/UserService.kt'))!;
+      const billing = analyzer.analyzeFile(path.join(root, 'app/src/service/Billing.kt'))!;
+
+      const usesOf = (relations: ExtractedRelation[]) =>
+        relations.filter(relation => relation.verb === 'uses').map(relation => [relation.targetName, relation.targetFilePath]);
+      expect(usesOf(userService.relations)).toEqual([
+        ['UserRepo', path.join('src', 'main', 'kotlin', 'com', 'example', 'repo', 'UserRepo.kt')],
+        ['AuditLog', path.join('src', 'main', 'java', 'com', 'example', 'repo', 'AuditLog.java')],
+      ]);
+      expect(usesOf(billing.relations)).toEqual([
+        ['InvoiceRepo', path.join('app', 'src', 'repo', 'InvoiceRepo.kt')],
+      ]);
+    });
+  });
+
+  describe('Spring injection', () => {
+    const usesOf = (relations: { verb: string; sourceName: string; targetName: string }[]) =>
+      relations.filter(relation => relation.verb === 'uses').map(relation => `${relation.sourceName} -> ${relation.targetName}`);
+
+    it('应该记录 Spring 组件的构造函数注入，并忽略标准库类型', () => {
+      root = createWorkspace({
+        'src/main/java/com/example/OrderService.java': [
+          'package com.example;',
+          '',
+          '@Service',
+          'public class OrderService {',
+          '  private final OrderRepository repository;',
+          '',
+          '  public OrderService(OrderRepository repository, String region, List<PaymentGateway> gateways) {',
+          '    this.repository = repository;',
+          '  }',
+          '}',
+        ].join('\n'),
+      });
+      const analyzer = new JavaAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/main/java/com/example/OrderService.java'))!;
+
+      expect(result.symbols).toContainEqual(expect.objectContaining({ name: 'OrderService', type: 'service' }));
+      expect(usesOf(result.relations)).toEqual(['OrderService -> OrderRepository', 'OrderService -> PaymentGateway']);
+    });
+
+    it('应该忽略普通类和数据类的构造函数参数', () => {
+      root = createWorkspace({
+        'src/main/kotlin/com/example/User.kt': [
+          'package com.example',
+          '',
+          'data class User(val id: Long, val profile: Profile)',
+          '',
+          'class Mapper(private val clock: Clock) {',
+          '  constructor(other: Mapper) : this(other.clock)',
+          '}',
+        ].join('\n'),
+      });
+      const analyzer = new JavaAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/main/kotlin/com/example/User.kt'))!;
+
+      expect(usesOf(result.relations)).toEqual([]);
+    });
+
+    it('应该记录 @Autowired / @Inject 构造函数和字段的注入', () => {
+      root = createWorkspace({
+        'src/main/kotlin/com/example/Notifier.kt': [
+          'package com.example',
+          '',
+          'import javax.sql.DataSource',
+          '',
+          'class Notifier @Autowired constructor(private val mailer: Mailer, private val dataSource: DataSource) {',
+          '  @Inject',
+          '  lateinit var templates: TemplateStore',
+          '}',
+        ].join('\n'),
+        'src/main/java/com/example/Auditor.java': [
+          'package com.example;',
+          '',
+          'public class Auditor {',
+          '  @Inject',
+          '  public Auditor(AuditLog log, Integer limit) {}',
+          '}',
+        ].join('\n'),
+      });
+      const analyzer = new JavaAnalyzer(root);
+      const kotlin = analyzer.analyzeFile(path.join(root, 'src/main/kotlin/com/example/Notifier.kt'))!;
+      const java = analyzer.analyzeFile(path.join(root, 'src/main/java/com/example/Auditor.java'))!;
+
+      expect(usesOf(kotlin.relations)).toEqual(['Notifier -> Mailer', 'Notifier -> TemplateStore']);
+      expect(usesOf(java.relations)).toEqual(['Auditor -> AuditLog']);
+    });
+  });
+
+  describe('routes', () => {
+    const routesOf = (symbols: ExtractedSymbol[]) =>
+      symbols.filter(symbol => symbol.metadata?.routes).map(symbol => ({ name: symbol.name, routes: symbol.metadata!.routes }));
+
+    it('应该把 @RestController 记为 api 实体，并给方法的路由加上类上 @RequestMapping 的前缀', () => {
+      root = createWorkspace({
+        'src/main/java/com/example/UserController.java': [
+          'package com.example;',
+          '',
+          '@RestController',
+          '@RequestMapping("/api/users")',
+          'public class UserController {',
+          '  @GetMapping("/{id}")',
+          '  public User get(@PathVariable Long id) { return null; }',
+          '',
+          '  @PostMapping',
+          '  public User create(@RequestBody User user) { return user; }',
+          '',
+          '  @RequestMapping(value = {"/search", "/find"}, method = RequestMethod.GET)',
+          '  public List<User> search() { return null; }',
+          '}',
+        ].join('\n'),
+      });
+      const analyzer = new JavaAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/main/java/com/example/UserController.java'))!;
+
+      expect(result.symbols).toContainEqual(expect.objectContaining({
+        name: 'UserController',
+        type: 'api',
+        metadata: expect.objectContaining({ annotations: ['RestController', 'RequestMapping'], routePrefix: '/api/users' }),
+      }));
+      expect(routesOf(result.symbols)).toEqual([
+        { name: 'UserController.get', routes: [{ method: 'GET', path: '/api/users/{id}' }] },
+        { name: 'UserController.create', routes: [{ method: 'POST', path: '/api/users' }] },
+        { name: 'UserController.search', routes: [{ method: 'GET', path: '/api/users/search' }, { method: 'GET', path: '/api/users/find' }] },
+      ]);
+    });
+
+    it('应该把 Kotlin 的 @Service 记为 service 实体，@Controller 记为 api 实体', () => {
+      root = createWorkspace({
+        'src/main/kotlin/com/example/Orders.kt': [
+          'package com.example',
+          '',
+          '@Service',
+          'class OrderService',
+          '',
+          '@Controller',
+          '@RequestMapping("/orders")',
+          'class OrderController(private val orders: OrderService) {',
+          '  @DeleteMapping("/{id}")',
+          '  fun delete(@PathVariable id: Long) {}',
+          '}',
+          '',
+          '@Service',
+          'interface OrderApi',
+        ].join('\n'),
+      });
+      const analyzer = new JavaAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/main/kotlin/com/example/Orders.kt'))!;
+
+      expect(result.symbols.map(symbol => `${symbol.name}: ${symbol.type}`)).toEqual([
+        'com.example: directory',
+        'OrderService: service',
+        'OrderController: api',
+        'OrderController.delete: function',
+        'OrderApi: interface',
+      ]);
+      expect(routesOf(result.symbols)).toEqual([
+        { name: 'OrderController.delete', routes: [{ method: 'DELETE', path: '/orders/{id}' }] },
+      ]);
+    });
+  });
+});
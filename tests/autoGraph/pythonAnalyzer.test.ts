@@ -0,0 +1,156 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as path from 'path';
+import { PythonAnalyzer } from '../../src/services/autoGraph/pythonAnalyzer';
+import { createWorkspace, removeWorkspace } from '../helpers/workspace';
+
+describe('PythonAnalyzer', () => {
+  let root: string;
+
+  afterEach(() => {
+    removeWorkspace(root);
+  });
+
+  describe('relative imports', () => {
+    const files = {
+      'src/app/__init__.py': '',
+      'src/app/models.py': [
+        'class Base:',
+        '    pass',
+        '',
+        'class User(Base):',
+        '    pass',
+      ].join('\n'),
+      'src/app/services/__init__.py': 'from .user import UserService\n',
+      'src/app/services/user.py': [
+        'from ..models import (',
+        '    User,',
+        ')',
+        'from .. import models as m',
+        '',
+        'class UserService(m.Base):',
+        '    def find(self, user_id: int) -> User:',
+        '        return User()',
+      ].join('\n'),
+    };
+
+    it('应该把相对导入解析为包中的模块', () => {
+      root = createWorkspace(files);
+      const analyzer = new PythonAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/app/services/user.py'))!;
+
+      expect(result.symbols.map(symbol => symbol.name)).toEqual(['app.services.user', 'UserService', 'UserService.find']);
+      expect(result.imports).toEqual([
+        expect.objectContaining({ moduleName: '..models', importedNames: ['User'], line: 1 }),
+        expect.objectContaining({ moduleName: '..', importedNames: ['models'], line: 4 }),
+      ]);
+      expect(result.relations.filter(relation => relation.verb === 'imports')).toEqual([
+        expect.objectContaining({
+          sourceName: 'app.services.user',
+          targetName: 'app.models',
+          targetFilePath: path.join('src', 'app', 'models.py'),
+          metadata: { names: ['User'], line: 1 },
+        }),
+      ]);
+    });
+
+    it('应该通过 as 别名把基类解析到所在的模块', () => {
+      root = createWorkspace(files);
+      const analyzer = new PythonAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/app/services/user.py'))!;
+
+      expect(result.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'UserService',
+        targetName: 'Base',
+        targetFilePath: path.join('src', 'app', 'models.py'),
+        verb: 'extends',
+      }));
+    });
+
+    it('应该把包的 __init__.py 中的相对导入指向子模块', () => {
+      root = createWorkspace(files);
+      const analyzer = new PythonAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/app/services/__init__.py'))!;
+
+      expect(result.symbols[0]).toEqual(expect.objectContaining({ name: 'app.services', type: 'file' }));
+      expect(result.relations).toEqual([
+        expect.objectContaining({
+          sourceName: 'app.services',
+          targetName: 'app.services.user',
+          targetFilePath: path.join('src', 'app', 'services', 'user.py'),
+          verb: 'imports',
+          metadata: { names: ['UserService'], line: 1 },
+        }),
+      ]);
+    });
+  });
+
+  describe('routes', () => {
+    const routesOf = (result: ReturnType<PythonAnalyzer['analyzeFile']>) =>
+      result!.symbols
+        .filter(symbol => symbol.metadata?.routes)
+        .map(symbol => ({ name: symbol.name, routes: symbol.metadata!.routes }));
+
+    it('应该记录 FastAPI 装饰器的路由并加上 APIRouter 的 prefix', () => {
+      root = createWorkspace({
+        'api/users.py': [
+          'from fastapi import APIRouter, FastAPI',
+          '',
+          'app = FastAPI()',
+          'router: APIRouter = APIRouter(',
+          '    prefix="/users",',
+          '    tags=["users"],',
+          ')',
+          '',
+          '@app.get("/health")',
+          'def health():',
+          '    return "ok"',
+          '',
+          '@router.post("/create")',
+          'async def create_user():',
+          '    """Create a user."""',
+          '',
+          '@router.api_route(path="/{user_id}", methods=["GET", "PUT"])',
+          'def user_detail(user_id: int):',
+          '    pass',
+        ].join('\n'),
+      });
+      const result = new PythonAnalyzer(root).analyzeFile(path.join(root, 'api/users.py'));
+
+      expect(routesOf(result)).toEqual([
+        { name: 'health', routes: [{ method: 'GET', path: '/health' }] },
+        { name: 'create_user', routes: [{ method: 'POST', path: '/users/create' }] },
+        { name: 'user_detail', routes: [{ method: 'GET', path: '/users/{user_id}' }, { method: 'PUT', path: '/users/{user_id}' }] },
+      ]);
+      expect(result!.symbols).toContainEqual(expect.objectContaining({
+        name: 'create_user',
+        startLine: 13,
+        description: 'Create a user.',
+        metadata: expect.objectContaining({ decorators: ['router.post'] }),
+      }));
+    });
+
+    it('应该记录 Flask 的 route 装饰器并加上 Blueprint 的 url_prefix', () => {
+      root = createWorkspace({
+        'views/admin.py': [
+          'from flask import Blueprint',
+          '',
+          "bp = Blueprint('admin', __name__, url_prefix='/admin/')",
+          '',
+          "@bp.route('/')",
+          'def index():',
+          '    pass',
+          '',
+          "@bp.route('/users', methods=['GET', 'POST'])",
+          'def users():',
+          '    pass',
+        ].join('\n'),
+      });
+      const result = new PythonAnalyzer(root).analyzeFile(path.join(root, 'views/admin.py'));
+
+      expect(routesOf(result)).toEqual([
+        { name: 'index', routes: [{ method: 'GET', path: '/admin' }] },
+        { name: 'users', routes: [{ method: 'GET', path: '/admin/users' }, { method: 'POST', path: '/admin/users' }] },
+      ]);
+    });
+  });
+});
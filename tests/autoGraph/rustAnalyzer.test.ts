@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as path from 'path';
+import { RustAnalyzer } from '../../src/services/autoGraph/rustAnalyzer';
+import { createWorkspace, removeWorkspace } from '../helpers/workspace';
+
+describe('RustAnalyzer', () => {
+  let root: string;
+
+  afterEach(() => {
+    removeWorkspace(root);
+  });
+
+  describe('use resolution', () => {
+    const files = {
+      'Cargo.toml': '[package]\nname = "my-app"\nversion = "0.1.0"\n',
+      'src/lib.rs': [
+        'pub mod models;',
+        'mod util;',
+        '',
+        'use crate::models::{User, Named as N};',
+        '',
+        'pub trait Describe: N {',
+        '    fn describe(&self) -> String;',
+        '}',
+        '',
+        'impl Describe for User {',
+        '    fn describe(&self) -> String { String::new() }',
+        '}',
+      ].join('\n'),
+      'src/models/mod.rs': [
+        'mod user;',
+        'pub use self::user::User;',
+        '',
+        'pub trait Named {',
+        '    fn name(&self) -> String;',
+        '}',
+      ].join('\n'),
+      'src/models/user.rs': [
+        'use super::Named;',
+        '',
+        'pub struct User {',
+        '    pub name: String,',
+        '}',
+        '',
+        'impl Named for User {',
+        '    fn name(&self) -> String { self.name.clone() }',
+        '}',
+      ].join('\n'),
+      'src/util.rs': [
+        'use crate::models::*;',
+        '',
+        'pub(crate) fn shout(u: &User) -> String { u.name.to_uppercase() }',
+      ].join('\n'),
+    };
+
+    const models = path.join('src', 'models', 'mod.rs');
+    const user = path.join('src', 'models', 'user.rs');
+
+    it('应该经过 pub use 重新导出把 use 解析到声明所在的模块', () => {
+      root = createWorkspace(files);
+      const analyzer = new RustAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/lib.rs'))!;
+
+      expect(result.symbols[0]).toEqual(expect.objectContaining({
+        name: 'my_app',
+        type: 'file',
+        startLine: 1,
+        metadata: expect.objectContaining({ kind: 'crate', crateRoot: '.' }),
+      }));
+      expect(result.relations.filter(relation => relation.verb === 'imports')).toEqual([
+        expect.objectContaining({ sourceName: 'my_app', targetName: 'my_app::models::user', targetFilePath: user, metadata: { names: ['User'], line: 4 } }),
+        expect.objectContaining({ sourceName: 'my_app', targetName: 'my_app::models', targetFilePath: models, metadata: { names: ['Named'], line: 4 } }),
+      ]);
+    });
+
+    it('应该通过 as 别名和 super 路径解析 trait', () => {
+      root = createWorkspace(files);
+      const analyzer = new RustAnalyzer(root);
+      const lib = analyzer.analyzeFile(path.join(root, 'src/lib.rs'))!;
+      const userResult = analyzer.analyzeFile(path.join(root, 'src/models/user.rs'))!;
+
+      expect(lib.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'Describe', targetName: 'Named', targetFilePath: models, verb: 'extends',
+      }));
+      expect(lib.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'User', sourceFilePath: user, targetName: 'Describe', verb: 'implements',
+      }));
+      expect(userResult.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'User', targetName: 'Named', targetFilePath: models, verb: 'implements',
+      }));
+    });
+
+    it('应该把通配符 use 记录为对模块的导入', () => {
+      root = createWorkspace(files);
+      const analyzer = new RustAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/util.rs'))!;
+
+      expect(result.imports).toEqual([
+        expect.objectContaining({ moduleName: 'crate::models', importedNames: ['*'], isNamespace: true }),
+      ]);
+      expect(result.relations.filter(relation => relation.verb === 'imports')).toEqual([
+        expect.objectContaining({ sourceName: 'my_app::util', targetName: 'my_app::models', targetFilePath: models }),
+      ]);
+    });
+  });
+
+  describe('raw identifiers', () => {
+    it('应该去掉原始标识符的 r# 前缀', () => {
+      root = createWorkspace({
+        'Cargo.toml': '[package]\nname = "lexer"\nversion = "0.1.0"\n',
+        'src/lib.rs': [
+          'pub mod r#async;',
+          '',
+          'pub struct r#match {',
+          '    pub r#type: String,',
+          '}',
+          '',
+          'pub trait r#Kind {}',
+          '',
+          'impl r#Kind for r#match {}',
+          '',
+          'impl r#match {',
+          '    pub fn r#type(&self) -> &str { &self.r#type }',
+          '}',
+          '',
+          'pub fn r#loop() -> &\'static str { r#"raw"# }',
+        ].join('\n'),
+        'src/async.rs': 'pub fn run() {}\n',
+      });
+      const analyzer = new RustAnalyzer(root);
+      const result = analyzer.analyzeFile(path.join(root, 'src/lib.rs'))!;
+
+      expect(result.symbols.map(symbol => symbol.name)).toEqual(['lexer', 'match', 'Kind', 'match.type', 'loop']);
+      expect(result.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'match', targetName: 'Kind', verb: 'implements',
+      }));
+      expect(result.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'lexer', targetName: 'lexer::async', targetFilePath: path.join('src', 'async.rs'), verb: 'contains',
+      }));
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { TypeScriptAnalyzer } from '../../src/services/autoGraph/typeScriptAnalyzer';
+import { ExtractedRelation } from '../../src/services/autoGraph/types';
+import { createWorkspace, removeWorkspace } from '../helpers/workspace';
+
+describe('TypeScriptAnalyzer', () => {
+  let root: string;
+
+  afterEach(() => {
+    removeWorkspace(root);
+  });
+
+  const analyze = (files: Record<string, string>, file: string) => {
+    root = createWorkspace(files);
+    const analyzer = new TypeScriptAnalyzer(root);
+    analyzer.update(Object.keys(files).map(name => path.join(root, name)));
+    return analyzer.analyzeFile(path.join(root, file))!;
+  };
+
+  describe('module resolution', () => {
+    const files = {
+      'tsconfig.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@models/*': ['src/models/*'] } } }),
+      'src/models/user.ts': [
+        'export class User {}',
+        'export interface Profile {}',
+      ].join('\n'),
+      'src/models/index.ts': [
+        "export * from './user';",
+        "export { User as Account } from './user';",
+      ].join('\n'),
+    };
+
+    it('应该通过 tsconfig 的 paths 映射和重新导出解析到真正的声明', () => {
+      const result = analyze({
+        ...files,
+        'src/lib/service.ts': [
+          "import { Account } from '@models/index';",
+          "import { Profile } from '../models';",
+          '',
+          'export class Service extends Account {',
+          '  profile?: Profile;',
+          '}',
+        ].join('\n'),
+      }, 'src/lib/service.ts');
+
+      const userFile = path.join('src', 'models', 'user.ts');
+      expect(result.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'Service', targetName: 'User', targetFilePath: userFile, verb: 'extends', resolved: true,
+      }));
+      expect(result.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'Service', targetName: 'Profile', targetFilePath: userFile, verb: 'uses',
+      }));
+      expect(result.relations.filter(relation => relation.verb === 'imports')).toEqual([
+        expect.objectContaining({ targetName: 'User', targetFilePath: userFile }),
+        expect.objectContaining({ targetName: 'Profile', targetFilePath: userFile }),
+      ]);
+    });
+
+    it('应该只列出本文件中声明的导出，包括重命名的重新导出', () => {
+      const result = analyze(files, 'src/models/index.ts');
+
+      expect(result.symbols).toEqual([]);
+      expect(result.exports).toEqual([
+        expect.objectContaining({ exportedName: 'Account', localName: 'User', line: 2 }),
+      ]);
+    });
+  });
+
+  describe('calls', () => {
+    const callsOf = (relations: ExtractedRelation[]) =>
+      relations
+        .filter(relation => relation.verb === 'calls')
+        .map(relation => `${relation.sourceName} -> ${relation.targetName} ${JSON.stringify(relation.metadata)}`);
+
+    it('应该在函数和方法之间记录调用，包括通过注入字段的调用', () => {
+      const result = analyze({
+        'src/user.service.ts': [
+          'export function normalize(id: string): string {',
+          '  return id.trim();',
+          '}',
+          '',
+          'export class UserService {',
+          '  findById(id: string) {',
+          '    return this.lookup(normalize(id));',
+          '  }',
+          '',
+          '  private lookup(id: string) {',
+          '    return id;',
+          '  }',
+          '}',
+        ].join('\n'),
+        'src/user.controller.ts': [
+          "import { UserService } from './user.service';",
+          '',
+          'export class UserController {',
+          '  constructor(private readonly userService: UserService) {}',
+          '',
+          '  get(id: string) {',
+          '    setTimeout(() => this.userService.findById(id), 0);',
+          '    return this.userService',
+          '      .findById(String(parseInt(id, 10)));',
+          '  }',
+          '}',
+        ].join('\n'),
+      }, 'src/user.controller.ts');
+
+      expect(callsOf(result.relations)).toEqual([
+        'UserController.get -> UserService.findById {"count":2,"lines":[7,9]}',
+      ]);
+      expect(result.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'UserController.get',
+        targetFilePath: path.join('src', 'user.service.ts'),
+        resolved: true,
+      }));
+    });
+
+    it('应该把类的方法提取为 类名.方法名 的函数实体', () => {
+      const result = analyze({
+        'src/user.service.ts': [
+          'export function normalize(id: string): string {',
+          '  return id.trim();',
+          '}',
+          '',
+          'export class UserService {',
+          '  findById(id: string) {',
+          '    return this.lookup(normalize(id));',
+          '  }',
+          '',
+          '  private lookup(id: string) {',
+          '    return id;',
+          '  }',
+          '}',
+        ].join('\n'),
+      }, 'src/user.service.ts');
+
+      expect(result.symbols).toContainEqual(expect.objectContaining({
+        name: 'UserService.findById',
+        type: 'function',
+        startLine: 6,
+        endLine: 8,
+        metadata: { method: true, className: 'UserService' },
+      }));
+      expect(result.relations).toContainEqual(expect.objectContaining({
+        sourceName: 'UserService',
+        targetName: 'UserService.findById',
+        verb: 'contains',
+      }));
+      expect(callsOf(result.relations)).toEqual([
+        'UserService.findById -> UserService.lookup {"count":1,"lines":[7]}',
+        'UserService.findById -> normalize {"count":1,"lines":[7]}',
+      ]);
+    });
+  });
+});
+
+describe('TypeScript compiler host', () => {
+  it('应该能找到默认库文件（扩展中 typescript 不打包，lib.*.d.ts 随依赖发布）', () => {
+    const options: ts.CompilerOptions = { target: ts.ScriptTarget.ES2020 };
+    const host = ts.createCompilerHost(options, true);
+    const libFile = host.getDefaultLibFileName(options);
+
+    expect(path.basename(libFile)).toBe('lib.es2020.full.d.ts');
+    expect(fs.existsSync(libFile)).toBe(true);
+    expect(path.dirname(libFile)).toBe(host.getDefaultLibLocation!());
+  });
+});
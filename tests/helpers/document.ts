@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+
+/**
+ * 内存中的文本文档（只实现按行读取）
+ */
+export function createDocument(fsPath: string, text: string, isDirty = false): vscode.TextDocument {
+  const lines = text.split('\n');
+  return {
+    uri: vscode.Uri.file(fsPath),
+    isDirty,
+    lineCount: lines.length,
+    lineAt: (line: number) => ({ text: lines[line] }),
+    getText: () => text,
+  } as unknown as vscode.TextDocument;
+}
+
+/**
+ * 文档符号（行号从 1 开始）
+ */
+export function createSymbol(name: string, startLine: number, endLine: number): vscode.DocumentSymbol {
+  return {
+    name,
+    range: new vscode.Range(startLine - 1, 0, endLine - 1, 0),
+    children: [],
+  } as unknown as vscode.DocumentSymbol;
+}
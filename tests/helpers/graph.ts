@@ -0,0 +1,45 @@
+import { DatabaseService } from '../../src/services/database';
+import { HistoryService } from '../../src/services/historyService';
+import { EntityService } from '../../src/services/entityService';
+import { RelationService } from '../../src/services/relationService';
+import { ObservationService } from '../../src/services/observationService';
+import { createWorkspace, removeWorkspace } from './workspace';
+
+/**
+ * 临时工作区中的手动图谱及其基础服务（修改都会记录到 graph_history）
+ */
+export interface TestGraph {
+  root: string;
+  db: DatabaseService;
+  history: HistoryService;
+  entities: EntityService;
+  relations: RelationService;
+  observations: ObservationService;
+}
+
+/**
+ * 在临时工作区中创建并初始化图谱
+ */
+export async function createGraph(files: Record<string, string> = {}): Promise<TestGraph> {
+  const root = createWorkspace(files);
+  const db = new DatabaseService();
+  await db.initialize(root);
+
+  const history = new HistoryService(db);
+  const entities = new EntityService(db, history);
+  const relations = new RelationService(db, entities, history);
+  const observations = new ObservationService(db, entities, history);
+
+  return { root, db, history, entities, relations, observations };
+}
+
+/**
+ * 关闭数据库并删除临时工作区
+ */
+export function removeGraph(graph: TestGraph | undefined): void {
+  if (!graph) {
+    return;
+  }
+  graph.db.close();
+  removeWorkspace(graph.root);
+}
@@ -0,0 +1,23 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * 在临时目录中创建工作区：键为相对路径，值为文件内容
+ */
+export function createWorkspace(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'kg-workspace-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const file = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+  return root;
+}
+
+/**
+ * 删除临时工作区
+ */
+export function removeWorkspace(root: string): void {
+  fs.rmSync(root, { recursive: true, force: true });
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AutoPromotionService, getAutoEntityKey, mapPromotedAutoEntities } from '../../src/services/autoPromotionService';
+import { AutoEntity, AutoGraphService } from '../../src/services/autoGraph';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+
+describe('AutoPromotionService', () => {
+  let graph: TestGraph;
+  let auto: AutoGraphService;
+  let promotion: AutoPromotionService;
+  let controller: AutoEntity;
+  let service: AutoEntity;
+  let repository: AutoEntity;
+
+  beforeEach(async () => {
+    graph = await createGraph();
+    auto = new AutoGraphService(graph.db);
+    promotion = new AutoPromotionService(graph.db, graph.entities, graph.relations, auto, graph.history);
+
+    controller = auto.upsertEntity('UserController', 'class', 'src/api/user.ts', 1, 20);
+    service = auto.upsertEntity('UserService', 'class', 'src/services/user.ts', 1, 40, 'Loads accounts');
+    repository = auto.upsertEntity('UserRepository', 'class', 'src/services/userRepository.ts', 1, 30);
+    auto.upsertEntity('ApiaryController', 'class', 'src/apiary/bees.ts', 1, 5);
+    auto.upsertRelation(controller.id, service.id, 'calls');
+    auto.upsertRelation(service.id, repository.id, 'uses', { weight: 2 });
+  });
+
+  afterEach(() => {
+    removeGraph(graph);
+  });
+
+  const relationsOf = () =>
+    graph.relations.getAllRelations()
+      .map(r => `${graph.entities.getEntity(r.sourceEntityId)?.name} ${r.verb} ${graph.entities.getEntity(r.targetEntityId)?.name}`)
+      .sort();
+
+  it('提升关系时应该一并提升两端的实体，并记住自动实体键', () => {
+    const callsId = auto.getRelationsByEntity(controller.id)[0].id;
+
+    const result = promotion.promote([], [callsId]);
+
+    expect(result.created.map(e => e.name).sort()).toEqual(['UserController', 'UserService']);
+    expect(result.relations).toBe(1);
+    expect(relationsOf()).toEqual(['UserController calls UserService']);
+
+    const promoted = graph.entities.findEntityByName('UserService')!;
+    expect(promoted).toMatchObject({ filePath: 'src/services/user.ts', startLine: 1, endLine: 40, description: 'Loads accounts' });
+    expect(getAutoEntityKey(promoted)).toBe('src/services/user.ts::class::UserService');
+    expect(promotion.getPromotedEntity(service)?.id).toBe(promoted.id);
+  });
+
+  it('再次提升时应该关联已提升的实体，并补上与它们之间的关系', () => {
+    promotion.promote([controller.id, service.id]);
+
+    const result = promotion.promote([service.id, repository.id]);
+
+    expect(result.created.map(e => e.name)).toEqual(['UserRepository']);
+    expect(result.linked.map(e => e.name)).toEqual(['UserService']);
+    expect(graph.entities.getEntityCount()).toBe(3);
+    expect(relationsOf()).toEqual(['UserController calls UserService', 'UserService uses UserRepository']);
+    expect(graph.relations.getAllRelations().find(r => r.verb === 'uses')?.metadata).toEqual({ weight: 2 });
+  });
+
+  it('同一文件中的同名手动实体应该直接关联，其他文件中的同名实体视为冲突', () => {
+    const existing = graph.entities.createEntity('UserService', 'class', { filePath: 'src/services/user.ts', startLine: 1, endLine: 40 });
+    graph.entities.createEntity('UserRepository', 'class', { filePath: 'src/legacy/repository.ts', startLine: 1, endLine: 10 });
+
+    const result = promotion.promote([service.id, repository.id]);
+
+    expect(result.created).toEqual([]);
+    expect(result.linked.map(e => e.id)).toEqual([existing.id]);
+    expect(result.conflicts.map(e => e.id)).toEqual([repository.id]);
+    expect(getAutoEntityKey(graph.entities.getEntity(existing.id)!)).toBe('src/services/user.ts::class::UserService');
+  });
+
+  it('应该按目录前缀提升，并可以一次撤销', () => {
+    expect(promotion.getEntitiesInPath('src/api/').map(e => e.name)).toEqual(['UserController']);
+
+    const result = promotion.promotePath('src/services');
+
+    expect(result.created.map(e => e.name).sort()).toEqual(['UserRepository', 'UserService']);
+    expect(relationsOf()).toEqual(['UserService uses UserRepository']);
+
+    graph.history.undo();
+
+    expect(graph.entities.getEntityCount()).toBe(0);
+    expect(graph.relations.getAllRelations()).toHaveLength(0);
+  });
+
+  it('重新分析后提升的实体应该跟随自动实体的新位置', () => {
+    promotion.promote([controller.id, service.id]);
+    auto.updateEntity(service.id, 5, 48);
+    auto.deleteEntityById(controller.id);
+
+    expect(promotion.syncPromotedEntities()).toBe(1);
+    expect(graph.entities.findEntityByName('UserService')).toMatchObject({ startLine: 5, endLine: 48 });
+    expect(graph.entities.findEntityByName('UserController')).toMatchObject({ startLine: 1, endLine: 20 });
+    expect(promotion.syncPromotedEntities()).toBe(0);
+  });
+
+  it('mapPromotedAutoEntities 应该把自动实体映射到提升后的手动实体', () => {
+    promotion.promote([service.id]);
+    const promoted = graph.entities.findEntityByName('UserService')!;
+
+    const map = mapPromotedAutoEntities(graph.entities.listEntities(), auto.listEntities());
+
+    expect([...map]).toEqual([[service.id, promoted.id]]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BulkOperationService } from '../../src/services/bulkOperationService';
+import { Entity } from '../../src/utils/types';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+
+describe('BulkOperationService', () => {
+  let graph: TestGraph;
+  let bulk: BulkOperationService;
+  let user: Entity;
+  let order: Entity;
+  let database: Entity;
+
+  beforeEach(async () => {
+    graph = await createGraph();
+    bulk = new BulkOperationService(graph.db, graph.entities, graph.relations, graph.observations, graph.history);
+
+    user = graph.entities.createEntity('UserService', 'class', { filePath: 'src/user.ts', startLine: 1, endLine: 9 });
+    order = graph.entities.createEntity('OrderService', 'class', { filePath: 'src/order.ts', startLine: 1, endLine: 9 });
+    database = graph.entities.createEntity('Database', 'class', { filePath: 'src/db.ts', startLine: 1, endLine: 3 });
+  });
+
+  afterEach(() => {
+    removeGraph(graph);
+  });
+
+  describe('deleteItems', () => {
+    it('应该跳过随实体一起删除的观察记录和关系，只统计单独删除的', () => {
+      const userUses = graph.relations.addRelation(user.id, database.id, 'uses');
+      const orderUses = graph.relations.addRelation(order.id, database.id, 'uses');
+      const userNote = graph.observations.addObservation(user.id, 'Loads accounts');
+      const orderNote = graph.observations.addObservation(order.id, 'Creates orders');
+
+      const result = bulk.deleteItems({
+        entityIds: [user.id],
+        relationIds: [userUses.id, orderUses.id],
+        observationIds: [userNote.id, orderNote.id, 'missing'],
+      });
+
+      expect(result).toEqual({ entities: 1, relations: 1, observations: 1 });
+      expect(graph.entities.getEntityCount()).toBe(2);
+      expect(graph.relations.getAllRelations()).toHaveLength(0);
+      expect(graph.observations.getObservations(order.id)).toHaveLength(0);
+    });
+
+    it('应该可以一次撤销整个批量删除', () => {
+      graph.relations.addRelation(user.id, database.id, 'uses');
+      graph.observations.addObservation(order.id, 'Creates orders');
+
+      bulk.deleteItems({ entityIds: [user.id, order.id] });
+      graph.history.undo();
+
+      expect(graph.entities.getEntityCount()).toBe(3);
+      expect(graph.relations.getAllRelations()).toHaveLength(1);
+      expect(graph.observations.getObservations(order.id)).toHaveLength(1);
+    });
+
+    it('应该删除选中的跨文件夹关系', () => {
+      const relation = graph.relations.addCrossFolderRelation(order.id, 'backend', 'remote-id', 'calls');
+
+      expect(bulk.deleteItems({ crossFolderRelationIds: [relation.id] }).relations).toBe(1);
+      expect(graph.relations.getCrossFolderRelations()).toHaveLength(0);
+    });
+  });
+
+  it('retypeEntities 应该只统计类型实际改变的实体', () => {
+    graph.entities.updateEntity(order.id, { type: 'service' });
+
+    expect(bulk.retypeEntities([user.id, order.id, user.id, 'missing'], 'service')).toBe(1);
+    expect(graph.entities.getEntity(user.id)?.type).toBe('service');
+  });
+
+  it('tagObservations 应该追加标签并保留原有标签', () => {
+    const tagged = graph.observations.addObservation(user.id, 'Loads accounts', { tags: ['auth'] });
+    const complete = graph.observations.addObservation(order.id, 'Creates orders', { tags: ['perf', 'auth'] });
+
+    expect(bulk.tagObservations([tagged.id, complete.id], ['#perf', 'auth'])).toBe(1);
+    expect(graph.observations.getObservation(tagged.id)?.tags).toEqual(['auth', 'perf']);
+    expect(graph.observations.getObservation(complete.id)?.tags).toEqual(['perf', 'auth']);
+    expect(bulk.tagObservations([tagged.id], [' '])).toBe(0);
+  });
+
+  it('addObservation 应该给每个实体添加一次，任一实体不存在时全部回滚', () => {
+    const added = bulk.addObservation([user.id, order.id, user.id], 'Needs a retry policy', { kind: 'todo' });
+
+    expect(added.map(o => o.entityId)).toEqual([user.id, order.id]);
+    expect(added.every(o => o.kind === 'todo')).toBe(true);
+
+    expect(() => bulk.addObservation([database.id, 'missing'], 'Pool is fixed')).toThrow('Entity not found');
+    expect(graph.observations.getObservations(database.id)).toHaveLength(0);
+  });
+
+  it('linkEntities 应该跳过已存在的关系和目标自身', () => {
+    graph.relations.addRelation(user.id, database.id, 'uses');
+
+    const result = bulk.linkEntities([user.id, order.id, database.id], { entityId: database.id }, 'uses');
+
+    expect(result).toEqual({ created: 1, skipped: 2 });
+    expect(graph.relations.relationExists(order.id, database.id, 'uses')).toBe(true);
+
+    const crossFolder = bulk.linkEntities([user.id, order.id], { entityId: 'remote-id', targetFolder: 'backend' }, 'calls');
+    expect(crossFolder).toEqual({ created: 2, skipped: 0 });
+    expect(bulk.linkEntities([user.id], { entityId: 'remote-id', targetFolder: 'backend' }, 'calls')).toEqual({ created: 0, skipped: 1 });
+  });
+});
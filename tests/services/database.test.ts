@@ -0,0 +1,293 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
+import { DatabaseService } from '../../src/services/database';
+import { LATEST_SCHEMA_VERSION, SchemaVersionError } from '../../packages/mcp-server/src/schema/migrations';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+
+describe('DatabaseService', () => {
+  let graph: TestGraph;
+
+  beforeEach(async () => {
+    graph = await createGraph();
+  });
+
+  afterEach(() => {
+    removeGraph(graph);
+  });
+
+  const count = (table: string): number =>
+    graph.db.getDatabase().exec(`SELECT COUNT(*) FROM ${table}`)[0].values[0][0] as number;
+
+  const addAutoEntity = (id: string) =>
+    graph.db.getDatabase().run(
+      `INSERT INTO auto_entities (id, name, type, file_path, start_line, end_line, created_at, updated_at)
+       VALUES (?, ?, 'class', 'src/auto.ts', 1, 1, 0, 0)`,
+      [id, id]
+    );
+
+  describe('clear', () => {
+    beforeEach(() => {
+      const a = graph.entities.createEntity('A', 'class', { filePath: 'src/a.ts', startLine: 1, endLine: 1 });
+      const b = graph.entities.createEntity('B', 'class', { filePath: 'src/b.ts', startLine: 1, endLine: 1 });
+      graph.relations.addRelation(a.id, b.id, 'uses');
+      graph.observations.addObservation(a.id, 'note');
+      addAutoEntity('auto-1');
+    });
+
+    it('clearManualGraph 应该只清空手动图谱', () => {
+      graph.db.clearManualGraph();
+
+      expect(count('entities')).toBe(0);
+      expect(count('relations')).toBe(0);
+      expect(count('observations')).toBe(0);
+      expect(count('auto_entities')).toBe(1);
+    });
+
+    it('clearAutoGraph 应该只清空自动图谱', () => {
+      graph.db.clearAutoGraph();
+
+      expect(count('auto_entities')).toBe(0);
+      expect(count('entities')).toBe(2);
+    });
+
+    it('clearRagIndex 应该跳过尚未创建的 RAG 表', () => {
+      expect(graph.db.tableExists('local_rag_vectors')).toBe(false);
+      expect(() => graph.db.clearRagIndex()).not.toThrow();
+
+      graph.db.getDatabase().run('CREATE TABLE indexed_files (path TEXT)');
+      graph.db.getDatabase().run("INSERT INTO indexed_files VALUES ('docs/a.md')");
+      graph.db.clearRagIndex();
+
+      expect(count('indexed_files')).toBe(0);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('应该从快照恢复，并为恢复前的状态创建快照', () => {
+      graph.entities.createEntity('Kept', 'class', { filePath: 'src/kept.ts', startLine: 1, endLine: 1 });
+      const snapshot = graph.db.createSnapshot('clear');
+      graph.db.clearManualGraph();
+      graph.entities.createEntity('Later', 'class', { filePath: 'src/later.ts', startLine: 1, endLine: 1 });
+
+      graph.db.restoreSnapshot(snapshot.path);
+
+      expect(snapshot.name).toMatch(/^graph-.*-clear\.sqlite$/);
+      expect(graph.entities.listEntities().map(e => e.name)).toEqual(['Kept']);
+      expect(graph.db.listSnapshots().map(s => s.name)).toEqual(
+        expect.arrayContaining([snapshot.name, expect.stringMatching(/-before-restore\.sqlite$/)])
+      );
+      // 恢复后立即写盘
+      expect(graph.db.isDirty()).toBe(false);
+    });
+
+    it('应该拒绝无法打开的快照并保留当前数据库', () => {
+      graph.entities.createEntity('Current', 'class', { filePath: 'src/current.ts', startLine: 1, endLine: 1 });
+      const broken = path.join(graph.db.getSnapshotDir(), 'graph-broken.sqlite');
+      fs.mkdirSync(path.dirname(broken), { recursive: true });
+      fs.writeFileSync(broken, 'not a database');
+
+      expect(() => graph.db.restoreSnapshot(broken)).toThrow();
+      expect(graph.entities.listEntities().map(e => e.name)).toEqual(['Current']);
+    });
+  });
+
+  describe('migrations', () => {
+    /** 引入版本表之前的实体表 */
+    const LEGACY_ENTITIES_TABLE = `CREATE TABLE entities (
+      id TEXT PRIMARY KEY, name TEXT NOT NULL, type TEXT NOT NULL, file_path TEXT NOT NULL,
+      start_line INTEGER NOT NULL, end_line INTEGER NOT NULL, description TEXT,
+      created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL, metadata TEXT
+    )`;
+
+    /**
+     * 用 sql.js 构造 graph.sqlite 后重新初始化 DatabaseService
+     */
+    async function reopenWith(setup: (db: SqlJsDatabase) => void): Promise<DatabaseService> {
+      const SQL = await initSqlJs();
+      const legacy = new SQL.Database();
+      setup(legacy);
+      const dbPath = graph.db.getDbPath();
+      graph.db.close();
+      fs.writeFileSync(dbPath, Buffer.from(legacy.export()));
+      legacy.close();
+
+      graph.db = new DatabaseService();
+      await graph.db.initialize(graph.root);
+      return graph.db;
+    }
+
+    const schemaVersion = (db: SqlJsDatabase): unknown =>
+      db.exec('SELECT MAX(version) FROM schema_version')[0].values[0][0];
+
+    it('新建的数据库应该处于最新版本', () => {
+      expect(schemaVersion(graph.db.getDatabase())).toBe(LATEST_SCHEMA_VERSION);
+    });
+
+    it('应该升级没有版本表的旧数据库并保留数据', async () => {
+      const db = await reopenWith(legacy => {
+        legacy.run(LEGACY_ENTITIES_TABLE);
+        legacy.run("INSERT INTO entities VALUES ('e1', 'Legacy', 'class', 'src/legacy.ts', 1, 2, NULL, 0, 0, NULL)");
+      });
+
+      expect(schemaVersion(db.getDatabase())).toBe(LATEST_SCHEMA_VERSION);
+      expect(db.getDatabase().exec("SELECT name FROM entities WHERE id = 'e1'")[0].values).toEqual([['Legacy']]);
+      // 升级后需要写回文件
+      expect(db.isDirty()).toBe(true);
+    });
+
+    it('应该拒绝版本高于当前程序的数据库', async () => {
+      const showError = vi.spyOn(vscode.window, 'showErrorMessage');
+
+      await expect(reopenWith(future => {
+        future.run('CREATE TABLE schema_version (version INTEGER PRIMARY KEY, description TEXT NOT NULL, applied_at INTEGER NOT NULL)');
+        future.run(`INSERT INTO schema_version VALUES (${LATEST_SCHEMA_VERSION + 1}, 'future', 0)`);
+      })).rejects.toBeInstanceOf(SchemaVersionError);
+      expect(showError).toHaveBeenCalled();
+    });
+
+    it('openGraphFile 应该把其他图谱文件迁移到当前版本', async () => {
+      const SQL = await initSqlJs();
+      const other = new SQL.Database();
+      other.run(LEGACY_ENTITIES_TABLE);
+      const file = path.join(graph.root, 'other.sqlite');
+      fs.writeFileSync(file, Buffer.from(other.export()));
+      other.close();
+
+      const opened = graph.db.openGraphFile(file);
+      try {
+        expect(schemaVersion(opened)).toBe(LATEST_SCHEMA_VERSION);
+      } finally {
+        opened.close();
+      }
+    });
+  });
+  describe('saving and recovery', () => {
+    /**
+     * 关闭数据库，用 content 覆盖 graph.sqlite 后重新初始化
+     */
+    async function reopenCorrupted(content: string): Promise<DatabaseService> {
+      const dbPath = graph.db.getDbPath();
+      graph.db.close();
+      fs.writeFileSync(dbPath, content);
+
+      graph.db = new DatabaseService();
+      await graph.db.initialize(graph.root);
+      return graph.db;
+    }
+
+    it('应该合并短时间内的多次保存，并通过临时文件原子写入', () => {
+      vi.useFakeTimers();
+      try {
+        const saved = vi.fn();
+        graph.db.onDidSave(saved);
+
+        graph.entities.createEntity('A', 'class', { filePath: 'src/a.ts', startLine: 1, endLine: 1 });
+        graph.entities.createEntity('B', 'class', { filePath: 'src/b.ts', startLine: 1, endLine: 1 });
+        expect(graph.db.isDirty()).toBe(true);
+
+        vi.advanceTimersByTime(1000);
+
+        expect(saved).toHaveBeenCalledTimes(1);
+        expect(graph.db.isDirty()).toBe(false);
+        expect(fs.existsSync(`${graph.db.getDbPath()}.tmp`)).toBe(false);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('graph.sqlite 损坏时应该保留损坏文件并从最近的快照恢复', async () => {
+      const showWarning = vi.spyOn(vscode.window, 'showWarningMessage');
+      graph.entities.createEntity('Saved', 'class', { filePath: 'src/saved.ts', startLine: 1, endLine: 1 });
+      graph.db.createSnapshot('auto');
+
+      const db = await reopenCorrupted('garbage');
+
+      expect(db.getDatabase().exec('SELECT name FROM entities')[0].values).toEqual([['Saved']]);
+      expect(db.isDirty()).toBe(true);
+      expect(fs.readdirSync(path.dirname(db.getDbPath())).some(name => name.startsWith('graph.sqlite.corrupt-'))).toBe(true);
+      expect(showWarning).toHaveBeenCalledWith(expect.stringContaining('recovered from snapshot'));
+    });
+
+    it('没有可用快照时应该创建空图谱', async () => {
+      const showWarning = vi.spyOn(vscode.window, 'showWarningMessage');
+      graph.entities.createEntity('Lost', 'class', { filePath: 'src/lost.ts', startLine: 1, endLine: 1 });
+
+      const db = await reopenCorrupted('');
+
+      expect(db.getDatabase().exec('SELECT COUNT(*) FROM entities')[0].values).toEqual([[0]]);
+      expect(showWarning).toHaveBeenCalledWith(expect.stringContaining('no usable snapshot'));
+    });
+
+    it('从快照恢复后应该触发 onDidReload', () => {
+      const reloaded = vi.fn();
+      graph.db.onDidReload(reloaded);
+      const snapshot = graph.db.createSnapshot('manual');
+
+      graph.db.restoreSnapshot(snapshot.path);
+
+      expect(reloaded).toHaveBeenCalledTimes(1);
+    });
+  });
+  describe('external changes', () => {
+    /**
+     * 模拟另一个进程（其他窗口、MCP Server）修改 graph.sqlite
+     */
+    async function writeFromAnotherProcess(sql: string): Promise<void> {
+      const other = new DatabaseService();
+      await other.initialize(graph.root);
+      other.getDatabase().run(sql);
+      other.save();
+      other.close();
+    }
+
+    beforeEach(() => {
+      graph.entities.createEntity('Local', 'class', { filePath: 'src/local.ts', startLine: 1, endLine: 1 });
+      graph.db.flush();
+    });
+
+    it('自己写入的文件不应该视为外部修改', () => {
+      graph.entities.createEntity('Another', 'class', { filePath: 'src/another.ts', startLine: 1, endLine: 1 });
+      graph.db.flush();
+
+      expect(graph.db.hasExternalChanges()).toBe(false);
+    });
+
+    it('只有 mtime 变化而内容相同时不应该视为外部修改', () => {
+      const future = new Date(Date.now() + 60_000);
+      fs.utimesSync(graph.db.getDbPath(), future, future);
+
+      expect(graph.db.hasExternalChanges()).toBe(false);
+    });
+
+    it('应该检测到外部修改并从磁盘重新加载', async () => {
+      const reloaded = vi.fn();
+      graph.db.onDidReload(reloaded);
+
+      await writeFromAnotherProcess(
+        `INSERT INTO entities (id, name, type, file_path, start_line, end_line, created_at, updated_at)
+         VALUES ('external', 'External', 'class', 'src/external.ts', 1, 1, 0, 0)`
+      );
+
+      expect(graph.db.hasExternalChanges()).toBe(true);
+
+      graph.db.reloadFromDisk();
+
+      expect(graph.entities.listEntities().map(e => e.name).sort()).toEqual(['External', 'Local']);
+      expect(graph.db.hasExternalChanges()).toBe(false);
+      expect(reloaded).toHaveBeenCalledTimes(1);
+    });
+
+    it('重新加载应该丢弃尚未保存的修改', async () => {
+      await writeFromAnotherProcess("UPDATE entities SET description = 'external' WHERE name = 'Local'");
+      graph.entities.createEntity('Unsaved', 'class', { filePath: 'src/unsaved.ts', startLine: 1, endLine: 1 });
+
+      graph.db.reloadFromDisk();
+
+      expect(graph.entities.listEntities().map(e => `${e.name}: ${e.description}`)).toEqual(['Local: external']);
+      expect(graph.db.isDirty()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EntityAnchorService } from '../../src/services/entityAnchorService';
+import { createAnchor, getEntityAnchor, isOrphaned } from '../../src/utils/codeAnchor';
+import { Entity } from '../../src/utils/types';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+import { createDocument } from '../helpers/document';
+
+const SOURCE = [
+  'export function loadUser(id: string) {',
+  '  return db.find(id);',
+  '}',
+].join('\n');
+
+describe('EntityAnchorService', () => {
+  let graph: TestGraph;
+  let anchors: EntityAnchorService;
+  let entity: Entity;
+
+  const documentOf = (text: string, relativePath = 'src/user.ts') =>
+    createDocument(path.join(graph.root, relativePath), text);
+
+  beforeEach(async () => {
+    graph = await createGraph();
+    const folder = { uri: vscode.Uri.file(graph.root), name: 'ws', index: 0 } as vscode.WorkspaceFolder;
+    anchors = new EntityAnchorService(folder, graph.db, graph.entities);
+
+    const location = { filePath: 'src/user.ts', startLine: 1, endLine: 3 };
+    entity = graph.entities.createEntity('loadUser', 'function', location);
+    graph.entities.updateAnchor(entity.id, location, createAnchor(documentOf(SOURCE), 1, 3, []));
+  });
+
+  afterEach(() => {
+    anchors.dispose();
+    removeGraph(graph);
+  });
+
+  it('代码移动后应该更新实体位置并通知', async () => {
+    const changed = vi.fn();
+    anchors.onDidChange(changed);
+
+    await anchors.relocate(documentOf(`import { db } from './db';\n\n${SOURCE}`));
+
+    expect(graph.entities.getEntity(entity.id)).toMatchObject({ startLine: 3, endLine: 5 });
+    expect(changed).toHaveBeenCalledTimes(1);
+  });
+
+  it('位置和内容都没有变化时不应该写入', async () => {
+    const changed = vi.fn();
+    anchors.onDidChange(changed);
+
+    await anchors.relocate(documentOf(SOURCE));
+
+    expect(changed).not.toHaveBeenCalled();
+  });
+
+  it('代码被删除时应该把实体标记为孤立，恢复后取消标记', async () => {
+    await anchors.relocate(documentOf('export const unrelated = 1;'));
+
+    const orphan = graph.entities.getEntity(entity.id)!;
+    expect(isOrphaned(orphan)).toBe(true);
+    expect(orphan).toMatchObject({ startLine: 1, endLine: 3 });
+
+    await anchors.relocate(documentOf(`\n${SOURCE}`));
+
+    const restored = graph.entities.getEntity(entity.id)!;
+    expect(isOrphaned(restored)).toBe(false);
+    expect(restored).toMatchObject({ startLine: 2, endLine: 4 });
+    expect(getEntityAnchor(restored)?.symbol).toBe('loadUser');
+  });
+
+  it('应该忽略其他文件和文件夹之外的文档', async () => {
+    await anchors.relocate(documentOf('', 'src/other.ts'));
+    await anchors.relocate(createDocument(path.join(path.dirname(graph.root), 'outside', 'src', 'user.ts'), ''));
+
+    expect(isOrphaned(graph.entities.getEntity(entity.id)!)).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EntityMergeService } from '../../src/services/entityMergeService';
+import { Entity } from '../../src/utils/types';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+
+describe('EntityMergeService', () => {
+  let graph: TestGraph;
+  let merger: EntityMergeService;
+  let survivor: Entity;
+  let duplicate: Entity;
+  let other: Entity;
+
+  beforeEach(async () => {
+    graph = await createGraph();
+    merger = new EntityMergeService(graph.db, graph.entities, graph.relations, graph.observations, graph.history);
+
+    survivor = graph.entities.createEntity('UserService', 'class', { filePath: 'src/user.ts', startLine: 1, endLine: 9 });
+    duplicate = graph.entities.createEntity('UserSvc', 'class', { filePath: 'src/user.ts', startLine: 1, endLine: 9 }, 'Handles users');
+    graph.entities.updateEntity(duplicate.id, { aliases: ['LegacyUsers'] });
+    other = graph.entities.createEntity('Database', 'class', { filePath: 'src/db.ts', startLine: 1, endLine: 3 });
+
+    graph.relations.addRelation(survivor.id, other.id, 'uses');
+    graph.relations.addRelation(duplicate.id, other.id, 'uses');
+    graph.relations.addRelation(other.id, duplicate.id, 'calls');
+    graph.relations.addRelation(survivor.id, duplicate.id, 'extends');
+    graph.observations.addObservation(duplicate.id, 'Caches sessions');
+  });
+
+  afterEach(() => {
+    removeGraph(graph);
+  });
+
+  const relationsOf = () =>
+    graph.relations.getAllRelations()
+      .map(r => `${graph.entities.getEntity(r.sourceEntityId)?.name} ${r.verb} ${graph.entities.getEntity(r.targetEntityId)?.name}`)
+      .sort();
+
+  it('应该移动观察记录和关系，删除重复和指向自身的关系', () => {
+    const result = merger.merge(survivor.id, [duplicate.id]);
+
+    expect(result).toMatchObject({ mergedIds: [duplicate.id], movedObservations: 1, movedRelations: 1, removedRelations: 2 });
+    expect(graph.entities.getEntity(duplicate.id)).toBeNull();
+    expect(graph.observations.getObservations(survivor.id).map(o => o.content)).toEqual(['Caches sessions']);
+    expect(relationsOf()).toEqual(['Database calls UserService', 'UserService uses Database']);
+  });
+
+  it('应该把被合并实体的名称、别名和 ID 记为别名，并补充缺少的描述', () => {
+    const { survivor: merged } = merger.merge(survivor.id, [duplicate.id]);
+
+    expect(merged.aliases).toEqual(['UserSvc', 'LegacyUsers', duplicate.id]);
+    expect(merged.description).toBe('Handles users');
+    expect(graph.entities.findEntityByName('usersvc')?.id).toBe(survivor.id);
+    expect(graph.entities.findEntityByName(duplicate.id)?.id).toBe(survivor.id);
+  });
+
+  it('应该可以一次撤销整个合并', () => {
+    merger.merge(survivor.id, [duplicate.id]);
+
+    graph.history.undo();
+
+    expect(graph.entities.getEntity(duplicate.id)?.aliases).toEqual(['LegacyUsers']);
+    expect(graph.entities.getEntity(survivor.id)?.aliases).toBeUndefined();
+    expect(graph.observations.getObservations(duplicate.id)).toHaveLength(1);
+    expect(relationsOf()).toEqual([
+      'Database calls UserSvc',
+      'UserService extends UserSvc',
+      'UserService uses Database',
+      'UserSvc uses Database',
+    ]);
+  });
+
+  it('应该忽略保留的实体本身，并拒绝不存在的实体', () => {
+    expect(merger.merge(survivor.id, [survivor.id]).mergedIds).toEqual([]);
+    expect(() => merger.merge(survivor.id, ['missing'])).toThrow('Entity not found: missing');
+    expect(graph.entities.getEntityCount()).toBe(3);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as vscode from 'vscode';
+import { EntityReconcileService } from '../../src/services/entityReconcileService';
+import { AutoGraphService } from '../../src/services/autoGraph';
+import { isOrphaned } from '../../src/utils/codeAnchor';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+
+describe('EntityReconcileService', () => {
+  let graph: TestGraph;
+  let auto: AutoGraphService;
+  let reconciler: EntityReconcileService;
+
+  beforeEach(async () => {
+    graph = await createGraph({ 'src/user.ts': '', 'src/orders/order.ts': '', 'src/notes.ts': '' });
+    auto = new AutoGraphService(graph.db);
+    const folder = { uri: vscode.Uri.file(graph.root), name: 'ws', index: 0 } as vscode.WorkspaceFolder;
+    reconciler = new EntityReconcileService(folder, graph.db, graph.entities, auto, graph.history);
+
+    auto.upsertEntity('UserService', 'class', 'src/user.ts', 1, 12);
+    auto.upsertEntity('loadUsers', 'function', 'src/user.ts', 14, 20);
+    auto.upsertEntity('OrderService', 'class', 'src/orders/order.ts', 1, 30);
+    auto.updateFileCache('src/user.ts', 'hash');
+  });
+
+  afterEach(() => {
+    removeGraph(graph);
+  });
+
+  const create = (name: string, type: string, filePath: string, startLine = 1, endLine = 10) =>
+    graph.entities.createEntity(name, type, { filePath, startLine, endLine });
+
+  it('应该为移动或改名的符号建议新位置，为不存在的符号建议标记孤立', () => {
+    create('UserService', 'class', 'src/user.ts', 3, 9);
+    const order = create('OrderService', 'class', 'src/order.ts');
+    const load = create('loadUser', 'function', 'src/user.ts', 30, 36);
+    create('deleteAccount', 'function', 'src/user.ts');
+    create('LegacyImporter', 'class', 'src/legacy.ts');
+
+    const proposals = reconciler.reconcile();
+
+    expect(proposals.map(p => `${p.kind} ${p.entity.name}`)).toEqual([
+      'missing deleteAccount',
+      'missing LegacyImporter',
+      'move loadUser',
+      'move OrderService',
+    ]);
+    expect(proposals.find(p => p.id === order.id)).toMatchObject({
+      location: { filePath: 'src/orders/order.ts', startLine: 1, endLine: 30 },
+      name: undefined,
+    });
+    expect(proposals.find(p => p.id === load.id)).toMatchObject({ name: 'loadUsers', location: { startLine: 14, endLine: 20 } });
+  });
+
+  it('同名同类型的实体范围不再重叠时应该建议更新行号', () => {
+    const entity = create('UserService', 'class', 'src/user.ts', 40, 52);
+
+    const [proposal] = reconciler.reconcile();
+
+    expect(proposal).toMatchObject({ kind: 'move', id: entity.id, score: 1, location: { startLine: 1, endLine: 12 } });
+  });
+
+  it('文件存在但没有分析过时不应该报告不存在', () => {
+    create('Changelog', 'class', 'src/notes.ts');
+
+    expect(reconciler.reconcile()).toEqual([]);
+  });
+
+  it('应用建议时应该移动实体、把旧名称记为别名并标记孤立，可以一次撤销', () => {
+    const load = create('loadUser', 'function', 'src/user.ts', 30, 36);
+    const legacy = create('LegacyImporter', 'class', 'src/legacy.ts');
+
+    const result = reconciler.apply(reconciler.reconcile());
+
+    expect(result).toEqual({ moved: 1, orphaned: 1 });
+    expect(graph.entities.getEntity(load.id)).toMatchObject({ name: 'loadUsers', aliases: ['loadUser'], startLine: 14, endLine: 20 });
+    expect(isOrphaned(graph.entities.getEntity(legacy.id)!)).toBe(true);
+    expect(reconciler.reconcile()).toEqual([]);
+
+    graph.history.undo();
+
+    expect(graph.entities.getEntity(load.id)).toMatchObject({ name: 'loadUser', startLine: 30, endLine: 36 });
+    expect(isOrphaned(graph.entities.getEntity(legacy.id)!)).toBe(false);
+  });
+
+  it('新名称已被其他实体使用时应该只更新位置', () => {
+    const load = create('loadUser', 'function', 'src/user.ts', 30, 36);
+    const proposals = reconciler.reconcile();
+    create('loadUsers', 'function', 'src/other.ts');
+
+    reconciler.apply(proposals);
+
+    expect(graph.entities.getEntity(load.id)).toMatchObject({ name: 'loadUser', startLine: 14, endLine: 20 });
+  });
+});
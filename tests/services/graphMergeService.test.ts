@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GraphMergeService } from '../../src/services/graphMergeService';
+import { ImportService } from '../../src/services/importService';
+import { Entity, GraphExportData, Observation, Relation } from '../../src/utils/types';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+
+const entity = (id: string, fields: Partial<Entity> = {}): Entity => ({
+  id,
+  name: id.toUpperCase(),
+  type: 'class',
+  filePath: `src/${id}.ts`,
+  startLine: 1,
+  endLine: 1,
+  createdAt: 1,
+  updatedAt: 1,
+  ...fields,
+});
+
+const relation = (id: string, sourceEntityId: string, targetEntityId: string): Relation => ({
+  id,
+  sourceEntityId,
+  targetEntityId,
+  verb: 'uses',
+  createdAt: 1,
+});
+
+const observation = (id: string, entityId: string, content: string): Observation => ({
+  id,
+  entityId,
+  content,
+  kind: 'note',
+  createdAt: 1,
+  updatedAt: 1,
+});
+
+const graphData = (entities: Entity[], relations: Relation[] = [], observations: Observation[] = []): GraphExportData => {
+  const byEntity: Record<string, Observation[]> = {};
+  observations.forEach(o => (byEntity[o.entityId] ||= []).push(o));
+  return { version: '1.0', entities, relations, observations: byEntity };
+};
+
+describe('GraphMergeService', () => {
+  let graph: TestGraph;
+  let merger: GraphMergeService;
+
+  beforeEach(async () => {
+    graph = await createGraph();
+    const importer = new ImportService(graph.db, graph.entities, graph.relations, graph.observations, graph.history);
+    merger = new GraphMergeService(graph.db, graph.entities, graph.relations, graph.observations, importer, graph.history);
+  });
+
+  afterEach(() => {
+    removeGraph(graph);
+  });
+
+  describe('merge', () => {
+    it('双方修改同一实体的不同字段时应该按字段自动合并', () => {
+      const base = graphData([entity('a')]);
+      const ours = graphData([entity('a', { name: 'Renamed' })]);
+      const theirs = graphData([entity('a', { description: 'from theirs' })]);
+
+      const result = merger.merge(base, ours, theirs);
+
+      expect(result.conflicts).toHaveLength(0);
+      expect(result.entities).toMatchObject([{ id: 'a', name: 'Renamed', description: 'from theirs' }]);
+    });
+
+    it('只有对方修改时应该采用对方版本并计数', () => {
+      const base = graphData([entity('a')], [], [observation('o1', 'a', 'old')]);
+      const theirs = graphData([entity('a')], [relation('r1', 'a', 'a')], [observation('o1', 'a', 'new')]);
+
+      const result = merger.merge(base, base, theirs);
+
+      expect(result.relations.map(r => r.id)).toEqual(['r1']);
+      expect(result.observations.map(o => o.content)).toEqual(['new']);
+      expect(result.theirsChanges).toBe(2);
+    });
+
+    it('双方修改同一字段时应该报告 modify-modify 冲突', () => {
+      const base = graphData([entity('a')], [], [observation('o1', 'a', 'base')]);
+      const ours = graphData([entity('a', { name: 'Ours', endLine: 5 })], [], [observation('o1', 'a', 'ours')]);
+      const theirs = graphData([entity('a', { name: 'Theirs', description: 'doc' })], [], [observation('o1', 'a', 'theirs')]);
+
+      const result = merger.merge(base, ours, theirs);
+
+      expect(result.conflicts.map(c => [c.key, c.reason, c.fields])).toEqual([
+        ['entity:a', 'modify-modify', ['name']],
+        ['observation:o1', 'modify-modify', ['content']],
+      ]);
+      // 非冲突字段已自动合并到双方版本中
+      expect(result.conflicts[0].ours).toMatchObject({ name: 'Ours', endLine: 5, description: 'doc' });
+      expect(result.conflicts[0].theirs).toMatchObject({ name: 'Theirs', endLine: 5, description: 'doc' });
+
+      const merged = merger.resolve(result, { 'entity:a': 'theirs' });
+      expect(merged.entities.map(e => e.name)).toEqual(['Theirs']);
+      // 未选择的冲突保留我方版本
+      expect(merged.observations.map(o => o.content)).toEqual(['ours']);
+    });
+
+    it('一方修改、另一方删除时应该报告冲突，并丢弃指向已删除实体的关系', () => {
+      const base = graphData([entity('a'), entity('b')], [relation('r1', 'a', 'b')]);
+      const ours = graphData([entity('a'), entity('b', { description: 'kept' })], [relation('r1', 'a', 'b')]);
+      const theirs = graphData([entity('a')]);
+
+      const result = merger.merge(base, ours, theirs);
+
+      expect(result.conflicts.map(c => [c.key, c.reason])).toEqual([['entity:b', 'modify-delete']]);
+      // 只有对方删除了关系，自动采用
+      expect(result.relations).toHaveLength(0);
+
+      const reversed = merger.merge(base, theirs, ours);
+      expect(reversed.conflicts.map(c => c.reason)).toEqual(['delete-modify']);
+
+      const keepOurs = merger.resolve(result, {});
+      const takeTheirs = merger.resolve(result, { 'entity:b': 'theirs' });
+      expect(keepOurs.entities.map(e => e.id)).toEqual(['a', 'b']);
+      expect(takeTheirs.entities.map(e => e.id)).toEqual(['a']);
+    });
+
+    it('双方新增同一 ID 且内容不同时应该报告 add-add 冲突', () => {
+      const base = graphData([entity('a')]);
+      const ours = graphData([entity('a')], [], [observation('o1', 'a', 'ours')]);
+      const theirs = graphData([entity('a')], [], [observation('o1', 'a', 'theirs')]);
+
+      const result = merger.merge(base, ours, theirs);
+
+      expect(result.conflicts.map(c => [c.key, c.reason, c.fields])).toEqual([['observation:o1', 'add-add', ['content']]]);
+    });
+
+    it('选择对方删除实体时应该丢弃它的观察记录和关系', () => {
+      const result = merger.merge(
+        graphData([entity('a'), entity('b')]),
+        graphData([entity('a'), entity('b', { name: 'Changed' })], [relation('r1', 'a', 'b')], [observation('o1', 'b', 'note')]),
+        graphData([entity('a')])
+      );
+
+      const merged = merger.resolve(result, { 'entity:b': 'theirs' });
+
+      expect(merged.relations).toHaveLength(0);
+      expect(merged.observations).toHaveLength(0);
+      expect(merged.dropped).toBe(2);
+    });
+  });
+
+  it('应该从 graph.sqlite 读取基准版本，并把合并结果作为一次修改写入', () => {
+    const a = graph.entities.createEntity('A', 'class', { filePath: 'src/a.ts', startLine: 1, endLine: 2 });
+    const b = graph.entities.createEntity('B', 'class', { filePath: 'src/b.ts', startLine: 1, endLine: 2 });
+    graph.db.flush();
+    const baseFile = path.join(graph.root, 'base.sqlite');
+    fs.copyFileSync(graph.db.getDbPath(), baseFile);
+
+    const base = merger.loadGraph(baseFile);
+    expect(base.entities.map(e => e.name)).toEqual(['A', 'B']);
+
+    graph.entities.updateEntity(a.id, { description: 'ours' });
+    const theirs = graphData(
+      base.entities.map(e => (e.id === b.id ? { ...e, name: 'B2' } : e)),
+      [relation('r1', a.id, b.id)]
+    );
+
+    const result = merger.merge(base, merger.loadCurrentGraph(), theirs);
+    merger.applyMerge(merger.resolve(result, {}));
+
+    expect(graph.entities.listEntities().map(e => `${e.name}: ${e.description ?? ''}`).sort()).toEqual(['A: ours', 'B2: ']);
+    expect(graph.relations.getAllRelations()).toHaveLength(1);
+
+    graph.history.undo();
+
+    expect(graph.entities.listEntities().map(e => e.name).sort()).toEqual(['A', 'B']);
+    expect(graph.entities.getEntity(a.id)?.description).toBe('ours');
+    expect(graph.relations.getAllRelations()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GraphTextStore } from '../../src/services/graphTextStore';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+
+describe('GraphTextStore', () => {
+  let graph: TestGraph;
+  let store: GraphTextStore;
+
+  beforeEach(async () => {
+    graph = await createGraph();
+    store = new GraphTextStore(graph.db, graph.entities, graph.relations, graph.observations);
+  });
+
+  afterEach(() => {
+    store.dispose();
+    removeGraph(graph);
+  });
+
+  /**
+   * 覆盖 knowledgeGraph.textStorage 下的设置
+   */
+  const useSettings = (settings: Record<string, unknown>) =>
+    vi.spyOn(vscode.workspace, 'getConfiguration').mockReturnValue({
+      get: (key: string, defaultValue?: unknown) => (key in settings ? settings[key] : defaultValue),
+    } as unknown as vscode.WorkspaceConfiguration);
+
+  const snapshot = () => ({
+    entities: graph.entities.listEntities(),
+    relations: graph.relations.getAllRelations(),
+    observations: graph.observations.listAllObservations(),
+  });
+
+  const seed = () => {
+    const a = graph.entities.createEntity('UserService', 'class', { filePath: 'src/user.ts', startLine: 3, endLine: 20 }, 'Handles users');
+    const b = graph.entities.createEntity('Database', 'class', { filePath: 'src/db.ts', startLine: 1, endLine: 9 });
+    graph.relations.addRelation(a.id, b.id, 'uses', { reason: 'persistence', weight: 2 });
+    graph.observations.addObservation(a.id, 'Validate "email" first');
+    graph.observations.addObservation(a.id, 'Add caching', { kind: 'todo', tags: ['perf'], severity: 'low' });
+    return { a, b };
+  };
+
+  const writeTextFile = (relativePath: string, content: string) => {
+    const file = path.join(store.getRootDir(), relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+
+  it('应该从 JSONL 文件还原相同的手动图谱', () => {
+    seed();
+    const before = snapshot();
+
+    store.writeFiles();
+    graph.db.clearManualGraph();
+    const result = store.rebuildFromFiles();
+
+    expect(result).toEqual({ entities: 2, skippedRelations: 0, skippedObservations: 0 });
+    expect(snapshot()).toEqual(before);
+  });
+
+  it('应该按类型写入 YAML 文件并还原相同的手动图谱', () => {
+    useSettings({ format: 'yaml', layout: 'type' });
+    seed();
+    const before = snapshot();
+
+    store.writeFiles();
+    const content = fs.readFileSync(path.join(store.getRootDir(), 'types', 'class.yaml'), 'utf-8');
+    graph.db.clearManualGraph();
+    store.rebuildFromFiles();
+
+    expect(fs.readdirSync(store.getRootDir())).toEqual(['types']);
+    expect(content).toMatch(/^- kind: "entity"\n {2}id: "/);
+    expect(content).toContain('  metadata: {"reason":"persistence","weight":2}');
+    expect(snapshot()).toEqual(before);
+  });
+
+  it('应该只改写有变化的文件并删除多余的文件', () => {
+    const { a, b } = seed();
+    store.writeFiles();
+    const files = fs.readdirSync(path.join(store.getRootDir(), 'entities')).sort();
+    expect(files).toHaveLength(2);
+    const bFile = files.find(name => name.startsWith('Database-'))!;
+    const bPath = path.join(store.getRootDir(), 'entities', bFile);
+    const past = new Date(0);
+    fs.utimesSync(bPath, past, past);
+
+    graph.entities.updateEntity(a.id, { description: 'changed' });
+    store.writeFiles();
+    expect(fs.statSync(bPath).mtimeMs).toBe(0);
+
+    graph.entities.deleteEntity(b.id);
+    store.writeFiles();
+    expect(fs.existsSync(bPath)).toBe(false);
+  });
+
+  it('应该跳过引用缺失实体的关系和观察记录并给出警告', () => {
+    writeTextFile('entities/a.jsonl', [
+      '{"kind":"entity","id":"a","name":"A","type":"class","filePath":"src/a.ts","startLine":1,"endLine":1,"createdAt":1,"updatedAt":1}',
+      '{"kind":"relation","id":"r1","sourceEntityId":"a","targetEntityId":"deleted","verb":"uses","createdAt":1}',
+      '{"kind":"observation","id":"o1","entityId":"deleted","content":"orphan","createdAt":1,"updatedAt":1}',
+      '{"kind":"observation","id":"o2","entityId":"a","content":"kept","createdAt":1,"updatedAt":1}',
+    ].join('\n'));
+
+    const result = store.rebuildFromFiles();
+    const { message, warning } = store.describeRebuild(result);
+
+    expect(result).toEqual({ entities: 1, skippedRelations: 1, skippedObservations: 1 });
+    expect(graph.observations.listAllObservations().map(o => o.content)).toEqual(['kept']);
+    expect(warning).toBe(true);
+    expect(message.split('\n')).toHaveLength(3);
+    expect(store.describeRebuild({ entities: 1, skippedRelations: 0, skippedObservations: 0 }).warning).toBe(false);
+  });
+
+  it('应该报告解析失败的文件和行号，并保留数据库', () => {
+    seed();
+    writeTextFile('entities/broken.yaml', '- kind: "entity"\nid: "x"\n');
+
+    expect(() => store.rebuildFromFiles()).toThrow('entities/broken.yaml: line 2: unexpected indentation');
+    expect(graph.entities.getEntityCount()).toBe(2);
+  });
+});
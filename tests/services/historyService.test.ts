@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Entity } from '../../src/utils/types';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+
+describe('HistoryService', () => {
+  let graph: TestGraph;
+
+  beforeEach(async () => {
+    graph = await createGraph();
+  });
+
+  afterEach(() => {
+    removeGraph(graph);
+  });
+
+  const createEntity = (name: string): Entity =>
+    graph.entities.createEntity(name, 'class', { filePath: `src/${name}.ts`, startLine: 1, endLine: 1 });
+
+  /** 不经过 HistoryService 直接写入（其他工具或旧版本插件的修改） */
+  const insertUnrecorded = (entity: Entity) =>
+    graph.db.getDatabase().run(
+      `INSERT INTO entities (id, name, type, file_path, start_line, end_line, created_at, updated_at)
+       VALUES (?, ?, 'class', ?, 1, 1, 0, 0)`,
+      [entity.id, entity.name, entity.filePath]
+    );
+
+  it('应该撤销和重做实体更新', () => {
+    const a = createEntity('A');
+    graph.entities.updateEntity(a.id, { description: 'first' });
+    graph.entities.updateEntity(a.id, { description: 'second' });
+
+    graph.history.undo();
+    expect(graph.entities.getEntity(a.id)?.description).toBe('first');
+    expect(graph.history.canRedo()).toBe(true);
+
+    graph.history.redo();
+    expect(graph.entities.getEntity(a.id)?.description).toBe('second');
+    expect(graph.history.canRedo()).toBe(false);
+  });
+
+  it('撤销实体删除时应该一起恢复级联删除的观察记录和关系', () => {
+    const a = createEntity('A');
+    const b = createEntity('B');
+    graph.relations.addRelation(b.id, a.id, 'uses');
+    graph.observations.addObservation(a.id, 'note');
+
+    graph.entities.deleteEntity(a.id);
+    expect(graph.relations.getAllRelations()).toHaveLength(0);
+
+    const undone = graph.history.undo();
+
+    expect(undone?.map(entry => `${entry.table}:${entry.action}`)).toEqual([
+      'observations:delete',
+      'relations:delete',
+      'entities:delete',
+    ]);
+    expect(graph.entities.getEntity(a.id)).not.toBeNull();
+    expect(graph.observations.getObservations(a.id).map(o => o.content)).toEqual(['note']);
+    expect(graph.relations.getAllRelations().map(r => `${r.sourceEntityId} -> ${r.targetEntityId}`)).toEqual([`${b.id} -> ${a.id}`]);
+  });
+
+  it('撤销后的新修改应该使之前撤销的修改不可重做', () => {
+    const a = createEntity('A');
+    graph.history.undo();
+    createEntity('B');
+
+    expect(graph.history.canRedo()).toBe(false);
+    expect(graph.history.redo()).toBeNull();
+    expect(graph.entities.getEntity(a.id)).toBeNull();
+  });
+
+  it('不记录历史的清空应该使之前的修改不可撤销', () => {
+    createEntity('A');
+    createEntity('B');
+    graph.history.undo();
+
+    graph.db.clearManualGraph();
+
+    expect(graph.history.canUndo()).toBe(false);
+    expect(graph.history.canRedo()).toBe(false);
+  });
+
+  it('记录历史的清空应该可以整体撤销', () => {
+    createEntity('A');
+    createEntity('B');
+
+    graph.history.clearManualGraph();
+    graph.history.undo();
+
+    expect(graph.entities.listEntities().map(e => e.name).sort()).toEqual(['A', 'B']);
+    expect(graph.history.canUndo()).toBe(true);
+  });
+
+  it('撤销失败时应该回滚，并把该组及更早的修改标记为不可撤销', () => {
+    const a = createEntity('A');
+    const b = createEntity('B');
+    graph.entities.deleteEntity(b.id);
+    insertUnrecorded(b);
+
+    expect(() => graph.history.undo()).toThrow();
+
+    expect(graph.history.canUndo()).toBe(false);
+    expect(graph.entities.getEntity(a.id)).not.toBeNull();
+    // 失败的组没有被标记为已撤销
+    expect(graph.history.getEntityHistory(b.id).some(entry => entry.undone)).toBe(false);
+  });
+
+  it('重做失败时应该把该组及之后撤销的修改标记为不可重做', () => {
+    const a = createEntity('A');
+    createEntity('B');
+    graph.history.undo();
+    graph.history.undo();
+    insertUnrecorded(a);
+
+    expect(() => graph.history.redo()).toThrow();
+
+    expect(graph.history.canRedo()).toBe(false);
+    expect(graph.entities.listEntities().map(e => e.name)).toEqual(['A']);
+  });
+
+  it('实体历史应该包括指向它的关系', () => {
+    const a = createEntity('A');
+    const b = createEntity('B');
+    const relation = graph.relations.addRelation(a.id, b.id, 'uses');
+    graph.relations.removeRelation(relation.id);
+
+    const history = graph.history.getEntityHistory(b.id);
+
+    expect(history.map(entry => `${entry.table}:${entry.action}`)).toEqual([
+      'relations:delete',
+      'relations:create',
+      'entities:create',
+    ]);
+    expect(history[0].entityId).toBe(a.id);
+  });
+});
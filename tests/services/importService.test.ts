@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImportService } from '../../src/services/importService';
+import { ExportService } from '../../src/services/exportService';
+import { GraphExportData } from '../../src/utils/types';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+
+describe('ImportService', () => {
+  let graph: TestGraph;
+  let importer: ImportService;
+
+  beforeEach(async () => {
+    graph = await createGraph();
+    importer = new ImportService(graph.db, graph.entities, graph.relations, graph.observations, graph.history);
+  });
+
+  afterEach(() => {
+    removeGraph(graph);
+  });
+
+  /**
+   * 创建 A -uses-> B 和 A 上的一条观察记录，并导出为文件
+   */
+  async function seedAndExport() {
+    const a = graph.entities.createEntity('A', 'class', { filePath: 'src/a.ts', startLine: 1, endLine: 5 });
+    const b = graph.entities.createEntity('B', 'class', { filePath: 'src/b.ts', startLine: 1, endLine: 5 });
+    graph.relations.addRelation(a.id, b.id, 'uses');
+    const note = graph.observations.addObservation(a.id, 'original note');
+
+    const file = path.join(graph.root, 'export.json');
+    await new ExportService(graph.entities, graph.relations, graph.observations).exportToJSON(file);
+    return { a, b, note, data: importer.readExportFile(file) };
+  }
+
+  it('应该在重新导入相同内容时全部跳过', async () => {
+    const { data } = await seedAndExport();
+
+    const plan = importer.buildPlan(data, 'merge-id');
+
+    expect(plan.entities.added).toHaveLength(0);
+    expect(plan.entities.updated).toHaveLength(0);
+    expect(plan.entities.skipped.map(s => s.reason)).toEqual(['unchanged', 'unchanged']);
+    expect(plan.relations.skipped.map(s => s.reason)).toEqual(['duplicate']);
+    expect(plan.observations.skipped.map(s => s.reason)).toEqual(['unchanged']);
+    expect(plan.conflicts).toHaveLength(0);
+  });
+
+  describe('observation conflicts', () => {
+    it('keep-existing 应该保留本地内容', async () => {
+      const { note, data } = await seedAndExport();
+      graph.observations.updateObservation(note.id, 'local edit');
+
+      const plan = importer.buildPlan(data, 'merge-id', 'keep-existing');
+      importer.applyPlan(plan);
+
+      expect(plan.conflicts).toHaveLength(1);
+      expect(plan.observations.skipped.map(s => s.reason)).toEqual(['conflict']);
+      expect(graph.observations.getObservation(note.id)?.content).toBe('local edit');
+    });
+
+    it('use-imported 应该用导入内容覆盖', async () => {
+      const { note, data } = await seedAndExport();
+      graph.observations.updateObservation(note.id, 'local edit');
+
+      const plan = importer.buildPlan(data, 'merge-id', 'use-imported');
+      const result = importer.applyPlan(plan);
+
+      expect(result.observationsUpdated).toBe(1);
+      expect(graph.observations.getObservation(note.id)?.content).toBe('original note');
+    });
+
+    it('keep-both 应该以新 ID 保存导入内容', async () => {
+      const { a, note, data } = await seedAndExport();
+      graph.observations.updateObservation(note.id, 'local edit');
+
+      const plan = importer.buildPlan(data, 'merge-id', 'keep-both');
+      importer.applyPlan(plan);
+
+      expect(plan.observations.added).toHaveLength(1);
+      expect(plan.observations.added[0].id).not.toBe(note.id);
+      expect(graph.observations.getObservations(a.id).map(o => o.content).sort()).toEqual(['local edit', 'original note']);
+    });
+  });
+
+  it('merge-key 应该按 (name, type, filePath) 匹配实体并重映射关系端点', async () => {
+    const { a } = await seedAndExport();
+    const data = importer.normalizeExportData({
+      version: '1.0',
+      entities: [
+        { id: 'other-a', name: 'A', type: 'class', filePath: 'src/a.ts', startLine: 1, endLine: 5 },
+        { id: 'c', name: 'C', type: 'function', filePath: 'src/c.ts', startLine: 3 },
+        { id: 'c-copy', name: 'C', type: 'function', filePath: 'src/c.ts', startLine: 3 },
+      ],
+      relations: [
+        { id: 'r1', sourceEntityId: 'c-copy', targetEntityId: 'other-a', verb: 'calls' },
+        { id: 'r2', sourceEntityId: 'c', targetEntityId: 'missing', verb: 'calls' },
+      ],
+      observations: [{ id: 'o1', entityId: 'other-a', content: 'from another graph' }],
+    });
+
+    const plan = importer.buildPlan(data, 'merge-key');
+    importer.applyPlan(plan);
+
+    expect(plan.entities.added.map(e => e.id)).toEqual(['c']);
+    expect(plan.entities.skipped.map(s => s.reason)).toEqual(['unchanged', 'duplicate']);
+    expect(plan.relations.added.map(r => `${r.sourceEntityId} -> ${r.targetEntityId}`)).toEqual([`c -> ${a.id}`]);
+    expect(plan.relations.skipped.map(s => s.reason)).toEqual(['dangling']);
+    expect(graph.observations.getObservations(a.id).map(o => o.content)).toContain('from another graph');
+    // 旧版本导出的观察记录没有种类
+    expect(plan.observations.added[0].kind).toBe('note');
+  });
+
+  it('replace 应该清空手动图谱，并可以一次撤销', async () => {
+    const { data } = await seedAndExport();
+    const extra = graph.entities.createEntity('Extra', 'class', { filePath: 'src/extra.ts', startLine: 1, endLine: 1 });
+
+    const result = importer.applyPlan(importer.buildPlan(data, 'replace'));
+
+    expect(result).toMatchObject({ entitiesAdded: 2, relationsAdded: 1, observationsAdded: 1, skipped: 0 });
+    expect(graph.entities.getEntity(extra.id)).toBeNull();
+    expect(graph.entities.getEntityCount()).toBe(2);
+
+    graph.history.undo();
+
+    expect(graph.entities.getEntity(extra.id)).not.toBeNull();
+    expect(graph.entities.getEntityCount()).toBe(3);
+  });
+
+  it('应该拒绝不支持的导出版本', () => {
+    const data: Partial<GraphExportData> = { version: '2.0', entities: [], relations: [], observations: {} };
+
+    expect(() => importer.normalizeExportData(data)).toThrow('Unsupported export version: "2.0"');
+    expect(() => importer.normalizeExportData([])).toThrow('JSON object');
+  });
+
+  it('应该报告无效的 JSON', () => {
+    const file = path.join(graph.root, 'broken.json');
+    fs.writeFileSync(file, '{ "version": ');
+
+    expect(() => importer.readExportFile(file)).toThrow(/^Invalid JSON/);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SearchService } from '../../src/services/searchService';
+import { Entity } from '../../src/utils/types';
+import { GraphQuerySyntaxError } from '../../packages/mcp-server/src/schema/graphQuery';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+
+describe('SearchService', () => {
+  let graph: TestGraph;
+  let search: SearchService;
+
+  beforeEach(async () => {
+    graph = await createGraph();
+    search = new SearchService(graph.db, graph.entities, graph.relations, graph.observations);
+  });
+
+  afterEach(() => {
+    removeGraph(graph);
+  });
+
+  const create = (name: string, type: string, filePath: string, description?: string): Entity =>
+    graph.entities.createEntity(name, type, { filePath, startLine: 1, endLine: 1 }, description);
+
+  const namesOf = (query: string) => search.search(query).map(result => result.entity.name);
+
+  describe('search', () => {
+    let cache: Entity;
+
+    beforeEach(() => {
+      cache = create('SessionCache', 'class', 'src/cache/session.ts', 'Keeps user sessions in memory');
+      create('UserService', 'class', 'src/user/service.ts', 'Loads accounts');
+      create('AuditLog', 'class', 'src/audit.ts', 'Writes an audit trail');
+      graph.observations.addObservation(cache.id, 'Evicts the least recently used session first');
+    });
+
+    it('应该按前缀匹配，并把名称命中排在描述命中之前', () => {
+      const results = search.search('user');
+
+      expect(results.map(r => r.entity.name)).toEqual(['UserService', 'SessionCache']);
+      expect(results[0].matchedFields).toEqual(['name', 'path']);
+      expect(results[1].matchedFields).toEqual(['description']);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+
+    it('命中观察记录的实体应该返回命中的观察记录，并累加得分', () => {
+      const [result] = search.search('recently');
+
+      expect(result.entity.id).toBe(cache.id);
+      expect(result.matchedFields).toEqual(['content']);
+      expect(result.observations?.map(o => o.content)).toEqual(['Evicts the least recently used session first']);
+      expect(result.highlight).toContain('«recently»');
+
+      const both = search.search('session').find(r => r.entity.id === cache.id)!;
+      const nameOnly = search.search('name:session').find(r => r.entity.id === cache.id)!;
+      expect(both.matchedFields).toEqual(['name', 'description', 'content', 'path']);
+      expect(both.score).toBeGreaterThan(nameOnly.score);
+    });
+
+    it('应该支持字段限定、短语和 OR', () => {
+      expect(namesOf('description:audit')).toEqual(['AuditLog']);
+      expect(namesOf('path:cache')).toEqual(['SessionCache']);
+      expect(namesOf('"audit trail"')).toEqual(['AuditLog']);
+      expect(namesOf('"trail audit"')).toEqual([]);
+      expect(namesOf('accounts OR audit').sort()).toEqual(['AuditLog', 'UserService']);
+    });
+
+    it('应该按别名搜索，并随实体的修改和删除更新索引', () => {
+      const user = graph.entities.findEntityByName('UserService')!;
+      graph.entities.updateEntity(user.id, { aliases: ['AccountManager'] });
+
+      expect(search.search('accountmanager')[0]).toMatchObject({ entity: { name: 'UserService' }, matchedFields: ['aliases'] });
+
+      graph.entities.deleteEntity(user.id);
+
+      expect(namesOf('accountmanager')).toEqual([]);
+    });
+
+    it('全文检索没有结果时应该回退到子串匹配', () => {
+      create('订单服务', 'class', 'src/order.ts');
+
+      const [result] = search.search('服务');
+
+      expect(result).toMatchObject({ entity: { name: '订单服务' }, score: 0, matchedFields: ['name'], highlight: '订单«服务»' });
+    });
+
+    it('应该限制返回数量，并忽略没有可检索词的查询', () => {
+      expect(search.search('s', 1)).toHaveLength(1);
+      expect(search.search('" : *')).toEqual([]);
+    });
+  });
+
+  it('searchObservations 应该按相关度排序', () => {
+    const entity = create('Worker', 'class', 'src/worker.ts');
+    graph.observations.addObservation(entity.id, 'Retries failed jobs with backoff and logs the retry count');
+    graph.observations.addObservation(entity.id, 'Retry retry retry: jobs are retried up to five times');
+    graph.observations.addObservation(entity.id, 'Runs in a separate thread');
+
+    const contents = graph.observations.searchObservations('retry').map(o => o.content);
+
+    expect(contents).toEqual([
+      'Retry retry retry: jobs are retried up to five times',
+      'Retries failed jobs with backoff and logs the retry count',
+    ]);
+  });
+
+  describe('queryGraph', () => {
+    beforeEach(() => {
+      const api = create('ApiController', 'service', 'src/api/users.ts');
+      const auth = create('AuthService', 'service', 'src/services/auth.ts');
+      const repository = create('UserRepository', 'class', 'src/db/users.ts');
+      const database = create('Database', 'class', 'src/db/index.ts');
+      graph.entities.updateEntity(repository.id, { aliases: ['UserRepo'] });
+
+      graph.relations.addRelation(api.id, auth.id, 'uses', { weight: 3 });
+      graph.relations.addRelation(auth.id, repository.id, 'uses');
+      graph.relations.addRelation(repository.id, database.id, 'uses');
+      graph.relations.addRelation(api.id, repository.id, 'calls');
+      graph.observations.addObservation(auth.id, 'Tokens are not rotated', { kind: 'security', tags: ['auth'], severity: 'high' });
+      graph.observations.addObservation(database.id, 'Connection pool size is fixed');
+    });
+
+    const query = (text: string) => search.queryGraph(text).map(entity => entity.name);
+
+    it('应该按字段、关系遍历和观察记录条件查询', () => {
+      expect(query('type:service path:src/api out:uses(obs(kind:security severity>=high))')).toEqual(['ApiController']);
+      expect(query('out:uses[weight>=2]')).toEqual(['ApiController']);
+      expect(query('out:uses*3(name:Database)')).toEqual(['ApiController', 'AuthService', 'UserRepository']);
+      expect(query('in:calls OR name:Data*')).toEqual(['Database', 'UserRepository']);
+    });
+
+    it('应该按别名匹配不带字段的词', () => {
+      expect(query('UserRepo')).toEqual(['UserRepository']);
+    });
+
+    it('应该支持聚合条件', () => {
+      expect(query('count(obs) = 0')).toEqual(['ApiController', 'UserRepository']);
+      expect(query('count(out) >= 2')).toEqual(['ApiController']);
+      // 没有种类的观察记录视为 note
+      expect(query('count(obs(kind:note)) = 1')).toEqual(['Database']);
+    });
+
+    it('应该在语法错误时抛出带位置的错误', () => {
+      expect(() => search.queryGraph('out:uses(type:class')).toThrow(GraphQuerySyntaxError);
+      expect(() => search.queryGraph('type:class )')).toThrow(expect.objectContaining({ position: 11 }));
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { StaleKnowledgeService } from '../../src/services/staleKnowledgeService';
+import { ObservationService } from '../../src/services/observationService';
+import { withAnchor } from '../../src/utils/codeAnchor';
+import { Entity } from '../../src/utils/types';
+import { TestGraph, createGraph, removeGraph } from '../helpers/graph';
+
+const SOURCE = [
+  'export function applyDiscount(order: Order, code: string): number {',
+  '  const rule = rules.find(r => r.code === code);',
+  '  if (!rule || rule.expiresAt < Date.now()) {',
+  '    return order.total;',
+  '  }',
+  '  return Math.max(order.total - rule.amount, 0);',
+  '}',
+].join('\n');
+
+const REWRITTEN = [
+  'export function applyDiscount(order: Order, code: string): number {',
+  '  const campaign = campaigns.lookup(code);',
+  '  const percent = campaign ? campaign.percent / 100 : 0;',
+  '  const discounted = order.items.reduce((sum, item) => sum + item.price * (1 - percent), 0);',
+  '  metrics.increment("discount.applied");',
+  '  return Math.round(discounted * 100) / 100;',
+  '}',
+].join('\n');
+
+describe('StaleKnowledgeService', () => {
+  let graph: TestGraph;
+  let stale: StaleKnowledgeService;
+  let observations: ObservationService;
+  let diagnostics: ReturnType<typeof vscode.languages.createDiagnosticCollection>;
+  let entity: Entity;
+
+  const writeSource = (content: string) => fs.writeFileSync(path.join(graph.root, 'src', 'discount.ts'), content);
+
+  beforeEach(async () => {
+    graph = await createGraph({ 'src/discount.ts': SOURCE });
+    diagnostics = vscode.languages.createDiagnosticCollection('test');
+    vi.spyOn(vscode.languages, 'createDiagnosticCollection').mockReturnValue(diagnostics);
+
+    const folder = { uri: vscode.Uri.file(graph.root), name: 'ws', index: 0 } as vscode.WorkspaceFolder;
+    stale = new StaleKnowledgeService(folder, graph.db, graph.entities, graph.observations);
+    observations = new ObservationService(graph.db, graph.entities, graph.history, e => stale.getCodeHash(e));
+
+    entity = graph.entities.createEntity('applyDiscount', 'function', { filePath: 'src/discount.ts', startLine: 1, endLine: 7 });
+  });
+
+  afterEach(() => {
+    stale.dispose();
+    removeGraph(graph);
+  });
+
+  it('观察记录应该记录实体代码的哈希', () => {
+    const observation = observations.addObservation(entity.id, 'Expired codes fall back to the full price');
+
+    expect(observation.codeHash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('代码显著变化后应该报告过期的观察记录并显示诊断信息', () => {
+    const changed = vi.fn();
+    stale.onDidChange(changed);
+    const observation = observations.addObservation(entity.id, 'Expired codes fall back to the full price');
+
+    writeSource(REWRITTEN);
+    stale.refresh();
+
+    expect(stale.getStaleObservations().map(item => item.observation.id)).toEqual([observation.id]);
+    expect(stale.getStaleObservations()[0].distance).toBeGreaterThanOrEqual(10);
+    expect(changed).toHaveBeenCalledTimes(1);
+
+    const [diagnostic] = diagnostics.get(vscode.Uri.file(path.join(graph.root, 'src', 'discount.ts')))!;
+    expect(diagnostic.code).toBe('stale-knowledge');
+    expect(diagnostic.range.start.line).toBe(0);
+    expect(diagnostic.range.end.line).toBe(6);
+  });
+
+  it('格式和注释的修改不应该视为过期', () => {
+    observations.addObservation(entity.id, 'Expired codes fall back to the full price');
+
+    writeSource(SOURCE.replace(/ {2}/g, '\t').replace('return order.total;', 'return order.total; // keep the full price'));
+    stale.refresh();
+
+    expect(stale.getStaleObservations()).toHaveLength(0);
+  });
+
+  it('确认观察记录后应该不再报告', () => {
+    const observation = observations.addObservation(entity.id, 'Expired codes fall back to the full price');
+    writeSource(REWRITTEN);
+    stale.refresh();
+    expect(stale.getStaleObservations()).toHaveLength(1);
+
+    observations.confirmObservation(observation.id);
+    stale.refresh();
+
+    expect(stale.getStaleObservations()).toHaveLength(0);
+  });
+
+  it('文件不存在或实体已孤立时不应该报告', () => {
+    observations.addObservation(entity.id, 'Expired codes fall back to the full price');
+    fs.unlinkSync(path.join(graph.root, 'src', 'discount.ts'));
+    stale.refresh();
+    expect(stale.getStaleObservations()).toHaveLength(0);
+
+    writeSource(REWRITTEN);
+    graph.entities.overwriteEntity({
+      ...entity,
+      metadata: withAnchor(entity.metadata, { fingerprint: '0', signature: '', orphaned: true }),
+    });
+    stale.refresh();
+    expect(stale.getStaleObservations()).toHaveLength(0);
+  });
+});
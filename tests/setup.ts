@@ -0,0 +1,6 @@
+import { afterEach, vi } from 'vitest';
+
+// 每个用例结束后还原 spy / mock
+afterEach(() => {
+  vi.restoreAllMocks();
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import {
+  EntityAnchor,
+  createAnchor,
+  fingerprintLines,
+  locateAnchor,
+  withAnchor,
+} from '../../src/utils/codeAnchor';
+import { CodeLocation } from '../../src/utils/types';
+import { createDocument, createSymbol } from '../helpers/document';
+
+const SOURCE = [
+  "import { db } from './db';",
+  '',
+  'export function loadUser(id: string) {',
+  '  const user = db.find(id);',
+  '  return user;',
+  '}',
+  '',
+  'export function saveUser(user: User) {',
+  '  db.save(user);',
+  '}',
+].join('\n');
+
+const LOCATION: CodeLocation = { filePath: 'src/user.ts', startLine: 3, endLine: 6 };
+
+describe('codeAnchor', () => {
+  const anchorOf = (text: string): EntityAnchor =>
+    createAnchor(createDocument('/ws/src/user.ts', text), LOCATION.startLine, LOCATION.endLine, []);
+
+  const locate = (text: string, symbols: vscode.DocumentSymbol[] = []) =>
+    locateAnchor(createDocument('/ws/src/user.ts', text), LOCATION, anchorOf(SOURCE), symbols);
+
+  it('应该从代码中提取符号名、指纹和首行签名', () => {
+    const anchor = anchorOf(SOURCE);
+
+    expect(anchor.symbol).toBe('loadUser');
+    expect(anchor.signature).toBe('export function loadUser(id: string) {');
+    expect(anchor.fingerprint).toHaveLength(16);
+  });
+
+  it('指纹应该忽略缩进和空行', () => {
+    expect(fingerprintLines(['a(', '  b', ')'])).toBe(fingerprintLines(['a(', '', '      b', ')']));
+    expect(fingerprintLines(['a(b)'])).not.toBe(fingerprintLines(['a(c)']));
+  });
+
+  it('内容未变化时应该保持原位置', () => {
+    expect(locate(SOURCE)).toEqual(LOCATION);
+  });
+
+  it('代码整体移动后应该找到新位置', () => {
+    const moved = ['// header', '// more', '', SOURCE].join('\n');
+
+    expect(locate(moved)).toEqual({ ...LOCATION, startLine: 6, endLine: 9 });
+  });
+
+  it('代码被修改时应该跟随同名符号的新范围', () => {
+    const edited = SOURCE.replace('  return user;', '  console.log(user);\n  return user;');
+    const symbols = [createSymbol('loadUser', 3, 7), createSymbol('saveUser', 9, 11)];
+
+    expect(locate(edited, symbols)).toEqual({ ...LOCATION, startLine: 3, endLine: 7 });
+  });
+
+  it('没有符号时应该按相似的首行签名定位', () => {
+    const renamed = ['// moved', SOURCE.replace('loadUser(id: string)', 'loadUser(userId: string)').replace('find(id)', 'find(userId)')].join('\n');
+
+    expect(locate(renamed)).toEqual({ ...LOCATION, startLine: 4, endLine: 7 });
+  });
+
+  it('代码被删除时应该返回 null，不匹配结构相似的其他函数', () => {
+    const deleted = SOURCE.split('\n').filter((_, i) => i < 2 || i > 6).join('\n');
+
+    expect(locate(deleted)).toBeNull();
+  });
+
+  it('写回锚点时应该保留其他元数据，只在孤立时记录 orphaned', () => {
+    const anchor = anchorOf(SOURCE);
+
+    expect(withAnchor({ owner: 'team' }, { ...anchor, orphaned: false })).toEqual({
+      owner: 'team',
+      anchor: { symbol: anchor.symbol, fingerprint: anchor.fingerprint, signature: anchor.signature },
+    });
+    expect(withAnchor(undefined, { ...anchor, orphaned: true }).anchor).toMatchObject({ orphaned: true });
+  });
+});